@@ -1,5 +1,10 @@
 import { runExtract } from '../commands/extract';
 import { importCommand } from '../commands/import';
+import { pruneCommand } from '../commands/prune';
+import { detectCommand } from '../commands/detect';
+import { parserTestCommand, printParserHelp } from '../commands/parser';
+import { auditCommand } from '../commands/audit';
+import { lintCommand } from '../commands/lint';
 import { translateCommand } from '../commands/translate';
 import { projectsCommand, printProjectsHelp } from '../commands/projects';
 import { authLoginCommand } from '../commands/auth/login';
@@ -54,10 +59,27 @@ async function handleProjectsNamespace(args: string[]): Promise<void> {
   process.exitCode = 1;
 }
 
+async function handleParserNamespace(args: string[]): Promise<void> {
+  if (args.length === 0 || args.some(isHelpFlag)) {
+    printParserHelp();
+    return;
+  }
+
+  globalLogger.error(`Unknown parser command: ${args[0]}`);
+  printParserHelp();
+  process.exitCode = 1;
+}
+
 const commandMap: Record<string, CommandHandler> = {
   extract: async (args) => runExtract(args),
   translate: async (args) => translateCommand(args),
   import: async (args) => importCommand(args),
+  prune: async (args) => pruneCommand(args),
+  detect: async (args) => detectCommand(args),
+  audit: async (args) => auditCommand(args),
+  lint: async (args) => lintCommand(args),
+  parser: async (args) => handleParserNamespace(args),
+  'parser test': async (args) => parserTestCommand(args),
   'projects select': async (args) => projectsCommand(args),
   projects: async (args) => handleProjectsNamespace(args),
   auth: async (args) => handleAuthNamespace(args),
@@ -99,6 +121,11 @@ Commands:
   extract                Find missing translations
   translate              Translate CSV using AI
   import                 Import translated CSV
+  prune                  Remove keys deleted from the source language
+  detect                 Find translation files, parser and languages
+  audit                  Report orphaned, unused and undefined keys
+  lint                   Check translations for broken placeholders and markup
+  parser test            Check a custom parser against a fixture
 `);
 }
 
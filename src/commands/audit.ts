@@ -0,0 +1,335 @@
+/**
+ * Audit Command
+ *
+ * Report orphaned target keys, unused source keys and undefined keys used in code,
+ * as text or JSON, so dead strings can be cleaned up.
+ */
+
+import { existsSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { resolveParserSelection } from '../config/parser-config';
+import { getAvailableParsers } from '../parsers';
+import { validateLayout } from '../parsers/language-path';
+import { loadParser, setParserOption } from '../parsers/parser-loader';
+import {
+  DEFAULT_TRANSLATION_FUNCTIONS,
+  runAudit as runAuditService,
+} from '../services/audit-service';
+import { applyDetection, formatCandidates } from '../services/detection-service';
+import type { AuditCommandResult, AuditConfig, AuditResult, ParserOptions } from '../types';
+
+/** Output formats of the report */
+const AUDIT_FORMATS = ['text', 'json'] as const;
+
+/**
+ * Audit command arguments
+ */
+export interface AuditArgs {
+  repoPath: string;
+  source: string;
+  targets: string[];
+  translationsDir: string;
+  parser: string;
+  layout: string;
+  extensions: string[];
+  functions: string[];
+  format: string;
+  output: string;
+  parserOptions: ParserOptions;
+  help: boolean;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse audit command arguments
+ */
+export function parseAuditArgs(args: string[]): AuditArgs {
+  const result: AuditArgs = {
+    repoPath: '',
+    source: '',
+    targets: [],
+    translationsDir: '',
+    parser: '',
+    layout: '',
+    extensions: ['.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte', '.html'],
+    functions: DEFAULT_TRANSLATION_FUNCTIONS,
+    format: 'text',
+    output: '',
+    parserOptions: {},
+    help: false,
+  };
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+
+    if (arg === '-h' || arg === '--help') {
+      result.help = true;
+    } else if (arg === '-s' || arg === '--source') {
+      result.source = args[++i] || '';
+    } else if (arg === '-t' || arg === '--target') {
+      result.targets.push(...splitList(args[++i] || ''));
+    } else if (arg === '-d' || arg === '--translations-dir') {
+      result.translationsDir = args[++i] || '';
+    } else if (arg === '-p' || arg === '--parser') {
+      result.parser = args[++i] || '';
+    } else if (arg === '-l' || arg === '--layout') {
+      result.layout = args[++i] || '';
+    } else if (arg === '-e' || arg === '--extensions') {
+      result.extensions = splitList(args[++i] || '');
+    } else if (arg === '--functions') {
+      result.functions = splitList(args[++i] || '');
+    } else if (arg === '-f' || arg === '--format') {
+      result.format = args[++i] || '';
+    } else if (arg === '-o' || arg === '--output') {
+      result.output = args[++i] || '';
+    } else if (arg === '--allow-eval') {
+      result.parserOptions.allowEval = true;
+    } else if (arg === '--include-index') {
+      result.parserOptions.includeIndex = true;
+    } else if (arg === '--parser-option') {
+      setParserOption(result.parserOptions, args[++i] || '');
+    } else if (!arg?.startsWith('-') && !result.repoPath) {
+      result.repoPath = arg || '';
+    }
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Validate audit command arguments
+ */
+export function validateAuditArgs(args: AuditArgs): string | null {
+  const repoPath = resolve(args.repoPath || '.');
+  if (!existsSync(repoPath)) {
+    return `Repository path does not exist: ${repoPath}`;
+  }
+
+  if (!args.source) {
+    return 'Source language (-s) is required';
+  }
+
+  if (args.targets.includes(args.source)) {
+    return 'Target languages must not include the source language';
+  }
+
+  if (!(AUDIT_FORMATS as readonly string[]).includes(args.format)) {
+    return `Unknown format: ${args.format} (expected ${AUDIT_FORMATS.join(' or ')})`;
+  }
+
+  if (args.translationsDir) {
+    const translationsPath = join(repoPath, args.translationsDir);
+    if (!existsSync(translationsPath)) {
+      return `Translations directory not found: ${translationsPath}`;
+    }
+  }
+
+  if (args.layout) {
+    return validateLayout(args.layout);
+  }
+
+  return null;
+}
+
+/**
+ * Print audit command help
+ */
+export function printAuditHelp(): void {
+  const parsers = getAvailableParsers().join(', ');
+  console.log(`
+curlydots audit - Report orphaned, unused and undefined translation keys
+
+USAGE:
+  curlydots audit [repo-path] -s <lang> [options]
+
+ARGUMENTS:
+  [repo-path]    Repository to audit [default: current directory]
+
+OPTIONS:
+  -s, --source <lang>            Source language code (required)
+  -t, --target <langs>           Target languages to check for orphaned keys, comma-separated
+                                 [default: the other detected languages]
+  -d, --translations-dir <path>  Translations directory relative to repo [default: detected]
+  -p, --parser <name>            Parser name, parser file or npm package
+                                 [default: detected, else node-module]
+  -l, --layout <template>        Language path template relative to translations dir
+                                 (e.g., "{lang}.json") [default: {lang}/]
+  -e, --extensions <list>        File extensions to search
+                                 [default: .js,.ts,.jsx,.tsx,.vue,.svelte,.html]
+  --functions <list>             Translation functions whose keys are checked
+                                 [default: ${DEFAULT_TRANSLATION_FUNCTIONS.join(',')}]
+  -f, --format <format>          Report format: text or json [default: text]
+  -o, --output <path>            Write the report to a file instead of stdout
+  --allow-eval                   Execute translation modules instead of reading them
+                                 statically (node-module; trusted repositories only)
+  --include-index                Read index.js files instead of skipping them as re-exports
+  --parser-option <key=value>    Option passed to the parser (repeatable)
+  -h, --help                     Show this help message
+
+REPORT:
+  orphaned    Target keys that do not exist in the source language (see prune)
+  unused      Source keys not found anywhere in the code
+  undefined   Keys passed to translation functions, e.g. t('auth.login'), that the
+              source language does not define (dynamic keys are skipped)
+
+PARSERS:
+  ${parsers}
+
+EXAMPLES:
+  curlydots audit ./my-app -s en -t de,fr -d src/translations
+  curlydots audit -s en --format json -o audit.json
+  curlydots audit ./my-app -s en --functions t,i18n.translate
+`);
+}
+
+/**
+ * Run audit command
+ */
+export async function runAudit(config: AuditConfig): Promise<AuditCommandResult> {
+  try {
+    const selection = resolveParserSelection(
+      config.parser,
+      config.parserOptions ?? {},
+      config.repoPath,
+    );
+    const parser = await loadParser(selection.parser, selection.parserOptions, config.repoPath);
+
+    const summary = await runAuditService(
+      config.repoPath,
+      join(config.repoPath, config.translationsDir),
+      config.sourceLanguage,
+      config.targetLanguages,
+      parser,
+      { layout: config.layout, extensions: config.extensions, functions: config.functions },
+    );
+
+    return {
+      success: true,
+      summary,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Format an audit report for the terminal
+ */
+export function formatAuditReport(report: AuditResult): string {
+  const targets = report.targetLanguages.length > 0 ? report.targetLanguages.join(', ') : 'none';
+  const lines = [`Audit of ${report.sourceLanguage} (targets: ${targets})`];
+
+  const orphaned = Object.entries(report.orphanedKeys).flatMap(([language, keys]) =>
+    keys.map((key) => `  ${language}: ${key}`),
+  );
+  if (orphaned.length > 0) {
+    lines.push('', `Orphaned target keys (${orphaned.length}):`, ...orphaned);
+  }
+
+  if (report.unusedKeys.length > 0) {
+    lines.push(
+      '',
+      `Unused source keys (${report.unusedKeys.length}):`,
+      ...report.unusedKeys.map((key) => `  ${key}`),
+    );
+  }
+
+  if (report.undefinedKeys.length > 0) {
+    lines.push(
+      '',
+      `Undefined keys used in code (${report.undefinedKeys.length}):`,
+      ...report.undefinedKeys.map(
+        (reference) => `  ${reference.filePath}:${reference.lineNumber}  ${reference.key}`,
+      ),
+    );
+  }
+
+  if (
+    orphaned.length === 0 &&
+    report.unusedKeys.length === 0 &&
+    report.undefinedKeys.length === 0
+  ) {
+    lines.push('', '✅ No orphaned, unused or undefined keys');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Main entry point for audit command
+ */
+export async function auditCommand(args: string[]): Promise<void> {
+  const parsedArgs = parseAuditArgs(args);
+
+  if (parsedArgs.help) {
+    printAuditHelp();
+    return;
+  }
+
+  const validationError = validateAuditArgs(parsedArgs);
+  if (validationError) {
+    console.error(`Error: ${validationError}\n`);
+    printAuditHelp();
+    process.exit(1);
+  }
+
+  // Progress goes to stderr, so JSON on stdout stays parseable
+  const repoPath = resolve(parsedArgs.repoPath || '.');
+  try {
+    const detected = await applyDetection(repoPath, parsedArgs);
+    if (detected.candidate) {
+      console.error(`Detected translations:\n${formatCandidates([detected.candidate])}\n`);
+      if (parsedArgs.targets.length === 0) {
+        parsedArgs.targets = detected.candidate.languages.filter(
+          (language) => language !== parsedArgs.source,
+        );
+      }
+    }
+    parsedArgs.translationsDir = detected.translationsDir;
+    parsedArgs.parser = detected.parser;
+    parsedArgs.layout = detected.layout;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+
+  const result = await runAudit({
+    repoPath,
+    translationsDir: parsedArgs.translationsDir,
+    sourceLanguage: parsedArgs.source,
+    targetLanguages: parsedArgs.targets,
+    parser: parsedArgs.parser,
+    layout: parsedArgs.layout,
+    extensions: parsedArgs.extensions,
+    functions: parsedArgs.functions,
+    parserOptions: parsedArgs.parserOptions,
+  });
+
+  if (!result.success) {
+    console.error(`\n❌ Audit failed: ${result.error}\n`);
+    process.exit(1);
+  }
+
+  const report =
+    parsedArgs.format === 'json'
+      ? `${JSON.stringify(result.summary, null, 2)}\n`
+      : formatAuditReport(result.summary!);
+
+  if (parsedArgs.output) {
+    await Bun.write(parsedArgs.output, report);
+    console.error(`Audit report written to ${parsedArgs.output}`);
+  } else {
+    process.stdout.write(report);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Detect Command
+ *
+ * Show the translation layouts found in a repository, i.e. the `-d`, `-p` and `--layout`
+ * values other commands would use when they are left out.
+ */
+
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  type DetectionCandidate,
+  detectTranslations,
+  formatCandidates,
+  pickCandidate,
+} from '../services/detection-service';
+
+/**
+ * Detect command arguments
+ */
+export interface DetectArgs {
+  repoPath: string;
+  help: boolean;
+}
+
+/**
+ * Parse detect command arguments
+ */
+export function parseDetectArgs(args: string[]): DetectArgs {
+  const result: DetectArgs = {
+    repoPath: '',
+    help: false,
+  };
+
+  for (const arg of args) {
+    if (arg === '-h' || arg === '--help') {
+      result.help = true;
+    } else if (!arg.startsWith('-') && !result.repoPath) {
+      result.repoPath = arg;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Print detect command help
+ */
+export function printDetectHelp(): void {
+  console.log(`
+curlydots detect - Find the translation files of a repository
+
+USAGE:
+  curlydots detect [repo-path]
+
+ARGUMENTS:
+  [repo-path]    Repository to scan [default: current directory]
+
+OPTIONS:
+  -h, --help     Show this help message
+
+Recognizes language directories and files (JSON, YAML, JavaScript/TypeScript modules,
+gettext PO), Flutter ARB files and Android values-* resources. extract, import and
+translations push use the detected layout when -d or -p is left out and detection
+is unambiguous.
+`);
+}
+
+/**
+ * Print detected layouts
+ */
+export function printDetection(candidates: DetectionCandidate[]): void {
+  if (candidates.length === 0) {
+    console.log('\nNo translation files detected.\n');
+    return;
+  }
+
+  const picked = pickCandidate(candidates);
+  console.log(`\nDetected translation layouts (${candidates.length}):\n`);
+  console.log(formatCandidates(candidates));
+  console.log(
+    picked
+      ? `\nCommands use ${picked.translationsDir} (${picked.parser}) when -d and -p are left out.\n`
+      : '\nNo layout is clearly the most likely; pass -d and -p to commands.\n',
+  );
+}
+
+/**
+ * Main entry point for detect command
+ */
+export async function detectCommand(args: string[]): Promise<void> {
+  const parsedArgs = parseDetectArgs(args);
+
+  if (parsedArgs.help) {
+    printDetectHelp();
+    return;
+  }
+
+  const repoPath = resolve(parsedArgs.repoPath || '.');
+  if (!existsSync(repoPath)) {
+    console.error(`Error: Repository path does not exist: ${repoPath}\n`);
+    process.exit(1);
+  }
+
+  printDetection(await detectTranslations(repoPath));
+}
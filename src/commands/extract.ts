@@ -9,11 +9,17 @@ import { existsSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 import { render } from 'ink';
 import * as React from 'react';
-import { getAvailableParsers, getParser } from '../parsers';
-import { findMissingTranslations } from '../services/analyzer';
+import { resolveParserSelection, resolveUntranslatedRules } from '../config/parser-config';
+import { getAvailableParsers } from '../parsers';
+import { LANGUAGE_PLACEHOLDER, validateLayout } from '../parsers/language-path';
+import { loadParser, setParserOption } from '../parsers/parser-loader';
+import { findMissingTranslationsForTargets } from '../services/analyzer';
 import { findContextForKeys } from '../services/context-finder';
 import { writeCsv } from '../services/csv-writer';
+import { applyDetection, detectLanguages, formatCandidates } from '../services/detection-service';
+import { SOURCE_LOCK_FILE } from '../services/source-lock';
 import { analysisStore, configStore } from '../stores';
+import type { MissingTranslation, Parser, ParserOptions, UntranslatedRules } from '../types';
 import { App } from '../ui';
 
 /**
@@ -22,11 +28,15 @@ import { App } from '../ui';
 export interface ExtractArgs {
   repoPath: string;
   source: string;
-  target: string;
+  targets: string[];
+  allTargets: boolean;
   translationsDir: string;
   parser: string;
+  layout: string;
   extensions: string[];
   output: string;
+  parserOptions: ParserOptions;
+  initLock: boolean;
   help: boolean;
 }
 
@@ -37,11 +47,15 @@ export function parseExtractArgs(args: string[]): ExtractArgs {
   const result: ExtractArgs = {
     repoPath: '',
     source: '',
-    target: '',
+    targets: [],
+    allTargets: false,
     translationsDir: '',
-    parser: 'node-module',
+    parser: '',
+    layout: '',
     extensions: ['.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte', '.html'],
     output: 'missing-translations.csv',
+    parserOptions: {},
+    initLock: false,
     help: false,
   };
 
@@ -54,16 +68,32 @@ export function parseExtractArgs(args: string[]): ExtractArgs {
     } else if (arg === '-s' || arg === '--source') {
       result.source = args[++i] || '';
     } else if (arg === '-t' || arg === '--target') {
-      result.target = args[++i] || '';
+      for (const language of (args[++i] || '').split(',').map((code) => code.trim())) {
+        if (language && !result.targets.includes(language)) {
+          result.targets.push(language);
+        }
+      }
+    } else if (arg === '--all-targets') {
+      result.allTargets = true;
     } else if (arg === '-d' || arg === '--translations-dir') {
       result.translationsDir = args[++i] || '';
     } else if (arg === '-p' || arg === '--parser') {
-      result.parser = args[++i] || 'node-module';
+      result.parser = args[++i] || '';
+    } else if (arg === '-l' || arg === '--layout') {
+      result.layout = args[++i] || '';
     } else if (arg === '-e' || arg === '--extensions') {
       const extString = args[++i] || '';
       result.extensions = extString.split(',').map((e) => e.trim());
     } else if (arg === '-o' || arg === '--output') {
       result.output = args[++i] || 'missing-translations.csv';
+    } else if (arg === '--allow-eval') {
+      result.parserOptions.allowEval = true;
+    } else if (arg === '--include-index') {
+      result.parserOptions.includeIndex = true;
+    } else if (arg === '--parser-option') {
+      setParserOption(result.parserOptions, args[++i] || '');
+    } else if (arg === '--init-lock') {
+      result.initLock = true;
     } else if (!arg?.startsWith('-') && !result.repoPath) {
       result.repoPath = arg || '';
     }
@@ -88,16 +118,42 @@ ARGUMENTS:
 
 OPTIONS:
   -s, --source <lang>           Source language code (required)
-  -t, --target <lang>           Target language code (required)
-  -d, --translations-dir <path> Translations directory relative to repo (required)
-  -p, --parser <name>           Parser to use [default: node-module]
+  -t, --target <langs>          Target language codes, comma-separated (required unless
+                                --all-targets)
+  --all-targets                 Extract every detected language except the source
+  -d, --translations-dir <path> Translations directory relative to repo [default: detected]
+  -p, --parser <name>           Parser name, parser file or npm package
+                                [default: detected, else node-module]
+  -l, --layout <template>       Language path template relative to translations dir
+                                (e.g., "{lang}.json") [default: {lang}/]
   -e, --extensions <list>       File extensions to search [default: .js,.ts,.jsx,.tsx,.vue,.svelte,.html]
-  -o, --output <path>           Output CSV path [default: missing-translations.csv]
+  -o, --output <path>           Output CSV path; with several targets one CSV holds all
+                                languages, or one per language when the path contains
+                                {lang} [default: missing-translations.csv]
+  --allow-eval                  Execute translation modules instead of reading them
+                                statically (node-module; trusted repositories only)
+  --include-index               Read index.js files instead of skipping them as re-exports
+  --parser-option <key=value>   Option passed to the parser (repeatable)
+  --init-lock                   Record the source values of existing translations in
+                                ${SOURCE_LOCK_FILE}, treating them as up to date
   -h, --help                    Show this help message
 
 EXAMPLES:
   aitranslate extract ./my-app -s en -t de -d src/translations
+  aitranslate extract ./my-app -s en -t de
   aitranslate extract /path/to/repo --source en --target fr --translations-dir locales --output report.csv
+  aitranslate extract ./my-app -s en -t de -d locales -p json --layout "{lang}.json"
+  aitranslate extract ./my-app -s en -t de -d locales -p @acme/curlydots-parser-foo
+  aitranslate extract ./my-app -s en -t de,fr,es
+  aitranslate extract ./my-app -s en --all-targets -o missing-{lang}.csv
+
+The parser and its options can also be set in curlydots.config.json in the repository.
+
+Keys whose source value changed since their translation was imported are exported
+with reason "stale" (tracked in ${SOURCE_LOCK_FILE} in the translations directory).
+Empty values, copies of the source value and values containing TODO or FIXME are
+exported with reason "untranslated" (configurable with "untranslated" in
+curlydots.config.json).
 
 PARSERS:
   ${getAvailableParsers().join(', ') || 'node-module'}
@@ -123,37 +179,88 @@ export function validateExtractArgs(args: ExtractArgs): string[] {
     errors.push('Missing required option: --source');
   }
 
-  if (!args.target) {
-    errors.push('Missing required option: --target');
+  if (args.targets.length === 0 && !args.allTargets) {
+    errors.push('Missing required option: --target (or --all-targets)');
+  } else if (args.targets.length > 0 && args.allTargets) {
+    errors.push('Use either --target or --all-targets, not both');
+  } else if (args.targets.includes(args.source)) {
+    errors.push('Target languages must not include the source language');
   }
 
-  if (!args.translationsDir) {
-    errors.push('Missing required option: --translations-dir');
-  } else if (args.repoPath) {
+  if (args.translationsDir && args.repoPath) {
     const translationsPath = join(resolve(args.repoPath), args.translationsDir);
     if (!existsSync(translationsPath)) {
       errors.push(`Translations directory not found: ${translationsPath}`);
     }
   }
 
-  if (!getParser(args.parser)) {
-    errors.push(`Unknown parser: ${args.parser} (available: ${getAvailableParsers().join(', ')})`);
+  if (args.layout) {
+    const layoutError = validateLayout(args.layout);
+    if (layoutError) {
+      errors.push(layoutError);
+    }
   }
 
   return errors;
 }
 
+/**
+ * Output path of a target language ("missing-{lang}.csv" => "missing-de.csv")
+ */
+function outputPathFor(output: string, targetLanguage: string): string {
+  return output.replaceAll(LANGUAGE_PLACEHOLDER, targetLanguage);
+}
+
+/**
+ * Select the target languages of --all-targets: every detected language except the source
+ * @throws When no language besides the source was found
+ */
+export function selectAllTargets(languages: string[], source: string): string[] {
+  const targets = languages.filter((language) => language !== source);
+  if (targets.length === 0) {
+    throw new Error(`No target languages found besides ${source}`);
+  }
+  return targets;
+}
+
+/**
+ * Write the missing translations to one CSV, or one per language when the output path
+ * contains {lang} (languages without missing translations get no file)
+ * @returns Paths of the written files
+ */
+export async function writeMissingTranslations(
+  missing: MissingTranslation[],
+  targets: string[],
+  output: string,
+): Promise<string[]> {
+  if (!output.includes(LANGUAGE_PLACEHOLDER)) {
+    await writeCsv(missing, output);
+    return [output];
+  }
+
+  const written: string[] = [];
+  for (const targetLanguage of targets) {
+    const languageMissing = missing.filter((m) => m.targetLanguage === targetLanguage);
+    if (languageMissing.length === 0) continue;
+    const outputPath = outputPathFor(output, targetLanguage);
+    await writeCsv(languageMissing, outputPath);
+    written.push(outputPath);
+  }
+  return written;
+}
+
 /**
  * Run analysis (shared logic for TUI mode)
  */
-async function runAnalysis(args: ExtractArgs): Promise<void> {
+async function runAnalysis(args: ExtractArgs, parser: Parser): Promise<void> {
   const resolvedPath = resolve(args.repoPath);
   const analysis = analysisStore.getState();
 
   // Task 1-3: Find missing translations (handles startTask/completeTask internally)
-  const result = await findMissingTranslations();
+  const results = await findMissingTranslationsForTargets(args.targets, parser);
+  const missing = results.flatMap((result) => result.missing);
 
-  if (result.missing.length === 0) {
+  if (missing.length === 0) {
     // Mark remaining tasks as complete
     analysis.completeTask('find_code_context');
     analysis.completeTask('find_translation_context');
@@ -162,11 +269,19 @@ async function runAnalysis(args: ExtractArgs): Promise<void> {
     return;
   }
 
-  // Task 4: Find code context for each missing key
+  // Task 4: Find code context for each missing key, once for all target languages
   analysis.startTask('find_code_context');
   analysis.setStatus('searching_context');
+  const uniqueKeys = new Map<string, (typeof missing)[number]>();
+  for (const m of missing) {
+    if (!uniqueKeys.has(m.key)) uniqueKeys.set(m.key, m);
+  }
   const keysWithContext = await findContextForKeys(
-    result.missing.map((m) => ({ key: m.key, sourceValue: m.sourceValue })),
+    [...uniqueKeys.values()].map((m) => ({
+      key: m.key,
+      sourceValue: m.sourceValue,
+      references: m.metadata?.references,
+    })),
     resolvedPath,
   );
   analysis.completeTask('find_code_context');
@@ -178,18 +293,16 @@ async function runAnalysis(args: ExtractArgs): Promise<void> {
   analysis.completeTask('find_translation_context');
 
   // Merge contexts back into missing translations
-  const missingWithContext = result.missing.map((m) => {
-    const found = keysWithContext.find((k) => k.key === m.key);
-    return {
-      ...m,
-      contexts: found?.contexts || [],
-    };
-  });
+  const contexts = new Map(keysWithContext.map((k) => [k.key, k.contexts]));
+  const missingWithContext = missing.map((m) => ({
+    ...m,
+    contexts: contexts.get(m.key) || [],
+  }));
 
-  // Task 6: Write CSV
+  // Task 6: Write CSV, one per language when the output path contains {lang}
   analysis.startTask('export_csv');
   analysis.setStatus('writing_csv');
-  await writeCsv(missingWithContext, args.output);
+  await writeMissingTranslations(missingWithContext, args.targets, args.output);
   analysis.completeTask('export_csv');
 
   analysis.setStatus('complete');
@@ -198,7 +311,7 @@ async function runAnalysis(args: ExtractArgs): Promise<void> {
 /**
  * Run extract with TUI mode
  */
-async function runWithTui(args: ExtractArgs): Promise<void> {
+async function runWithTui(args: ExtractArgs, parser: Parser): Promise<void> {
   const resolvedPath = resolve(args.repoPath);
 
   // Render TUI
@@ -208,17 +321,19 @@ async function runWithTui(args: ExtractArgs): Promise<void> {
         repoPath: resolvedPath,
         translationsDir: args.translationsDir,
         sourceLanguage: args.source,
-        targetLanguage: args.target,
-        parser: args.parser,
+        targetLanguage: args.targets.join(', '),
+        parser: parser.name,
+        layout: args.layout,
         extensions: args.extensions,
         outputPath: args.output,
+        parserOptions: args.parserOptions,
       },
     }),
   );
 
   // Run analysis in background
   try {
-    await runAnalysis(args);
+    await runAnalysis(args, parser);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     analysisStore.getState().setError(message);
@@ -251,21 +366,57 @@ export async function runExtract(args: string[]): Promise<void> {
     process.exit(1);
   }
 
-  // Configure stores
+  // Detect the translations left out, then load the parser named on the command line
+  // or in the project config
   const resolvedPath = resolve(parsedArgs.repoPath);
+  let parser: Parser;
+  let untranslated: UntranslatedRules;
+  try {
+    const detected = await applyDetection(resolvedPath, parsedArgs);
+    if (detected.candidate) {
+      console.log(`Detected translations:\n${formatCandidates([detected.candidate])}\n`);
+    }
+    parsedArgs.translationsDir = detected.translationsDir;
+    parsedArgs.parser = detected.parser;
+    parsedArgs.layout = detected.layout;
+
+    if (parsedArgs.allTargets) {
+      const languages =
+        detected.candidate?.languages ?? (await detectLanguages(resolvedPath, parsedArgs));
+      parsedArgs.targets = selectAllTargets(languages, parsedArgs.source);
+    }
+
+    const selection = resolveParserSelection(
+      parsedArgs.parser,
+      parsedArgs.parserOptions,
+      resolvedPath,
+    );
+    parsedArgs.parserOptions = selection.parserOptions;
+    parser = await loadParser(selection.parser, selection.parserOptions, resolvedPath);
+    untranslated = resolveUntranslatedRules(resolvedPath);
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Configure stores
   configStore.getState().setConfig({
     repoPath: resolvedPath,
     translationsDir: parsedArgs.translationsDir,
     sourceLanguage: parsedArgs.source,
-    targetLanguage: parsedArgs.target,
-    parser: parsedArgs.parser,
+    targetLanguage: parsedArgs.targets.join(', '),
+    parser: parser.name,
+    layout: parsedArgs.layout,
     extensions: parsedArgs.extensions,
     outputPath: parsedArgs.output,
+    parserOptions: parsedArgs.parserOptions,
+    initLock: parsedArgs.initLock,
+    untranslated,
   });
 
   // Run analysis with TUI
   try {
-    await runWithTui(parsedArgs);
+    await runWithTui(parsedArgs, parser);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.error(`Error: ${message}`);
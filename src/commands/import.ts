@@ -7,9 +7,13 @@
 
 import { existsSync } from 'node:fs';
 import { resolve } from 'node:path';
-import { getAvailableParsers, getParser } from '../parsers';
+import { resolveParserSelection } from '../config/parser-config';
+import { getAvailableParsers } from '../parsers';
+import { validateLayout } from '../parsers/language-path';
+import { loadParser, setParserOption } from '../parsers/parser-loader';
+import { applyDetection, formatCandidates } from '../services/detection-service';
 import { runImport as runImportService } from '../services/import-service';
-import type { ImportCommandResult, ImportConfig } from '../types';
+import type { ImportCommandResult, ImportConfig, ParserOptions } from '../types';
 
 /**
  * Import command arguments
@@ -18,6 +22,8 @@ export interface ImportArgs {
   csvPath: string;
   translationsDir: string;
   parser: string;
+  layout: string;
+  parserOptions: ParserOptions;
   help: boolean;
 }
 
@@ -28,7 +34,9 @@ export function parseImportArgs(args: string[]): ImportArgs {
   const result: ImportArgs = {
     csvPath: '',
     translationsDir: '',
-    parser: 'node-module',
+    parser: '',
+    layout: '',
+    parserOptions: {},
     help: false,
   };
 
@@ -41,7 +49,15 @@ export function parseImportArgs(args: string[]): ImportArgs {
     } else if (arg === '-d' || arg === '--translations-dir') {
       result.translationsDir = args[++i] || '';
     } else if (arg === '-p' || arg === '--parser') {
-      result.parser = args[++i] || 'node-module';
+      result.parser = args[++i] || '';
+    } else if (arg === '-l' || arg === '--layout') {
+      result.layout = args[++i] || '';
+    } else if (arg === '--allow-eval') {
+      result.parserOptions.allowEval = true;
+    } else if (arg === '--include-index') {
+      result.parserOptions.includeIndex = true;
+    } else if (arg === '--parser-option') {
+      setParserOption(result.parserOptions, args[++i] || '');
     } else if (!arg?.startsWith('-') && !result.csvPath) {
       result.csvPath = arg || '';
     }
@@ -59,19 +75,13 @@ export function validateImportArgs(args: ImportArgs): string | null {
     return 'CSV file path is required';
   }
 
-  if (!args.translationsDir) {
-    return 'Translations directory (-d) is required';
-  }
-
   const resolvedCsvPath = resolve(args.csvPath);
   if (!existsSync(resolvedCsvPath)) {
     return `CSV file not found: ${resolvedCsvPath}`;
   }
 
-  const parser = getParser(args.parser);
-  if (!parser) {
-    const available = getAvailableParsers().join(', ');
-    return `Unknown parser: ${args.parser}. Available: ${available}`;
+  if (args.layout) {
+    return validateLayout(args.layout);
   }
 
   return null;
@@ -92,8 +102,15 @@ ARGUMENTS:
   <csv-file>    Path to translated CSV file (output from 'translate' command)
 
 OPTIONS:
-  -d, --translations-dir <path>  Translations directory (required)
-  -p, --parser <name>            Parser to use [default: node-module]
+  -d, --translations-dir <path>  Translations directory [default: detected]
+  -p, --parser <name>            Parser name, parser file or npm package
+                                 [default: detected, else node-module]
+  -l, --layout <template>        Language path template relative to translations dir
+                                 (e.g., "{lang}.json") [default: {lang}/]
+  --allow-eval                   Execute translation modules instead of reading them
+                                 statically (node-module; trusted repositories only)
+  --include-index                Read index.js files instead of skipping them as re-exports
+  --parser-option <key=value>    Option passed to the parser (repeatable)
   -h, --help                     Show this help message
 
 AVAILABLE PARSERS:
@@ -102,6 +119,8 @@ AVAILABLE PARSERS:
 EXAMPLES:
   aitranslate import translated.csv -d src/translations
   aitranslate import ./output/translations-de.csv -d locales -p node-module
+  aitranslate import translated.csv -d locales -p json --layout "{lang}.json"
+  aitranslate import translated.csv -d locales -p ./parsers/custom.ts --parser-option indent=4
 
 WORKFLOW:
   1. Extract missing translations:  aitranslate extract ./repo -s en -t de -d translations
@@ -118,15 +137,19 @@ export async function runImport(config: ImportConfig): Promise<ImportCommandResu
     const resolvedCsvPath = resolve(config.csvPath);
     const resolvedTranslationsDir = resolve(config.translationsDir);
 
-    const parser = getParser(config.parser);
-    if (!parser) {
-      return {
-        success: false,
-        error: `Unknown parser: ${config.parser}`,
-      };
-    }
+    const selection = resolveParserSelection(
+      config.parser,
+      config.parserOptions ?? {},
+      process.cwd(),
+    );
+    const parser = await loadParser(selection.parser, selection.parserOptions);
 
-    const result = await runImportService(resolvedCsvPath, resolvedTranslationsDir, parser);
+    const result = await runImportService(
+      resolvedCsvPath,
+      resolvedTranslationsDir,
+      parser,
+      config.layout,
+    );
 
     return {
       success: true,
@@ -188,10 +211,25 @@ export async function importCommand(args: string[]): Promise<void> {
     process.exit(1);
   }
 
+  try {
+    const detected = await applyDetection(process.cwd(), parsedArgs);
+    if (detected.candidate) {
+      console.log(`Detected translations:\n${formatCandidates([detected.candidate])}\n`);
+    }
+    parsedArgs.translationsDir = detected.translationsDir;
+    parsedArgs.parser = detected.parser;
+    parsedArgs.layout = detected.layout;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+
   const result = await runImport({
     csvPath: parsedArgs.csvPath,
     translationsDir: parsedArgs.translationsDir,
     parser: parsedArgs.parser,
+    layout: parsedArgs.layout,
+    parserOptions: parsedArgs.parserOptions,
   });
 
   printImportSummary(result);
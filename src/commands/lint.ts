@@ -0,0 +1,295 @@
+/**
+ * Lint Command
+ *
+ * Check translations against the source language for placeholders, HTML/XML tags,
+ * ICU MessageFormat syntax, surrounding whitespace and line breaks.
+ */
+
+import { existsSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { resolveParserSelection } from '../config/parser-config';
+import { getAvailableParsers } from '../parsers';
+import { validateLayout } from '../parsers/language-path';
+import { loadParser, setParserOption } from '../parsers/parser-loader';
+import { applyDetection, formatCandidates } from '../services/detection-service';
+import { runLint as runLintService } from '../services/lint-service';
+import type { LintCommandResult, LintConfig, LintResult, ParserOptions } from '../types';
+
+/** Output formats of the report */
+const LINT_FORMATS = ['text', 'json'] as const;
+
+/**
+ * Lint command arguments
+ */
+export interface LintArgs {
+  repoPath: string;
+  source: string;
+  targets: string[];
+  translationsDir: string;
+  parser: string;
+  layout: string;
+  format: string;
+  parserOptions: ParserOptions;
+  help: boolean;
+}
+
+/**
+ * Parse lint command arguments
+ */
+export function parseLintArgs(args: string[]): LintArgs {
+  const result: LintArgs = {
+    repoPath: '',
+    source: '',
+    targets: [],
+    translationsDir: '',
+    parser: '',
+    layout: '',
+    format: 'text',
+    parserOptions: {},
+    help: false,
+  };
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+
+    if (arg === '-h' || arg === '--help') {
+      result.help = true;
+    } else if (arg === '-s' || arg === '--source') {
+      result.source = args[++i] || '';
+    } else if (arg === '-t' || arg === '--target') {
+      result.targets.push(
+        ...(args[++i] || '')
+          .split(',')
+          .map((language) => language.trim())
+          .filter(Boolean),
+      );
+    } else if (arg === '-d' || arg === '--translations-dir') {
+      result.translationsDir = args[++i] || '';
+    } else if (arg === '-p' || arg === '--parser') {
+      result.parser = args[++i] || '';
+    } else if (arg === '-l' || arg === '--layout') {
+      result.layout = args[++i] || '';
+    } else if (arg === '-f' || arg === '--format') {
+      result.format = args[++i] || '';
+    } else if (arg === '--allow-eval') {
+      result.parserOptions.allowEval = true;
+    } else if (arg === '--include-index') {
+      result.parserOptions.includeIndex = true;
+    } else if (arg === '--parser-option') {
+      setParserOption(result.parserOptions, args[++i] || '');
+    } else if (!arg?.startsWith('-') && !result.repoPath) {
+      result.repoPath = arg || '';
+    }
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Validate lint command arguments
+ */
+export function validateLintArgs(args: LintArgs): string | null {
+  const repoPath = resolve(args.repoPath || '.');
+  if (!existsSync(repoPath)) {
+    return `Repository path does not exist: ${repoPath}`;
+  }
+
+  if (!args.source) {
+    return 'Source language (-s) is required';
+  }
+
+  if (args.targets.includes(args.source)) {
+    return 'Target languages must not include the source language';
+  }
+
+  if (!(LINT_FORMATS as readonly string[]).includes(args.format)) {
+    return `Unknown format: ${args.format} (expected ${LINT_FORMATS.join(' or ')})`;
+  }
+
+  if (args.translationsDir) {
+    const translationsPath = join(repoPath, args.translationsDir);
+    if (!existsSync(translationsPath)) {
+      return `Translations directory not found: ${translationsPath}`;
+    }
+  }
+
+  if (args.layout) {
+    return validateLayout(args.layout);
+  }
+
+  return null;
+}
+
+/**
+ * Print lint command help
+ */
+export function printLintHelp(): void {
+  const parsers = getAvailableParsers().join(', ');
+  console.log(`
+curlydots lint - Check translations for broken placeholders and markup
+
+USAGE:
+  curlydots lint [repo-path] -s <lang> [options]
+
+ARGUMENTS:
+  [repo-path]    Repository to check [default: current directory]
+
+OPTIONS:
+  -s, --source <lang>            Source language code (required)
+  -t, --target <langs>           Target languages to check, comma-separated
+                                 [default: the other detected languages]
+  -d, --translations-dir <path>  Translations directory relative to repo [default: detected]
+  -p, --parser <name>            Parser name, parser file or npm package
+                                 [default: detected, else node-module]
+  -l, --layout <template>        Language path template relative to translations dir
+                                 (e.g., "{lang}.json") [default: {lang}/]
+  -f, --format <format>          Report format: text or json [default: text]
+  --allow-eval                   Execute translation modules instead of reading them
+                                 statically (node-module; trusted repositories only)
+  --include-index                Read index.js files instead of skipping them as re-exports
+  --parser-option <key=value>    Option passed to the parser (repeatable)
+  -h, --help                     Show this help message
+
+CHECKS:
+  placeholders  {name}, {{count}}, %{name}, %s and %1$s of the source are kept
+  markup        HTML/XML tags of the source are kept and nested correctly
+  icu           ICU MessageFormat messages (plural, select) stay valid
+  whitespace    Leading and trailing whitespace match the source
+  newlines      The number of line breaks matches the source
+
+Exits with status 1 when issues are found.
+
+PARSERS:
+  ${parsers}
+
+EXAMPLES:
+  curlydots lint ./my-app -s en -t de,fr -d src/translations
+  curlydots lint -s en --format json
+`);
+}
+
+/**
+ * Run lint command
+ */
+export async function runLint(config: LintConfig): Promise<LintCommandResult> {
+  try {
+    const selection = resolveParserSelection(
+      config.parser,
+      config.parserOptions ?? {},
+      config.repoPath,
+    );
+    const parser = await loadParser(selection.parser, selection.parserOptions, config.repoPath);
+
+    const summary = await runLintService(
+      join(config.repoPath, config.translationsDir),
+      config.sourceLanguage,
+      config.targetLanguages,
+      parser,
+      { layout: config.layout },
+    );
+
+    return {
+      success: true,
+      summary,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Format a lint report for the terminal
+ */
+export function formatLintReport(report: LintResult): string {
+  const targets = report.targetLanguages.length > 0 ? report.targetLanguages.join(', ') : 'none';
+  const lines = [
+    `Lint against ${report.sourceLanguage} (targets: ${targets}; ${report.keysChecked} translations checked)`,
+  ];
+
+  if (report.issues.length === 0) {
+    lines.push('', '✅ No issues found');
+    return `${lines.join('\n')}\n`;
+  }
+
+  let current = '';
+  for (const issue of report.issues) {
+    const heading = `${issue.language}: ${issue.key}`;
+    if (heading !== current) {
+      lines.push('', heading);
+      current = heading;
+    }
+    lines.push(`  ${issue.rule.padEnd(12)}  ${issue.message}`);
+  }
+
+  lines.push('', `Found ${report.issues.length} issue${report.issues.length === 1 ? '' : 's'}`);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Main entry point for lint command
+ */
+export async function lintCommand(args: string[]): Promise<void> {
+  const parsedArgs = parseLintArgs(args);
+
+  if (parsedArgs.help) {
+    printLintHelp();
+    return;
+  }
+
+  const validationError = validateLintArgs(parsedArgs);
+  if (validationError) {
+    console.error(`Error: ${validationError}\n`);
+    printLintHelp();
+    process.exit(1);
+  }
+
+  // Progress goes to stderr, so JSON on stdout stays parseable
+  const repoPath = resolve(parsedArgs.repoPath || '.');
+  try {
+    const detected = await applyDetection(repoPath, parsedArgs);
+    if (detected.candidate) {
+      console.error(`Detected translations:\n${formatCandidates([detected.candidate])}\n`);
+      if (parsedArgs.targets.length === 0) {
+        parsedArgs.targets = detected.candidate.languages.filter(
+          (language) => language !== parsedArgs.source,
+        );
+      }
+    }
+    parsedArgs.translationsDir = detected.translationsDir;
+    parsedArgs.parser = detected.parser;
+    parsedArgs.layout = detected.layout;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+
+  const result = await runLint({
+    repoPath,
+    translationsDir: parsedArgs.translationsDir,
+    sourceLanguage: parsedArgs.source,
+    targetLanguages: parsedArgs.targets,
+    parser: parsedArgs.parser,
+    layout: parsedArgs.layout,
+    parserOptions: parsedArgs.parserOptions,
+  });
+
+  if (!result.success) {
+    console.error(`\n❌ Lint failed: ${result.error}\n`);
+    process.exit(1);
+  }
+
+  process.stdout.write(
+    parsedArgs.format === 'json'
+      ? `${JSON.stringify(result.summary, null, 2)}\n`
+      : formatLintReport(result.summary!),
+  );
+
+  if (result.summary!.issues.length > 0) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Parser Command
+ *
+ * Tools for custom parser authors. `parser test` runs the conformance checks of a
+ * parser against a fixture translations directory and exits non-zero on failures,
+ * so it can run in CI.
+ */
+
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describeCapabilities } from '../parsers/capabilities';
+import { validateLayout } from '../parsers/language-path';
+import { loadParser, setParserOption } from '../parsers/parser-loader';
+import { type ConformanceReport, runConformance } from '../services/parser-conformance';
+import type { ParserOptions } from '../types';
+
+/**
+ * Parser test command arguments
+ */
+export interface ParserTestArgs {
+  parser: string;
+  fixture: string;
+  source: string;
+  target: string;
+  layout: string;
+  parserOptions: ParserOptions;
+  help: boolean;
+}
+
+/**
+ * Parse parser test command arguments
+ */
+export function parseParserTestArgs(args: string[]): ParserTestArgs {
+  const result: ParserTestArgs = {
+    parser: '',
+    fixture: '',
+    source: 'en',
+    target: '',
+    layout: '',
+    parserOptions: {},
+    help: false,
+  };
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+
+    if (arg === '-h' || arg === '--help') {
+      result.help = true;
+    } else if (arg === '-f' || arg === '--fixture') {
+      result.fixture = args[++i] || '';
+    } else if (arg === '-s' || arg === '--source') {
+      result.source = args[++i] || 'en';
+    } else if (arg === '-t' || arg === '--target') {
+      result.target = args[++i] || '';
+    } else if (arg === '-l' || arg === '--layout') {
+      result.layout = args[++i] || '';
+    } else if (arg === '--allow-eval') {
+      result.parserOptions.allowEval = true;
+    } else if (arg === '--include-index') {
+      result.parserOptions.includeIndex = true;
+    } else if (arg === '--parser-option') {
+      setParserOption(result.parserOptions, args[++i] || '');
+    } else if (!arg?.startsWith('-') && !result.parser) {
+      result.parser = arg || '';
+    }
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Validate parser test command arguments
+ */
+export function validateParserTestArgs(args: ParserTestArgs): string | null {
+  if (!args.parser) {
+    return 'Parser file, package or name is required';
+  }
+
+  if (!args.fixture) {
+    return 'Fixture directory (--fixture) is required';
+  }
+
+  const resolvedFixture = resolve(args.fixture);
+  if (!existsSync(resolvedFixture)) {
+    return `Fixture directory not found: ${resolvedFixture}`;
+  }
+
+  if (args.source === args.target) {
+    return 'Source and target language must differ';
+  }
+
+  if (args.layout) {
+    return validateLayout(args.layout);
+  }
+
+  return null;
+}
+
+/**
+ * Print parser command help
+ */
+export function printParserHelp(): void {
+  console.log(`
+curlydots parser test - Check that a parser reads back what it writes
+
+USAGE:
+  curlydots parser test <parser> --fixture <dir> [options]
+
+ARGUMENTS:
+  <parser>       Parser file (.js/.ts), npm package or registered parser name
+
+OPTIONS:
+  -f, --fixture <dir>            Translations directory holding the source language (required)
+  -s, --source <lang>            Language present in the fixture [default: en]
+  -t, --target <lang>            Language missing from the fixture, used to test new files
+                                 [default: first of de, fr, es, it, nl not in the fixture]
+  -l, --layout <template>        Language path template relative to the fixture
+                                 (e.g., "{lang}.json") [default: {lang}/]
+  --allow-eval                   Execute translation modules instead of reading them statically
+  --include-index                Read index.js files instead of skipping them as re-exports
+  --parser-option <key=value>    Option passed to the parser (repeatable)
+  -h, --help                     Show this help message
+
+CHECKS:
+  Export of the fixture, re-import without changes, new-language file creation,
+  idempotent imports, unicode values, deep nesting and keys with special characters.
+  The fixture is copied to a temporary directory and never changed.
+
+EXAMPLES:
+  curlydots parser test ./parsers/custom.ts --fixture tests/fixtures/locales
+  curlydots parser test @acme/curlydots-parser-foo -f fixtures/locales -s en --layout "{lang}.foo"
+`);
+}
+
+/**
+ * Print a conformance report
+ * @returns Whether every check passed
+ */
+export function printConformanceReport(report: ConformanceReport): boolean {
+  console.log(
+    `\nParser conformance: ${report.parser} (${report.sourceLanguage} -> ${report.targetLanguage})`,
+  );
+  console.log(`Capabilities: ${describeCapabilities(report.capabilities)}\n`);
+
+  for (const check of report.checks) {
+    console.log(`  ${check.passed ? 'PASS' : 'FAIL'}  ${check.name}`);
+    for (const detail of check.details) {
+      console.log(`          ${detail}`);
+    }
+  }
+
+  const failed = report.checks.filter((check) => !check.passed).length;
+  const passed = report.checks.length - failed;
+  console.log(`\n${passed} passed, ${failed} failed\n`);
+  return failed === 0;
+}
+
+/**
+ * Main entry point for parser test command
+ */
+export async function parserTestCommand(args: string[]): Promise<void> {
+  const parsedArgs = parseParserTestArgs(args);
+
+  if (parsedArgs.help) {
+    printParserHelp();
+    return;
+  }
+
+  const validationError = validateParserTestArgs(parsedArgs);
+  if (validationError) {
+    console.error(`Error: ${validationError}\n`);
+    printParserHelp();
+    process.exit(1);
+  }
+
+  try {
+    const parser = await loadParser(parsedArgs.parser, parsedArgs.parserOptions);
+    const report = await runConformance(parser, resolve(parsedArgs.fixture), {
+      sourceLanguage: parsedArgs.source,
+      targetLanguage: parsedArgs.target || undefined,
+      layout: parsedArgs.layout,
+    });
+
+    if (!printConformanceReport(report)) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+}
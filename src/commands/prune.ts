@@ -0,0 +1,247 @@
+/**
+ * Prune Command
+ *
+ * Remove orphaned target-language keys: keys that no longer exist in the source language.
+ * Complements import, which only adds and updates keys.
+ */
+
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { resolveParserSelection } from '../config/parser-config';
+import { getAvailableParsers, getParser } from '../parsers';
+import { validateLayout } from '../parsers/language-path';
+import { loadParser, setParserOption } from '../parsers/parser-loader';
+import { runPrune as runPruneService } from '../services/prune-service';
+import type { ParserOptions, PruneCommandResult, PruneConfig } from '../types';
+
+/**
+ * Prune command arguments
+ */
+export interface PruneArgs {
+  translationsDir: string;
+  source: string;
+  target: string;
+  parser: string;
+  layout: string;
+  dryRun: boolean;
+  parserOptions: ParserOptions;
+  help: boolean;
+}
+
+/**
+ * Parse prune command arguments
+ */
+export function parsePruneArgs(args: string[]): PruneArgs {
+  const result: PruneArgs = {
+    translationsDir: '',
+    source: '',
+    target: '',
+    parser: '',
+    layout: '',
+    dryRun: false,
+    parserOptions: {},
+    help: false,
+  };
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+
+    if (arg === '-h' || arg === '--help') {
+      result.help = true;
+    } else if (arg === '-d' || arg === '--translations-dir') {
+      result.translationsDir = args[++i] || '';
+    } else if (arg === '-s' || arg === '--source') {
+      result.source = args[++i] || '';
+    } else if (arg === '-t' || arg === '--target') {
+      result.target = args[++i] || '';
+    } else if (arg === '-p' || arg === '--parser') {
+      result.parser = args[++i] || '';
+    } else if (arg === '-l' || arg === '--layout') {
+      result.layout = args[++i] || '';
+    } else if (arg === '-n' || arg === '--dry-run') {
+      result.dryRun = true;
+    } else if (arg === '--allow-eval') {
+      result.parserOptions.allowEval = true;
+    } else if (arg === '--include-index') {
+      result.parserOptions.includeIndex = true;
+    } else if (arg === '--parser-option') {
+      setParserOption(result.parserOptions, args[++i] || '');
+    }
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Validate prune command arguments
+ */
+export function validatePruneArgs(args: PruneArgs): string | null {
+  if (!args.translationsDir) {
+    return 'Translations directory (-d) is required';
+  }
+
+  const resolvedTranslationsDir = resolve(args.translationsDir);
+  if (!existsSync(resolvedTranslationsDir)) {
+    return `Translations directory not found: ${resolvedTranslationsDir}`;
+  }
+
+  if (!args.source) {
+    return 'Source language (-s) is required';
+  }
+
+  if (!args.target) {
+    return 'Target language (-t) is required';
+  }
+
+  if (args.source === args.target) {
+    return 'Source and target language must differ';
+  }
+
+  if (args.layout) {
+    return validateLayout(args.layout);
+  }
+
+  return null;
+}
+
+/**
+ * Print prune command help
+ */
+export function printPruneHelp(): void {
+  const parsers = getAvailableParsers()
+    .filter((name) => getParser(name)?.remove)
+    .join(', ');
+  console.log(`
+curlydots prune - Remove orphaned target keys (keys missing from the source language)
+
+USAGE:
+  curlydots prune -d <translations-dir> -s <lang> -t <lang> [options]
+
+OPTIONS:
+  -d, --translations-dir <path>  Translations directory (required)
+  -s, --source <lang>            Source language code (required)
+  -t, --target <lang>            Target language code to prune (required)
+  -p, --parser <name>            Parser name, parser file or npm package [default: node-module]
+  -l, --layout <template>        Language path template relative to translations dir
+                                 (e.g., "{lang}.json") [default: {lang}/]
+  -n, --dry-run                  List the keys that would be removed without changing files
+  --allow-eval                   Execute translation modules instead of reading them
+                                 statically (node-module; trusted repositories only)
+  --include-index                Read index.js files instead of skipping them as re-exports
+  --parser-option <key=value>    Option passed to the parser (repeatable)
+  -h, --help                     Show this help message
+
+PARSERS WITH KEY REMOVAL:
+  ${parsers}
+
+EXAMPLES:
+  curlydots prune -d src/translations -s en -t de --dry-run
+  curlydots prune -d src/translations -s en -t de
+`);
+}
+
+/**
+ * Run prune command
+ */
+export async function runPrune(config: PruneConfig): Promise<PruneCommandResult> {
+  try {
+    const selection = resolveParserSelection(
+      config.parser,
+      config.parserOptions ?? {},
+      process.cwd(),
+    );
+    const parser = await loadParser(selection.parser, selection.parserOptions);
+
+    const summary = await runPruneService(
+      resolve(config.translationsDir),
+      config.sourceLanguage,
+      config.targetLanguage,
+      parser,
+      { layout: config.layout, dryRun: config.dryRun },
+    );
+
+    return {
+      success: true,
+      summary,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Print prune summary
+ */
+export function printPruneSummary(result: PruneCommandResult): void {
+  if (!result.success) {
+    console.error(`\n❌ Prune failed: ${result.error}\n`);
+    return;
+  }
+
+  const summary = result.summary!;
+  if (summary.orphanedKeys.length === 0) {
+    console.log(`\n✅ No orphaned keys in ${summary.targetLanguage}\n`);
+    return;
+  }
+
+  if (summary.dryRun) {
+    console.log(
+      `\nKeys that would be removed from ${summary.targetLanguage} (${summary.orphanedKeys.length}):`,
+    );
+    for (const key of summary.orphanedKeys) {
+      console.log(`  - ${key}`);
+    }
+    console.log('\nRun without --dry-run to remove them.\n');
+    return;
+  }
+
+  console.log(`
+✅ Prune completed successfully!
+
+Summary:
+  Target language:   ${summary.targetLanguage}
+  Files modified:    ${summary.filesModified}
+  Files deleted:     ${summary.filesDeleted}
+  Keys removed:      ${summary.keysRemoved}
+`);
+}
+
+/**
+ * Main entry point for prune command
+ */
+export async function pruneCommand(args: string[]): Promise<void> {
+  const parsedArgs = parsePruneArgs(args);
+
+  if (parsedArgs.help) {
+    printPruneHelp();
+    return;
+  }
+
+  const validationError = validatePruneArgs(parsedArgs);
+  if (validationError) {
+    console.error(`Error: ${validationError}\n`);
+    printPruneHelp();
+    process.exit(1);
+  }
+
+  const result = await runPrune({
+    translationsDir: parsedArgs.translationsDir,
+    sourceLanguage: parsedArgs.source,
+    targetLanguage: parsedArgs.target,
+    parser: parsedArgs.parser,
+    layout: parsedArgs.layout,
+    dryRun: parsedArgs.dryRun,
+    parserOptions: parsedArgs.parserOptions,
+  });
+
+  printPruneSummary(result);
+
+  if (!result.success) {
+    process.exit(1);
+  }
+}
@@ -8,6 +8,7 @@ import { basename, dirname, extname, resolve } from 'node:path';
 import pLimit from 'p-limit';
 import { readCsv } from '../services/csv-reader';
 import { writeTranslationCsv } from '../services/csv-writer';
+import { lintTranslation } from '../services/lint-service';
 import {
   type TranslationResponseWithReasoning,
   translateText,
@@ -36,6 +37,11 @@ const OUTPUT_HEADERS = [
   'target_language',
   'code_context',
   'translation_context',
+  'description',
+  'plural_category',
+  'max_length',
+  'message_context',
+  'reason',
   'translated_value',
 ];
 
@@ -215,6 +221,14 @@ function formatContextForTrace(jsonStr: string): string {
   }
 }
 
+/**
+ * Parse the max_length column (empty or invalid means no limit)
+ */
+function parseMaxLength(value: string | undefined): number | undefined {
+  const maxLength = Number.parseInt(value ?? '', 10);
+  return maxLength > 0 ? maxLength : undefined;
+}
+
 /**
  * Build translation request from row
  */
@@ -225,6 +239,10 @@ function buildRequest(row: TranslationRow): TranslationRequest {
     targetLanguage: row.targetLanguage,
     codeUsages: parseCodeContext(row.codeContext),
     translationExamples: parseTranslationContext(row.translationContext),
+    description: row.description || undefined,
+    pluralCategory: row.pluralCategory || undefined,
+    maxLength: parseMaxLength(row.maxLength),
+    messageContext: row.messageContext || undefined,
   };
 }
 
@@ -239,6 +257,11 @@ function rowsToCsvData(rows: TranslationRow[]): Record<string, string>[] {
     target_language: row.targetLanguage,
     code_context: row.codeContext,
     translation_context: row.translationContext,
+    description: row.description ?? '',
+    plural_category: row.pluralCategory ?? '',
+    max_length: row.maxLength ?? '',
+    message_context: row.messageContext ?? '',
+    reason: row.reason ?? '',
     translated_value: row.translatedValue,
   }));
 }
@@ -333,11 +356,19 @@ async function runTranslationLoop(
 
       try {
         const response = await translateRow(row);
-        store.completeRow(row.index, response.translated_value);
 
         // Write trace file (non-blocking)
         await writeTraceFile(traceConfig, row, response);
 
+        // Rows that break placeholders or markup are marked as errors and retried next run
+        const issues = lintTranslation(row.sourceValue, response.translated_value, {
+          pluralCategory: row.pluralCategory,
+        });
+        if (issues.length > 0) {
+          throw new Error(`Lint failed: ${issues.map((issue) => issue.message).join('; ')}`);
+        }
+        store.completeRow(row.index, response.translated_value);
+
         // Write incrementally after each completion
         await writeOutput(translationStore.getState().rows, config.outputPath);
 
@@ -1,6 +1,9 @@
 import { existsSync } from 'node:fs';
 import { join, resolve } from 'node:path';
-import { getAvailableParsers, getParser } from '../../parsers';
+import { getAvailableParsers } from '../../parsers';
+import { validateLayout } from '../../parsers/language-path';
+import { setParserOption } from '../../parsers/parser-loader';
+import type { ParserOptions } from '../../types';
 
 export interface PushArgs {
   projectUuid: string;
@@ -9,10 +12,12 @@ export interface PushArgs {
   source: string;
   parser: string;
   parserFile?: string;
+  layout: string;
   extensions: string[];
   apiHost: string;
   apiToken?: string;
   batchSize: number;
+  parserOptions: ParserOptions;
   help: boolean;
 }
 
@@ -26,12 +31,14 @@ export function parsePushArgs(args: string[]): PushArgs {
     repoPath: '',
     translationsDir: '',
     source: '',
-    parser: 'node-module',
+    parser: '',
     parserFile: undefined,
+    layout: '',
     extensions: [...includeExtensions],
     apiHost: 'https://curlydots.com',
     apiToken: undefined,
     batchSize: 100,
+    parserOptions: {},
     help: false,
   };
 
@@ -50,11 +57,13 @@ export function parsePushArgs(args: string[]): PushArgs {
     } else if (arg === '-s' || arg === '--source') {
       result.source = args[++i] || '';
     } else if (arg === '-p' || arg === '--parser') {
-      result.parser = args[++i] || 'node-module';
+      result.parser = args[++i] || '';
     } else if (arg === '--parser-file') {
       result.parserFile = args[++i] || '';
     } else if (arg?.startsWith('--parser-file=')) {
       result.parserFile = arg.slice('--parser-file='.length);
+    } else if (arg === '-l' || arg === '--layout') {
+      result.layout = args[++i] || '';
     } else if (arg === '-e' || arg === '--extensions') {
       const extString = args[++i] || '';
       result.extensions = extString.split(',').map((ext) => ext.trim()).filter(Boolean);
@@ -64,6 +73,12 @@ export function parsePushArgs(args: string[]): PushArgs {
       result.apiToken = args[++i] || '';
     } else if (arg === '--batch-size') {
       result.batchSize = Number.parseInt(args[++i] || '100', 10);
+    } else if (arg === '--allow-eval') {
+      result.parserOptions.allowEval = true;
+    } else if (arg === '--include-index') {
+      result.parserOptions.includeIndex = true;
+    } else if (arg === '--parser-option') {
+      setParserOption(result.parserOptions, args[++i] || '');
     }
     i += 1;
   }
@@ -91,9 +106,9 @@ export function validatePushArgs(args: PushArgs): string[] {
     errors.push('Missing required option: --source');
   }
 
-  if (!args.translationsDir) {
+  if (args.parserFile !== undefined && !args.translationsDir) {
     errors.push('Missing required option: --translations-dir');
-  } else if (args.repoPath) {
+  } else if (args.translationsDir && args.repoPath) {
     const translationsPath = join(resolve(args.repoPath), args.translationsDir);
     if (!existsSync(translationsPath)) {
       errors.push(`Translations directory not found: ${translationsPath}`);
@@ -109,8 +124,13 @@ export function validatePushArgs(args: PushArgs): string[] {
         errors.push(`Parser file not found: ${resolvedParserFile}`);
       }
     }
-  } else if (!getParser(args.parser)) {
-    errors.push(`Unknown parser: ${args.parser} (available: ${getAvailableParsers().join(', ')})`);
+  }
+
+  if (args.layout) {
+    const layoutError = validateLayout(args.layout);
+    if (layoutError) {
+      errors.push(layoutError);
+    }
   }
 
   if (!Number.isFinite(args.batchSize) || args.batchSize <= 0) {
@@ -130,14 +150,21 @@ USAGE:
 OPTIONS:
   --project <uuid>               Project UUID (required)
   --repo <path>                  Repository path (required)
-  -d, --translations-dir <path>  Translations directory (required)
+  -d, --translations-dir <path>  Translations directory [default: detected]
   -s, --source <lang>            Source language code (required)
-  -p, --parser <name>            Parser to use [default: node-module]
+  -p, --parser <name>            Parser name, parser file or npm package
+                                 [default: detected, else node-module]
   --parser-file <path>           Load parser module from file (.js/.ts)
+  -l, --layout <template>        Language path template relative to translations dir
+                                 (e.g., "{lang}.json") [default: {lang}/]
   -e, --extensions <list>        File extensions to search [default: all files]
   --api-host <url>               API host [default: https://curlydots.com]
   --api-token <token>            API token override
   --batch-size <n>               Upload batch size [default: 100]
+  --allow-eval                   Execute translation modules instead of reading them
+                                 statically (node-module; trusted repositories only)
+  --include-index                Read index.js files instead of skipping them as re-exports
+  --parser-option <key=value>    Option passed to the parser (repeatable)
   -h, --help                     Show this help message
 
 PARSERS:
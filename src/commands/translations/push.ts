@@ -1,7 +1,11 @@
 import { resolve } from 'node:path';
-import { getParser } from '../../parsers';
-import { loadParserFromFile } from '../../parsers/parser-file-loader';
+import { resolveParserSelection } from '../../config/parser-config';
+import { exportEntries } from '../../parsers/capabilities';
+import { resolveLanguageLocation } from '../../parsers/language-path';
+import { loadParser } from '../../parsers/parser-loader';
+import type { Parser } from '../../types';
 import { findContextForKeys } from '../../services/context-finder';
+import { applyDetection, formatCandidates } from '../../services/detection-service';
 import {
   fetchExistingTranslationKeys,
   resolveAuthToken,
@@ -36,20 +40,27 @@ export async function runTranslationsPush(args: string[]): Promise<void> {
   }
 
   const resolvedPath = resolve(parsedArgs.repoPath);
-  let parser = getParser(parsedArgs.parser);
-  if (parsedArgs.parserFile) {
-    try {
-      parser = await loadParserFromFile(parsedArgs.parserFile);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      globalLogger.error(message);
-      process.exitCode = 1;
-      return;
+  let parser: Parser;
+  try {
+    if (!parsedArgs.parserFile) {
+      const detected = await applyDetection(resolvedPath, parsedArgs);
+      if (detected.candidate) {
+        globalLogger.info(`Detected translations:\n${formatCandidates([detected.candidate])}`);
+      }
+      parsedArgs.translationsDir = detected.translationsDir;
+      parsedArgs.parser = detected.parser;
+      parsedArgs.layout = detected.layout;
     }
-  }
 
-  if (!parser) {
-    globalLogger.error(`Unknown parser: ${parsedArgs.parser}`);
+    const selection = resolveParserSelection(
+      parsedArgs.parserFile ? resolve(parsedArgs.parserFile) : parsedArgs.parser,
+      parsedArgs.parserOptions,
+      resolvedPath,
+    );
+    parser = await loadParser(selection.parser, selection.parserOptions, resolvedPath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    globalLogger.error(message);
     process.exitCode = 1;
     return;
   }
@@ -75,16 +86,23 @@ export async function runTranslationsPush(args: string[]): Promise<void> {
     sourceLanguage: parsedArgs.source,
     targetLanguage: '',
     parser: parser.name,
+    layout: parsedArgs.layout,
     extensions: parsedArgs.extensions,
     outputPath: '',
   });
 
   try {
-    const languageDir = resolve(resolvedPath, parsedArgs.translationsDir, parsedArgs.source);
-    const sourceKeys = await parser.export(languageDir);
-    const entries = Array.from(sourceKeys.entries()).map(([key, sourceValue]) => ({
+    const source = resolveLanguageLocation(
+      parser,
+      resolve(resolvedPath, parsedArgs.translationsDir),
+      parsedArgs.source,
+      parsedArgs.layout,
+    );
+    const sourceEntries = await exportEntries(parser, source.path, parsedArgs.source);
+    const entries = Array.from(sourceEntries.entries()).map(([key, entry]) => ({
       key,
-      sourceValue,
+      sourceValue: entry.value,
+      references: entry.references,
     }));
 
     if (entries.length === 0) {
@@ -0,0 +1,118 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { z } from 'zod';
+import { getBuiltInParsers } from '../parsers';
+import type { ParserOptions, UntranslatedRules } from '../types';
+
+/** Project config file, looked up in the repository (extract, push) or working directory */
+export const PARSER_CONFIG_FILE = 'curlydots.config.json';
+
+/** Parser used when neither the command line nor the project config names one */
+export const DEFAULT_PARSER = 'node-module';
+
+/** Target values treated as untranslated when the project config does not say otherwise */
+export const DEFAULT_UNTRANSLATED_RULES: UntranslatedRules = {
+  empty: true,
+  identical: true,
+  markers: ['TODO', 'FIXME'],
+  ignore: [],
+};
+
+const parserConfigSchema = z.object({
+  parser: z.string().min(1).optional(),
+  parserOptions: z.record(z.string(), z.unknown()).optional(),
+  untranslated: z
+    .object({
+      empty: z.boolean().optional(),
+      identical: z.boolean().optional(),
+      markers: z.array(z.string().min(1)).optional(),
+      ignore: z.array(z.string()).optional(),
+    })
+    .optional(),
+});
+
+export type ParserConfig = z.infer<typeof parserConfigSchema>;
+
+/**
+ * Parser selection after combining the command line and the project config
+ */
+export interface ParserSelection {
+  parser: string;
+  parserOptions: ParserOptions;
+}
+
+/**
+ * Read the project parser config of a directory
+ *
+ * The config comes with the repository being translated, so it may not name code to run:
+ * it may only select a built-in parser, while parser files, npm packages (resolved from
+ * the repository) and `allowEval` are only accepted from the command line.
+ *
+ * @returns Parser config, empty when the directory has no config file
+ * @throws When the config is invalid or names a parser that is not built in, or `allowEval`
+ */
+export function loadParserConfig(dir: string): ParserConfig {
+  const configPath = join(resolve(dir), PARSER_CONFIG_FILE);
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read ${configPath}: ${message}`);
+  }
+
+  const parsed = parserConfigSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Invalid ${configPath}: ${issue?.path.join('.') || 'config'}: ${issue?.message}`,
+    );
+  }
+
+  const config = parsed.data;
+  if (config.parser && !getBuiltInParsers().includes(config.parser)) {
+    throw new Error(
+      `Invalid ${configPath}: parser: only built-in parsers (${getBuiltInParsers().join(', ')}) can be set here; load parser files and packages with --parser`,
+    );
+  }
+  if (config.parserOptions && 'allowEval' in config.parserOptions) {
+    throw new Error(
+      `Invalid ${configPath}: parserOptions.allowEval: can only be enabled with --allow-eval`,
+    );
+  }
+  return config;
+}
+
+/**
+ * Combine the parser from the command line with the project config
+ *
+ * The command line parser wins over the config's; command line options override
+ * config options with the same name.
+ *
+ * @param parser - Parser from the command line (empty when not given)
+ * @param parserOptions - Parser options from the command line
+ * @param dir - Directory holding the project config
+ */
+export function resolveParserSelection(
+  parser: string,
+  parserOptions: ParserOptions,
+  dir: string,
+): ParserSelection {
+  const config = loadParserConfig(dir);
+  return {
+    parser: parser || config.parser || DEFAULT_PARSER,
+    parserOptions: { ...config.parserOptions, ...parserOptions },
+  };
+}
+
+/**
+ * Read the untranslated value rules of a project, with defaults for what the config leaves out
+ * @param dir - Directory holding the project config
+ */
+export function resolveUntranslatedRules(dir: string): UntranslatedRules {
+  return { ...DEFAULT_UNTRANSLATED_RULES, ...loadParserConfig(dir).untranslated };
+}
@@ -0,0 +1,522 @@
+/**
+ * Android Parser
+ *
+ * Parses Android string resources.
+ * Expected structure: res/values/strings.xml (default language), res/values-de/strings.xml,
+ * res/values-pt-rBR/strings.xml, ... Every XML file in a values folder is read.
+ *
+ * Keys are resource names. `<plurals>` export one key per quantity ("<name>[one]") and
+ * `<string-array>` one key per item ("<name>[0]"). Resources marked translatable="false"
+ * are skipped. Values are unescaped on export (\', \", \n, \@, ...) and escaped again on
+ * import; values containing markup (<b>, <xliff:g>) are kept as raw XML.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Glob } from 'bun';
+import type { LanguageLocation, Parser, ParserImportResult } from '../types';
+import { decodeEntities, indentAt } from './xml-utils';
+
+/** Name of the default resources folder */
+const DEFAULT_VALUES_DIR = 'values';
+
+/** File that receives strings not present in any resource file yet */
+const DEFAULT_STRINGS_FILE = 'strings.xml';
+
+/** Language assumed for the default folder when it does not declare tools:locale */
+const DEFAULT_LOCALE = 'en';
+
+/**
+ * A translatable value inside a resource file with the offsets needed for in-place edits
+ */
+interface ResourceEntry {
+  key: string;
+  value: string;
+
+  /** Offsets of the whole element (<string>/<item>) */
+  range: [number, number];
+
+  /** Start tag without its closing ">" or "/>" (e.g., '<item quantity="one"') */
+  openTag: string;
+
+  tagName: string;
+}
+
+/**
+ * A <plurals> or <string-array> element, to which missing items can be added
+ */
+interface ResourceGroup {
+  name: string;
+  kind: 'plurals' | 'string-array';
+
+  /** Offset of the closing tag */
+  closeTag: number;
+
+  /** Indentation used for items */
+  itemIndent: string;
+}
+
+/**
+ * Parsed resource file
+ */
+interface ResourceFile {
+  entries: ResourceEntry[];
+  groups: ResourceGroup[];
+}
+
+/** Markup that makes a value raw XML instead of plain text */
+const MARKUP = /<\/?[a-zA-Z][\w:.-]*\b[^>]*>/;
+
+/** "&" that does not start an entity ("&amp;", "&#39;") */
+const BARE_AMPERSAND = /&(?![a-zA-Z]\w*;|#\d+;|#x[0-9a-fA-F]+;)/g;
+
+/**
+ * Convert a language code to an Android resource qualifier
+ * @example languageToQualifier('pt-BR') => 'pt-rBR'
+ * @example languageToQualifier('zh-Hans') => 'b+zh+Hans'
+ */
+export function languageToQualifier(language: string): string {
+  const parts = language.split(/[-_]/);
+  if (parts.length === 1) {
+    return language;
+  }
+  if (parts.length === 2 && /^([A-Za-z]{2}|\d{3})$/.test(parts[1]!)) {
+    return `${parts[0]}-r${parts[1]!.toUpperCase()}`;
+  }
+  return `b+${parts.join('+')}`;
+}
+
+/**
+ * Convert an Android values folder name to a language code
+ * @example qualifierToLanguage('values-pt-rBR') => 'pt-BR'
+ * @returns Language code, or null for the default folder and non-language qualifiers
+ */
+export function qualifierToLanguage(folder: string): string | null {
+  const qualifier = folder.replace(/^values-?/, '');
+  if (qualifier.startsWith('b+')) {
+    return qualifier.slice(2).split('+').join('-');
+  }
+  const match = qualifier.match(/^([a-z]{2,3})(?:-r([A-Z]{2}|\d{3}))?$/);
+  if (!match) {
+    return null;
+  }
+  return match[2] ? `${match[1]}-${match[2]}` : match[1]!;
+}
+
+/**
+ * Blank out XML comments while keeping offsets
+ */
+function maskComments(content: string): string {
+  return content.replace(/<!--[\s\S]*?-->/g, (match) => ' '.repeat(match.length));
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Resolve Android escape sequences and quoting in plain text
+ */
+function unescapeAndroid(text: string): string {
+  // Whitespace is collapsed outside of double-quoted sections
+  const collapsed = text
+    .split(/((?<!\\)"(?:[^"\\]|\\.)*")/)
+    .map((part) => (part.startsWith('"') ? part.slice(1, -1) : part.replace(/\s+/g, ' ')))
+    .join('');
+
+  return collapsed.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, sequence: string) => {
+    if (sequence.length === 5) {
+      return String.fromCharCode(Number.parseInt(sequence.slice(1), 16));
+    }
+    switch (sequence) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      default:
+        return sequence;
+    }
+  });
+}
+
+/**
+ * Escape plain text for Android (backslash escapes, leading @ and ?)
+ */
+function escapeAndroid(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/^([@?])/, '\\$1');
+}
+
+/**
+ * Convert the content of a <string>/<item> element to a translation value
+ */
+function decodeValue(raw: string): string {
+  if (MARKUP.test(raw)) {
+    // Tags and entities stay as they are; only the text between tags is unescaped
+    return raw
+      .trim()
+      .split(/(<[^>]*>)/)
+      .map((part) => (part.startsWith('<') ? part : unescapeAndroid(part)))
+      .join('');
+  }
+  const text = raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) => (part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)))
+    .join('');
+  return unescapeAndroid(text.trim());
+}
+
+/**
+ * Convert a translation value to element content
+ * Markup is kept; only the text between tags is escaped (entities it already uses stay).
+ * Plain values with leading, trailing or repeated whitespace are quoted so Android keeps it.
+ */
+export function encodeValue(value: string): string {
+  if (MARKUP.test(value)) {
+    return value
+      .split(/(<[^>]*>)/)
+      .map((part) =>
+        part.startsWith('<')
+          ? part
+          : escapeAndroid(part)
+              .replace(/^\\([@?])/, '$1')
+              .replace(BARE_AMPERSAND, '&amp;'),
+      )
+      .join('');
+  }
+  const text = escapeAndroid(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return /^\s|\s$|\s\s/.test(value) ? `"${text}"` : text;
+}
+
+/**
+ * Parse the string resources of an XML file
+ */
+function parseResources(content: string): ResourceFile {
+  const masked = maskComments(content);
+  const entries: ResourceEntry[] = [];
+  const groups: ResourceGroup[] = [];
+
+  const elements = /<(string-array|plurals|string)(?=[\s/>])([^>]*?)(\/>|>([\s\S]*?)<\/\1\s*>)/g;
+  for (const element of masked.matchAll(elements)) {
+    const whole = element[0];
+    const tagName = element[1]!;
+    const attributes = element[2]!;
+    const name = getAttribute(attributes, 'name');
+    if (!name || getAttribute(attributes, 'translatable') === 'false') continue;
+
+    const start = element.index;
+    const end = start + whole.length;
+    const isEmpty = element[4] === undefined;
+
+    if (tagName === 'string') {
+      const inner = isEmpty
+        ? ''
+        : content.slice(start + whole.indexOf('>') + 1, start + whole.lastIndexOf('</'));
+      entries.push({
+        key: name,
+        value: decodeValue(inner),
+        range: [start, end],
+        openTag: `<string${attributes}`,
+        tagName,
+      });
+      continue;
+    }
+
+    const kind = tagName as ResourceGroup['kind'];
+    if (isEmpty) continue;
+    const bodyStart = start + whole.indexOf('>') + 1;
+    const closeTag = start + whole.lastIndexOf('</');
+    const body = masked.slice(bodyStart, closeTag);
+    let itemIndent = `${indentAt(content, start)}    `;
+    let index = 0;
+
+    for (const item of body.matchAll(/<item\b([^>]*?)(?:\/>|>([\s\S]*?)<\/item\s*>)/g)) {
+      const itemStart = bodyStart + item.index;
+      itemIndent = indentAt(content, itemStart);
+      const itemAttributes = item[1]!;
+      const suffix = kind === 'plurals' ? getAttribute(itemAttributes, 'quantity') : String(index);
+      index++;
+      if (suffix === undefined) continue;
+
+      const itemEnd = itemStart + item[0].length;
+      const inner =
+        item[2] === undefined
+          ? ''
+          : content.slice(
+              itemStart + item[0].indexOf('>') + 1,
+              itemStart + item[0].lastIndexOf('</'),
+            );
+      entries.push({
+        key: `${name}[${suffix}]`,
+        value: decodeValue(inner),
+        range: [itemStart, itemEnd],
+        openTag: `<item${itemAttributes}`,
+        tagName: 'item',
+      });
+    }
+
+    groups.push({ name, kind, closeTag, itemIndent });
+  }
+
+  return { entries, groups };
+}
+
+/**
+ * Read the translations of a resource file
+ */
+export function resourcesToMap(content: string): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const entry of parseResources(content).entries) {
+    result.set(entry.key, entry.value);
+  }
+  return result;
+}
+
+/**
+ * Split a key into resource name and item suffix
+ * @example splitItemKey('days[0]') => ['days', '0']
+ */
+function splitItemKey(key: string): [string, string] | null {
+  const match = key.match(/^(.+)\[([^\]]+)\]$/);
+  return match ? [match[1]!, match[2]!] : null;
+}
+
+/**
+ * Format new resources, grouping plural quantities and array items
+ */
+function formatNewResources(
+  translations: Map<string, string>,
+  indent: string,
+  eol: string,
+): string {
+  const lines: string[] = [];
+  const groups = new Map<string, Map<string, string>>();
+
+  for (const [key, value] of translations) {
+    const item = splitItemKey(key);
+    if (!item) {
+      lines.push(`${indent}<string name="${key}">${encodeValue(value)}</string>`);
+      continue;
+    }
+    let group = groups.get(item[0]);
+    if (!group) {
+      group = new Map();
+      groups.set(item[0], group);
+    }
+    group.set(item[1], value);
+  }
+
+  for (const [name, items] of groups) {
+    const isArray = Array.from(items.keys()).every((suffix) => /^\d+$/.test(suffix));
+    const tag = isArray ? 'string-array' : 'plurals';
+    const sorted = Array.from(items).sort(([a], [b]) =>
+      isArray ? Number(a) - Number(b) : a.localeCompare(b),
+    );
+
+    lines.push(`${indent}<${tag} name="${name}">`);
+    for (const [suffix, value] of sorted) {
+      const attributes = isArray ? '' : ` quantity="${suffix}"`;
+      lines.push(`${indent}${indent}<item${attributes}>${encodeValue(value)}</item>`);
+    }
+    lines.push(`${indent}</${tag}>`);
+  }
+
+  return lines.join(eol);
+}
+
+/**
+ * Write translations into a resource file, editing existing elements in place
+ * @param content - Resource file content
+ * @param translations - Translations to write
+ * @param appendMissing - Whether to add resources the file does not define yet
+ * @returns Updated content, number of keys written and keys not written
+ */
+export function updateResources(
+  content: string,
+  translations: Map<string, string>,
+  appendMissing: boolean,
+): { content: string; written: number; missing: Map<string, string> } {
+  const { entries, groups } = parseResources(content);
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const edits: { start: number; end: number; text: string }[] = [];
+  const missing = new Map(translations);
+
+  for (const entry of entries) {
+    const value = translations.get(entry.key);
+    if (value === undefined) continue;
+    edits.push({
+      start: entry.range[0],
+      end: entry.range[1],
+      text: `${entry.openTag}>${encodeValue(value)}</${entry.tagName}>`,
+    });
+    missing.delete(entry.key);
+  }
+
+  // Add missing quantities / items to existing <plurals> and <string-array> elements
+  for (const group of groups) {
+    const items: string[] = [];
+    for (const [key, value] of missing) {
+      const item = splitItemKey(key);
+      if (item?.[0] !== group.name) continue;
+      const attributes = group.kind === 'plurals' ? ` quantity="${item[1]}"` : '';
+      items.push(`${group.itemIndent}<item${attributes}>${encodeValue(value)}</item>`);
+      missing.delete(key);
+    }
+    if (items.length > 0) {
+      const lineStart = content.lastIndexOf('\n', group.closeTag - 1) + 1;
+      edits.push({ start: lineStart, end: lineStart, text: `${items.join(eol)}${eol}` });
+    }
+  }
+
+  const closing = content.lastIndexOf('</resources>');
+  if (appendMissing && missing.size > 0 && closing !== -1) {
+    const indent = content.match(/\n([ \t]+)</)?.[1] ?? '    ';
+    const lineStart = content.lastIndexOf('\n', closing - 1) + 1;
+    const ownLine = content.slice(lineStart, closing).trim() === '';
+    const text = formatNewResources(missing, indent, eol);
+    edits.push(
+      ownLine
+        ? { start: lineStart, end: lineStart, text: `${text}${eol}` }
+        : { start: closing, end: closing, text: `${eol}${text}${eol}` },
+    );
+    missing.clear();
+  }
+
+  // Apply bottom-up so earlier offsets stay valid
+  edits.sort((a, b) => b.start - a.start);
+  let result = content;
+  for (const edit of edits) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  return { content: result, written: translations.size - missing.size, missing };
+}
+
+/**
+ * List resource files in a values folder (sorted, strings.xml first)
+ */
+async function findResourceFiles(valuesDir: string): Promise<string[]> {
+  const glob = new Glob('*.xml');
+  const files: string[] = [];
+  for await (const file of glob.scan({ cwd: valuesDir, absolute: false })) {
+    files.push(file);
+  }
+  return files
+    .sort(
+      (a, b) =>
+        Number(b === DEFAULT_STRINGS_FILE) - Number(a === DEFAULT_STRINGS_FILE) ||
+        a.localeCompare(b),
+    )
+    .map((file) => join(valuesDir, file));
+}
+
+/**
+ * Read the tools:locale declared by the default strings file
+ */
+function readDefaultLocale(resDir: string): string {
+  const stringsFile = join(resDir, DEFAULT_VALUES_DIR, DEFAULT_STRINGS_FILE);
+  if (!existsSync(stringsFile)) {
+    return DEFAULT_LOCALE;
+  }
+  const resources = readFileSync(stringsFile, 'utf-8').match(/<resources\b([^>]*)>/)?.[1] ?? '';
+  return getAttribute(resources, 'tools:locale') ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Android Parser implementation
+ */
+export const androidParser: Parser = {
+  name: 'android',
+
+  fileKeyPrefix: false,
+
+  capabilities: { plurals: true, keySeparator: null },
+
+  resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+    const qualified = join(
+      translationsDir,
+      `${DEFAULT_VALUES_DIR}-${languageToQualifier(language)}`,
+    );
+    const defaultDir = join(translationsDir, DEFAULT_VALUES_DIR);
+
+    if (!existsSync(qualified) && existsSync(defaultDir)) {
+      const defaultLocale = readDefaultLocale(translationsDir);
+      if (languageToQualifier(defaultLocale) === languageToQualifier(language)) {
+        return { path: defaultDir, kind: 'directory' };
+      }
+    }
+
+    return { path: qualified, kind: 'directory' };
+  },
+
+  async export(valuesDir: string): Promise<Map<string, string>> {
+    if (!existsSync(valuesDir) || !statSync(valuesDir).isDirectory()) {
+      throw new Error(`Language directory not found: ${valuesDir}`);
+    }
+
+    const result = new Map<string, string>();
+    for (const filePath of await findResourceFiles(valuesDir)) {
+      for (const [key, value] of resourcesToMap(await readFile(filePath, 'utf-8'))) {
+        result.set(key, value);
+      }
+    }
+    return result;
+  },
+
+  async import(valuesDir: string, translations: Map<string, string>): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    const files = existsSync(valuesDir) ? await findResourceFiles(valuesDir) : [];
+    const stringsFile = join(valuesDir, DEFAULT_STRINGS_FILE);
+
+    // Update resources where they are defined; new ones go to strings.xml
+    let remaining = new Map(translations);
+    for (const filePath of files) {
+      const update = updateResources(
+        await readFile(filePath, 'utf-8'),
+        remaining,
+        filePath === stringsFile,
+      );
+      if (update.written > 0) {
+        await writeFile(filePath, update.content, 'utf-8');
+        result.filesModified++;
+        result.keysWritten += update.written;
+      }
+      remaining = update.missing;
+    }
+
+    if (remaining.size > 0 && !existsSync(stringsFile)) {
+      const content = '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n</resources>\n';
+      const update = updateResources(content, remaining, true);
+      await mkdir(valuesDir, { recursive: true });
+      await writeFile(stringsFile, update.content, 'utf-8');
+      result.filesCreated++;
+      result.keysWritten += update.written;
+      remaining = update.missing;
+    }
+
+    for (const key of remaining.keys()) {
+      console.warn(`Warning: Could not write key '${key}', skipping`);
+    }
+
+    return result;
+  },
+};
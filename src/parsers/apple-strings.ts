@@ -0,0 +1,471 @@
+/**
+ * Apple Strings Parser
+ *
+ * Parses legacy iOS/macOS localization files.
+ * Expected structure: <translationsDir>/<lang>.lproj/Localizable.strings (+ *.stringsdict)
+ *
+ * `.strings` entries (`"key" = "value";`) are exported by key; the comment above an entry
+ * is exported as metadata. `.stringsdict` plural rules export one key per category:
+ * "<key>[one]", or "<key>[<variable>.one]" when the format uses several variables.
+ * Files may be UTF-8 or UTF-16 (with BOM); imports keep the original encoding and only
+ * rewrite the affected values. New plain keys are appended to Localizable.strings.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { Glob } from 'bun';
+import type { LanguageLocation, Parser, ParserImportResult, TranslationMetadata } from '../types';
+
+/** File that receives keys not present in any strings file yet */
+const DEFAULT_STRINGS_FILE = 'Localizable.strings';
+
+/** Text encodings found in .strings files */
+type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be';
+
+/**
+ * A value in a strings/stringsdict file with the offsets needed for in-place edits
+ */
+interface StringsEntry {
+  key: string;
+  value: string;
+
+  /** Offsets of the value literal (including quotes / <string> tags) */
+  range: [number, number];
+
+  /** Comment directly above the entry */
+  comment?: string;
+}
+
+/**
+ * A stringsdict plural variable, to which missing categories can be added
+ */
+interface PluralVariable {
+  /** Key prefix of its entries (e.g., "%d files" or "%d files[count.") */
+  keyPrefix: string;
+
+  /** Offset of the variable dict's closing tag */
+  closeTag: number;
+
+  /** Indentation of the entries inside the variable dict */
+  indent: string;
+}
+
+/**
+ * Decode a file buffer, detecting UTF-16 by BOM or null bytes
+ */
+export function decodeStrings(buffer: Buffer): { text: string; encoding: TextEncoding } {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: buffer.subarray(2).toString('utf16le'), encoding: 'utf-16le' };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    const swapped = Buffer.from(buffer.subarray(2)).swap16();
+    return { text: swapped.toString('utf16le'), encoding: 'utf-16be' };
+  }
+  if (buffer.length > 1 && buffer[1] === 0 && buffer[0] !== 0) {
+    return { text: buffer.toString('utf16le'), encoding: 'utf-16le' };
+  }
+  return { text: buffer.toString('utf-8').replace(/^\uFEFF/, ''), encoding: 'utf-8' };
+}
+
+/**
+ * Encode text in the original encoding (UTF-16 files are written with a BOM)
+ */
+export function encodeStrings(text: string, encoding: TextEncoding): Buffer {
+  if (encoding === 'utf-8') {
+    return Buffer.from(text, 'utf-8');
+  }
+
+  const bytes = Buffer.from(`\uFEFF${text}`, 'utf16le');
+  return encoding === 'utf-16be' ? bytes.swap16() : bytes;
+}
+
+function unescapeStrings(text: string): string {
+  return text.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, sequence: string) => {
+    if (sequence.length === 5) {
+      return String.fromCharCode(Number.parseInt(sequence.slice(1), 16));
+    }
+    switch (sequence) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      default:
+        return sequence;
+    }
+  });
+}
+
+function escapeStrings(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Parse a .strings file
+ */
+export function parseStrings(content: string): StringsEntry[] {
+  const entries: StringsEntry[] = [];
+  const token =
+    /\/\*([\s\S]*?)\*\/|\/\/([^\n]*)|("(?:[^"\\]|\\.)*"|[\w.-]+)\s*=\s*("(?:[^"\\]|\\.)*")\s*;/g;
+  let comment: string | undefined;
+
+  for (const match of content.matchAll(token)) {
+    if (match[1] !== undefined || match[2] !== undefined) {
+      comment = (match[1] ?? match[2] ?? '').trim();
+      continue;
+    }
+
+    const rawKey = match[3]!;
+    const rawValue = match[4]!;
+    const valueStart = match.index + match[0].lastIndexOf(rawValue);
+    const key = rawKey.startsWith('"') ? unescapeStrings(rawKey.slice(1, -1)) : rawKey;
+
+    entries.push({
+      key,
+      value: unescapeStrings(rawValue.slice(1, -1)),
+      range: [valueStart, valueStart + rawValue.length],
+      comment: comment || undefined,
+    });
+    comment = undefined;
+  }
+
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Minimal plist dict node with source offsets
+ */
+interface PlistDict {
+  entries: Map<string, PlistDict | { value: string; range: [number, number] }>;
+  closeTag: number;
+  indent: string;
+}
+
+/**
+ * Parse the dict structure of a plist (only dict, key and string elements are kept)
+ */
+function parsePlistDicts(content: string): PlistDict | null {
+  const token =
+    /<!--[\s\S]*?-->|<key>([\s\S]*?)<\/key>|<string>([\s\S]*?)<\/string>|<string\/>|<dict>|<\/dict>|<dict\/>/g;
+  const stack: PlistDict[] = [];
+  let root: PlistDict | null = null;
+  let pendingKey: string | null = null;
+
+  for (const match of content.matchAll(token)) {
+    const [text] = match;
+    if (text.startsWith('<!--')) continue;
+
+    if (match[1] !== undefined) {
+      pendingKey = decodeXml(match[1]);
+      const current = stack[stack.length - 1];
+      if (current && current.indent === '') {
+        const lineStart = content.lastIndexOf('\n', match.index - 1) + 1;
+        current.indent = content.slice(lineStart, match.index).match(/^[ \t]*/)?.[0] ?? '';
+      }
+      continue;
+    }
+
+    const parent = stack[stack.length - 1];
+    if (text === '<dict>' || text === '<dict/>') {
+      const dict: PlistDict = { entries: new Map(), closeTag: match.index, indent: '' };
+      if (parent && pendingKey !== null) parent.entries.set(pendingKey, dict);
+      if (!root) root = dict;
+      if (text === '<dict>') stack.push(dict);
+    } else if (text === '</dict>') {
+      const dict = stack.pop();
+      if (dict) dict.closeTag = match.index;
+    } else if (parent && pendingKey !== null) {
+      parent.entries.set(pendingKey, {
+        value: decodeXml(match[2] ?? ''),
+        range: [match.index, match.index + text.length],
+      });
+    }
+    pendingKey = null;
+  }
+
+  return root;
+}
+
+/**
+ * Parse the plural rules of a .stringsdict file
+ */
+export function parseStringsdict(content: string): {
+  entries: StringsEntry[];
+  variables: PluralVariable[];
+} {
+  const entries: StringsEntry[] = [];
+  const variables: PluralVariable[] = [];
+  const root = parsePlistDicts(content);
+  if (!root) {
+    return { entries, variables };
+  }
+
+  for (const [key, node] of root.entries) {
+    if (!('entries' in node)) continue;
+
+    const plurals = Array.from(node.entries).filter(
+      (entry): entry is [string, PlistDict] =>
+        'entries' in entry[1] &&
+        (entry[1].entries.get('NSStringFormatSpecTypeKey') as { value?: string })?.value ===
+          'NSStringPluralRuleType',
+    );
+
+    for (const [variable, dict] of plurals) {
+      const keyPrefix = plurals.length === 1 ? `${key}[` : `${key}[${variable}.`;
+      for (const [category, value] of dict.entries) {
+        if ('entries' in value || category.startsWith('NSString')) continue;
+        entries.push({ key: `${keyPrefix}${category}]`, value: value.value, range: value.range });
+      }
+      variables.push({ keyPrefix, closeTag: dict.closeTag, indent: dict.indent });
+    }
+  }
+
+  return { entries, variables };
+}
+
+/**
+ * Apply text edits bottom-up
+ */
+function applyEdits(
+  content: string,
+  edits: { start: number; end: number; text: string }[],
+): string {
+  let result = content;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Write translations into a .strings file
+ * @param appendMissing - Whether to append keys the file does not contain yet
+ * @returns Updated content and keys not written
+ */
+export function updateStrings(
+  content: string,
+  translations: Map<string, string>,
+  appendMissing: boolean,
+): { content: string; missing: Map<string, string> } {
+  const missing = new Map(translations);
+  const edits = parseStrings(content).flatMap((entry) => {
+    const value = translations.get(entry.key);
+    if (value === undefined) return [];
+    missing.delete(entry.key);
+    return [{ start: entry.range[0], end: entry.range[1], text: `"${escapeStrings(value)}"` }];
+  });
+
+  let result = applyEdits(content, edits);
+  if (appendMissing && missing.size > 0) {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = Array.from(missing).map(
+      ([key, value]) => `"${escapeStrings(key)}" = "${escapeStrings(value)}";`,
+    );
+    const separator = result === '' || result.endsWith('\n') ? '' : eol;
+    result = `${result}${separator}${lines.join(eol)}${eol}`;
+    missing.clear();
+  }
+
+  return { content: result, missing };
+}
+
+/**
+ * Write translations into a .stringsdict file (existing rules only)
+ * @returns Updated content and keys not written
+ */
+export function updateStringsdict(
+  content: string,
+  translations: Map<string, string>,
+): { content: string; missing: Map<string, string> } {
+  const { entries, variables } = parseStringsdict(content);
+  const missing = new Map(translations);
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  for (const entry of entries) {
+    const value = translations.get(entry.key);
+    if (value === undefined) continue;
+    missing.delete(entry.key);
+    edits.push({
+      start: entry.range[0],
+      end: entry.range[1],
+      text: `<string>${encodeXml(value)}</string>`,
+    });
+  }
+
+  // Add missing plural categories to existing variables
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  for (const variable of variables) {
+    const lines: string[] = [];
+    for (const [key, value] of missing) {
+      if (!key.startsWith(variable.keyPrefix) || !key.endsWith(']')) continue;
+      const category = key.slice(variable.keyPrefix.length, -1);
+      if (category.includes('.') || category.includes('[')) continue;
+      lines.push(`${variable.indent}<key>${encodeXml(category)}</key>`);
+      lines.push(`${variable.indent}<string>${encodeXml(value)}</string>`);
+      missing.delete(key);
+    }
+    if (lines.length > 0) {
+      const lineStart = content.lastIndexOf('\n', variable.closeTag - 1) + 1;
+      edits.push({ start: lineStart, end: lineStart, text: `${lines.join(eol)}${eol}` });
+    }
+  }
+
+  return { content: applyEdits(content, edits), missing };
+}
+
+/**
+ * List .strings and .stringsdict files of an .lproj folder (Localizable.strings first)
+ */
+async function findStringsFiles(lprojDir: string): Promise<string[]> {
+  const glob = new Glob('*.{strings,stringsdict}');
+  const files: string[] = [];
+  for await (const file of glob.scan({ cwd: lprojDir, absolute: false })) {
+    files.push(file);
+  }
+  return files
+    .sort(
+      (a, b) =>
+        Number(b === DEFAULT_STRINGS_FILE) - Number(a === DEFAULT_STRINGS_FILE) ||
+        a.localeCompare(b),
+    )
+    .map((file) => join(lprojDir, file));
+}
+
+async function readStringsFile(
+  filePath: string,
+): Promise<{ text: string; encoding: TextEncoding }> {
+  return decodeStrings(await readFile(filePath));
+}
+
+/**
+ * Read all entries of an .lproj folder
+ */
+async function readEntries(lprojDir: string): Promise<StringsEntry[]> {
+  if (!existsSync(lprojDir) || !statSync(lprojDir).isDirectory()) {
+    throw new Error(`Language directory not found: ${lprojDir}`);
+  }
+
+  const entries: StringsEntry[] = [];
+  for (const filePath of await findStringsFiles(lprojDir)) {
+    const { text } = await readStringsFile(filePath);
+    entries.push(
+      ...(filePath.endsWith('.stringsdict') ? parseStringsdict(text).entries : parseStrings(text)),
+    );
+  }
+  return entries;
+}
+
+/**
+ * Apple Strings Parser implementation
+ */
+export const appleStringsParser: Parser = {
+  name: 'apple-strings',
+
+  fileKeyPrefix: false,
+
+  capabilities: { plurals: true, descriptions: true, keySeparator: null },
+
+  resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+    return { path: join(translationsDir, `${language}.lproj`), kind: 'directory' };
+  },
+
+  async export(lprojDir: string): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+    for (const entry of await readEntries(lprojDir)) {
+      result.set(entry.key, entry.value);
+    }
+    return result;
+  },
+
+  async exportMetadata(lprojDir: string): Promise<Map<string, TranslationMetadata>> {
+    const result = new Map<string, TranslationMetadata>();
+    for (const entry of await readEntries(lprojDir)) {
+      // Xcode writes "No comment provided by engineer." for keys without a comment
+      if (entry.comment && !entry.comment.startsWith('No comment provided')) {
+        result.set(entry.key, { description: entry.comment });
+      }
+    }
+    return result;
+  },
+
+  async import(lprojDir: string, translations: Map<string, string>): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    const files = existsSync(lprojDir) ? await findStringsFiles(lprojDir) : [];
+    const defaultFile = join(lprojDir, DEFAULT_STRINGS_FILE);
+
+    // Update plural rules and strings where they are defined
+    const modified = new Set<string>();
+    let remaining = new Map(translations);
+    for (const filePath of files) {
+      const { text, encoding } = await readStringsFile(filePath);
+      const update = filePath.endsWith('.stringsdict')
+        ? updateStringsdict(text, remaining)
+        : updateStrings(text, remaining, false);
+
+      const written = remaining.size - update.missing.size;
+      if (written > 0) {
+        await writeFile(filePath, encodeStrings(update.content, encoding));
+        modified.add(filePath);
+        result.keysWritten += written;
+      }
+      remaining = update.missing;
+    }
+
+    // Append new plain keys to Localizable.strings; plural rules need a .stringsdict entry
+    const plain = new Map<string, string>();
+    for (const [key, value] of remaining) {
+      if (/\[[^\]]+\]$/.test(key)) {
+        console.warn(
+          `Warning: Plural rule for '${key}' not found in any .stringsdict of ${basename(lprojDir)}, skipping`,
+        );
+      } else {
+        plain.set(key, value);
+      }
+    }
+
+    if (plain.size > 0) {
+      const existing = existsSync(defaultFile) ? await readStringsFile(defaultFile) : undefined;
+      const update = updateStrings(existing?.text ?? '', plain, true);
+      await mkdir(lprojDir, { recursive: true });
+      await writeFile(defaultFile, encodeStrings(update.content, existing?.encoding ?? 'utf-8'));
+      if (existing) {
+        modified.add(defaultFile);
+      } else {
+        result.filesCreated++;
+      }
+      result.keysWritten += plain.size;
+    }
+
+    result.filesModified = modified.size;
+    return result;
+  },
+};
@@ -0,0 +1,239 @@
+/**
+ * Flutter ARB Parser
+ *
+ * Parses Application Resource Bundle files used by Flutter's gen-l10n.
+ * Expected structure: <translationsDir>/app_<lang>.arb (e.g., lib/l10n/app_en.arb, app_pt_BR.arb)
+ *
+ * Message keys are exported as-is; ICU plural/select messages stay one value. The `@<key>`
+ * metadata of the template file (description, placeholders and context) is exported as metadata.
+ * `@@` attributes are not keys. Imports set `@@locale` and keep the file's indentation.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import type { LanguageLocation, Parser, ParserImportResult, TranslationMetadata } from '../types';
+import { detectIndent } from './json';
+import { isPlainObject } from './object-utils';
+import { normalizeLocale } from './parser-utils';
+
+/** Prefix used when no ARB file exists yet */
+const DEFAULT_PREFIX = 'app';
+
+/** Indentation used for newly created files */
+const DEFAULT_INDENT = '  ';
+
+/**
+ * Convert a language code to the ARB locale format
+ * @example toArbLocale('pt-BR') => 'pt_BR'
+ */
+export function toArbLocale(language: string): string {
+  return language.replace(/-/g, '_');
+}
+
+/**
+ * Parse ARB content
+ */
+function parseArb(content: string, filePath: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Failed to parse ${filePath}: top-level value must be an object`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Read the locale of an ARB file from `@@locale`, or from the file name suffix
+ */
+function arbFileLocale(filePath: string): string | undefined {
+  try {
+    const locale = parseArb(readFileSync(filePath, 'utf-8'), filePath)['@@locale'];
+    if (typeof locale === 'string') {
+      return locale;
+    }
+  } catch {
+    // Fall back to the file name
+  }
+  return basename(filePath, '.arb').match(/_([a-z]{2,3}(?:_[A-Za-z0-9]+)*)$/)?.[1];
+}
+
+/**
+ * Read the messages of an ARB document
+ */
+export function arbToMap(arb: Record<string, unknown>): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const [key, value] of Object.entries(arb)) {
+    if (key.startsWith('@') || typeof value !== 'string') continue;
+    result.set(key, value);
+  }
+  return result;
+}
+
+/**
+ * Describe placeholder definitions for translators
+ * @example describePlaceholders({ count: { type: 'int' } }) => 'Placeholders: {count} (int)'
+ */
+export function describePlaceholders(placeholders: Record<string, unknown>): string | undefined {
+  const parts = Object.entries(placeholders).map(([name, definition]) => {
+    const details: string[] = [];
+    if (isPlainObject(definition)) {
+      if (typeof definition.type === 'string') details.push(definition.type);
+      if (typeof definition.format === 'string') details.push(`format: ${definition.format}`);
+      if (definition.example !== undefined) details.push(`example: ${definition.example}`);
+      if (typeof definition.description === 'string') details.push(definition.description);
+    }
+    return details.length > 0 ? `{${name}} (${details.join(', ')})` : `{${name}}`;
+  });
+
+  return parts.length > 0 ? `Placeholders: ${parts.join(', ')}` : undefined;
+}
+
+/**
+ * Read the `@<key>` metadata of an ARB document
+ */
+export function arbMetadata(arb: Record<string, unknown>): Map<string, TranslationMetadata> {
+  const result = new Map<string, TranslationMetadata>();
+
+  for (const [key, value] of Object.entries(arb)) {
+    if (!key.startsWith('@') || key.startsWith('@@') || !isPlainObject(value)) continue;
+
+    const notes: string[] = [];
+    if (typeof value.description === 'string' && value.description.trim()) {
+      notes.push(value.description.trim());
+    }
+    const placeholders = isPlainObject(value.placeholders)
+      ? describePlaceholders(value.placeholders)
+      : undefined;
+    if (placeholders) {
+      notes.push(placeholders);
+    }
+
+    const metadata: TranslationMetadata = {};
+    if (notes.length > 0) {
+      metadata.description = notes.join('\n');
+    }
+    if (typeof value.context === 'string' && value.context.trim()) {
+      metadata.context = value.context.trim();
+    }
+    if (Object.keys(metadata).length > 0) {
+      result.set(key.slice(1), metadata);
+    }
+  }
+
+  return result;
+}
+
+async function readArbFile(filePath: string): Promise<Record<string, unknown>> {
+  if (!existsSync(filePath)) {
+    throw new Error(`Language file not found: ${filePath}`);
+  }
+  return parseArb(await readFile(filePath, 'utf-8'), filePath);
+}
+
+/**
+ * Find an existing ARB file of the same directory to copy the formatting from
+ */
+function findSiblingArb(filePath: string): string | undefined {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) {
+    return undefined;
+  }
+  const sibling = readdirSync(dir)
+    .filter((file) => file.endsWith('.arb'))
+    .sort()[0];
+  return sibling ? join(dir, sibling) : undefined;
+}
+
+/**
+ * Flutter ARB Parser implementation
+ */
+export const arbParser: Parser = {
+  name: 'arb',
+
+  fileKeyPrefix: false,
+
+  capabilities: { descriptions: true, context: true, keySeparator: null },
+
+  resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+    const files = existsSync(translationsDir)
+      ? readdirSync(translationsDir)
+          .filter((file) => file.endsWith('.arb'))
+          .sort()
+      : [];
+    const wanted = normalizeLocale(language);
+
+    // Derive the file name prefix from existing files (app_en.arb => app)
+    let prefix = DEFAULT_PREFIX;
+    for (const file of files) {
+      const locale = arbFileLocale(join(translationsDir, file));
+      if (locale && normalizeLocale(locale) === wanted) {
+        return { path: join(translationsDir, file), kind: 'file' };
+      }
+      const suffix = locale ? `_${toArbLocale(locale)}.arb` : undefined;
+      if (prefix === DEFAULT_PREFIX && suffix && file.endsWith(suffix)) {
+        prefix = file.slice(0, -suffix.length);
+      }
+    }
+
+    return {
+      path: join(translationsDir, `${prefix}_${toArbLocale(language)}.arb`),
+      kind: 'file',
+    };
+  },
+
+  async export(arbPath: string): Promise<Map<string, string>> {
+    return arbToMap(await readArbFile(arbPath));
+  },
+
+  async exportMetadata(arbPath: string): Promise<Map<string, TranslationMetadata>> {
+    return arbMetadata(await readArbFile(arbPath));
+  },
+
+  async import(
+    arbPath: string,
+    translations: Map<string, string>,
+    language?: string,
+  ): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    const isNewFile = !existsSync(arbPath);
+    const formatSource = isNewFile ? findSiblingArb(arbPath) : arbPath;
+    const raw = formatSource ? await readFile(formatSource, 'utf-8') : '';
+    let content = isNewFile ? {} : parseArb(raw, arbPath);
+
+    // Target files start with their locale
+    const locale = language ? toArbLocale(language) : arbFileLocale(arbPath);
+    if (locale && typeof content['@@locale'] !== 'string') {
+      content = { '@@locale': locale, ...content };
+    }
+
+    // ARB files follow the template order, so new messages are appended
+    for (const [key, value] of translations) {
+      content[key] = value;
+    }
+
+    const json = JSON.stringify(content, null, raw ? detectIndent(raw) : DEFAULT_INDENT);
+    await mkdir(dirname(arbPath), { recursive: true });
+    await writeFile(arbPath, raw && !raw.endsWith('\n') ? json : `${json}\n`, 'utf-8');
+
+    result.keysWritten = translations.size;
+    result.filesCreated = isNewFile ? 1 : 0;
+    result.filesModified = isNewFile ? 0 : 1;
+    return result;
+  },
+};
@@ -0,0 +1,225 @@
+/**
+ * Parser Capabilities
+ *
+ * Fills in the defaults of a parser's capabilities and combines export() with
+ * exportMetadata() into one entry per key, so commands can pass plural categories,
+ * length limits and message contexts on to the CSV and the translation prompt.
+ */
+
+import type {
+  Parser,
+  ParserCapabilities,
+  PluralCategory,
+  TranslationEntry,
+  TranslationMetadata,
+} from '../types';
+
+/** Capabilities of parsers that do not declare any */
+export const DEFAULT_CAPABILITIES: Required<ParserCapabilities> = {
+  plurals: false,
+  descriptions: false,
+  references: false,
+  maxLength: false,
+  context: false,
+  keySeparator: '.',
+};
+
+/** "<key>[one]" or "<key>[<variable>.one]" (Apple stringsdict with several variables) */
+const PLURAL_KEY_PATTERN = /\[(?:[^\]]*\.)?(zero|one|two|few|many|other)\]$/;
+
+/** CLDR plural categories in their canonical order */
+const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/** Whole numbers checked for the plural categories integers use (e.g., for gettext forms) */
+const INTEGER_SAMPLE_SIZE = 200;
+
+/**
+ * Get the capabilities of a parser with defaults for everything it does not declare
+ */
+export function getCapabilities(parser: Parser): Required<ParserCapabilities> {
+  return { ...DEFAULT_CAPABILITIES, ...parser.capabilities };
+}
+
+/**
+ * Read the plural category from the suffix of a plural form key
+ * @example pluralCategoryOf('inbox.messages[few]') => 'few'
+ */
+export function pluralCategoryOf(key: string): PluralCategory | undefined {
+  return key.match(PLURAL_KEY_PATTERN)?.[1] as PluralCategory | undefined;
+}
+
+function pluralRules(language: string): Intl.PluralRules | undefined {
+  try {
+    return new Intl.PluralRules(language.replace(/_/g, '-'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the CLDR plural categories of a language, in canonical order
+ * @example pluralCategoriesOf('pl') => ['one', 'few', 'many', 'other']
+ */
+export function pluralCategoriesOf(language: string): PluralCategory[] {
+  const categories = pluralRules(language)?.resolvedOptions().pluralCategories ?? ['one', 'other'];
+  return PLURAL_CATEGORIES.filter((category) => categories.includes(category));
+}
+
+/**
+ * Get the plural categories a language uses for whole numbers, in canonical order
+ *
+ * Formats without fractional forms (gettext) have one plural form per category.
+ *
+ * @example integerPluralCategoriesOf('pl') => ['one', 'few', 'many']
+ */
+export function integerPluralCategoriesOf(language: string): PluralCategory[] {
+  const rules = pluralRules(language);
+  if (!rules) {
+    return ['one', 'other'];
+  }
+  const categories = new Set<string>();
+  for (let n = 0; n <= INTEGER_SAMPLE_SIZE; n++) {
+    categories.add(rules.select(n));
+  }
+  return PLURAL_CATEGORIES.filter((category) => categories.has(category));
+}
+
+/**
+ * Describe the capabilities of a parser for people (e.g., "plurals, descriptions; flat keys")
+ */
+export function describeCapabilities(capabilities: Required<ParserCapabilities>): string {
+  const features = (['plurals', 'descriptions', 'references', 'maxLength', 'context'] as const)
+    .filter((feature) => capabilities[feature])
+    .map((feature) => (feature === 'maxLength' ? 'max length' : feature));
+  const keys =
+    capabilities.keySeparator === null
+      ? 'flat keys'
+      : `keys separated by "${capabilities.keySeparator}"`;
+  return `${features.length > 0 ? features.join(', ') : 'no metadata'}; ${keys}`;
+}
+
+/**
+ * Export translations together with their metadata
+ *
+ * @param parser - Parser to read with
+ * @param langPath - Absolute path to the language directory or file
+ * @param language - Language code, for formats that keep several languages in one file
+ * @returns Map of key paths to value and metadata
+ */
+export async function exportEntries(
+  parser: Parser,
+  langPath: string,
+  language?: string,
+): Promise<Map<string, TranslationEntry>> {
+  const values = await parser.export(langPath, language);
+  const metadata = parser.exportMetadata
+    ? await parser.exportMetadata(langPath, language)
+    : new Map<string, TranslationMetadata>();
+  const { plurals } = getCapabilities(parser);
+
+  const result = new Map<string, TranslationEntry>();
+  for (const [key, value] of values) {
+    const entry: TranslationEntry = { ...metadata.get(key), value };
+    const pluralCategory = plurals && !entry.pluralCategory ? pluralCategoryOf(key) : undefined;
+    if (pluralCategory) {
+      entry.pluralCategory = pluralCategory;
+    }
+    result.set(key, entry);
+  }
+  return result;
+}
+
+/**
+ * Split entries into the values and the metadata of keys that have any
+ */
+export function splitEntries(entries: Map<string, TranslationEntry>): {
+  values: Map<string, string>;
+  metadata: Map<string, TranslationMetadata>;
+} {
+  const values = new Map<string, string>();
+  const metadata = new Map<string, TranslationMetadata>();
+  for (const [key, { value, ...rest }] of entries) {
+    values.set(key, value);
+    if (Object.keys(rest).length > 0) {
+      metadata.set(key, rest);
+    }
+  }
+  return { values, metadata };
+}
+
+/**
+ * Fit the "<key>[<category>]" plural forms of entries to the categories of a language
+ *
+ * New forms follow the existing forms of their key and start from the "other" form, so
+ * a source in English yields "[few]" and "[many]" keys for a Polish target. Forms the
+ * language does not have are dropped, so a Japanese target gets no "[one]" keys.
+ *
+ * @param entries - Entries of the source language
+ * @param categories - Plural categories of the target language
+ */
+export function expandPluralCategories(
+  entries: Map<string, TranslationEntry>,
+  categories: PluralCategory[],
+): Map<string, TranslationEntry> {
+  // Plural forms by key without the category ("inbox.messages[", "%d files[count.")
+  const groups = new Map<string, { last: string; forms: Map<PluralCategory, string> }>();
+  for (const key of entries.keys()) {
+    const category = pluralCategoryOf(key);
+    if (!category) continue;
+    const base = key.slice(0, key.length - category.length - 1);
+    const group = groups.get(base) ?? { last: key, forms: new Map() };
+    group.last = key;
+    group.forms.set(category, key);
+    groups.set(base, group);
+  }
+
+  if (groups.size === 0) {
+    return entries;
+  }
+
+  const lastForms = new Map([...groups].map(([base, group]) => [group.last, base]));
+  const result = new Map<string, TranslationEntry>();
+  for (const [key, entry] of entries) {
+    const category = pluralCategoryOf(key);
+    if (!category || categories.includes(category)) {
+      result.set(key, entry);
+    }
+
+    const base = lastForms.get(key);
+    if (base === undefined) continue;
+    const { forms } = groups.get(base)!;
+    const template = entries.get(forms.get('other') ?? key)!;
+    for (const category of categories) {
+      if (!forms.has(category)) {
+        result.set(`${base}${category}]`, { ...template, pluralCategory: category });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Add the plural forms a target language needs to the source entries compared with it
+ *
+ * Parsers implementing `expandPluralForms` number their forms themselves (gettext);
+ * other parsers declaring plurals get the CLDR categories of the target language.
+ *
+ * @param parser - Parser the entries were read with
+ * @param entries - Entries of the source language
+ * @param langPath - Absolute path to the target language directory or file
+ * @param language - Target language code
+ */
+export async function expandPluralEntries(
+  parser: Parser,
+  entries: Map<string, TranslationEntry>,
+  langPath: string,
+  language: string,
+): Promise<Map<string, TranslationEntry>> {
+  if (parser.expandPluralForms) {
+    return parser.expandPluralForms(entries, langPath, language);
+  }
+  if (!getCapabilities(parser).plurals) {
+    return entries;
+  }
+  return expandPluralCategories(entries, pluralCategoriesOf(language));
+}
@@ -0,0 +1,215 @@
+/**
+ * ES Module Parser
+ *
+ * Parses ES module and TypeScript translation files without executing them.
+ * Expected structure: translations/<lang>/*.{ts,mts,js,mjs} with `export default { ... }`
+ * or named exports (`export const common = { ... }`), or a single translations/<lang>.ts
+ * module per language (keys without file prefix).
+ *
+ * Named exports become the first key segment when there is no default export.
+ * `as const` and `satisfies` clauses are supported. Imports edit the module in place,
+ * and new files follow the export style of the same file in another language.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { Glob } from 'bun';
+import type { LanguageLocation, Parser, ParserImportResult } from '../types';
+import {
+  findModuleTemplate,
+  moduleToObject,
+  parseModuleSource,
+  renderModule,
+  updateModuleSource,
+} from './module-source';
+import { flattenObject, setNestedValue } from './object-utils';
+
+/** Supported module file extensions, in lookup order */
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs'];
+
+/** Glob pattern matching module files */
+const MODULE_GLOB = '*.{ts,mts,js,mjs}';
+
+/** Extension of new files when no other module exists */
+const DEFAULT_EXTENSION = '.ts';
+
+function isModuleFile(file: string): boolean {
+  return MODULE_EXTENSIONS.includes(extname(file)) && !file.endsWith('.d.ts');
+}
+
+/**
+ * Parse a single module file
+ */
+async function parseModuleFile(filePath: string): Promise<Record<string, unknown>> {
+  return moduleToObject(parseModuleSource(await readFile(filePath, 'utf-8'), filePath));
+}
+
+/**
+ * List the translation modules of a language directory (index files only re-export)
+ */
+async function findModuleFiles(langDir: string): Promise<string[]> {
+  const glob = new Glob(MODULE_GLOB);
+  const files: string[] = [];
+  for await (const file of glob.scan({ cwd: langDir, absolute: false })) {
+    if (isModuleFile(file) && basename(file, extname(file)) !== 'index') {
+      files.push(file);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Write translations into a module file, creating it if needed
+ * @param keys - Map of dot-notation key paths (relative to the module) to values
+ * @param singleFile - Whether the module holds a whole language
+ * @returns Whether the file was newly created
+ */
+async function writeModuleFile(
+  filePath: string,
+  keys: Map<string, string>,
+  singleFile: boolean,
+): Promise<boolean> {
+  if (existsSync(filePath)) {
+    const content = await readFile(filePath, 'utf-8');
+    await writeFile(filePath, updateModuleSource(content, keys, filePath, 'esm'), 'utf-8');
+    return false;
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of keys) {
+    setNestedValue(values, key, value);
+  }
+
+  const template = (await findModuleTemplate(filePath, singleFile, MODULE_GLOB))?.source;
+  const content = renderModule(values, template?.style ?? 'esm', template?.format, {
+    named: template ? !template.root && template.named.size > 0 : false,
+    asConst: template?.asConst,
+  });
+
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, 'utf-8');
+  return true;
+}
+
+/**
+ * ES Module Parser implementation
+ */
+export const esModuleParser: Parser = {
+  name: 'es-module',
+
+  resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+    const langDir = join(translationsDir, language);
+    if (!existsSync(langDir)) {
+      for (const extension of MODULE_EXTENSIONS) {
+        const filePath = `${langDir}${extension}`;
+        if (existsSync(filePath)) {
+          return { path: filePath, kind: 'file' };
+        }
+      }
+    }
+    return { path: langDir, kind: 'directory' };
+  },
+
+  async export(langDir: string): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+
+    if (!existsSync(langDir)) {
+      throw new Error(`Language directory not found: ${langDir}`);
+    }
+
+    // Single module per language: keys have no file prefix
+    if (statSync(langDir).isFile()) {
+      return flattenObject(await parseModuleFile(langDir), '', langDir);
+    }
+
+    for (const file of await findModuleFiles(langDir)) {
+      const filePath = join(langDir, file);
+      const moduleName = basename(file, extname(file));
+
+      try {
+        const content = await parseModuleFile(filePath);
+        for (const [key, value] of flattenObject(content, moduleName, filePath)) {
+          result.set(key, value);
+        }
+      } catch (error) {
+        console.error(`Warning: Failed to parse ${filePath}:`, error);
+      }
+    }
+
+    return result;
+  },
+
+  async import(langDir: string, translations: Map<string, string>): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    // Single module per language: write all keys into it
+    if (isModuleFile(langDir)) {
+      const created = await writeModuleFile(langDir, translations, true);
+      result.keysWritten = translations.size;
+      result.filesCreated = created ? 1 : 0;
+      result.filesModified = created ? 0 : 1;
+      return result;
+    }
+
+    // Group translations by module name (first segment of key)
+    const fileGroups = new Map<string, Map<string, string>>();
+
+    for (const [key, value] of translations) {
+      const dotIndex = key.indexOf('.');
+      if (dotIndex === -1) {
+        console.warn(`Warning: Key '${key}' has no file prefix, skipping`);
+        continue;
+      }
+
+      const moduleName = key.substring(0, dotIndex);
+      let group = fileGroups.get(moduleName);
+      if (!group) {
+        group = new Map();
+        fileGroups.set(moduleName, group);
+      }
+      group.set(key.substring(dotIndex + 1), value);
+    }
+
+    const existing = existsSync(langDir) ? await findModuleFiles(langDir) : [];
+
+    for (const [moduleName, keys] of fileGroups) {
+      const file =
+        existing.find((f) => basename(f, extname(f)) === moduleName) ??
+        `${moduleName}${await newFileExtension(join(langDir, moduleName), existing)}`;
+      const created = await writeModuleFile(join(langDir, file), keys, false);
+      result.keysWritten += keys.size;
+
+      if (created) {
+        result.filesCreated++;
+      } else {
+        result.filesModified++;
+      }
+    }
+
+    return result;
+  },
+};
+
+/**
+ * Pick the extension of a new module: the template's, else the one of other modules
+ */
+async function newFileExtension(modulePath: string, existing: string[]): Promise<string> {
+  const template = await findModuleTemplate(
+    `${modulePath}${DEFAULT_EXTENSION}`,
+    false,
+    MODULE_GLOB,
+  );
+  if (template) {
+    return extname(template.path);
+  }
+  return existing[0] ? extname(existing[0]) : DEFAULT_EXTENSION;
+}
@@ -0,0 +1,750 @@
+/**
+ * Gettext Parser
+ *
+ * Parses GNU gettext PO/POT catalogs (Django, PHP, ...).
+ * Expected structure: locale/<lang>/**\/*.po (or a single locale/<lang>.po per language)
+ *
+ * Keys are the msgid, prefixed with "<msgctxt>\u0004" when a context is present
+ * (the same convention gettext uses for pgettext lookups). Plural entries are
+ * exported as one key per form: "<key>[0]", "<key>[1]", ... Target languages are compared
+ * with as many forms as their Plural-Forms header (or CLDR) gives them.
+ * Extracted comments, references, msgctxt and the plural category of each form (when the
+ * language's categories can be told apart) are exported as metadata.
+ *
+ * Values come from msgstr in .po catalogs (empty and fuzzy entries count as untranslated)
+ * and from msgid/msgid_plural in .pot templates, so a template can act as the source language.
+ * Imports only rewrite the msgstr lines of affected entries; the rest of the catalog is
+ * kept byte-identical.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, extname, join } from 'node:path';
+import { Glob } from 'bun';
+import type {
+  ImportError,
+  LanguageLocation,
+  Parser,
+  ParserImportResult,
+  PluralCategory,
+  TranslationEntry,
+  TranslationMetadata,
+  TranslationReference,
+} from '../types';
+import { integerPluralCategoriesOf } from './capabilities';
+
+/** Separator between msgctxt and msgid in keys */
+export const CONTEXT_SEPARATOR = '\u0004';
+
+/** Plural categories of the forms of languages with two forms (English, German, ...) */
+const TWO_FORM_CATEGORIES: PluralCategory[] = ['one', 'other'];
+
+/** File name used when a language directory contains no catalog yet */
+const DEFAULT_CATALOG_NAME = 'messages.po';
+
+/**
+ * Entry to append to a catalog (msgstr by plural index for plural entries)
+ */
+interface NewEntry {
+  key: string;
+  msgidPlural?: string;
+  msgstr: string[];
+}
+
+/**
+ * Line range of a msgstr field (end is exclusive)
+ */
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A single catalog entry with the line positions needed for surgical edits
+ */
+export interface PoEntry {
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+
+  /** msgstr values by plural index (index 0 for singular entries) */
+  msgstr: string[];
+
+  /** `#.` comments extracted from source code */
+  extractedComments: string[];
+
+  /** `#:` source references (e.g., "app/views.py:42") */
+  references: string[];
+
+  /** `#,` flags (e.g., "fuzzy", "python-format") */
+  flags: string[];
+
+  /** Line index of the `#,` flags line */
+  flagsLine?: number;
+
+  /** Line ranges of each msgstr field by plural index */
+  msgstrLines: Map<number, LineRange>;
+}
+
+/**
+ * Parsed catalog: original lines plus entries referencing them
+ */
+export interface PoCatalog {
+  lines: string[];
+  eol: string;
+  entries: PoEntry[];
+}
+
+/**
+ * Unescape a C-style PO string literal body
+ */
+function unescapePo(value: string): string {
+  return value.replace(/\\(["\\abfnrtv]|[0-7]{1,3})/g, (_, seq: string) => {
+    switch (seq) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      case 'a':
+        return '\x07';
+      case 'b':
+        return '\b';
+      case 'f':
+        return '\f';
+      case 'v':
+        return '\v';
+      case '"':
+      case '\\':
+        return seq;
+      default:
+        return String.fromCharCode(Number.parseInt(seq, 8));
+    }
+  });
+}
+
+/**
+ * Escape a value for use inside a PO string literal
+ */
+function escapePo(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Extract the body of a quoted PO string ("..." => ...)
+ */
+function unquote(literal: string): string {
+  const trimmed = literal.trim();
+  return unescapePo(trimmed.slice(1, -1));
+}
+
+/**
+ * Format a msgstr field, splitting multi-line values the way gettext tools do
+ */
+function formatPoField(keyword: string, value: string): string[] {
+  const firstBreak = value.indexOf('\n');
+  if (firstBreak === -1 || firstBreak === value.length - 1) {
+    return [`${keyword} "${escapePo(value)}"`];
+  }
+
+  const parts = value.match(/[^\n]*\n|[^\n]+$/g) ?? [value];
+  return [`${keyword} ""`, ...parts.map((part) => `"${escapePo(part)}"`)];
+}
+
+/**
+ * Build the key for an entry (msgctxt-qualified msgid)
+ */
+export function entryKey(entry: Pick<PoEntry, 'msgctxt' | 'msgid'>): string {
+  return entry.msgctxt !== undefined
+    ? `${entry.msgctxt}${CONTEXT_SEPARATOR}${entry.msgid}`
+    : entry.msgid;
+}
+
+function createEntry(): PoEntry & { hasMsgid: boolean; hasMsgstr: boolean; obsolete: boolean } {
+  return {
+    msgid: '',
+    msgstr: [],
+    extractedComments: [],
+    references: [],
+    flags: [],
+    msgstrLines: new Map(),
+    hasMsgid: false,
+    hasMsgstr: false,
+    obsolete: false,
+  };
+}
+
+/**
+ * Parse PO/POT content into a catalog
+ * Obsolete (`#~`) entries are left untouched and not returned.
+ */
+export function parsePo(content: string): PoCatalog {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(eol);
+  const entries: PoEntry[] = [];
+
+  let entry = createEntry();
+  let field: { name: string; index: number } | null = null;
+
+  const finish = () => {
+    if (entry.hasMsgid && !entry.obsolete) {
+      const { hasMsgid: _, hasMsgstr: __, obsolete: ___, ...rest } = entry;
+      entries.push(rest);
+    }
+    entry = createEntry();
+    field = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+
+    if (line === '') {
+      finish();
+      continue;
+    }
+
+    if (line.startsWith('#')) {
+      if (entry.hasMsgid) {
+        finish();
+      }
+      if (line.startsWith('#~')) {
+        entry.obsolete = true;
+      } else if (line.startsWith('#.')) {
+        entry.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith('#:')) {
+        entry.references.push(...line.slice(2).trim().split(/\s+/).filter(Boolean));
+      } else if (line.startsWith('#,')) {
+        entry.flags = line
+          .slice(2)
+          .split(',')
+          .map((flag) => flag.trim())
+          .filter(Boolean);
+        entry.flagsLine = i;
+      }
+      continue;
+    }
+
+    const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*")$/);
+    if (keyword) {
+      const [, name, index, literal] = keyword;
+      if ((name === 'msgctxt' || name === 'msgid') && entry.hasMsgstr) {
+        finish();
+      }
+
+      const value = unquote(literal!);
+      const pluralIndex = index !== undefined ? Number.parseInt(index, 10) : 0;
+      field = { name: name!, index: pluralIndex };
+
+      if (name === 'msgctxt') {
+        entry.msgctxt = value;
+      } else if (name === 'msgid') {
+        entry.msgid = value;
+        entry.hasMsgid = true;
+      } else if (name === 'msgid_plural') {
+        entry.msgidPlural = value;
+      } else {
+        entry.msgstr[pluralIndex] = value;
+        entry.msgstrLines.set(pluralIndex, { start: i, end: i + 1 });
+        entry.hasMsgstr = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith('"') && field) {
+      const value = unquote(line);
+      if (field.name === 'msgctxt') {
+        entry.msgctxt = (entry.msgctxt ?? '') + value;
+      } else if (field.name === 'msgid') {
+        entry.msgid += value;
+      } else if (field.name === 'msgid_plural') {
+        entry.msgidPlural = (entry.msgidPlural ?? '') + value;
+      } else {
+        entry.msgstr[field.index] = (entry.msgstr[field.index] ?? '') + value;
+        const range = entry.msgstrLines.get(field.index);
+        if (range) {
+          range.end = i + 1;
+        }
+      }
+    }
+  }
+  finish();
+
+  return { lines, eol, entries };
+}
+
+/**
+ * Check whether a catalog path is a template (.pot)
+ */
+function isTemplate(filePath: string): boolean {
+  return extname(filePath) === '.pot';
+}
+
+/**
+ * Read the translated values of a catalog as a flat key map
+ */
+export function catalogToMap(catalog: PoCatalog, template: boolean): Map<string, string> {
+  const result = new Map<string, string>();
+
+  for (const entry of catalog.entries) {
+    // Skip the header entry
+    if (entry.msgid === '' && entry.msgctxt === undefined) continue;
+
+    const key = entryKey(entry);
+
+    if (template) {
+      if (entry.msgidPlural !== undefined) {
+        result.set(`${key}[0]`, entry.msgid);
+        result.set(`${key}[1]`, entry.msgidPlural);
+      } else {
+        result.set(key, entry.msgid);
+      }
+      continue;
+    }
+
+    if (entry.flags.includes('fuzzy')) continue;
+
+    if (entry.msgidPlural !== undefined) {
+      entry.msgstr.forEach((value, index) => {
+        if (value) result.set(`${key}[${index}]`, value);
+      });
+    } else if (entry.msgstr[0]) {
+      result.set(key, entry.msgstr[0]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read the number of plural forms from the catalog header ("Plural-Forms: nplurals=3; ...")
+ */
+export function pluralFormCount(catalog: PoCatalog): number | undefined {
+  const header = catalog.entries.find((entry) => entry.msgid === '' && entry.msgctxt === undefined);
+  const match = header?.msgstr[0]?.match(/^Plural-Forms:.*\bnplurals\s*=\s*(\d+)/m);
+  return match ? Number.parseInt(match[1]!, 10) : undefined;
+}
+
+/**
+ * Plural categories of the forms of a language, when they can be told apart
+ *
+ * Plural-Forms expressions number the forms in CLDR order (Polish: one, few, many), so
+ * a language with one form per integer category gets those; two forms are one and other.
+ */
+function pluralFormCategories(forms: number, language?: string): PluralCategory[] | undefined {
+  const categories = language ? integerPluralCategoriesOf(language) : [];
+  if (categories.length === forms) {
+    return categories;
+  }
+  return forms === 2 ? TWO_FORM_CATEGORIES : undefined;
+}
+
+/**
+ * Parse `#:` reference tokens ("path/to/file.py:42") into source references
+ */
+function parseReferences(references: string[]): TranslationReference[] {
+  const result: TranslationReference[] = [];
+  for (const reference of references) {
+    const match = reference.match(/^(.+):(\d+)$/);
+    if (match) {
+      result.push({ filePath: match[1]!, lineNumber: Number.parseInt(match[2]!, 10) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a key into its base key and plural index ("key[1]" => ["key", 1])
+ */
+function splitPluralKey(key: string): [string, number] | null {
+  const match = key.match(/^(.*)\[(\d+)\]$/s);
+  return match ? [match[1]!, Number.parseInt(match[2]!, 10)] : null;
+}
+
+/**
+ * Apply translations to a catalog by rewriting only the affected msgstr lines
+ * @returns Updated content and keys that were not found in the catalog
+ */
+export function updateCatalog(
+  catalog: PoCatalog,
+  translations: Map<string, string>,
+): { content: string; written: number; missing: Map<string, string> } {
+  const entriesByKey = new Map(catalog.entries.map((entry) => [entryKey(entry), entry]));
+  const edits: Array<{ start: number; end: number; lines: string[] }> = [];
+  const touched = new Set<PoEntry>();
+  const missing = new Map<string, string>();
+  let written = 0;
+
+  for (const [key, value] of translations) {
+    let entry = entriesByKey.get(key);
+    let index = 0;
+
+    const plural = splitPluralKey(key);
+    if (plural && entriesByKey.get(plural[0])?.msgidPlural !== undefined) {
+      entry = entriesByKey.get(plural[0]);
+      index = plural[1];
+    }
+
+    if (!entry) {
+      missing.set(key, value);
+      continue;
+    }
+
+    const keyword = entry.msgidPlural !== undefined ? `msgstr[${index}]` : 'msgstr';
+    const newLines = formatPoField(keyword, value);
+    const range = entry.msgstrLines.get(index);
+
+    if (range) {
+      edits.push({ start: range.start, end: range.end, lines: newLines });
+    } else {
+      // Plural form not present yet: insert after the last msgstr field
+      const last = Math.max(...Array.from(entry.msgstrLines.values(), (r) => r.end));
+      edits.push({ start: last, end: last, lines: newLines });
+    }
+
+    touched.add(entry);
+    written++;
+  }
+
+  // A reviewed translation is no longer fuzzy
+  for (const entry of touched) {
+    if (entry.flagsLine === undefined || !entry.flags.includes('fuzzy')) continue;
+    const flags = entry.flags.filter((flag) => flag !== 'fuzzy');
+    edits.push({
+      start: entry.flagsLine,
+      end: entry.flagsLine + 1,
+      lines: flags.length > 0 ? [`#, ${flags.join(', ')}`] : [],
+    });
+  }
+
+  // Apply bottom-up so earlier line indexes stay valid
+  const lines = [...catalog.lines];
+  edits.sort((a, b) => b.start - a.start);
+  for (const edit of edits) {
+    lines.splice(edit.start, edit.end - edit.start, ...edit.lines);
+  }
+
+  return { content: lines.join(catalog.eol), written, missing };
+}
+
+/**
+ * Format new entries to append to a catalog
+ * @returns Entry text and number of keys (plural forms) written
+ */
+function formatNewEntries(entries: NewEntry[], eol: string): { text: string; written: number } {
+  const blocks: string[] = [];
+  let written = 0;
+
+  for (const { key, msgidPlural, msgstr } of entries) {
+    const separatorIndex = key.indexOf(CONTEXT_SEPARATOR);
+    const msgctxt = separatorIndex === -1 ? undefined : key.slice(0, separatorIndex);
+    const msgid = separatorIndex === -1 ? key : key.slice(separatorIndex + 1);
+
+    const lines: string[] = [];
+    if (msgctxt !== undefined) {
+      lines.push(`msgctxt "${escapePo(msgctxt)}"`);
+    }
+    lines.push(`msgid "${escapePo(msgid)}"`);
+    if (msgidPlural === undefined) {
+      lines.push(...formatPoField('msgstr', msgstr[0] ?? ''));
+    } else {
+      // Forms without a translation (holes in msgstr) are written empty
+      lines.push(`msgid_plural "${escapePo(msgidPlural)}"`);
+      for (let index = 0; index < msgstr.length; index++) {
+        lines.push(...formatPoField(`msgstr[${index}]`, msgstr[index] ?? ''));
+      }
+    }
+    blocks.push(lines.join(eol));
+    written += msgstr.filter((value) => value !== undefined).length;
+  }
+
+  return { text: blocks.join(eol + eol), written };
+}
+
+/**
+ * Minimal header for newly created catalogs
+ */
+function newCatalogHeader(eol: string): string {
+  return [
+    'msgid ""',
+    'msgstr ""',
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+  ].join(eol);
+}
+
+/**
+ * List catalog files in a language directory (recursively, sorted)
+ */
+async function findCatalogs(langDir: string): Promise<string[]> {
+  const glob = new Glob('**/*.{po,pot}');
+  const files: string[] = [];
+  for await (const file of glob.scan({ cwd: langDir, absolute: false })) {
+    files.push(join(langDir, file));
+  }
+  return files.sort();
+}
+
+/**
+ * Resolve the catalog files for a language path (directory or single file)
+ */
+async function resolveCatalogs(langPath: string): Promise<string[]> {
+  if (!existsSync(langPath)) {
+    throw new Error(`Language directory not found: ${langPath}`);
+  }
+  return statSync(langPath).isFile() ? [langPath] : findCatalogs(langPath);
+}
+
+async function readCatalog(filePath: string): Promise<PoCatalog> {
+  return parsePo(await Bun.file(filePath).text());
+}
+
+/**
+ * Gettext Parser implementation
+ */
+export const gettextParser: Parser = {
+  name: 'gettext',
+
+  fileKeyPrefix: false,
+
+  capabilities: {
+    plurals: true,
+    descriptions: true,
+    references: true,
+    context: true,
+    keySeparator: null,
+  },
+
+  resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+    const directory = join(translationsDir, language);
+    if (existsSync(directory)) {
+      return { path: directory, kind: 'directory' };
+    }
+
+    for (const extension of ['.po', '.pot']) {
+      const file = `${directory}${extension}`;
+      if (existsSync(file)) {
+        return { path: file, kind: 'file' };
+      }
+    }
+
+    return { path: directory, kind: 'directory' };
+  },
+
+  async export(langPath: string): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+
+    for (const filePath of await resolveCatalogs(langPath)) {
+      try {
+        const catalog = await readCatalog(filePath);
+        for (const [key, value] of catalogToMap(catalog, isTemplate(filePath))) {
+          result.set(key, value);
+        }
+      } catch (error) {
+        console.error(`Warning: Failed to parse ${filePath}:`, error);
+      }
+    }
+
+    return result;
+  },
+
+  async exportMetadata(
+    langPath: string,
+    language?: string,
+  ): Promise<Map<string, TranslationMetadata>> {
+    const result = new Map<string, TranslationMetadata>();
+
+    for (const filePath of await resolveCatalogs(langPath)) {
+      const catalog = await readCatalog(filePath);
+
+      for (const entry of catalog.entries) {
+        if (entry.msgid === '' && entry.msgctxt === undefined) continue;
+
+        const metadata: TranslationMetadata = {};
+        if (entry.extractedComments.length > 0) {
+          metadata.description = entry.extractedComments.join('\n');
+        }
+        const references = parseReferences(entry.references);
+        if (references.length > 0) {
+          metadata.references = references;
+        }
+        if (entry.msgctxt) {
+          metadata.context = entry.msgctxt;
+        }
+
+        const key = entryKey(entry);
+        if (entry.msgidPlural !== undefined) {
+          const forms = Math.max(2, entry.msgstr.length);
+          const categories = pluralFormCategories(forms, language);
+          for (let index = 0; index < forms; index++) {
+            const pluralCategory = categories?.[index];
+            result.set(
+              `${key}[${index}]`,
+              pluralCategory ? { ...metadata, pluralCategory } : metadata,
+            );
+          }
+        } else if (Object.keys(metadata).length > 0) {
+          result.set(key, metadata);
+        }
+      }
+    }
+
+    return result;
+  },
+
+  async expandPluralForms(
+    entries: Map<string, TranslationEntry>,
+    langPath: string,
+    language: string,
+  ): Promise<Map<string, TranslationEntry>> {
+    // The target catalog's Plural-Forms decides, else one form per integer category
+    let forms: number | undefined;
+    if (existsSync(langPath)) {
+      for (const filePath of await resolveCatalogs(langPath)) {
+        forms ??= pluralFormCount(await readCatalog(filePath));
+      }
+    }
+    forms ??= integerPluralCategoriesOf(language).length;
+    const categories = pluralFormCategories(forms, language);
+
+    // Forms of each plural entry, by key without the index
+    const plurals = new Map<string, { last: string; template: TranslationEntry }>();
+    for (const [key, entry] of entries) {
+      const plural = splitPluralKey(key);
+      if (plural && (plural[1] === 0 || plurals.has(plural[0]))) {
+        plurals.set(plural[0], { last: key, template: entry });
+      }
+    }
+
+    const withCategory = (entry: TranslationEntry, index: number): TranslationEntry => {
+      const { pluralCategory: _, ...rest } = entry;
+      const pluralCategory = categories?.[index];
+      return pluralCategory ? { ...rest, pluralCategory } : rest;
+    };
+
+    const result = new Map<string, TranslationEntry>();
+    for (const [key, entry] of entries) {
+      const plural = splitPluralKey(key);
+      const group = plural && plurals.get(plural[0]);
+      if (!plural || !group) {
+        result.set(key, entry);
+        continue;
+      }
+
+      // Forms the target does not have are dropped, missing ones start from the last form
+      if (plural[1] < forms) {
+        result.set(key, withCategory(entry, plural[1]));
+      }
+      if (key === group.last) {
+        for (let index = plural[1] + 1; index < forms; index++) {
+          result.set(`${plural[0]}[${index}]`, withCategory(group.template, index));
+        }
+      }
+    }
+    return result;
+  },
+
+  async import(
+    langPath: string,
+    translations: Map<string, string>,
+    _language?: string,
+    sourceValues?: Map<string, string>,
+  ): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    const singleFile = ['.po', '.pot'].includes(extname(langPath));
+    let catalogs: string[] = [];
+    if (existsSync(langPath)) {
+      catalogs = singleFile
+        ? [langPath]
+        : (await findCatalogs(langPath)).filter((file) => !isTemplate(file));
+    }
+
+    // Update entries in whichever catalog already contains them
+    let remaining = new Map(translations);
+    const contents = new Map<string, { eol: string; content: string }>();
+    const modified = new Set<string>();
+
+    for (const filePath of catalogs) {
+      const catalog = await readCatalog(filePath);
+      const update = updateCatalog(catalog, remaining);
+      contents.set(filePath, { eol: catalog.eol, content: update.content });
+      if (update.written > 0) {
+        await writeFile(filePath, update.content, 'utf-8');
+        modified.add(filePath);
+        result.keysWritten += update.written;
+      }
+      remaining = update.missing;
+    }
+
+    // Append entries that no catalog contains yet; a new plural entry takes its
+    // msgid_plural from the source value of its second form
+    const appendable: NewEntry[] = [];
+    const plurals = new Map<string, NewEntry>();
+    for (const [key, value] of remaining) {
+      const plural = splitPluralKey(key);
+      if (!plural) {
+        appendable.push({ key, msgstr: [value] });
+        continue;
+      }
+      let entry = plurals.get(plural[0]);
+      if (!entry) {
+        entry = { key: plural[0], msgidPlural: sourceValues?.get(`${plural[0]}[1]`), msgstr: [] };
+        plurals.set(plural[0], entry);
+        appendable.push(entry);
+      }
+      entry.msgstr[plural[1]] = value;
+    }
+
+    const errors: ImportError[] = [];
+    const failed = new Set<NewEntry>();
+    for (const entry of plurals.values()) {
+      if (entry.msgidPlural !== undefined) continue;
+      failed.add(entry);
+      entry.msgstr.forEach((_, index) => {
+        errors.push({
+          translationKey: `${entry.key}[${index}]`,
+          reason: 'Plural entry not found in catalog and no source value for its msgid_plural',
+        });
+      });
+    }
+    const writable = appendable.filter((entry) => !failed.has(entry));
+
+    if (writable.length > 0) {
+      const targetFile = singleFile
+        ? langPath
+        : (catalogs[0] ?? join(langPath, DEFAULT_CATALOG_NAME));
+      const existing = contents.get(targetFile);
+      const eol = existing?.eol ?? '\n';
+      const { text, written } = formatNewEntries(writable, eol);
+
+      if (existing) {
+        const base = existing.content.replace(/(\r?\n)*$/, '');
+        await writeFile(targetFile, `${base}${eol}${eol}${text}${eol}`, 'utf-8');
+        modified.add(targetFile);
+      } else {
+        await mkdir(dirname(targetFile), { recursive: true });
+        await writeFile(targetFile, `${newCatalogHeader(eol)}${eol}${eol}${text}${eol}`, 'utf-8');
+        result.filesCreated++;
+      }
+      result.keysWritten += written;
+    }
+
+    result.filesModified = modified.size;
+    return errors.length > 0 ? { ...result, errors } : result;
+  },
+};
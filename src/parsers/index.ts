@@ -4,7 +4,7 @@
  * Supports pluggable parser architecture - each parser in its own file.
  */
 
-import type { Parser } from '../types';
+import type { Parser, ParserOptions } from '../types';
 
 /**
  * Registry of available parsers
@@ -22,10 +22,12 @@ export function registerParser(parser: Parser): void {
 /**
  * Get a parser by name
  * @param name - Parser name
+ * @param options - Command line options for parsers that support them
  * @returns Parser or undefined if not found
  */
-export function getParser(name: string): Parser | undefined {
-  return parsers.get(name);
+export function getParser(name: string, options?: ParserOptions): Parser | undefined {
+  const parser = parsers.get(name);
+  return parser && options && parser.configure ? parser.configure(options) : parser;
 }
 
 /**
@@ -47,5 +49,41 @@ export function clearParsers(): void {
 export type { Parser } from '../types';
 
 // Import and register built-in parsers
+import { androidParser } from './android';
+import { appleStringsParser } from './apple-strings';
+import { arbParser } from './arb';
+import { esModuleParser } from './es-module';
+import { gettextParser } from './gettext';
+import { jsonParser } from './json';
+import { laravelParser } from './laravel';
 import { nodeModuleParser } from './node-module';
-registerParser(nodeModuleParser);
+import { propertiesParser } from './properties';
+import { xcstringsParser } from './xcstrings';
+import { xliffParser } from './xliff';
+import { yamlParser } from './yaml';
+
+/** Parsers shipped with curlydots */
+const builtInParsers = [
+  nodeModuleParser,
+  esModuleParser,
+  jsonParser,
+  gettextParser,
+  yamlParser,
+  xliffParser,
+  androidParser,
+  xcstringsParser,
+  appleStringsParser,
+  arbParser,
+  laravelParser,
+  propertiesParser,
+];
+for (const parser of builtInParsers) {
+  registerParser(parser);
+}
+
+/**
+ * Get the names of the parsers shipped with curlydots (unaffected by clearParsers)
+ */
+export function getBuiltInParsers(): string[] {
+  return builtInParsers.map((parser) => parser.name);
+}
@@ -0,0 +1,292 @@
+/**
+ * JSON Parser
+ *
+ * Parses i18next / vue-i18n style JSON namespace files.
+ * Expected structure: locales/<lang>/*.json with nested or flat ("a.b": "c") objects,
+ * or a single locales/<lang>.json file per language (keys without file prefix).
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { Glob } from 'bun';
+import type { Parser, ParserImportResult } from '../types';
+import { flattenObject, isArrayIndex, isPlainObject } from './object-utils';
+
+/** Indentation used for newly created files */
+const DEFAULT_INDENT = '  ';
+
+/**
+ * Formatting details of an existing JSON file, reused when writing it back
+ */
+interface JsonFileFormat {
+  /** Indentation string (spaces or tab), empty for compact one-line files */
+  indent: string;
+
+  /** Whether the file ends with a newline */
+  trailingNewline: boolean;
+
+  /** Whether keys are stored flat ("a.b": "c") instead of nested */
+  flat: boolean;
+}
+
+/**
+ * Parse a single JSON namespace file
+ */
+async function parseJsonFile(filePath: string): Promise<Record<string, unknown>> {
+  const content = await Bun.file(filePath).text();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Failed to parse ${filePath}: top-level value must be an object`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Detect indentation from the first indented line of a JSON document
+ * @param fallback - Indentation of documents without an indented line
+ */
+export function detectIndent(content: string, fallback = DEFAULT_INDENT): string {
+  const match = content.match(/\n([ \t]+)\S/);
+  return match?.[1] ?? fallback;
+}
+
+/**
+ * Check whether an object stores its keys flat (dotted keys, string values only)
+ */
+export function isFlatObject(obj: Record<string, unknown>): boolean {
+  const entries = Object.entries(obj);
+  return (
+    entries.some(([key]) => key.includes('.')) &&
+    entries.every(([, value]) => typeof value === 'string')
+  );
+}
+
+/**
+ * Check whether the keys of an object are in ascending order
+ */
+function hasSortedKeys(obj: Record<string, unknown>): boolean {
+  const keys = Object.keys(obj);
+  return keys.every((key, i) => i === 0 || keys[i - 1]!.localeCompare(key) <= 0);
+}
+
+/**
+ * Set a key on an object, keeping alphabetical order when the object is already sorted
+ * Existing keys keep their position; new keys are appended otherwise.
+ */
+export function setOrderedKey(
+  obj: Record<string, unknown>,
+  key: string,
+  value: unknown,
+): Record<string, unknown> {
+  if (key in obj) {
+    obj[key] = value;
+    return obj;
+  }
+
+  const sorted = hasSortedKeys(obj);
+  obj[key] = value;
+  if (!sorted) {
+    return obj;
+  }
+
+  const entries = Object.entries(obj).sort(([a], [b]) => a.localeCompare(b));
+  for (const [existingKey] of entries) {
+    delete obj[existingKey];
+  }
+  for (const [existingKey, existingValue] of entries) {
+    obj[existingKey] = existingValue;
+  }
+  return obj;
+}
+
+/**
+ * Set a key on an object or an array item (arrays keep their order)
+ */
+function setContainerKey(container: Record<string, unknown>, key: string, value: unknown): void {
+  if (Array.isArray(container)) {
+    container[Number(key)] = value;
+  } else {
+    setOrderedKey(container, key, value);
+  }
+}
+
+/**
+ * Set a dot-notation path on a nested object with stable key ordering
+ * Index keys (items.0) address array items; missing arrays are created for index 0.
+ */
+function setNestedOrdered(obj: Record<string, unknown>, path: string, value: string): void {
+  const parts = path.split('.');
+  let current = obj;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i]!;
+    const next = parts[i + 1]!;
+    if (Array.isArray(current[part])) {
+      if (!isArrayIndex(next)) {
+        setContainerKey(current, part, { ...current[part] });
+      }
+    } else if (!isPlainObject(current[part])) {
+      setContainerKey(current, part, next === '0' ? [] : {});
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+
+  setContainerKey(current, parts[parts.length - 1]!, value);
+}
+
+/**
+ * Serialize an object using the formatting of the original file
+ */
+function formatAsJson(obj: Record<string, unknown>, format: JsonFileFormat): string {
+  const json = JSON.stringify(obj, null, format.indent);
+  return format.trailingNewline ? `${json}\n` : json;
+}
+
+/**
+ * Merge translations into a single JSON file, keeping its existing formatting
+ * @param filePath - Absolute path to the JSON file
+ * @param keys - Map of dot-notation key paths (relative to the file) to values
+ * @returns Whether the file was newly created
+ */
+async function writeJsonFile(filePath: string, keys: Map<string, string>): Promise<boolean> {
+  const isNewFile = !existsSync(filePath);
+
+  let content: Record<string, unknown> = {};
+  let format: JsonFileFormat = { indent: DEFAULT_INDENT, trailingNewline: true, flat: false };
+
+  if (!isNewFile) {
+    const raw = await Bun.file(filePath).text();
+    content = await parseJsonFile(filePath);
+    // One-line files with keys stay compact ("{}" placeholders are indented like new files)
+    const compact = !raw.trim().includes('\n') && Object.keys(content).length > 0;
+    format = {
+      indent: compact ? '' : detectIndent(raw),
+      trailingNewline: raw.endsWith('\n'),
+      flat: isFlatObject(content),
+    };
+  }
+
+  // Write keys in sorted order so new files are deterministic
+  const sortedEntries = Array.from(keys).sort(([a], [b]) => a.localeCompare(b));
+  for (const [key, value] of sortedEntries) {
+    if (format.flat) {
+      setOrderedKey(content, key, value);
+    } else {
+      setNestedOrdered(content, key, value);
+    }
+  }
+
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, formatAsJson(content, format), 'utf-8');
+
+  return isNewFile;
+}
+
+/**
+ * JSON Parser implementation
+ */
+export const jsonParser: Parser = {
+  name: 'json',
+
+  async export(langDir: string): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+
+    if (!existsSync(langDir)) {
+      throw new Error(`Language directory not found: ${langDir}`);
+    }
+
+    // Single file per language: keys have no file prefix
+    if (statSync(langDir).isFile()) {
+      return flattenObject(await parseJsonFile(langDir), '', langDir);
+    }
+
+    const glob = new Glob('*.json');
+    const files: string[] = [];
+    for await (const file of glob.scan({ cwd: langDir, absolute: false })) {
+      files.push(file);
+    }
+    files.sort();
+
+    for (const file of files) {
+      const filePath = join(langDir, file);
+      const namespace = basename(file, '.json');
+
+      try {
+        const content = await parseJsonFile(filePath);
+        for (const [key, value] of flattenObject(content, namespace, filePath)) {
+          result.set(key, value);
+        }
+      } catch (error) {
+        console.error(`Warning: Failed to parse ${filePath}:`, error);
+      }
+    }
+
+    return result;
+  },
+
+  async import(langDir: string, translations: Map<string, string>): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    // Single file per language: write all keys into it
+    if (extname(langDir) === '.json') {
+      const created = await writeJsonFile(langDir, translations);
+      result.keysWritten = translations.size;
+      result.filesCreated = created ? 1 : 0;
+      result.filesModified = created ? 0 : 1;
+      return result;
+    }
+
+    await mkdir(langDir, { recursive: true });
+
+    // Group translations by namespace (first segment of key)
+    const fileGroups = new Map<string, Map<string, string>>();
+
+    for (const [key, value] of translations) {
+      const dotIndex = key.indexOf('.');
+      if (dotIndex === -1) {
+        console.warn(`Warning: Key '${key}' has no file prefix, skipping`);
+        continue;
+      }
+
+      const namespace = key.substring(0, dotIndex);
+      const nestedKey = key.substring(dotIndex + 1);
+
+      let group = fileGroups.get(namespace);
+      if (!group) {
+        group = new Map();
+        fileGroups.set(namespace, group);
+      }
+      group.set(nestedKey, value);
+    }
+
+    for (const [namespace, keys] of fileGroups) {
+      const created = await writeJsonFile(join(langDir, `${namespace}.json`), keys);
+      result.keysWritten += keys.size;
+
+      if (created) {
+        result.filesCreated++;
+      } else {
+        result.filesModified++;
+      }
+    }
+
+    return result;
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Language Path Resolution
+ *
+ * Maps a language code to the directory or single file holding its translations.
+ * Supports layout templates such as "{lang}" (directory per language, the default)
+ * or "{lang}.json" (one file per language).
+ */
+
+import { basename, extname, join } from 'node:path';
+import type { LanguageLocation, Parser } from '../types';
+
+/** Placeholder replaced with the language code in layout templates */
+export const LANGUAGE_PLACEHOLDER = '{lang}';
+
+/**
+ * Validate a layout template
+ * @param layout - Layout template relative to the translations directory
+ * @returns Error message, or null if the layout is valid
+ */
+export function validateLayout(layout: string): string | null {
+  if (!layout.includes(LANGUAGE_PLACEHOLDER)) {
+    return `Layout must contain the ${LANGUAGE_PLACEHOLDER} placeholder (e.g., "${LANGUAGE_PLACEHOLDER}.json")`;
+  }
+  return null;
+}
+
+/**
+ * Resolve a layout template for a language
+ *
+ * Templates ending with "/" or without a file extension resolve to a directory;
+ * templates with a file extension (e.g., "{lang}.yml") resolve to a single file.
+ *
+ * @example resolveLayout('/repo/locales', '{lang}.json', 'de') => { path: '/repo/locales/de.json', kind: 'file' }
+ */
+export function resolveLayout(
+  translationsDir: string,
+  layout: string,
+  language: string,
+): LanguageLocation {
+  const relativePath = layout.split(LANGUAGE_PLACEHOLDER).join(language);
+  const isDirectory = layout.endsWith('/') || extname(basename(relativePath)) === '';
+
+  return {
+    path: join(translationsDir, relativePath),
+    kind: isDirectory ? 'directory' : 'file',
+  };
+}
+
+/**
+ * Resolve where a language's translations are stored
+ *
+ * Precedence: explicit layout template, then the parser's own resolution,
+ * then the default `<translationsDir>/<language>` directory.
+ *
+ * @param parser - Parser that will read/write the language
+ * @param translationsDir - Absolute path to the translations directory
+ * @param language - Language code (e.g., "de")
+ * @param layout - Optional layout template (e.g., "{lang}.json")
+ */
+export function resolveLanguageLocation(
+  parser: Parser,
+  translationsDir: string,
+  language: string,
+  layout?: string,
+): LanguageLocation {
+  if (layout) {
+    return resolveLayout(translationsDir, layout, language);
+  }
+
+  if (parser.resolveLanguage) {
+    return parser.resolveLanguage(translationsDir, language);
+  }
+
+  return { path: join(translationsDir, language), kind: 'directory' };
+}
@@ -0,0 +1,204 @@
+/**
+ * Laravel Parser
+ *
+ * Parses Laravel translation files.
+ * Expected structure: lang/<lang>/*.php returning arrays (keys prefixed with the file name,
+ * e.g. auth.failed), plus lang/<lang>.json with translation strings as keys, which are
+ * exported under the "_json" namespace (e.g. "_json.Welcome, :name!").
+ *
+ * PHP files are read statically (see php-array.ts), so no PHP runtime is needed. Imports
+ * replace existing strings in place and add new keys at the end of their array; JSON keys
+ * are never split at dots. Values are written as-is, so `:placeholder` parameters are kept.
+ */
+
+import { existsSync, readdirSync, statSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import type { Parser, ParserImportResult, ParserOptions } from '../types';
+import { detectIndent, setOrderedKey } from './json';
+import { flattenObject, isPlainObject, setNestedValue, warnSkippedValues } from './object-utils';
+import {
+  parsePhpArraySource,
+  phpArrayToObject,
+  renderPhpArrayFile,
+  updatePhpArraySource,
+} from './php-array';
+
+/** Default namespace of the keys from lang/<lang>.json */
+export const JSON_NAMESPACE = '_json';
+
+/** Indentation Laravel uses for JSON translation files */
+const DEFAULT_JSON_INDENT = '    ';
+
+/**
+ * List the PHP translation files of a language directory (sorted)
+ */
+function findPhpFiles(langDir: string): string[] {
+  if (!existsSync(langDir) || !statSync(langDir).isDirectory()) {
+    return [];
+  }
+  return readdirSync(langDir)
+    .filter((file) => file.endsWith('.php'))
+    .sort();
+}
+
+async function readPhpFile(filePath: string): Promise<Record<string, unknown> | unknown[]> {
+  const content = await readFile(filePath, 'utf-8');
+  return phpArrayToObject(parsePhpArraySource(content, filePath).root);
+}
+
+async function readJsonFile(filePath: string): Promise<Record<string, unknown>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Failed to parse ${filePath}: top-level value must be an object`);
+  }
+  return parsed;
+}
+
+/**
+ * Merge translations into a PHP translation file
+ * @returns Whether the file was newly created, and the number of keys written
+ */
+async function writePhpFile(
+  filePath: string,
+  keys: Map<string, string>,
+): Promise<{ created: boolean; written: number }> {
+  if (existsSync(filePath)) {
+    const content = await readFile(filePath, 'utf-8');
+    const update = updatePhpArraySource(parsePhpArraySource(content, filePath), keys, filePath);
+    await writeFile(filePath, update.content, 'utf-8');
+    return { created: false, written: update.written };
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of keys) {
+    setNestedValue(values, key, value);
+  }
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, renderPhpArrayFile(values), 'utf-8');
+  return { created: true, written: keys.size };
+}
+
+/**
+ * Merge translations into a JSON translation file (keys are kept whole)
+ * @returns Whether the file was newly created
+ */
+async function writeJsonFile(filePath: string, keys: Map<string, string>): Promise<boolean> {
+  const isNewFile = !existsSync(filePath);
+  const raw = isNewFile ? '' : await readFile(filePath, 'utf-8');
+  const content = isNewFile ? {} : await readJsonFile(filePath);
+
+  for (const [key, value] of keys) {
+    setOrderedKey(content, key, value);
+  }
+
+  const json = JSON.stringify(content, null, raw ? detectIndent(raw) : DEFAULT_JSON_INDENT);
+  await writeFile(filePath, raw && !raw.endsWith('\n') ? json : `${json}\n`, 'utf-8');
+  return isNewFile;
+}
+
+/**
+ * Create a Laravel Parser
+ * @param options.jsonNamespace - Namespace of the keys from lang/<lang>.json [default: _json]
+ */
+export function createLaravelParser(options: ParserOptions = {}): Parser {
+  const jsonNamespace =
+    typeof options.jsonNamespace === 'string' && options.jsonNamespace
+      ? options.jsonNamespace
+      : JSON_NAMESPACE;
+
+  return {
+    name: 'laravel',
+
+    configure(options: ParserOptions): Parser {
+      return createLaravelParser(options);
+    },
+
+    async export(langDir: string): Promise<Map<string, string>> {
+      const jsonFile = `${langDir}.json`;
+      if (!existsSync(langDir) && !existsSync(jsonFile)) {
+        throw new Error(`Language directory not found: ${langDir}`);
+      }
+
+      const result = new Map<string, string>();
+
+      for (const file of findPhpFiles(langDir)) {
+        const filePath = join(langDir, file);
+        try {
+          for (const [key, value] of flattenObject(
+            await readPhpFile(filePath),
+            basename(file, '.php'),
+            filePath,
+          )) {
+            result.set(key, value);
+          }
+        } catch (error) {
+          console.error(`Warning: Failed to parse ${filePath}:`, error);
+        }
+      }
+
+      if (existsSync(jsonFile)) {
+        const skipped: string[] = [];
+        for (const [key, value] of Object.entries(await readJsonFile(jsonFile))) {
+          if (typeof value === 'string') {
+            result.set(`${jsonNamespace}.${key}`, value);
+          } else {
+            skipped.push(key);
+          }
+        }
+        warnSkippedValues(skipped, jsonFile);
+      }
+
+      return result;
+    },
+
+    async import(langDir: string, translations: Map<string, string>): Promise<ParserImportResult> {
+      const result: ParserImportResult = {
+        filesCreated: 0,
+        filesModified: 0,
+        keysWritten: 0,
+      };
+
+      // Group translations by file (first segment of key)
+      const fileGroups = new Map<string, Map<string, string>>();
+      for (const [key, value] of translations) {
+        const dotIndex = key.indexOf('.');
+        if (dotIndex === -1) {
+          console.warn(`Warning: Key '${key}' has no file prefix, skipping`);
+          continue;
+        }
+
+        const namespace = key.substring(0, dotIndex);
+        const group = fileGroups.get(namespace) ?? new Map<string, string>();
+        group.set(key.substring(dotIndex + 1), value);
+        fileGroups.set(namespace, group);
+      }
+
+      for (const [namespace, keys] of fileGroups) {
+        const { created, written } =
+          namespace === jsonNamespace
+            ? { created: await writeJsonFile(`${langDir}.json`, keys), written: keys.size }
+            : await writePhpFile(join(langDir, `${namespace}.php`), keys);
+
+        result.keysWritten += written;
+        if (created) {
+          result.filesCreated++;
+        } else {
+          result.filesModified++;
+        }
+      }
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Laravel Parser with default options
+ */
+export const laravelParser = createLaravelParser();
@@ -0,0 +1,1325 @@
+/**
+ * Module Source
+ *
+ * Static reader and writer for translation modules (CommonJS, ES modules and TypeScript).
+ * Exported object literals are read without executing the file, and imports and removals
+ * edit the source in place so comments, quotes and the formatting of untouched lines are kept.
+ *
+ * Only literal values are accepted: objects, arrays, strings (including concatenations and
+ * template literals without expressions), numbers, booleans and null, plus references to
+ * top-level constants holding such values. TypeScript `as`/`satisfies` clauses are ignored.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, extname, relative, sep } from 'node:path';
+import { Glob } from 'bun';
+import { detectIndent } from './json';
+import { isArrayIndex, setNestedValue } from './object-utils';
+import { lineAt } from './parser-utils';
+
+/** Module system of a translation module */
+export type ModuleStyle = 'commonjs' | 'esm';
+
+interface NodeBase {
+  /** Offset of the first character */
+  start: number;
+
+  /** Offset after the last character */
+  end: number;
+}
+
+export interface ObjectNode extends NodeBase {
+  type: 'object';
+  properties: PropertyNode[];
+}
+
+export interface PropertyNode extends NodeBase {
+  key: string;
+
+  /** Whether the key is written as a string literal */
+  quotedKey: boolean;
+
+  value: LiteralNode;
+}
+
+export interface ArrayNode extends NodeBase {
+  type: 'array';
+  elements: LiteralNode[];
+}
+
+export interface ValueNode extends NodeBase {
+  type: 'value';
+  value: string | number | boolean | null;
+
+  /** Quote character of string literals */
+  quote?: string;
+}
+
+export type LiteralNode = ObjectNode | ArrayNode | ValueNode;
+
+/**
+ * Formatting conventions of a module, used for new code
+ */
+export interface ModuleFormat {
+  indent: string;
+  quote: string;
+  trailingComma: boolean;
+  semicolon: boolean;
+}
+
+/**
+ * Exported translations of a module
+ */
+export interface ModuleSource {
+  /** Module system, if the file uses one */
+  style?: ModuleStyle;
+
+  /** Object exported as a whole (export default / module.exports) */
+  root?: ObjectNode;
+
+  /** Whether exported objects are declared `as const` */
+  asConst: boolean;
+
+  /** Named exports (export const name / exports.name), used when there is no root object */
+  named: Map<string, LiteralNode>;
+
+  format: ModuleFormat;
+}
+
+/** Formatting used for files without existing code */
+export const DEFAULT_MODULE_FORMAT: ModuleFormat = {
+  indent: '  ',
+  quote: "'",
+  trailingComma: true,
+  semicolon: true,
+};
+
+interface Token {
+  type: 'name' | 'string' | 'template' | 'number' | 'punct' | 'regex';
+
+  /** Decoded value for strings, source text otherwise */
+  value: string;
+  start: number;
+  end: number;
+
+  /** Whether a line break precedes the token */
+  newlineBefore: boolean;
+
+  /** Template literal with ${} expressions */
+  dynamic?: boolean;
+}
+
+/** Keywords after which a slash starts a regular expression */
+const REGEX_KEYWORDS = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new']);
+
+/** Tokens that continue an expression on the next line */
+const CONTINUATIONS = new Set([
+  '|',
+  '&',
+  '.',
+  '?.',
+  '<',
+  ',',
+  ':',
+  '?',
+  '=>',
+  '=',
+  '(',
+  '[',
+  '{',
+  '+',
+]);
+
+/** Sticky patterns of the tokenizer */
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\[\s\S])*'/y;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\[\s\S])*"/y;
+const NUMBER = /(?:0[xXoObB][\da-fA-F_]+|[\d_]*\.?[\d_]+(?:[eE][+-]?\d+)?)n?/y;
+const NAME = /[\w$\u0080-\uffff]+/y;
+const REGEX = /\/(?:[^/\\[\n]|\\.|\[(?:[^\]\\\n]|\\.)*\])+\/[a-z]*/y;
+
+function decodeEscapes(raw: string): string {
+  return raw.replace(
+    /\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r\n|[\s\S])/g,
+    (_, sequence: string) => {
+      if (sequence.length > 1 && (sequence[0] === 'u' || sequence[0] === 'x')) {
+        const hex = sequence[1] === '{' ? sequence.slice(2, -1) : sequence.slice(1);
+        return String.fromCodePoint(Number.parseInt(hex, 16));
+      }
+      switch (sequence) {
+        case 'n':
+          return '\n';
+        case 't':
+          return '\t';
+        case 'r':
+          return '\r';
+        case 'b':
+          return '\b';
+        case 'f':
+          return '\f';
+        case 'v':
+          return '\v';
+        case '0':
+          return '\0';
+        case '\n':
+        case '\r\n':
+        case '\r':
+        case '\u2028':
+        case '\u2029':
+          return '';
+        default:
+          return sequence;
+      }
+    },
+  );
+}
+
+/**
+ * Split module source into tokens, skipping whitespace and comments
+ */
+function tokenize(content: string, fail: (offset: number, reason: string) => never): Token[] {
+  const tokens: Token[] = [];
+  let newlineBefore = false;
+  let i = 0;
+
+  const matchAt = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    return pattern.exec(content)?.[0];
+  };
+  const push = (token: Omit<Token, 'newlineBefore'>) => {
+    tokens.push({ ...token, newlineBefore });
+    newlineBefore = false;
+    i = token.end;
+  };
+
+  while (i < content.length) {
+    const char = content[i]!;
+    const nextChar = content[i + 1];
+
+    if (char === '\n') {
+      newlineBefore = true;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && nextChar === '/') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+    } else if (char === '/' && nextChar === '*') {
+      const end = content.indexOf('*/', i + 2);
+      if (end === -1) fail(i, 'unterminated comment');
+      newlineBefore ||= content.slice(i, end).includes('\n');
+      i = end + 2;
+    } else if (char === '"' || char === "'") {
+      const raw = matchAt(char === '"' ? DOUBLE_QUOTED : SINGLE_QUOTED);
+      if (!raw) return fail(i, 'unterminated string');
+      push({
+        type: 'string',
+        value: decodeEscapes(raw.slice(1, -1)),
+        start: i,
+        end: i + raw.length,
+      });
+    } else if (char === '`') {
+      let end = i + 1;
+      let dynamic = false;
+      while (end < content.length && content[end] !== '`') {
+        if (content[end] === '\\') {
+          end += 2;
+        } else if (content[end] === '$' && content[end + 1] === '{') {
+          dynamic = true;
+          let depth = 0;
+          for (end++; end < content.length; end++) {
+            if (content[end] === '{') depth++;
+            if (content[end] === '}' && --depth === 0) break;
+          }
+          end++;
+        } else {
+          end++;
+        }
+      }
+      if (end >= content.length) fail(i, 'unterminated template literal');
+      const value = decodeEscapes(content.slice(i + 1, end).replace(/\r\n?/g, '\n'));
+      push({ type: 'template', value, start: i, end: end + 1, dynamic });
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(nextChar ?? ''))) {
+      const number = matchAt(NUMBER)!;
+      push({ type: 'number', value: number, start: i, end: i + number.length });
+    } else if (/[A-Za-z_$\u0080-\uffff]/.test(char)) {
+      const name = matchAt(NAME)!;
+      push({ type: 'name', value: name, start: i, end: i + name.length });
+    } else if (char === '/' && isRegexAllowed(tokens[tokens.length - 1])) {
+      const regex = matchAt(REGEX);
+      if (!regex) return fail(i, 'unterminated regular expression');
+      push({ type: 'regex', value: regex, start: i, end: i + regex.length });
+    } else {
+      const punct = ['...', '=>', '?.'].find((p) => content.startsWith(p, i)) ?? char;
+      push({ type: 'punct', value: punct, start: i, end: i + punct.length });
+    }
+  }
+
+  return tokens;
+}
+
+function isRegexAllowed(previous: Token | undefined): boolean {
+  if (!previous) return true;
+  if (previous.type === 'punct') return ![')', ']', '}'].includes(previous.value);
+  return previous.type === 'name' && REGEX_KEYWORDS.has(previous.value);
+}
+
+/**
+ * Parse the exported translations of a module without executing it
+ * @throws Error with file and line when an export is not a literal value
+ */
+export function parseModuleSource(content: string, filePath: string): ModuleSource {
+  const error = (offset: number, reason: string) =>
+    new Error(`Failed to parse ${filePath}:${lineAt(content, offset)}: ${reason}`);
+  const fail = (offset: number, reason: string): never => {
+    throw error(offset, reason);
+  };
+
+  const tokens = tokenize(content, fail);
+  const objects: ObjectNode[] = [];
+  const declarations = new Map<string, LiteralNode | Error>();
+  const named = new Map<string, LiteralNode | Error>();
+  let root: LiteralNode | Error | undefined;
+  let asConst = false;
+  let style: ModuleStyle | undefined;
+  let pos = 0;
+
+  const peek = (offset = 0) => tokens[pos + offset];
+  const isPunct = (token: Token | undefined, value: string) =>
+    token?.type === 'punct' && token.value === value;
+  const isName = (token: Token | undefined, value?: string) =>
+    token?.type === 'name' && (value === undefined || token.value === value);
+  const snippet = (token: Pick<Token, 'start'> | undefined) => {
+    if (!token) return 'end of file';
+    const lineEnd = content.indexOf('\n', token.start);
+    return `\`${content
+      .slice(token.start, lineEnd === -1 ? undefined : lineEnd)
+      .trim()
+      .slice(0, 40)}\``;
+  };
+  const expect = (value: string) => {
+    const token = tokens[pos];
+    if (!isPunct(token, value)) {
+      fail(token?.start ?? content.length, `expected '${value}' but found ${snippet(token)}`);
+    }
+    pos++;
+  };
+  const isContinuation = (token: Token | undefined) =>
+    token?.type === 'punct' && CONTINUATIONS.has(token.value);
+
+  /**
+   * Skip tokens up to the end of the statement or expression
+   * @param stopAtComma - Stop before a comma (end of one declarator)
+   */
+  const skipStatement = (stopAtComma = false) => {
+    const startPos = pos;
+    let depth = 0;
+    while (pos < tokens.length) {
+      const token = tokens[pos]!;
+      if (depth === 0 && pos > startPos) {
+        if (isPunct(token, ';')) {
+          if (!stopAtComma) pos++;
+          return;
+        }
+        if (stopAtComma && isPunct(token, ',')) return;
+        if (token.newlineBefore && !isContinuation(tokens[pos - 1]) && !isContinuation(token)) {
+          return;
+        }
+      }
+      if (token.type === 'punct' && '([{'.includes(token.value)) depth++;
+      if (token.type === 'punct' && ')]}'.includes(token.value)) depth = Math.max(0, depth - 1);
+      pos++;
+    }
+  };
+
+  /**
+   * Skip a TypeScript type (after `:`, `as` or `satisfies`)
+   */
+  const skipType = () => {
+    const startPos = pos;
+    let depth = 0;
+    while (pos < tokens.length) {
+      const token = tokens[pos]!;
+      if (depth === 0 && pos > startPos) {
+        if (token.type === 'punct' && [';', ',', ')', ']', '}', '=', '+'].includes(token.value)) {
+          return;
+        }
+        if (token.newlineBefore && !isContinuation(tokens[pos - 1]) && !isContinuation(token)) {
+          return;
+        }
+      }
+      if (token.type === 'punct' && '([{<'.includes(token.value)) depth++;
+      if (token.type === 'punct' && ')]}>'.includes(token.value)) {
+        if (depth === 0) return;
+        depth--;
+      }
+      pos++;
+    }
+  };
+
+  const resolveReference = (token: Token): LiteralNode => {
+    const declared = declarations.get(token.value);
+    if (declared instanceof Error) throw declared;
+    return declared ?? fail(token.start, `dynamic value is not supported: ${snippet(token)}`);
+  };
+
+  const parseObject = (): ObjectNode => {
+    const open = tokens[pos++]!;
+    const node: ObjectNode = { type: 'object', properties: [], start: open.start, end: open.end };
+
+    while (!isPunct(peek(), '}')) {
+      const keyToken = peek();
+      if (!keyToken) {
+        return fail(content.length, `expected '}' but found end of file`);
+      }
+      if (isPunct(keyToken, '...')) {
+        fail(keyToken.start, `spread is not supported: ${snippet(keyToken)}`);
+      }
+      if (!['name', 'string', 'number'].includes(keyToken.type)) {
+        fail(keyToken.start, `computed keys are not supported: ${snippet(keyToken)}`);
+      }
+      pos++;
+
+      let value: LiteralNode;
+      if (isPunct(peek(), ':')) {
+        pos++;
+        value = parseValue();
+      } else if (keyToken.type === 'name' && (isPunct(peek(), ',') || isPunct(peek(), '}'))) {
+        value = resolveReference(keyToken);
+      } else {
+        return fail(keyToken.start, `dynamic value is not supported: ${snippet(keyToken)}`);
+      }
+
+      node.properties.push({
+        key: keyToken.type === 'number' ? String(Number(keyToken.value)) : keyToken.value,
+        quotedKey: keyToken.type === 'string',
+        value,
+        start: keyToken.start,
+        end: value.end,
+      });
+
+      if (!isPunct(peek(), ',')) break;
+      pos++;
+    }
+
+    node.end = tokens[pos]?.end ?? content.length;
+    expect('}');
+    objects.push(node);
+    return node;
+  };
+
+  const parseArray = (): ArrayNode => {
+    const open = tokens[pos++]!;
+    const node: ArrayNode = { type: 'array', elements: [], start: open.start, end: open.end };
+
+    while (!isPunct(peek(), ']')) {
+      const token = peek();
+      if (token && isPunct(token, '...')) {
+        fail(token.start, `spread is not supported: ${snippet(token)}`);
+      }
+      node.elements.push(parseValue());
+      if (!isPunct(peek(), ',')) break;
+      pos++;
+    }
+
+    node.end = tokens[pos]?.end ?? content.length;
+    expect(']');
+    return node;
+  };
+
+  const parsePrimary = (): LiteralNode => {
+    const token = peek();
+    if (!token) return fail(content.length, 'unexpected end of file');
+
+    if (isPunct(token, '{')) return parseObject();
+    if (isPunct(token, '[')) return parseArray();
+    if (isPunct(token, '(')) {
+      pos++;
+      const node = parseValue();
+      expect(')');
+      return node;
+    }
+
+    pos++;
+    if (token.type === 'string' || (token.type === 'template' && !token.dynamic)) {
+      const quote = content[token.start];
+      return { type: 'value', value: token.value, quote, start: token.start, end: token.end };
+    }
+    if (token.type === 'number') {
+      return { type: 'value', value: Number(token.value), start: token.start, end: token.end };
+    }
+    if (isPunct(token, '-') && peek()?.type === 'number') {
+      const number = tokens[pos++]!;
+      return { type: 'value', value: -Number(number.value), start: token.start, end: number.end };
+    }
+    if (isName(token, 'true') || isName(token, 'false') || isName(token, 'null')) {
+      const value = token.value === 'null' ? null : token.value === 'true';
+      return { type: 'value', value, start: token.start, end: token.end };
+    }
+    if (token.type === 'name' && declarations.has(token.value) && !isPunct(peek(), '(')) {
+      return resolveReference(token);
+    }
+
+    return fail(token.start, `dynamic value is not supported: ${snippet(token)}`);
+  };
+
+  function parseValue(): LiteralNode {
+    let node = parsePrimary();
+
+    for (;;) {
+      const token = peek();
+      if ((isName(token, 'as') || isName(token, 'satisfies')) && !token!.newlineBefore) {
+        pos++;
+        skipType();
+      } else if (isPunct(token, '+')) {
+        pos++;
+        const right = parsePrimary();
+        if (
+          node.type !== 'value' ||
+          typeof node.value !== 'string' ||
+          right.type !== 'value' ||
+          typeof right.value !== 'string'
+        ) {
+          return fail(token!.start, `only strings can be concatenated: ${snippet(token)}`);
+        }
+        node = { ...node, value: node.value + right.value, end: right.end };
+      } else if (
+        token &&
+        !token.newlineBefore &&
+        ['(', '.', '?.', '[', '=>'].includes(token.value) &&
+        token.type === 'punct'
+      ) {
+        return fail(node.start, `dynamic value is not supported: ${snippet(node)}`);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /**
+   * Parse a value, deferring the error until the value is used
+   */
+  const parseDeferred = (): LiteralNode | Error => {
+    const startPos = pos;
+    try {
+      return parseValue();
+    } catch (error) {
+      pos = startPos;
+      skipStatement(true);
+      return error as Error;
+    }
+  };
+
+  const parseDeclarations = (exported: boolean) => {
+    pos++;
+    for (;;) {
+      const nameToken = peek();
+      if (!isName(nameToken)) {
+        skipStatement();
+        return;
+      }
+      pos++;
+      if (isPunct(peek(), ':')) {
+        pos++;
+        skipType();
+      }
+      if (isPunct(peek(), '=')) {
+        pos++;
+        const node = parseDeferred();
+        declarations.set(nameToken!.value, node);
+        if (exported) {
+          named.set(nameToken!.value, node);
+          asConst ||= isAsConst(node);
+        }
+      }
+      if (!isPunct(peek(), ',')) break;
+      pos++;
+    }
+    if (isPunct(peek(), ';')) pos++;
+  };
+
+  /**
+   * Whether a just parsed value is followed by `as const`
+   */
+  const isAsConst = (node: LiteralNode | Error) =>
+    !(node instanceof Error) && /\bas\s+const\b/.test(content.slice(node.end, tokens[pos]?.start));
+
+  const parseExportSpecifiers = () => {
+    const specifiers: [string, string, Token][] = [];
+    pos++;
+    while (isName(peek())) {
+      const localToken = tokens[pos++]!;
+      const local = localToken.value;
+      let exported = local;
+      if (isName(peek(), 'as')) {
+        pos++;
+        exported = tokens[pos++]?.value ?? local;
+      }
+      specifiers.push([local, exported, localToken]);
+      if (!isPunct(peek(), ',')) break;
+      pos++;
+    }
+    expect('}');
+
+    // Re-exports from other modules are not translations of this file
+    if (isName(peek(), 'from')) {
+      skipStatement();
+      return;
+    }
+    for (const [local, exported, localToken] of specifiers) {
+      const node =
+        declarations.get(local) ?? error(localToken.start, `'${local}' is not a literal constant`);
+      if (exported === 'default') {
+        root = node;
+      } else {
+        named.set(exported, node);
+      }
+    }
+    if (isPunct(peek(), ';')) pos++;
+  };
+
+  while (pos < tokens.length) {
+    const token = tokens[pos]!;
+
+    if (isName(token, 'import') && !isPunct(peek(1), '(') && !isPunct(peek(1), '.')) {
+      style = 'esm';
+      while (pos < tokens.length && tokens[pos]!.type !== 'string') pos++;
+      pos++;
+      if (isPunct(peek(), ';')) pos++;
+    } else if (isName(token, 'export')) {
+      style = 'esm';
+      pos++;
+      const next = peek();
+      if (isName(next, 'default')) {
+        pos++;
+        root = parseDeferred();
+        asConst = isAsConst(root);
+        if (isPunct(peek(), ';')) pos++;
+      } else if (isName(next, 'const') || isName(next, 'let') || isName(next, 'var')) {
+        parseDeclarations(true);
+      } else if (isPunct(next, '{')) {
+        parseExportSpecifiers();
+      } else {
+        skipStatement();
+      }
+    } else if (isName(token, 'const') || isName(token, 'let') || isName(token, 'var')) {
+      parseDeclarations(false);
+    } else if (
+      (isName(token, 'module') && isPunct(peek(1), '.') && isName(peek(2), 'exports')) ||
+      (isName(token, 'exports') && isPunct(peek(1), '.'))
+    ) {
+      style = 'commonjs';
+      pos += token.value === 'module' ? 3 : 1;
+      if (token.value === 'module' && isPunct(peek(), '=')) {
+        pos++;
+        root = parseDeferred();
+      } else if (isPunct(peek(), '.') && isName(peek(1)) && isPunct(peek(2), '=')) {
+        const name = peek(1)!.value;
+        pos += 3;
+        named.set(name, parseDeferred());
+      } else {
+        fail(token.start, `unsupported export: ${snippet(token)}`);
+      }
+      if (isPunct(peek(), ';')) pos++;
+    } else {
+      skipStatement();
+    }
+  }
+
+  let rootNode: ObjectNode | undefined;
+  if (root) {
+    if (root instanceof Error) throw root;
+    if (root.type !== 'object') {
+      fail(root.start, 'the exported value must be an object');
+    }
+    rootNode = root as ObjectNode;
+  }
+
+  const namedNodes = new Map<string, LiteralNode>();
+  if (!rootNode) {
+    for (const [name, node] of named) {
+      if (node instanceof Error) throw node;
+      namedNodes.set(name, node);
+    }
+  }
+
+  return {
+    style,
+    root: rootNode,
+    asConst,
+    named: namedNodes,
+    format: detectModuleFormat(content, tokens, objects),
+  };
+}
+
+/**
+ * Detect quotes, indentation, trailing commas and semicolons of existing code
+ */
+function detectModuleFormat(content: string, tokens: Token[], objects: ObjectNode[]): ModuleFormat {
+  const strings = tokens.filter((token) => token.type === 'string');
+  const doubleQuoted = strings.filter((token) => content[token.start] === '"').length;
+
+  const multiline = objects.filter(
+    (object) =>
+      object.properties.length > 0 && content.slice(object.start, object.end).includes('\n'),
+  );
+  const withComma = multiline.filter(
+    (object) =>
+      findCommaAfter(content, object.properties[object.properties.length - 1]!.end) !== -1,
+  ).length;
+
+  return {
+    indent: content.trim() ? detectIndent(content) : DEFAULT_MODULE_FORMAT.indent,
+    quote: strings.length > 0 && doubleQuoted > strings.length / 2 ? '"' : "'",
+    trailingComma: multiline.length > 0 ? withComma >= multiline.length / 2 : true,
+    semicolon: content.trim() ? /;[ \t]*(?:\/\/.*)?(?:\r?\n|$)/.test(content) : true,
+  };
+}
+
+/**
+ * Find the comma following an offset, skipping whitespace and comments
+ * @returns Offset of the comma or -1
+ */
+function findCommaAfter(content: string, offset: number): number {
+  let i = offset;
+  while (i < content.length) {
+    if (/\s/.test(content[i]!)) {
+      i++;
+    } else if (content.startsWith('//', i)) {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+    } else if (content.startsWith('/*', i)) {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 2;
+    } else {
+      return content[i] === ',' ? i : -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Convert a literal node to a plain value
+ */
+export function literalToValue(node: LiteralNode): unknown {
+  if (node.type === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      result[property.key] = literalToValue(property.value);
+    }
+    return result;
+  }
+  if (node.type === 'array') {
+    return node.elements.map(literalToValue);
+  }
+  return node.value;
+}
+
+/**
+ * Get the exported translations of a module as a plain object
+ */
+export function moduleToObject(source: ModuleSource): Record<string, unknown> {
+  if (source.root) {
+    return literalToValue(source.root) as Record<string, unknown>;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [name, node] of source.named) {
+    result[name] = literalToValue(node);
+  }
+  return result;
+}
+
+/**
+ * Format a string literal
+ */
+export function quoteString(value: string, quote: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  if (quote === '`') {
+    return `\`${escaped.replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``;
+  }
+  return `${quote}${escaped.split(quote).join(`\\${quote}`)}${quote}`;
+}
+
+function isIdentifier(key: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(key);
+}
+
+function formatKey(key: string, format: ModuleFormat, quoteKeys: boolean): string {
+  return isIdentifier(key) && !quoteKeys ? key : quoteString(key, format.quote);
+}
+
+/**
+ * Render a string, array or object value
+ * @param indent - Indentation of the line holding the value, or null to render on one line
+ */
+function renderValue(value: unknown, format: ModuleFormat, indent: string | null): string {
+  if (typeof value === 'string') {
+    return quoteString(value, format.quote);
+  }
+  if (Array.isArray(value)) {
+    return renderArray(value, format, indent);
+  }
+  return renderObject(value as Record<string, unknown>, format, indent);
+}
+
+/**
+ * Render the properties of a nested object
+ * @param indent - Indentation of the properties, or null to render on one line
+ */
+function renderProperties(
+  values: Record<string, unknown>,
+  format: ModuleFormat,
+  indent: string | null,
+  quoteKeys = false,
+): string[] {
+  return Object.entries(values).map(
+    ([key, value]) => `${formatKey(key, format, quoteKeys)}: ${renderValue(value, format, indent)}`,
+  );
+}
+
+/**
+ * Render the items of an array
+ * @param indent - Indentation of the items, or null to render on one line
+ */
+function renderElements(values: unknown[], format: ModuleFormat, indent: string | null): string[] {
+  return Array.from(values, (value) => renderValue(value ?? '', format, indent));
+}
+
+/**
+ * Wrap rendered entries in brackets, one per line unless indent is null
+ */
+function renderBlock(
+  brackets: string,
+  render: (indent: string | null) => string[],
+  format: ModuleFormat,
+  indent: string | null,
+): string {
+  const [open, close] = brackets;
+  if (indent === null) {
+    return `${open} ${render(null).join(', ')} ${close}`;
+  }
+  const inner = indent + format.indent;
+  const lines = render(inner).map((line) => `${inner}${line}`);
+  return `${open}\n${lines.join(',\n')}${format.trailingComma ? ',' : ''}\n${indent}${close}`;
+}
+
+/**
+ * Render an object literal
+ * @param indent - Indentation of the line holding the object, or null to render on one line
+ */
+function renderObject(
+  values: Record<string, unknown>,
+  format: ModuleFormat,
+  indent: string | null,
+): string {
+  return renderBlock('{}', (inner) => renderProperties(values, format, inner), format, indent);
+}
+
+/**
+ * Render an array literal
+ * @param indent - Indentation of the line holding the array, or null to render on one line
+ */
+function renderArray(values: unknown[], format: ModuleFormat, indent: string | null): string {
+  return renderBlock('[]', (inner) => renderElements(values, format, inner), format, indent);
+}
+
+/**
+ * Render a complete translation module
+ * @param values - Nested translations
+ * @param named - Export each top-level key on its own instead of one default export
+ */
+export function renderModule(
+  values: Record<string, unknown>,
+  style: ModuleStyle,
+  format: ModuleFormat = DEFAULT_MODULE_FORMAT,
+  options: { named?: boolean; asConst?: boolean } = {},
+): string {
+  const end = `${options.asConst && style === 'esm' ? ' as const' : ''}${format.semicolon ? ';' : ''}`;
+
+  if (options.named) {
+    return `${Object.entries(values)
+      .map(([name, value]) => {
+        const rendered = renderValue(value, format, '');
+        const target = style === 'esm' ? `export const ${name}` : `exports.${name}`;
+        return `${target} = ${rendered}${end}`;
+      })
+      .join('\n\n')}\n`;
+  }
+
+  const target = style === 'esm' ? 'export default' : 'module.exports =';
+  return `${target} ${renderObject(values, format, '')}${end}\n`;
+}
+
+/**
+ * Find the same module in another language to use as template for a new file
+ * @param filePath - Path of the module to create, e.g. translations/fr/common.ts
+ * @param singleFile - Whether the module holds a whole language (translations/fr.ts)
+ * @param pattern - Glob pattern of module files, e.g. "*.js"
+ * @param langDir - Language directory of nested modules, e.g. translations/fr for fr/admin/users.ts
+ */
+export async function findModuleTemplate(
+  filePath: string,
+  singleFile: boolean,
+  pattern: string,
+  langDir: string = dirname(filePath),
+): Promise<{ path: string; source: ModuleSource } | undefined> {
+  const name = relative(langDir, filePath).slice(0, -extname(filePath).length);
+  const glob = new Glob(singleFile ? pattern : `*/${name}${pattern.slice(1)}`);
+  const cwd = singleFile ? langDir : dirname(langDir);
+
+  for await (const file of glob.scan({ cwd, absolute: true })) {
+    const isOtherLanguage = singleFile
+      ? file !== filePath && basename(file, extname(file)) !== 'index'
+      : !file.startsWith(`${langDir}${sep}`);
+    if (!isOtherLanguage || file.endsWith('.d.ts')) continue;
+
+    try {
+      return { path: file, source: parseModuleSource(await readFile(file, 'utf-8'), file) };
+    } catch {
+      // Try the next language
+    }
+  }
+  return undefined;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Find the property matching the longest key prefix (keys may contain dots)
+ */
+function findProperty(
+  object: ObjectNode,
+  segments: string[],
+): { property: PropertyNode; rest: string[] } | undefined {
+  for (let length = segments.length; length > 0; length--) {
+    const key = segments.slice(0, length).join('.');
+    const property = object.properties.findLast((p) => p.key === key);
+    if (property) {
+      return { property, rest: segments.slice(length) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create edits that add new properties at the end of an object, or new items at the end
+ * of an array
+ */
+function insertEntries(
+  content: string,
+  object: ObjectNode | ArrayNode,
+  values: Record<string, unknown> | unknown[],
+  format: ModuleFormat,
+): Edit[] {
+  const lineIndent = (offset: number) => {
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    return content.slice(lineStart).match(/^[ \t]*/)![0];
+  };
+  const objectIndent = lineIndent(object.start);
+  const entries = object.type === 'object' ? object.properties : object.elements;
+  const quoteKeys =
+    object.type === 'object' && object.properties.some((p) => p.quotedKey && isIdentifier(p.key));
+  const render = (indent: string | null) =>
+    Array.isArray(values)
+      ? renderElements(values, format, indent)
+      : renderProperties(values, format, indent, quoteKeys);
+  const last = entries[entries.length - 1];
+
+  if (!last) {
+    const indent = objectIndent + format.indent;
+    const lines = render(indent).map((l) => `${indent}${l}`);
+    const body = `${lines.join(',\n')}${format.trailingComma ? ',' : ''}`;
+    const inner = content.slice(object.start + 1, object.end - 1);
+    return inner.trim() === ''
+      ? [{ start: object.start + 1, end: object.end - 1, text: `\n${body}\n${objectIndent}` }]
+      : [{ start: object.start + 1, end: object.start + 1, text: `\n${body}` }];
+  }
+
+  const comma = findCommaAfter(content, last.end);
+  const hasComma = comma !== -1 && comma < object.end;
+
+  if (!content.slice(object.start, object.end).includes('\n')) {
+    const properties = render(null).join(', ');
+    return hasComma
+      ? [{ start: comma + 1, end: comma + 1, text: ` ${properties},` }]
+      : [{ start: last.end, end: last.end, text: `, ${properties}` }];
+  }
+
+  const indent = lineIndent(last.start);
+  const anchor = hasComma ? comma + 1 : last.end;
+  let lineEnd = content.indexOf('\n', anchor);
+  const closesOnLine = lineEnd === -1 || lineEnd > object.end - 1;
+  if (closesOnLine) lineEnd = object.end - 1;
+
+  const lines = render(indent).map((l) => `\n${indent}${l}`);
+  const text = `${lines.join(',')}${hasComma ? ',' : ''}${closesOnLine ? `\n${objectIndent}` : ''}`;
+  const edits: Edit[] = [{ start: lineEnd, end: lineEnd, text }];
+  if (!hasComma) {
+    edits.push({ start: last.end, end: last.end, text: ',' });
+  }
+  return edits;
+}
+
+/**
+ * Write translations into module source, editing only the affected values
+ * Existing strings are replaced in place and new keys are added at the end of the
+ * deepest existing object, following the file's quotes, indentation and trailing commas.
+ * @param translations - Map of dot-notation key paths (relative to the module) to values
+ * @param defaultStyle - Module system used when the file has no exports yet
+ */
+export function updateModuleSource(
+  content: string,
+  translations: Map<string, string>,
+  filePath: string,
+  defaultStyle: ModuleStyle,
+): string {
+  const source = parseModuleSource(content, filePath);
+  const edits: Edit[] = [];
+  const pending = new Map<ObjectNode, Record<string, unknown>>();
+  const pendingItems = new Map<ArrayNode, unknown[]>();
+  const newExports: Record<string, unknown> = {};
+  const useNamed = !source.root && source.named.size > 0;
+
+  for (const [key, value] of translations) {
+    let segments = key.split('.');
+    let object: ObjectNode | ArrayNode | undefined = source.root;
+
+    if (useNamed) {
+      const node = source.named.get(segments[0]!);
+      if (!node) {
+        if (isIdentifier(segments[0]!)) {
+          setNestedValue(newExports, key, value);
+        } else {
+          console.warn(`Warning: Key '${key}' is not a valid export name, skipping`);
+        }
+        continue;
+      }
+      if (node.type !== 'value' && segments.length > 1) {
+        object = node;
+        segments = segments.slice(1);
+      } else if (node.type === 'value' && segments.length === 1) {
+        edits.push({
+          start: node.start,
+          end: node.end,
+          text: quoteString(value, node.quote ?? source.format.quote),
+        });
+        continue;
+      } else {
+        console.warn(
+          `Warning: Key '${key}' conflicts with an existing value in ${filePath}, skipping`,
+        );
+        continue;
+      }
+    }
+
+    if (!object) {
+      setNestedValue(newExports, key, value);
+      continue;
+    }
+
+    for (;;) {
+      let node: LiteralNode | undefined;
+      let rest: string[];
+
+      if (object.type === 'array') {
+        // Array items are addressed by index; new items can only be appended
+        const [index = '', ...after] = segments;
+        const items = pendingItems.get(object) ?? [];
+        node = isArrayIndex(index) ? object.elements[Number(index)] : undefined;
+        if (!node) {
+          if (isArrayIndex(index)) {
+            setNestedValue({ items }, ['items', ...segments].join('.'), value);
+            pendingItems.set(object, items);
+          } else {
+            console.warn(`Warning: Key '${key}' is not an array item in ${filePath}, skipping`);
+          }
+          break;
+        }
+        rest = after;
+      } else {
+        const match = findProperty(object, segments);
+        if (!match) {
+          const values = pending.get(object) ?? {};
+          setNestedValue(values, segments.join('.'), value);
+          pending.set(object, values);
+          break;
+        }
+        node = match.property.value;
+        rest = match.rest;
+      }
+
+      if (rest.length === 0 && node.type === 'value') {
+        edits.push({
+          start: node.start,
+          end: node.end,
+          text: quoteString(value, node.quote ?? source.format.quote),
+        });
+        break;
+      }
+      if (rest.length === 0 || node.type === 'value') {
+        console.warn(
+          `Warning: Key '${key}' conflicts with an existing value in ${filePath}, skipping`,
+        );
+        break;
+      }
+      object = node;
+      segments = rest;
+    }
+  }
+
+  for (const [object, values] of pending) {
+    edits.push(...insertEntries(content, object, values, source.format));
+  }
+  for (const [array, items] of pendingItems) {
+    // Items can only be appended in order, so stop at the first missing one
+    const added = items.slice(array.elements.length);
+    const gap = added.findIndex((item) => item === undefined);
+    if (gap !== -1) {
+      console.warn(
+        `Warning: Array item ${array.elements.length + gap} is missing in ${filePath}, skipping the items after it`,
+      );
+    }
+    const appended = gap === -1 ? added : added.slice(0, gap);
+    if (appended.length > 0) {
+      edits.push(...insertEntries(content, array, appended, source.format));
+    }
+  }
+
+  let result = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  if (Object.keys(newExports).length > 0) {
+    const separator = result.trim() === '' ? '' : result.endsWith('\n') ? '\n' : '\n\n';
+    const rendered = renderModule(newExports, source.style ?? defaultStyle, source.format, {
+      named: useNamed,
+      asConst: source.asConst,
+    });
+    result = result.trim() === '' ? rendered : `${result}${separator}${rendered}`;
+  }
+
+  return result;
+}
+
+type Container = ObjectNode | ArrayNode;
+
+/**
+ * Entry of a container, addressed by its index in the properties or elements
+ */
+interface EntryRef {
+  container: Container;
+  index: number;
+}
+
+/**
+ * Result of removing keys from module source
+ */
+export interface ModuleRemoval {
+  /** Updated content */
+  content: string;
+
+  /** Keys that were found and removed */
+  removed: string[];
+
+  /** Whether no translations are left in the module */
+  empty: boolean;
+}
+
+function entriesOf(container: Container): NodeBase[] {
+  return container.type === 'object' ? container.properties : container.elements;
+}
+
+/**
+ * Find the entries leading from a container down to a key
+ */
+function findEntryPath(container: Container, segments: string[]): EntryRef[] | undefined {
+  const path: EntryRef[] = [];
+  let current = container;
+  let rest = segments;
+
+  for (;;) {
+    let index: number;
+    let next: string[];
+    if (current.type === 'array') {
+      const [segment = '', ...after] = rest;
+      index = isArrayIndex(segment) ? Number(segment) : -1;
+      if (index === -1 || index >= current.elements.length) return undefined;
+      next = after;
+    } else {
+      const match = findProperty(current, rest);
+      if (!match) return undefined;
+      index = current.properties.indexOf(match.property);
+      next = match.rest;
+    }
+
+    path.push({ container: current, index });
+    if (next.length === 0) return path;
+
+    const node =
+      current.type === 'array' ? current.elements[index]! : current.properties[index]!.value;
+    if (node.type === 'value') return undefined;
+    current = node;
+    rest = next;
+  }
+}
+
+/**
+ * Get the whole lines from start to end, including a comma and comment after end
+ * @returns undefined when other code shares these lines
+ */
+function lineRange(
+  content: string,
+  start: number,
+  end: number,
+): { start: number; end: number } | undefined {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  if (content.slice(lineStart, start).trim() !== '') return undefined;
+
+  const comma = findCommaAfter(content, end);
+  const after = comma !== -1 && !content.slice(end, comma).includes('\n') ? comma + 1 : end;
+  const newline = content.indexOf('\n', after);
+  const lineEnd = newline === -1 ? content.length : newline;
+  if (!/^\s*(\/\/.*)?$/.test(content.slice(after, lineEnd))) return undefined;
+
+  return { start: lineStart, end: newline === -1 ? lineEnd : newline + 1 };
+}
+
+/**
+ * Create edits that remove entries from a container
+ * Entries on their own lines are removed with their lines, others with their commas.
+ */
+function removeEntries(content: string, container: Container, indexes: Set<number>): Edit[] {
+  const entries = entriesOf(container);
+  if (indexes.size === entries.length) {
+    return [{ start: container.start + 1, end: container.end - 1, text: '' }];
+  }
+
+  const multiline = content.slice(container.start, container.end).includes('\n');
+  const commaAfter = (entry: NodeBase) => {
+    const comma = findCommaAfter(content, entry.end);
+    return comma !== -1 && comma < container.end ? comma : -1;
+  };
+  const edits: Edit[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    if (!indexes.has(i)) continue;
+    let j = i;
+    while (indexes.has(j + 1)) j++;
+
+    const first = entries[i]!;
+    const last = entries[j]!;
+    const previous = entries[i - 1];
+    const next = entries[j + 1];
+    const lines = multiline ? lineRange(content, first.start, last.end) : undefined;
+
+    if (lines) {
+      edits.push({ ...lines, text: '' });
+      // Files without trailing commas lose the comma of the new last entry
+      if (!next && previous && commaAfter(last) === -1) {
+        const comma = commaAfter(previous);
+        if (comma !== -1) edits.push({ start: comma, end: comma + 1, text: '' });
+      }
+    } else if (next) {
+      edits.push({ start: first.start, end: next.start, text: '' });
+    } else {
+      edits.push({ start: previous!.end, end: last.end, text: '' });
+    }
+    i = j;
+  }
+
+  return edits;
+}
+
+/**
+ * Remove keys from module source, editing only the affected lines
+ * Objects and arrays left without entries are removed as well.
+ * @param keys - Dot-notation key paths (relative to the module)
+ */
+export function removeFromModuleSource(
+  content: string,
+  keys: Iterable<string>,
+  filePath: string,
+): ModuleRemoval {
+  const source = parseModuleSource(content, filePath);
+  const removedEntries = new Map<Container, Set<number>>();
+  const parents = new Map<Container, EntryRef>();
+  const removed: string[] = [];
+
+  const markRemoved = ({ container, index }: EntryRef) => {
+    const indexes = removedEntries.get(container) ?? new Set<number>();
+    indexes.add(index);
+    removedEntries.set(container, indexes);
+  };
+  const isRemoved = ({ container, index }: EntryRef) =>
+    removedEntries.get(container)?.has(index) ?? false;
+  const isEmptied = (container: Container) =>
+    (removedEntries.get(container)?.size ?? 0) === entriesOf(container).length;
+
+  for (const key of keys) {
+    let segments = key.split('.');
+    let container: Container | undefined = source.root;
+    if (!container) {
+      // Named exports themselves are kept, only their entries are removed
+      const node = source.named.get(segments[0]!);
+      container = node && node.type !== 'value' ? node : undefined;
+      segments = segments.slice(1);
+    }
+
+    const path = container && segments.length > 0 ? findEntryPath(container, segments) : undefined;
+    if (!path) continue;
+
+    for (let i = 1; i < path.length; i++) {
+      parents.set(path[i]!.container, path[i - 1]!);
+    }
+    markRemoved(path[path.length - 1]!);
+    removed.push(key);
+  }
+
+  // Remove objects and arrays that lost all their entries
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const container of removedEntries.keys()) {
+      const parent = parents.get(container);
+      if (parent && isEmptied(container) && !isRemoved(parent)) {
+        markRemoved(parent);
+        changed = true;
+      }
+    }
+  }
+
+  const isInsideRemoved = (container: Container) => {
+    for (let parent = parents.get(container); parent; parent = parents.get(parent.container)) {
+      if (isRemoved(parent)) return true;
+    }
+    return false;
+  };
+
+  const edits: Edit[] = [];
+  for (const [container, indexes] of removedEntries) {
+    if (!isInsideRemoved(container)) {
+      edits.push(...removeEntries(content, container, indexes));
+    }
+  }
+
+  let result = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  const empty = source.root
+    ? isEmptied(source.root)
+    : [...source.named.values()].every((node) => node.type !== 'value' && isEmptied(node));
+
+  return { content: result, removed, empty };
+}
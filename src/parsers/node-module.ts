@@ -2,43 +2,41 @@
  * Node Module Parser
  *
  * Parses CommonJS module.exports translation files.
- * Expected structure: translations/<lang>/*.js with module.exports = { key: value }
+ * Expected structure: translations/<lang>/*.js with module.exports = { key: value },
+ * or a single translations/<lang>.js module per language (keys without file prefix).
+ * Subdirectories become nested namespaces: translations/<lang>/admin/users.js holds the
+ * keys under admin.users. index.js files are skipped unless `includeIndex` is set.
+ *
+ * Modules are read statically (see module-source.ts), so exported values must be literals.
+ * The `allowEval` option executes them instead, for trusted modules built with code.
+ * Imports and removals edit existing modules in place, so comments, quotes and trailing
+ * commas are kept and only the new, changed or removed lines show up in a diff. Modules
+ * left without translations are deleted.
  */
 
-import { existsSync } from 'node:fs';
-import { basename, join } from 'node:path';
+import { existsSync, readdirSync, statSync } from 'node:fs';
+import { mkdir, rm, rmdir, writeFile } from 'node:fs/promises';
+import { dirname, extname, join } from 'node:path';
 import { Glob } from 'bun';
-import type { Parser, ParserImportResult } from '../types';
+import type { Parser, ParserImportResult, ParserOptions, ParserRemoveResult } from '../types';
+import {
+  findModuleTemplate,
+  moduleToObject,
+  parseModuleSource,
+  removeFromModuleSource,
+  renderModule,
+  updateModuleSource,
+} from './module-source';
+import { deepMerge, flattenObject, setNestedValue } from './object-utils';
+
+/** Appended to errors about modules that can only be read by executing them */
+const ALLOW_EVAL_HINT = 'use --allow-eval to execute trusted translation modules';
 
 /**
- * Flatten nested object to dot-notation keys
- * @example { a: { b: 'c' } } => { 'a.b': 'c' }
- */
-function flattenObject(obj: Record<string, unknown>, prefix = ''): Map<string, string> {
-  const result = new Map<string, string>();
-
-  for (const [key, value] of Object.entries(obj)) {
-    const newKey = prefix ? `${prefix}.${key}` : key;
-
-    if (typeof value === 'string') {
-      result.set(newKey, value);
-    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      const nested = flattenObject(value as Record<string, unknown>, newKey);
-      for (const [nestedKey, nestedValue] of nested) {
-        result.set(nestedKey, nestedValue);
-      }
-    }
-    // Skip arrays and other types
-  }
-
-  return result;
-}
-
-/**
- * Parse a single JS module file
+ * Evaluate a single JS module file
  * Uses Bun.file() to read raw content and eval to parse CommonJS module
  */
-async function parseModuleFile(filePath: string): Promise<Record<string, unknown>> {
+async function evaluateModuleFile(filePath: string): Promise<Record<string, unknown>> {
   try {
     // Read file content directly to avoid import caching issues
     const content = await Bun.file(filePath).text();
@@ -55,53 +53,101 @@ async function parseModuleFile(filePath: string): Promise<Record<string, unknown
 }
 
 /**
- * Set a nested value in an object using dot-notation path
- * @example setNestedValue({}, 'a.b.c', 'value') => { a: { b: { c: 'value' } } }
+ * Parse a single JS module file
+ * @param allowEval - Execute the module instead of reading its literals
+ */
+async function parseModuleFile(
+  filePath: string,
+  allowEval: boolean,
+): Promise<Record<string, unknown>> {
+  if (allowEval) {
+    return evaluateModuleFile(filePath);
+  }
+
+  const content = await Bun.file(filePath).text();
+  try {
+    return moduleToObject(parseModuleSource(content, filePath));
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : error} (${ALLOW_EVAL_HINT})`);
+  }
+}
+
+/**
+ * List the translation modules of a language directory, including subdirectories
+ * @param includeIndex - Also list index.js files, which usually just re-export other modules
+ * @returns Module paths relative to the language directory (e.g. admin/users.js), sorted
  */
-function setNestedValue(obj: Record<string, unknown>, path: string, value: string): void {
-  const parts = path.split('.');
-  let current: Record<string, unknown> = obj;
-
-  for (let i = 0; i < parts.length - 1; i++) {
-    const part = parts[i]!;
-    if (!(part in current) || typeof current[part] !== 'object') {
-      current[part] = {};
+async function findModuleFiles(langDir: string, includeIndex: boolean): Promise<string[]> {
+  const glob = new Glob('**/*.js');
+  const files: string[] = [];
+
+  for await (const file of glob.scan({ cwd: langDir, absolute: false })) {
+    if (includeIndex || !/(^|[\\/])index\.js$/.test(file)) {
+      files.push(file);
     }
-    current = current[part] as Record<string, unknown>;
   }
 
-  const lastPart = parts[parts.length - 1]!;
-  current[lastPart] = value;
+  return files.sort();
 }
 
 /**
- * Deep merge two objects
+ * Get the key namespace of a module file
+ * @example moduleNamespace('admin/users.js') => 'admin.users'
  */
-function deepMerge(
-  target: Record<string, unknown>,
-  source: Record<string, unknown>,
-): Record<string, unknown> {
-  const result = { ...target };
-
-  for (const [key, value] of Object.entries(source)) {
-    if (
-      typeof value === 'object' &&
-      value !== null &&
-      !Array.isArray(value) &&
-      typeof result[key] === 'object' &&
-      result[key] !== null &&
-      !Array.isArray(result[key])
-    ) {
-      result[key] = deepMerge(
-        result[key] as Record<string, unknown>,
-        value as Record<string, unknown>,
-      );
-    } else {
-      result[key] = value;
+function moduleNamespace(file: string): string {
+  return file.slice(0, -extname(file).length).split(/[\\/]/).join('.');
+}
+
+/**
+ * Map the namespaces of the modules that exist for any language to their relative paths
+ * New keys of a language go into the module their namespace has in other languages.
+ */
+async function findNamespaces(
+  langDir: string,
+  includeIndex: boolean,
+): Promise<Map<string, string>> {
+  const namespaces = new Map<string, string>();
+  const translationsDir = dirname(langDir);
+  const otherLanguages = readdirSync(translationsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && join(translationsDir, entry.name) !== langDir)
+    .map((entry) => join(translationsDir, entry.name));
+
+  for (const dir of [langDir, ...otherLanguages]) {
+    if (!existsSync(dir)) continue;
+    for (const file of await findModuleFiles(dir, includeIndex)) {
+      if (!namespaces.has(moduleNamespace(file))) {
+        namespaces.set(moduleNamespace(file), file);
+      }
+    }
+  }
+
+  return namespaces;
+}
+
+/**
+ * Find the namespace of a key: the longest known namespace it starts with, else its first segment
+ */
+function findKeyNamespace(key: string, namespaces: Map<string, string>): string | undefined {
+  let match: string | undefined;
+  for (const namespace of namespaces.keys()) {
+    if (key.startsWith(`${namespace}.`) && namespace.length > (match?.length ?? 0)) {
+      match = namespace;
     }
   }
 
-  return result;
+  const dotIndex = key.indexOf('.');
+  return match ?? (dotIndex === -1 ? undefined : key.substring(0, dotIndex));
+}
+
+/**
+ * Delete directories left empty below the language directory
+ */
+async function removeEmptyDirectories(dir: string, langDir: string): Promise<void> {
+  for (let current = dir; current !== langDir && current.startsWith(langDir); ) {
+    if (readdirSync(current).length > 0) return;
+    await rmdir(current);
+    current = dirname(current);
+  }
 }
 
 /**
@@ -114,124 +160,242 @@ function formatAsModule(obj: Record<string, unknown>): string {
 }
 
 /**
- * Node Module Parser implementation
+ * Rewrite a module whose exports are built with code, merging in the translations
+ * The whole file is re-serialized, so comments and formatting are lost.
  */
-export const nodeModuleParser: Parser = {
-  name: 'node-module',
+async function rewriteModuleFile(
+  filePath: string,
+  newContent: Record<string, unknown>,
+): Promise<void> {
+  let existingContent: Record<string, unknown> = {};
+  try {
+    existingContent = await evaluateModuleFile(filePath);
+  } catch {
+    // If we can't parse it, start fresh
+    existingContent = {};
+  }
 
-  async export(langDir: string): Promise<Map<string, string>> {
-    const result = new Map<string, string>();
+  await writeFile(filePath, formatAsModule(deepMerge(existingContent, newContent)), 'utf-8');
+}
 
-    // Check if directory exists
-    if (!existsSync(langDir)) {
-      throw new Error(`Language directory not found: ${langDir}`);
+/**
+ * Merge translations into a single module file
+ * @param filePath - Absolute path to the module file
+ * @param keys - Map of dot-notation key paths (relative to the module) to values
+ * @param singleFile - Whether the module holds a whole language
+ * @param allowEval - Rewrite modules that cannot be edited in place
+ * @param langDir - Language directory of nested modules
+ * @returns Whether the file was newly created
+ */
+async function writeModuleFile(
+  filePath: string,
+  keys: Map<string, string>,
+  singleFile: boolean,
+  allowEval: boolean,
+  langDir: string = dirname(filePath),
+): Promise<boolean> {
+  // Build new content object from keys
+  const newContent: Record<string, unknown> = {};
+  for (const [key, value] of keys) {
+    setNestedValue(newContent, key, value);
+  }
+
+  // Edit existing modules in place
+  if (existsSync(filePath)) {
+    const content = await Bun.file(filePath).text();
+    try {
+      await writeFile(filePath, updateModuleSource(content, keys, filePath, 'commonjs'), 'utf-8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!allowEval) {
+        throw new Error(`${message} (${ALLOW_EVAL_HINT})`);
+      }
+      console.warn(`Warning: ${message}, rewriting the file`);
+      await rewriteModuleFile(filePath, newContent);
     }
+    return false;
+  }
+
+  // New modules follow the formatting of the same module in another language
+  const template = (await findModuleTemplate(filePath, singleFile, '*.js', langDir))?.source;
+  const content = template
+    ? renderModule(newContent, 'commonjs', template.format, {
+        named: !template.root && template.named.size > 0,
+      })
+    : formatAsModule(newContent);
 
-    // Find all .js files in the language directory
-    const glob = new Glob('*.js');
-    const files: string[] = [];
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, 'utf-8');
+
+  return true;
+}
+
+/**
+ * Create a Node Module Parser
+ * @param options.allowEval - Execute modules instead of reading them statically
+ * @param options.includeIndex - Read index.js files instead of skipping them
+ */
+export function createNodeModuleParser(options: ParserOptions = {}): Parser {
+  const allowEval = options.allowEval ?? false;
+  const includeIndex = options.includeIndex ?? false;
 
-    for await (const file of glob.scan({ cwd: langDir, absolute: false })) {
-      // Skip index.js as it typically just re-exports other modules
-      if (file !== 'index.js') {
-        files.push(file);
+  return {
+    name: 'node-module',
+
+    configure: createNodeModuleParser,
+
+    async export(langDir: string): Promise<Map<string, string>> {
+      const result = new Map<string, string>();
+
+      // Check if directory exists
+      if (!existsSync(langDir)) {
+        throw new Error(`Language directory not found: ${langDir}`);
       }
-    }
 
-    // Parse each file
-    for (const file of files) {
-      const filePath = join(langDir, file);
-      const moduleName = basename(file, '.js');
+      // Single module per language: keys have no file prefix
+      if (statSync(langDir).isFile()) {
+        return flattenObject(await parseModuleFile(langDir, allowEval), '', langDir);
+      }
 
-      try {
-        const moduleContent = await parseModuleFile(filePath);
-        const flattenedKeys = flattenObject(moduleContent, moduleName);
+      // Parse each .js file of the language directory and its subdirectories
+      for (const file of await findModuleFiles(langDir, includeIndex)) {
+        const filePath = join(langDir, file);
 
-        for (const [key, value] of flattenedKeys) {
-          result.set(key, value);
+        try {
+          const moduleContent = await parseModuleFile(filePath, allowEval);
+          const flattenedKeys = flattenObject(moduleContent, moduleNamespace(file), filePath);
+
+          for (const [key, value] of flattenedKeys) {
+            result.set(key, value);
+          }
+        } catch (error) {
+          console.error(`Warning: Failed to parse ${filePath}:`, error);
         }
-      } catch (error) {
-        console.error(`Warning: Failed to parse ${filePath}:`, error);
       }
-    }
 
-    return result;
-  },
+      return result;
+    },
 
-  async import(langDir: string, translations: Map<string, string>): Promise<ParserImportResult> {
-    const { mkdir, writeFile } = await import('node:fs/promises');
+    async import(langDir: string, translations: Map<string, string>): Promise<ParserImportResult> {
+      const result: ParserImportResult = {
+        filesCreated: 0,
+        filesModified: 0,
+        keysWritten: 0,
+      };
 
-    const result: ParserImportResult = {
-      filesCreated: 0,
-      filesModified: 0,
-      keysWritten: 0,
-    };
+      if (translations.size === 0) {
+        return result;
+      }
 
-    if (translations.size === 0) {
-      return result;
-    }
+      // Single module per language: write all keys into it
+      if (extname(langDir) === '.js') {
+        const created = await writeModuleFile(langDir, translations, true, allowEval);
+        result.keysWritten = translations.size;
+        result.filesCreated = created ? 1 : 0;
+        result.filesModified = created ? 0 : 1;
+        return result;
+      }
+
+      // Create language directory if it doesn't exist
+      await mkdir(langDir, { recursive: true });
 
-    // Create language directory if it doesn't exist
-    await mkdir(langDir, { recursive: true });
+      // Group translations by module namespace (admin.users.title => admin/users.js)
+      const namespaces = await findNamespaces(langDir, includeIndex);
+      const fileGroups = new Map<string, Map<string, string>>();
 
-    // Group translations by file name (first segment of key)
-    const fileGroups = new Map<string, Map<string, string>>();
+      for (const [key, value] of translations) {
+        const namespace = findKeyNamespace(key, namespaces);
+        if (!namespace) {
+          // Single-segment key - use as both file and key
+          console.warn(`Warning: Key '${key}' has no file prefix, skipping`);
+          continue;
+        }
+
+        const file = namespaces.get(namespace) ?? `${namespace}.js`;
+        const nestedKey = key.substring(namespace.length + 1);
 
-    for (const [key, value] of translations) {
-      const dotIndex = key.indexOf('.');
-      if (dotIndex === -1) {
-        // Single-segment key - use as both file and key
-        console.warn(`Warning: Key '${key}' has no file prefix, skipping`);
-        continue;
+        if (!fileGroups.has(file)) {
+          fileGroups.set(file, new Map());
+        }
+        fileGroups.get(file)!.set(nestedKey, value);
       }
 
-      const fileName = key.substring(0, dotIndex);
-      const nestedKey = key.substring(dotIndex + 1);
+      // Write each file
+      for (const [file, keys] of fileGroups) {
+        const created = await writeModuleFile(join(langDir, file), keys, false, allowEval, langDir);
+        result.keysWritten += keys.size;
 
-      if (!fileGroups.has(fileName)) {
-        fileGroups.set(fileName, new Map());
+        if (created) {
+          result.filesCreated++;
+        } else {
+          result.filesModified++;
+        }
       }
-      fileGroups.get(fileName)!.set(nestedKey, value);
-    }
 
-    // Write each file
-    for (const [fileName, keys] of fileGroups) {
-      const filePath = join(langDir, `${fileName}.js`);
-      let existingContent: Record<string, unknown> = {};
-      let isNewFile = true;
+      return result;
+    },
 
-      // Try to read existing file
-      if (existsSync(filePath)) {
-        isNewFile = false;
-        try {
-          existingContent = await parseModuleFile(filePath);
-        } catch {
-          // If we can't parse it, start fresh
-          existingContent = {};
+    async remove(langDir: string, keys: string[]): Promise<ParserRemoveResult> {
+      const result: ParserRemoveResult = {
+        filesModified: 0,
+        filesDeleted: 0,
+        keysRemoved: 0,
+      };
+
+      if (keys.length === 0 || !existsSync(langDir)) {
+        return result;
+      }
+
+      // Single module per language: the file is kept even without translations
+      if (statSync(langDir).isFile()) {
+        const removal = removeFromModuleSource(await Bun.file(langDir).text(), keys, langDir);
+        if (removal.removed.length > 0) {
+          await writeFile(langDir, removal.content, 'utf-8');
+          result.filesModified = 1;
+          result.keysRemoved = removal.removed.length;
         }
+        return result;
       }
 
-      // Build new content object from keys
-      const newContent: Record<string, unknown> = {};
-      for (const [key, value] of keys) {
-        setNestedValue(newContent, key, value);
-        result.keysWritten++;
+      // Group keys by the module that holds them
+      const namespaces = new Map<string, string>();
+      for (const file of await findModuleFiles(langDir, includeIndex)) {
+        namespaces.set(moduleNamespace(file), file);
       }
 
-      // Merge with existing content
-      const mergedContent = deepMerge(existingContent, newContent);
+      const fileGroups = new Map<string, string[]>();
+      for (const key of keys) {
+        const namespace = findKeyNamespace(key, namespaces);
+        const file = namespace ? namespaces.get(namespace) : undefined;
+        if (!namespace || !file) continue;
 
-      // Write file
-      const moduleContent = formatAsModule(mergedContent);
-      await writeFile(filePath, moduleContent, 'utf-8');
+        const group = fileGroups.get(file) ?? [];
+        group.push(key.substring(namespace.length + 1));
+        fileGroups.set(file, group);
+      }
 
-      if (isNewFile) {
-        result.filesCreated++;
-      } else {
-        result.filesModified++;
+      for (const [file, fileKeys] of fileGroups) {
+        const filePath = join(langDir, file);
+        const removal = removeFromModuleSource(await Bun.file(filePath).text(), fileKeys, filePath);
+        if (removal.removed.length === 0) continue;
+        result.keysRemoved += removal.removed.length;
+
+        if (removal.empty) {
+          await rm(filePath);
+          await removeEmptyDirectories(dirname(filePath), langDir);
+          result.filesDeleted++;
+        } else {
+          await writeFile(filePath, removal.content, 'utf-8');
+          result.filesModified++;
+        }
       }
-    }
 
-    return result;
-  },
-};
+      return result;
+    },
+  };
+}
+
+/**
+ * Node Module Parser implementation (reads modules statically)
+ */
+export const nodeModuleParser: Parser = createNodeModuleParser();
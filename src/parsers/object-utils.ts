@@ -0,0 +1,147 @@
+/**
+ * Object Utilities
+ *
+ * Shared helpers for parsers that map nested translation objects
+ * to flat dot-notation keys and back.
+ */
+
+/**
+ * Check whether a key segment is an array index
+ * @example isArrayIndex('0') => true, isArrayIndex('01') => false
+ */
+export function isArrayIndex(segment: string): boolean {
+  return /^(0|[1-9]\d*)$/.test(segment);
+}
+
+/** Skipped keys named in a warning before the rest are summarized */
+const MAX_LISTED_SKIPPED_KEYS = 3;
+
+/**
+ * Report values that cannot be translated, with one warning per file
+ * @param keys - Keys whose value is not a string
+ * @param filePath - File the values were read from, when known
+ */
+export function warnSkippedValues(keys: string[], filePath?: string): void {
+  if (keys.length === 0) {
+    return;
+  }
+  const listed = keys.slice(0, MAX_LISTED_SKIPPED_KEYS).map((key) => `'${key}'`);
+  if (keys.length > MAX_LISTED_SKIPPED_KEYS) {
+    listed.push(`${keys.length - MAX_LISTED_SKIPPED_KEYS} more`);
+  }
+  const values =
+    keys.length === 1
+      ? '1 value that is not a string'
+      : `${keys.length} values that are not strings`;
+  const location = filePath ? ` in ${filePath}` : '';
+  console.warn(
+    `Warning: Skipping ${values}${location} (${listed.join(', ')}), only strings are translated`,
+  );
+}
+
+function collectStrings(
+  obj: Record<string, unknown> | unknown[],
+  prefix: string,
+  result: Map<string, string>,
+  skipped: string[],
+): void {
+  for (const [key, value] of Object.entries(obj)) {
+    const newKey = prefix ? `${prefix}.${key}` : key;
+
+    if (typeof value === 'string') {
+      result.set(newKey, value);
+    } else if (isPlainObject(value) || Array.isArray(value)) {
+      collectStrings(value, newKey, result, skipped);
+    } else {
+      skipped.push(newKey);
+    }
+  }
+}
+
+/**
+ * Flatten nested object to dot-notation keys
+ * Array items become indexed keys. Values other than strings cannot be translated
+ * and are reported with one warning per object.
+ * @param filePath - File the object was read from, named in the warning
+ * @example { a: { b: 'c' }, d: ['e'] } => { 'a.b': 'c', 'd.0': 'e' }
+ */
+export function flattenObject(
+  obj: Record<string, unknown> | unknown[],
+  prefix = '',
+  filePath?: string,
+): Map<string, string> {
+  const result = new Map<string, string>();
+  const skipped: string[] = [];
+  collectStrings(obj, prefix, result, skipped);
+  warnSkippedValues(skipped, filePath);
+  return result;
+}
+
+/**
+ * Set a nested value in an object using dot-notation path
+ * Missing containers followed by index 0 are created as arrays, so indexed keys
+ * from flattenObject restore their arrays.
+ * @example setNestedValue({}, 'a.b.c', 'value') => { a: { b: { c: 'value' } } }
+ * @example setNestedValue({}, 'a.0', 'value') => { a: ['value'] }
+ */
+export function setNestedValue(obj: Record<string, unknown>, path: string, value: string): void {
+  const parts = path.split('.');
+  let current: Record<string, unknown> = obj;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i]!;
+    const next = parts[i + 1]!;
+    if (!(part in current) || typeof current[part] !== 'object' || current[part] === null) {
+      current[part] = next === '0' ? [] : {};
+    } else if (Array.isArray(current[part]) && !isArrayIndex(next)) {
+      // Named keys turn the array into an object
+      current[part] = { ...current[part] };
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+
+  const lastPart = parts[parts.length - 1]!;
+  current[lastPart] = value;
+}
+
+/**
+ * Deep merge two objects
+ * Objects with index keys are merged into arrays item by item.
+ */
+export function deepMerge(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+): Record<string, unknown> {
+  const result = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    result[key] = mergeValue(result[key], value);
+  }
+
+  return result;
+}
+
+function mergeValue(target: unknown, source: unknown): unknown {
+  if (
+    Array.isArray(target) &&
+    (Array.isArray(source) || isPlainObject(source)) &&
+    Object.keys(source).every(isArrayIndex)
+  ) {
+    const merged = [...target];
+    for (const [index, value] of Object.entries(source)) {
+      merged[Number(index)] = mergeValue(merged[Number(index)], value);
+    }
+    return merged;
+  }
+  if (isPlainObject(target) && isPlainObject(source)) {
+    return deepMerge(target, source);
+  }
+  return source;
+}
+
+/**
+ * Check whether a value is a plain (non-array, non-null) object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -2,7 +2,7 @@ import { existsSync } from 'node:fs';
 import { stat } from 'node:fs/promises';
 import { resolve } from 'node:path';
 import { pathToFileURL } from 'node:url';
-import type { Parser } from '../types';
+import type { Parser, ParserOptions } from '../types';
 
 interface ParserModule {
   default?: unknown;
@@ -23,7 +23,45 @@ function isParser(value: unknown): value is Parser {
   );
 }
 
-export async function loadParserFromFile(filePath: string): Promise<Parser> {
+/**
+ * Import a parser module and pick its parser
+ *
+ * The module exports a parser object or a factory taking parser options, either as
+ * the default export or as `parser`. Parser objects with `configure` receive the options.
+ *
+ * @param url - URL of the module to import
+ * @param label - Where the module comes from, for error messages (e.g., "file /a.ts")
+ * @param options - Parser options from the command line and project config
+ */
+export async function loadParserModule(
+  url: string,
+  label: string,
+  options?: ParserOptions,
+): Promise<Parser> {
+  let moduleExports: ParserModule;
+  try {
+    moduleExports = (await import(url)) as ParserModule;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load parser ${label}: ${message}`);
+  }
+
+  const exported = moduleExports.default ?? moduleExports.parser;
+  const isFactory = typeof exported === 'function';
+  const parserCandidate = isFactory ? await exported(options ?? {}) : exported;
+  if (!isParser(parserCandidate)) {
+    throw new Error(`Parser ${label} must export a parser with name/export/import functions`);
+  }
+
+  return !isFactory && options && parserCandidate.configure
+    ? parserCandidate.configure(options)
+    : parserCandidate;
+}
+
+export async function loadParserFromFile(
+  filePath: string,
+  options?: ParserOptions,
+): Promise<Parser> {
   const absolutePath = resolve(filePath);
 
   if (!existsSync(absolutePath)) {
@@ -35,21 +73,5 @@ export async function loadParserFromFile(filePath: string): Promise<Parser> {
     throw new Error(`Parser file path is not a file: ${absolutePath}`);
   }
 
-  let moduleExports: ParserModule;
-  try {
-    const fileUrl = pathToFileURL(absolutePath).href;
-    moduleExports = (await import(fileUrl)) as ParserModule;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to load parser file ${absolutePath}: ${message}`);
-  }
-
-  const parserCandidate = moduleExports.default ?? moduleExports.parser;
-  if (!isParser(parserCandidate)) {
-    throw new Error(
-      `Parser file ${absolutePath} must export a parser with name/export/import functions`,
-    );
-  }
-
-  return parserCandidate;
+  return loadParserModule(pathToFileURL(absolutePath).href, `file ${absolutePath}`, options);
 }
@@ -0,0 +1,108 @@
+/**
+ * Parser loading for commands
+ *
+ * A parser is given as a registered name (`json`), a file path (`./parsers/custom.ts`)
+ * or an installed npm package (`@acme/curlydots-parser-foo`). Files and packages export
+ * a parser object or a factory that receives the parser options.
+ */
+
+import { isAbsolute } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Parser, ParserOptions } from '../types';
+import { getAvailableParsers, getParser } from './index';
+import { loadParserFromFile, loadParserModule } from './parser-file-loader';
+
+/** Extensions that mark a parser spec as a file path */
+const PARSER_FILE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts', '.cts'];
+
+/**
+ * Whether a parser spec points at a file rather than a package
+ */
+export function isParserFilePath(spec: string): boolean {
+  return (
+    spec.startsWith('./') ||
+    spec.startsWith('../') ||
+    isAbsolute(spec) ||
+    PARSER_FILE_EXTENSIONS.some((extension) => spec.endsWith(extension))
+  );
+}
+
+/**
+ * Load a parser from an installed npm package
+ * @param name - Package name (e.g., "@acme/curlydots-parser-foo")
+ * @param baseDir - Directory whose node_modules the package is resolved from
+ * @param options - Parser options passed to the package's parser
+ */
+export async function loadParserFromPackage(
+  name: string,
+  baseDir: string,
+  options?: ParserOptions,
+): Promise<Parser> {
+  let entry: string;
+  try {
+    entry = Bun.resolveSync(name, baseDir);
+  } catch {
+    const available = getAvailableParsers().join(', ');
+    throw new Error(
+      `Unknown parser: ${name}. Not a registered parser (${available}), parser file or package installed in ${baseDir}`,
+    );
+  }
+
+  return loadParserModule(pathToFileURL(entry).href, `package ${name}`, options);
+}
+
+/**
+ * Load a parser by registered name, file path or npm package
+ * @param spec - Parser name, file path or package name
+ * @param options - Parser options from the command line and project config
+ * @param baseDir - Directory packages are resolved from [default: current directory]
+ * @returns Parser configured with the options
+ */
+export async function loadParser(
+  spec: string,
+  options: ParserOptions = {},
+  baseDir: string = process.cwd(),
+): Promise<Parser> {
+  const registered = getParser(spec, options);
+  if (registered) {
+    return registered;
+  }
+
+  if (isParserFilePath(spec)) {
+    return loadParserFromFile(spec, options);
+  }
+
+  return loadParserFromPackage(spec, baseDir, options);
+}
+
+/**
+ * Set a parser option from a `key=value` command line assignment
+ *
+ * Values `true`/`false` and numbers are converted; a key without value is set to true.
+ *
+ * @example
+ * setParserOption(options, 'indent=4'); // options.indent === 4
+ */
+export function setParserOption(options: ParserOptions, assignment: string): void {
+  const separator = assignment.indexOf('=');
+  if (separator === -1) {
+    if (assignment) {
+      options[assignment] = true;
+    }
+    return;
+  }
+
+  const key = assignment.slice(0, separator).trim();
+  const value = assignment.slice(separator + 1);
+  if (!key) {
+    return;
+  }
+
+  if (value === 'true' || value === 'false') {
+    options[key] = value === 'true';
+  } else if (value.trim() !== '' && Number.isFinite(Number(value))) {
+    options[key] = Number(value);
+  } else {
+    options[key] = value;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Parser Utilities
+ *
+ * Small helpers shared by file format parsers: line numbers for parse errors and
+ * locale names taken from file names.
+ */
+
+/**
+ * Get the 1-indexed line number of an offset
+ */
+export function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+/**
+ * Normalize a locale for comparison, whether written as language code or in a file name
+ * @example normalizeLocale('pt-BR') => 'pt_br', normalizeLocale('pt_BR') => 'pt_br'
+ */
+export function normalizeLocale(locale: string): string {
+  return locale.replace(/-/g, '_').toLowerCase();
+}
@@ -0,0 +1,614 @@
+/**
+ * PHP Array Source
+ *
+ * Reads and edits PHP files that return an array (`<?php return ['key' => 'value'];`)
+ * without a PHP runtime, for Laravel translation files.
+ *
+ * Arrays may use `[...]` or `array(...)`; values must be string literals (optionally
+ * concatenated with `.`), nested arrays, numbers, booleans or null. Updates replace the
+ * affected string literals in place and add new keys at the end of their array, so
+ * comments, quotes and formatting are kept and only changed lines show up in a diff.
+ */
+
+import { detectIndent } from './json';
+import { isArrayIndex, isPlainObject } from './object-utils';
+import { lineAt } from './parser-utils';
+
+/** Indentation used for new files and when a file has no indented line */
+const DEFAULT_INDENT = '    ';
+
+interface Token {
+  type: 'string' | 'number' | 'name' | 'variable' | 'punct';
+  value: string;
+  start: number;
+  end: number;
+
+  /** Quote of string tokens */
+  quote?: "'" | '"';
+}
+
+/**
+ * A string literal, or several concatenated with `.`
+ */
+export interface PhpStringNode {
+  type: 'string';
+  value: string;
+  start: number;
+  end: number;
+
+  /** Quote of the first literal, reused when the value is replaced */
+  quote: "'" | '"';
+}
+
+/**
+ * A number, boolean or null (kept but not translated)
+ */
+export interface PhpScalarNode {
+  type: 'scalar';
+  value: number | boolean | null;
+  start: number;
+  end: number;
+}
+
+/**
+ * A key/value pair of an array (`'key' => value`, or `value` with an implicit index)
+ */
+export interface PhpArrayEntry {
+  key: string;
+
+  /** Whether the key is written out (`'key' =>`) */
+  explicitKey: boolean;
+
+  value: PhpNode;
+
+  /** Offset of the first token of the entry */
+  start: number;
+
+  /** Offset right after the comma following the value, if there is one */
+  commaEnd?: number;
+}
+
+/**
+ * An array literal with the offsets of its brackets
+ */
+export interface PhpArrayNode {
+  type: 'array';
+  entries: PhpArrayEntry[];
+
+  /** Offset of `[` or of `array` */
+  start: number;
+
+  /** Offset right after `]` or `)` */
+  end: number;
+
+  /** Offset right after the opening `[` or `(` */
+  openEnd: number;
+}
+
+export type PhpNode = PhpStringNode | PhpScalarNode | PhpArrayNode;
+
+/**
+ * A parsed PHP file returning an array
+ */
+export interface PhpArraySource {
+  content: string;
+  root: PhpArrayNode;
+}
+
+/**
+ * Decode the escape sequences of a double-quoted PHP string
+ */
+function decodeDoubleQuoted(raw: string): string {
+  return raw.replace(
+    /\\(u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{1,2}|[0-7]{1,3}|[\s\S])/g,
+    (match, sequence: string) => {
+      if (sequence.startsWith('u{')) {
+        return String.fromCodePoint(Number.parseInt(sequence.slice(2, -1), 16));
+      }
+      if (sequence[0] === 'x' && sequence.length > 1) {
+        return String.fromCharCode(Number.parseInt(sequence.slice(1), 16));
+      }
+      if (/^[0-7]+$/.test(sequence)) {
+        return String.fromCharCode(Number.parseInt(sequence, 8));
+      }
+      switch (sequence) {
+        case 'n':
+          return '\n';
+        case 't':
+          return '\t';
+        case 'r':
+          return '\r';
+        case 'v':
+          return '\v';
+        case 'e':
+          return '\x1b';
+        case 'f':
+          return '\f';
+        case '\\':
+        case '$':
+        case '"':
+          return sequence;
+        default:
+          // Unknown escapes keep their backslash in PHP
+          return match;
+      }
+    },
+  );
+}
+
+/**
+ * Quote a value as a PHP string literal
+ * @example quotePhpString("It's :count", "'") => "'It\\'s :count'"
+ */
+export function quotePhpString(value: string, quote: "'" | '"' = "'"): string {
+  if (quote === "'") {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+/**
+ * Split PHP source into tokens, skipping the open tag, whitespace and comments
+ */
+function tokenize(content: string, fail: (offset: number, reason: string) => never): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i]!;
+    const nextChar = content[i + 1];
+
+    if (content.startsWith('<?php', i)) {
+      i += 5;
+    } else if (content.startsWith('?>', i)) {
+      break;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if ((char === '/' && nextChar === '/') || (char === '#' && nextChar !== '[')) {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+    } else if (char === '/' && nextChar === '*') {
+      const end = content.indexOf('*/', i + 2);
+      if (end === -1) fail(i, 'unterminated comment');
+      i = end + 2;
+    } else if (char === "'") {
+      let end = i + 1;
+      while (end < content.length && content[end] !== "'") {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      if (end >= content.length) fail(i, 'unterminated string');
+      const value = content.slice(i + 1, end).replace(/\\([\\'])/g, '$1');
+      tokens.push({ type: 'string', value, start: i, end: end + 1, quote: "'" });
+      i = end + 1;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < content.length && content[end] !== '"') {
+        if (content[end] === '\\') {
+          end += 2;
+          continue;
+        }
+        if (content[end] === '$' && /[A-Za-z_{]/.test(content[end + 1] ?? '')) {
+          fail(end, 'string interpolation is not supported, use a single-quoted string');
+        }
+        if (content[end] === '{' && content[end + 1] === '$') {
+          fail(end, 'string interpolation is not supported, use a single-quoted string');
+        }
+        end++;
+      }
+      if (end >= content.length) fail(i, 'unterminated string');
+      const value = decodeDoubleQuoted(content.slice(i + 1, end));
+      tokens.push({ type: 'string', value, start: i, end: end + 1, quote: '"' });
+      i = end + 1;
+    } else if (content.startsWith('<<<', i)) {
+      fail(i, 'heredoc strings are not supported');
+    } else if (/[0-9]/.test(char)) {
+      const number = content
+        .slice(i)
+        .match(/^(?:0[xX][\da-fA-F_]+|[\d_]+(?:\.[\d_]+)?(?:[eE][+-]?\d+)?)/)![0];
+      tokens.push({ type: 'number', value: number, start: i, end: i + number.length });
+      i += number.length;
+    } else if (char === '$' && /[A-Za-z_]/.test(nextChar ?? '')) {
+      const name = content.slice(i).match(/^\$\w+/)![0];
+      tokens.push({ type: 'variable', value: name, start: i, end: i + name.length });
+      i += name.length;
+    } else if (/[A-Za-z_\\\u0080-\uffff]/.test(char)) {
+      const name = content.slice(i).match(/^[\w\\\u0080-\uffff]+/)![0];
+      tokens.push({ type: 'name', value: name, start: i, end: i + name.length });
+      i += name.length;
+    } else {
+      const punct = ['=>', '::', '...', '??'].find((p) => content.startsWith(p, i)) ?? char;
+      tokens.push({ type: 'punct', value: punct, start: i, end: i + punct.length });
+      i += punct.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a PHP file that returns an array, without executing it
+ * @throws Error with file and line when the file does not return a literal array
+ */
+export function parsePhpArraySource(content: string, filePath: string): PhpArraySource {
+  const fail = (offset: number, reason: string): never => {
+    throw new Error(`Failed to parse ${filePath}:${lineAt(content, offset)}: ${reason}`);
+  };
+
+  const tokens = tokenize(content, fail);
+  let pos = tokens.findIndex((token) => token.type === 'name' && /^return$/i.test(token.value));
+  if (pos === -1) {
+    return fail(content.length, 'file does not return an array');
+  }
+  pos++;
+
+  const peek = () => tokens[pos];
+  const isPunct = (token: Token | undefined, value: string) =>
+    token?.type === 'punct' && token.value === value;
+  const unsupported = (token: Token | undefined): never =>
+    fail(
+      token?.start ?? content.length,
+      `unsupported value${token ? ` '${token.value}'` : ''}, translations must be string literals or arrays`,
+    );
+
+  function parseArray(): PhpArrayNode {
+    const first = tokens[pos]!;
+    let close = ']';
+    if (first.type === 'name') {
+      pos++; // array
+      close = ')';
+    }
+    const openEnd = tokens[pos]!.end;
+    pos++;
+
+    const entries: PhpArrayEntry[] = [];
+    let nextIndex = 0;
+
+    while (!isPunct(peek(), close)) {
+      if (!peek()) fail(first.start, `unterminated array, expected '${close}'`);
+
+      const start = peek()!.start;
+      let value = parseValue();
+      let key: string;
+      let explicitKey = false;
+
+      if (isPunct(peek(), '=>')) {
+        if (value.type === 'array' || typeof value.value === 'boolean' || value.value === null) {
+          return fail(value.start, 'array keys must be strings or integers');
+        }
+        key = String(value.value);
+        explicitKey = true;
+        pos++;
+        value = parseValue();
+      } else {
+        key = String(nextIndex);
+      }
+      if (isArrayIndex(key)) {
+        nextIndex = Math.max(nextIndex, Number(key) + 1);
+      }
+
+      const entry: PhpArrayEntry = { key, explicitKey, value, start };
+      entries.push(entry);
+
+      if (isPunct(peek(), ',')) {
+        entry.commaEnd = peek()!.end;
+        pos++;
+      } else if (!isPunct(peek(), close)) {
+        unsupported(peek());
+      }
+    }
+
+    const end = peek()!.end;
+    pos++;
+    return { type: 'array', entries, start: first.start, end, openEnd };
+  }
+
+  function parseValue(): PhpNode {
+    const token = peek();
+
+    if (isPunct(token, '[') || (token?.type === 'name' && /^array$/i.test(token.value))) {
+      if (token?.type === 'name' && !isPunct(tokens[pos + 1], '(')) unsupported(token);
+      return parseArray();
+    }
+
+    if (token?.type === 'string') {
+      pos++;
+      const node: PhpStringNode = {
+        type: 'string',
+        value: token.value,
+        start: token.start,
+        end: token.end,
+        quote: token.quote!,
+      };
+      // 'Hello ' . 'world'
+      while (isPunct(peek(), '.') && tokens[pos + 1]?.type === 'string') {
+        const next = tokens[pos + 1]!;
+        node.value += next.value;
+        node.end = next.end;
+        pos += 2;
+      }
+      if (isPunct(peek(), '.')) unsupported(tokens[pos + 1]);
+      return node;
+    }
+
+    const negative = isPunct(token, '-');
+    const numberToken = negative ? tokens[pos + 1] : token;
+    if (numberToken?.type === 'number') {
+      pos += negative ? 2 : 1;
+      const value = Number(numberToken.value.replace(/_/g, ''));
+      return {
+        type: 'scalar',
+        value: negative ? -value : value,
+        start: token!.start,
+        end: numberToken.end,
+      };
+    }
+
+    if (token?.type === 'name' && /^(true|false|null)$/i.test(token.value)) {
+      pos++;
+      const name = token.value.toLowerCase();
+      return {
+        type: 'scalar',
+        value: name === 'null' ? null : name === 'true',
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    return unsupported(token);
+  }
+
+  if (!isPunct(peek(), '[') && !(peek()?.type === 'name' && /^array$/i.test(peek()!.value))) {
+    return fail(peek()?.start ?? content.length, 'file does not return an array');
+  }
+  const root = parseArray();
+
+  return { content, root };
+}
+
+/**
+ * Convert a parsed array to nested objects and arrays
+ */
+export function phpArrayToObject(array: PhpArrayNode): Record<string, unknown> | unknown[] {
+  const isList = array.entries.every((entry, index) => entry.key === String(index));
+  const result: Record<string, unknown> | unknown[] = isList ? [] : {};
+
+  for (const entry of array.entries) {
+    const value = entry.value.type === 'array' ? phpArrayToObject(entry.value) : entry.value.value;
+    (result as Record<string, unknown>)[entry.key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Get the whitespace at the start of the line containing an offset
+ */
+function lineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return content.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function renderKey(key: string): string {
+  return isArrayIndex(key) ? key : quotePhpString(key);
+}
+
+/**
+ * Render a value as PHP, arrays over several lines
+ */
+function renderValue(value: unknown, indent: string, unit: string): string {
+  if (typeof value === 'string') {
+    return quotePhpString(value);
+  }
+
+  const container = value as Record<string, unknown> | unknown[];
+  const entries = Object.entries(container);
+  if (entries.length === 0) {
+    return '[]';
+  }
+  const lines = renderEntries(container, indent + unit, unit, Array.isArray(container));
+  return `[\n${lines.join('\n')}\n${indent}]`;
+}
+
+/**
+ * Render a value as PHP on a single line
+ */
+function renderInline(value: unknown, implicitKeys = Array.isArray(value)): string {
+  if (typeof value === 'string') {
+    return quotePhpString(value);
+  }
+  const entries = Object.entries(value as Record<string, unknown> | unknown[]);
+  return `[${entries
+    .map(([key, item]) => `${implicitKeys ? '' : `${renderKey(key)} => `}${renderInline(item)}`)
+    .join(', ')}]`;
+}
+
+/**
+ * Render the entries of an object or array, one per line with a trailing comma
+ */
+function renderEntries(
+  container: Record<string, unknown> | unknown[],
+  indent: string,
+  unit: string,
+  implicitKeys: boolean,
+): string[] {
+  return Object.entries(container).map(([key, value]) => {
+    const keyPart = implicitKeys ? '' : `${renderKey(key)} => `;
+    return `${indent}${keyPart}${renderValue(value, indent, unit)},`;
+  });
+}
+
+/**
+ * Render a new PHP translation file
+ * @param values - Nested translations
+ * @param indent - Indentation unit
+ */
+export function renderPhpArrayFile(
+  values: Record<string, unknown>,
+  indent = DEFAULT_INDENT,
+): string {
+  return `<?php\n\nreturn ${renderValue(values, '', indent)};\n`;
+}
+
+/**
+ * Find the entry of an array with the given key (the last one wins, as in PHP)
+ */
+function findEntry(array: PhpArrayNode, key: string): PhpArrayEntry | undefined {
+  return array.entries.findLast((entry) => entry.key === key);
+}
+
+/**
+ * Build the text that adds new entries to the end of an array
+ */
+function appendToArray(
+  content: string,
+  array: PhpArrayNode,
+  values: Record<string, unknown>,
+  unit: string,
+): { offset: number; text: string } {
+  const closeIndent = lineIndent(content, array.end - 1);
+  const last = array.entries[array.entries.length - 1];
+  const firstEntry = array.entries[0];
+  const indent =
+    firstEntry && content.slice(0, firstEntry.start).match(/\n[ \t]*$/)
+      ? lineIndent(content, firstEntry.start)
+      : closeIndent + unit;
+
+  // Lists get their new items without keys when the indexes follow on
+  const isList = array.entries.length > 0 && array.entries.every((entry) => !entry.explicitKey);
+  const keys = Object.keys(values);
+  const implicitKeys =
+    isList && keys.every((key, index) => key === String(array.entries.length + index));
+
+  // Arrays written on one line stay on one line
+  if (last && !content.slice(array.openEnd, array.end).includes('\n')) {
+    const items = renderInline(values, implicitKeys).slice(1, -1);
+    return last.commaEnd === undefined
+      ? { offset: last.value.end, text: `, ${items}` }
+      : { offset: last.commaEnd, text: ` ${items},` };
+  }
+
+  const lines = renderEntries(values, indent, unit, implicitKeys);
+  const text = lines.map((line) => `\n${line}`).join('');
+
+  // Insert after the last entry's comma, and after a comment on the same line
+  let offset = last ? (last.commaEnd ?? last.value.end) : array.openEnd;
+  const lineEnd = content.indexOf('\n', offset);
+  if (
+    last &&
+    lineEnd !== -1 &&
+    lineEnd < array.end &&
+    /^\s*(\/\/.*|#.*|\/\*.*\*\/\s*)?$/.test(content.slice(offset, lineEnd))
+  ) {
+    offset = lineEnd;
+  }
+
+  // Arrays closed on the same line get their bracket moved to a line of its own
+  const closedOnLine = !content.slice(offset, array.end - 1).includes('\n');
+  const prefix = last && last.commaEnd === undefined ? ',' : '';
+  return { offset, text: `${prefix}${text}${closedOnLine ? `\n${closeIndent}` : ''}` };
+}
+
+/**
+ * Set nested values on a plain object (index keys stay object keys)
+ */
+function setPath(obj: Record<string, unknown>, segments: string[], value: string): void {
+  let current = obj;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(current[segment])) {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  }
+  current[segments[segments.length - 1]!] = value;
+}
+
+/**
+ * Write translations into the source of a PHP array file
+ * Existing string values are replaced in place; new keys are added to the end of the
+ * deepest existing array on their path.
+ *
+ * @param source - Parsed PHP file
+ * @param translations - Map of dot-notation key paths (relative to the file) to values
+ * @param filePath - File path for warnings
+ * @returns Updated content and the number of keys written
+ */
+export function updatePhpArraySource(
+  source: PhpArraySource,
+  translations: Map<string, string>,
+  filePath: string,
+): { content: string; written: number } {
+  const { content } = source;
+  const unit = detectIndent(content, DEFAULT_INDENT);
+  const edits: { start: number; end: number; text: string }[] = [];
+  const additions = new Map<PhpArrayNode, Record<string, unknown>>();
+  let written = 0;
+
+  for (const [key, value] of translations) {
+    const segments = key.split('.');
+    let array = source.root;
+    let depth = 0;
+    let conflict = false;
+
+    while (depth < segments.length) {
+      const entry = findEntry(array, segments[depth]!);
+      if (!entry) break;
+
+      if (depth === segments.length - 1) {
+        if (entry.value.type === 'array') {
+          conflict = true;
+        } else if (entry.value.type === 'string' && entry.value.value === value) {
+          // Unchanged values keep their quoting and concatenation
+          written++;
+        } else {
+          const quote = entry.value.type === 'string' ? entry.value.quote : "'";
+          edits.push({
+            start: entry.value.start,
+            end: entry.value.end,
+            text: quotePhpString(value, quote),
+          });
+          written++;
+        }
+        depth = segments.length;
+      } else if (entry.value.type === 'array') {
+        array = entry.value;
+        depth++;
+      } else {
+        conflict = true;
+        break;
+      }
+    }
+
+    if (conflict) {
+      console.warn(
+        `Warning: Key '${key}' conflicts with an existing value in ${filePath}, skipping`,
+      );
+      continue;
+    }
+    if (depth < segments.length) {
+      const values = additions.get(array) ?? {};
+      setPath(values, segments.slice(depth), value);
+      additions.set(array, values);
+      written++;
+    }
+  }
+
+  for (const [array, values] of additions) {
+    const { offset, text } = appendToArray(content, array, values, unit);
+    edits.push({ start: offset, end: offset, text });
+  }
+
+  // Apply back to front so earlier offsets stay valid
+  let result = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  return { content: result, written };
+}
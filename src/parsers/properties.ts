@@ -0,0 +1,496 @@
+/**
+ * Java Properties Parser
+ *
+ * Parses Java resource bundles as used by ResourceBundle and Spring's MessageSource.
+ * Expected structure: <translationsDir>/<basename>_<lang>.properties
+ * (e.g., src/main/resources/messages_de.properties, messages_pt_BR.properties)
+ *
+ * The file without language suffix (messages.properties) holds the default language, "en"
+ * unless set with `--parser-option defaultLanguage=<lang>`. With several bundles in one
+ * directory, `--parser-option basename=<name>` picks the bundle (default: messages).
+ *
+ * Keys are exported as-is; the comment above an entry is exported as metadata. Files may be
+ * ISO-8859-1 or UTF-8: pure ASCII files keep non-ASCII characters as \uXXXX escapes, and
+ * `--parser-option encoding=utf-8|iso-8859-1` overrides the detection. Imports only rewrite
+ * the affected values and append new keys, so comments and line continuations elsewhere are
+ * kept. Values are written as-is, so MessageFormat placeholders ({0}) and '' stay intact.
+ */
+
+import { existsSync, readdirSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import type {
+  LanguageLocation,
+  Parser,
+  ParserImportResult,
+  ParserOptions,
+  TranslationMetadata,
+} from '../types';
+import { lineAt, normalizeLocale } from './parser-utils';
+
+/** Bundle name used when no properties file exists yet */
+const DEFAULT_BASENAME = 'messages';
+
+/** Language assumed for the file without language suffix */
+const DEFAULT_LANGUAGE = 'en';
+
+/** Encodings of properties files; "ascii" files escape every non-ASCII character */
+export type PropertiesEncoding = 'ascii' | 'iso-8859-1' | 'utf-8';
+
+/** Locale suffix of a bundle file name (messages_pt_BR => messages, pt_BR) */
+const LOCALE_SUFFIX = /^(.+)_([a-z]{2,3}(?:_(?:[A-Z]{2}|\d{3}))?)$/;
+
+/** MessageFormat arguments, e.g. {0} or {1,number,integer} */
+const MESSAGE_FORMAT_ARGUMENT = /\{\d+(?:,[^{}]*)?\}/;
+
+/**
+ * An entry of a properties file with the offsets needed for in-place edits
+ */
+export interface PropertiesEntry {
+  key: string;
+  value: string;
+
+  /** Offsets of the raw value, up to the end of its logical line */
+  range: [number, number];
+
+  /** Raw text between key and value (e.g., " = ") */
+  separator: string;
+
+  /** Comment lines directly above the entry */
+  comment?: string;
+}
+
+/**
+ * Convert a language code to the Java locale suffix
+ * @example toJavaLocale('pt-BR') => 'pt_BR'
+ */
+export function toJavaLocale(language: string): string {
+  return language.replace(/-/g, '_');
+}
+
+/**
+ * Split a bundle file name into bundle name and locale
+ * @example parseBundleFileName('messages_pt_BR.properties') => { basename: 'messages', locale: 'pt_BR' }
+ */
+export function parseBundleFileName(file: string): { basename: string; locale?: string } {
+  const name = basename(file, '.properties');
+  const match = name.match(LOCALE_SUFFIX);
+  return match ? { basename: match[1]!, locale: match[2]! } : { basename: name };
+}
+
+/**
+ * Decode a properties file: ASCII, UTF-8 when valid, ISO-8859-1 otherwise
+ */
+export function decodeProperties(
+  buffer: Buffer,
+  encoding?: PropertiesEncoding,
+): { text: string; encoding: PropertiesEncoding } {
+  if (encoding === 'iso-8859-1') {
+    return { text: buffer.toString('latin1'), encoding };
+  }
+  if (encoding === 'utf-8') {
+    return { text: buffer.toString('utf-8').replace(/^\uFEFF/, ''), encoding };
+  }
+  if (buffer.every((byte) => byte < 0x80)) {
+    return { text: buffer.toString('latin1'), encoding: 'ascii' };
+  }
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return { text: text.replace(/^\uFEFF/, ''), encoding: 'utf-8' };
+  } catch {
+    return { text: buffer.toString('latin1'), encoding: 'iso-8859-1' };
+  }
+}
+
+/**
+ * Encode text in the file's encoding (escapes keep non-Latin-1 characters out of the bytes)
+ */
+export function encodeProperties(text: string, encoding: PropertiesEncoding): Buffer {
+  return Buffer.from(text, encoding === 'utf-8' ? 'utf-8' : 'latin1');
+}
+
+function unescapeProperties(text: string, content: string, offset: number, filePath: string) {
+  return text.replace(/\\(u[\s\S]{0,4}|[\s\S])/g, (_, escaped: string, index: number) => {
+    if (escaped.startsWith('u')) {
+      if (!/^u[0-9a-fA-F]{4}$/.test(escaped)) {
+        throw new Error(
+          `Failed to parse ${filePath}:${lineAt(content, offset + index)}: malformed \\uXXXX escape`,
+        );
+      }
+      return String.fromCharCode(Number.parseInt(escaped.slice(1), 16));
+    }
+    switch (escaped) {
+      case 't':
+        return '\t';
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 'f':
+        return '\f';
+      default:
+        return escaped;
+    }
+  });
+}
+
+/**
+ * Escape a key or value for a properties file
+ * @param isKey - Whether to escape separators and comment markers, which end or start keys
+ */
+export function escapeProperties(
+  text: string,
+  encoding: PropertiesEncoding,
+  isKey = false,
+): string {
+  let result = '';
+  for (const [index, char] of Array.from(text).entries()) {
+    const code = char.codePointAt(0)!;
+    if (char === '\\') {
+      result += '\\\\';
+    } else if (char === '\t') {
+      result += '\\t';
+    } else if (char === '\n') {
+      result += '\\n';
+    } else if (char === '\r') {
+      result += '\\r';
+    } else if (char === '\f') {
+      result += '\\f';
+    } else if (char === ' ' && (isKey || index === 0)) {
+      result += '\\ ';
+    } else if (isKey && '=:#!'.includes(char)) {
+      result += `\\${char}`;
+    } else if (
+      code < 0x20 ||
+      (code > 0x7e && encoding === 'ascii') ||
+      (code > 0xff && encoding === 'iso-8859-1')
+    ) {
+      // Characters outside the BMP are written as their UTF-16 surrogate pair
+      for (const unit of char.split('')) {
+        result += `\\u${unit.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`;
+      }
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Find the end of the physical line starting at the given offset (before its line break)
+ */
+function lineEnd(content: string, offset: number): number {
+  const newline = content.indexOf('\n', offset);
+  const end = newline === -1 ? content.length : newline;
+  return content[end - 1] === '\r' ? end - 1 : end;
+}
+
+function skipLineBreak(content: string, offset: number): number {
+  const next = content[offset] === '\r' ? offset + 1 : offset;
+  return content[next] === '\n' ? next + 1 : next;
+}
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === ' ' || char === '\t' || char === '\f';
+}
+
+/**
+ * Read a logical line: joins continuation lines (ending with an odd number of backslashes)
+ * @returns The raw text without continuations, the source offset of each of its characters
+ *          and the offset where the logical line ends
+ */
+function readLogicalLine(
+  content: string,
+  start: number,
+): { text: string; offsets: number[]; end: number } {
+  let text = '';
+  const offsets: number[] = [];
+  let offset = start;
+
+  for (;;) {
+    const end = lineEnd(content, offset);
+    const line = content.slice(offset, end);
+    const trailingBackslashes = line.match(/\\*$/)?.[0].length ?? 0;
+    const continued = trailingBackslashes % 2 === 1 && end < content.length;
+    const kept = continued ? line.slice(0, -1) : line;
+
+    text += kept;
+    for (let index = 0; index < kept.length; index++) {
+      offsets.push(offset + index);
+    }
+    if (!continued) {
+      return { text, offsets, end };
+    }
+
+    // Leading whitespace of continuation lines is not part of the value
+    offset = skipLineBreak(content, end);
+    while (isWhitespace(content[offset])) offset++;
+  }
+}
+
+/**
+ * Parse a properties file
+ */
+export function parseProperties(content: string, filePath: string): PropertiesEntry[] {
+  const entries: PropertiesEntry[] = [];
+  let comment: string[] = [];
+  let offset = 0;
+
+  while (offset < content.length) {
+    while (isWhitespace(content[offset])) offset++;
+    const char = content[offset];
+    if (char === undefined) break;
+
+    if (char === '\r' || char === '\n') {
+      comment = [];
+      offset = skipLineBreak(content, offset);
+      continue;
+    }
+
+    if (char === '#' || char === '!') {
+      const end = lineEnd(content, offset);
+      comment.push(content.slice(offset + 1, end).trim());
+      offset = skipLineBreak(content, end);
+      continue;
+    }
+
+    const { text, offsets, end } = readLogicalLine(content, offset);
+
+    // The key ends at the first unescaped separator or whitespace
+    let keyEnd = 0;
+    while (keyEnd < text.length && !'=: \t\f'.includes(text[keyEnd]!)) {
+      keyEnd += text[keyEnd] === '\\' ? 2 : 1;
+    }
+    keyEnd = Math.min(keyEnd, text.length);
+
+    let valueStart = keyEnd;
+    while (isWhitespace(text[valueStart])) valueStart++;
+    if (text[valueStart] === '=' || text[valueStart] === ':') {
+      valueStart++;
+      while (isWhitespace(text[valueStart])) valueStart++;
+    }
+
+    const rangeStart = offsets[valueStart] ?? end;
+    const keyRangeEnd = offsets[keyEnd] ?? end;
+    entries.push({
+      key: unescapeProperties(text.slice(0, keyEnd), content, offset, filePath),
+      value: unescapeProperties(text.slice(valueStart), content, rangeStart, filePath),
+      range: [rangeStart, end],
+      separator: content.slice(keyRangeEnd, rangeStart),
+      comment: comment.filter(Boolean).join('\n') || undefined,
+    });
+    comment = [];
+    offset = skipLineBreak(content, end);
+  }
+
+  return entries;
+}
+
+/**
+ * Write translations into a properties file
+ * @returns Updated content; existing values are replaced, new keys are appended
+ */
+export function updateProperties(
+  content: string,
+  translations: Map<string, string>,
+  encoding: PropertiesEncoding,
+  filePath: string,
+): string {
+  const entries = parseProperties(content, filePath);
+  const missing = new Map(translations);
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  // Java keeps the last of duplicate keys, so that one is updated
+  for (const entry of [...entries].reverse()) {
+    const value = missing.get(entry.key);
+    if (value === undefined) continue;
+    missing.delete(entry.key);
+    if (value !== entry.value) {
+      edits.push({
+        start: entry.range[0],
+        end: entry.range[1],
+        text: escapeProperties(value, encoding),
+      });
+    }
+  }
+
+  let result = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  if (missing.size > 0) {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const separator = entries.find((entry) =>
+      /^[ \t]*[=:][ \t]*$/.test(entry.separator),
+    )?.separator;
+    const lines = Array.from(missing).map(
+      ([key, value]) =>
+        `${escapeProperties(key, encoding, true)}${separator ?? '='}${escapeProperties(value, encoding)}`,
+    );
+    const lineBreak = result === '' || result.endsWith('\n') ? '' : eol;
+    result = `${result}${lineBreak}${lines.join(eol)}${eol}`;
+  }
+
+  return result;
+}
+
+/**
+ * Describe how translators must write a MessageFormat pattern
+ */
+function describeMessageFormat(value: string): string | undefined {
+  return MESSAGE_FORMAT_ARGUMENT.test(value)
+    ? "MessageFormat pattern: keep placeholders like {0} and write an apostrophe as ''"
+    : undefined;
+}
+
+/**
+ * Find an existing file of the same bundle to copy the encoding from (default file first)
+ */
+function findSiblingBundle(filePath: string): string | undefined {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) {
+    return undefined;
+  }
+  const bundle = parseBundleFileName(filePath).basename;
+  const siblings = readdirSync(dir)
+    .filter((file) => file.endsWith('.properties') && parseBundleFileName(file).basename === bundle)
+    .sort((a, b) => a.length - b.length || a.localeCompare(b));
+  return siblings[0] ? join(dir, siblings[0]) : undefined;
+}
+
+/**
+ * Create a Java Properties Parser
+ * @param options.basename - Bundle to translate when a directory holds several [default: messages]
+ * @param options.defaultLanguage - Language of the file without suffix [default: en]
+ * @param options.encoding - "utf-8" or "iso-8859-1" instead of detecting it per file
+ */
+export function createPropertiesParser(options: ParserOptions = {}): Parser {
+  const bundleOption =
+    typeof options.basename === 'string' && options.basename ? options.basename : undefined;
+  const defaultLanguage =
+    typeof options.defaultLanguage === 'string' && options.defaultLanguage
+      ? options.defaultLanguage
+      : DEFAULT_LANGUAGE;
+  const encodingOption =
+    options.encoding === 'utf-8' || options.encoding === 'iso-8859-1'
+      ? (options.encoding as PropertiesEncoding)
+      : undefined;
+
+  async function readPropertiesFile(
+    filePath: string,
+  ): Promise<{ text: string; encoding: PropertiesEncoding }> {
+    return decodeProperties(await readFile(filePath), encodingOption);
+  }
+
+  async function readEntries(filePath: string): Promise<PropertiesEntry[]> {
+    if (!existsSync(filePath)) {
+      throw new Error(`Language file not found: ${filePath}`);
+    }
+    return parseProperties((await readPropertiesFile(filePath)).text, filePath);
+  }
+
+  return {
+    name: 'properties',
+
+    fileKeyPrefix: false,
+
+    capabilities: { descriptions: true, keySeparator: null },
+
+    configure(options: ParserOptions): Parser {
+      return createPropertiesParser(options);
+    },
+
+    resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+      const files = existsSync(translationsDir)
+        ? readdirSync(translationsDir)
+            .filter((file) => file.endsWith('.properties'))
+            .sort()
+        : [];
+
+      // Prefer the bundle named "messages", then the first one with language files
+      const bundles = files.map(parseBundleFileName);
+      const bundle =
+        bundleOption ??
+        (bundles.some((file) => file.basename === DEFAULT_BASENAME)
+          ? DEFAULT_BASENAME
+          : (bundles.find((file) => file.locale)?.basename ?? DEFAULT_BASENAME));
+
+      const wanted = normalizeLocale(language);
+      const existing = files.find((file) => {
+        const parsed = parseBundleFileName(file);
+        return (
+          parsed.basename === bundle && parsed.locale && normalizeLocale(parsed.locale) === wanted
+        );
+      });
+      if (existing) {
+        return { path: join(translationsDir, existing), kind: 'file' };
+      }
+
+      const defaultFile = `${bundle}.properties`;
+      if (files.includes(defaultFile) && normalizeLocale(defaultLanguage) === wanted) {
+        return { path: join(translationsDir, defaultFile), kind: 'file' };
+      }
+
+      return {
+        path: join(translationsDir, `${bundle}_${toJavaLocale(language)}.properties`),
+        kind: 'file',
+      };
+    },
+
+    async export(filePath: string): Promise<Map<string, string>> {
+      const result = new Map<string, string>();
+      for (const entry of await readEntries(filePath)) {
+        result.set(entry.key, entry.value);
+      }
+      return result;
+    },
+
+    async exportMetadata(filePath: string): Promise<Map<string, TranslationMetadata>> {
+      const result = new Map<string, TranslationMetadata>();
+      for (const entry of await readEntries(filePath)) {
+        const notes = [entry.comment, describeMessageFormat(entry.value)].filter(Boolean);
+        if (notes.length > 0) {
+          result.set(entry.key, { description: notes.join('\n') });
+        } else {
+          result.delete(entry.key);
+        }
+      }
+      return result;
+    },
+
+    async import(filePath: string, translations: Map<string, string>): Promise<ParserImportResult> {
+      const result: ParserImportResult = {
+        filesCreated: 0,
+        filesModified: 0,
+        keysWritten: 0,
+      };
+
+      if (translations.size === 0) {
+        return result;
+      }
+
+      // New files take the encoding of the bundle's other files
+      const isNewFile = !existsSync(filePath);
+      const sibling = isNewFile ? findSiblingBundle(filePath) : filePath;
+      const encoding = sibling
+        ? (await readPropertiesFile(sibling)).encoding
+        : (encodingOption ?? 'ascii');
+      const text = isNewFile ? '' : (await readPropertiesFile(filePath)).text;
+
+      const content = updateProperties(text, translations, encoding, filePath);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, encodeProperties(content, encoding));
+
+      result.keysWritten = translations.size;
+      result.filesCreated = isNewFile ? 1 : 0;
+      result.filesModified = isNewFile ? 0 : 1;
+      return result;
+    },
+  };
+}
+
+/**
+ * Java Properties Parser with default options
+ */
+export const propertiesParser = createPropertiesParser();
@@ -0,0 +1,256 @@
+/**
+ * Xcode String Catalog Parser
+ *
+ * Parses Apple String Catalogs (Localizable.xcstrings): a single JSON file holding every
+ * language, so export and import need the language code.
+ * Expected structure: <translationsDir>/Localizable.xcstrings (or any other *.xcstrings)
+ *
+ * Keys are the catalog keys. Plural variations export one key per category ("<key>[one]").
+ * The source language falls back to the key itself when it has no explicit localization,
+ * like Xcode does. Units in state "new" count as untranslated; entries marked
+ * shouldTranslate: false are skipped. Developer comments are exported as metadata.
+ * Imports set `state: translated` and keep the file's indentation and " : " separators.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { Glob } from 'bun';
+import type { LanguageLocation, Parser, ParserImportResult, TranslationMetadata } from '../types';
+import { detectIndent, setOrderedKey } from './json';
+import { isPlainObject } from './object-utils';
+
+/** Default catalog file name */
+const DEFAULT_CATALOG = 'Localizable.xcstrings';
+
+/** CLDR plural categories used by plural variations */
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+interface StringUnit {
+  state?: string;
+  value: string;
+}
+
+interface Localization {
+  stringUnit?: StringUnit;
+  variations?: {
+    plural?: Record<string, { stringUnit?: StringUnit }>;
+  };
+}
+
+interface CatalogEntry {
+  comment?: string;
+  shouldTranslate?: boolean;
+  localizations?: Record<string, Localization>;
+}
+
+/**
+ * Contents of an .xcstrings file
+ */
+export interface StringCatalog {
+  sourceLanguage: string;
+  strings: Record<string, CatalogEntry>;
+  version?: string;
+}
+
+/**
+ * Parse an .xcstrings file
+ */
+async function readCatalog(filePath: string): Promise<{ catalog: StringCatalog; raw: string }> {
+  const raw = await readFile(filePath, 'utf-8');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error}`);
+  }
+
+  if (!isPlainObject(parsed) || !isPlainObject(parsed.strings)) {
+    throw new Error(`Failed to parse ${filePath}: not a string catalog`);
+  }
+
+  return { catalog: parsed as unknown as StringCatalog, raw };
+}
+
+function requireLanguage(language: string | undefined): string {
+  if (!language) {
+    throw new Error('The xcstrings parser needs a language code');
+  }
+  return language;
+}
+
+/**
+ * Whether a string unit holds a usable translation
+ */
+function isTranslated(unit: StringUnit | undefined, isSource: boolean): unit is StringUnit {
+  return unit !== undefined && (isSource || unit.state !== 'new');
+}
+
+/**
+ * Read the values of one language from a catalog
+ */
+export function catalogToMap(catalog: StringCatalog, language: string): Map<string, string> {
+  const result = new Map<string, string>();
+  const isSource = catalog.sourceLanguage === language;
+
+  for (const [key, entry] of Object.entries(catalog.strings)) {
+    if (entry.shouldTranslate === false) continue;
+
+    const localization = entry.localizations?.[language];
+    const plural = localization?.variations?.plural;
+
+    if (plural) {
+      for (const [category, variation] of Object.entries(plural)) {
+        if (isTranslated(variation.stringUnit, isSource)) {
+          result.set(`${key}[${category}]`, variation.stringUnit.value);
+        }
+      }
+    } else if (isTranslated(localization?.stringUnit, isSource)) {
+      result.set(key, localization.stringUnit.value);
+    } else if (isSource && !localization) {
+      result.set(key, key);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split a key into catalog key and plural category
+ * @example splitPluralKey('%lld items[one]') => ['%lld items', 'one']
+ */
+function splitPluralKey(key: string): [string, string] | null {
+  const match = key.match(/^(.+)\[([a-z]+)\]$/);
+  return match && PLURAL_CATEGORIES.includes(match[2]!) ? [match[1]!, match[2]!] : null;
+}
+
+/**
+ * Write translations for one language into a catalog, marking them translated
+ * @returns Number of keys written
+ */
+export function updateCatalog(
+  catalog: StringCatalog,
+  translations: Map<string, string>,
+  language: string,
+): number {
+  const strings = catalog.strings as Record<string, unknown>;
+
+  for (const [key, value] of translations) {
+    const plural = splitPluralKey(key);
+    const catalogKey = plural ? plural[0] : key;
+
+    if (!(catalogKey in strings)) {
+      setOrderedKey(strings, catalogKey, {});
+    }
+    const entry = catalog.strings[catalogKey]!;
+    entry.localizations ??= {};
+    if (!(language in entry.localizations)) {
+      setOrderedKey(entry.localizations, language, {});
+    }
+    const localization = entry.localizations[language]!;
+    const unit = { stringUnit: { state: 'translated', value } };
+
+    if (plural) {
+      localization.variations ??= {};
+      localization.variations.plural ??= {};
+      setOrderedKey(localization.variations.plural, plural[1], unit);
+    } else {
+      localization.stringUnit = unit.stringUnit;
+    }
+  }
+
+  return translations.size;
+}
+
+/**
+ * Serialize a catalog using the formatting of the original file
+ * Xcode writes `"key" : value` with a space before the colon.
+ */
+function formatCatalog(catalog: StringCatalog, raw: string): string {
+  let json = JSON.stringify(catalog, null, detectIndent(raw));
+  if (/"\s+:\s/.test(raw)) {
+    json = json.replace(/^(\s*"(?:[^"\\]|\\.)*"): /gm, '$1 : ');
+  }
+  return raw.endsWith('\n') ? `${json}\n` : json;
+}
+
+/**
+ * Xcode String Catalog Parser implementation
+ */
+export const xcstringsParser: Parser = {
+  name: 'xcstrings',
+
+  fileKeyPrefix: false,
+
+  capabilities: { plurals: true, descriptions: true, keySeparator: null },
+
+  resolveLanguage(translationsDir: string): LanguageLocation {
+    if (extname(translationsDir) === '.xcstrings') {
+      return { path: translationsDir, kind: 'file' };
+    }
+
+    const defaultCatalog = join(translationsDir, DEFAULT_CATALOG);
+    if (!existsSync(defaultCatalog) && existsSync(translationsDir)) {
+      const glob = new Glob('**/*.xcstrings');
+      const [first] = Array.from(glob.scanSync({ cwd: translationsDir })).sort();
+      if (first) {
+        return { path: join(translationsDir, first), kind: 'file' };
+      }
+    }
+
+    return { path: defaultCatalog, kind: 'file' };
+  },
+
+  async export(catalogPath: string, language?: string): Promise<Map<string, string>> {
+    if (!existsSync(catalogPath) || !statSync(catalogPath).isFile()) {
+      throw new Error(`String catalog not found: ${catalogPath}`);
+    }
+
+    const { catalog } = await readCatalog(catalogPath);
+    return catalogToMap(catalog, requireLanguage(language));
+  },
+
+  async exportMetadata(catalogPath: string): Promise<Map<string, TranslationMetadata>> {
+    const result = new Map<string, TranslationMetadata>();
+    const { catalog } = await readCatalog(catalogPath);
+
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+      if (!entry.comment) continue;
+      const metadata = { description: entry.comment };
+      result.set(key, metadata);
+      for (const category of PLURAL_CATEGORIES) {
+        result.set(`${key}[${category}]`, metadata);
+      }
+    }
+
+    return result;
+  },
+
+  async import(
+    catalogPath: string,
+    translations: Map<string, string>,
+    language?: string,
+  ): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    if (!existsSync(catalogPath)) {
+      throw new Error(`String catalog not found: ${catalogPath} (create it in Xcode first)`);
+    }
+
+    const { catalog, raw } = await readCatalog(catalogPath);
+    result.keysWritten = updateCatalog(catalog, translations, requireLanguage(language));
+    await writeFile(catalogPath, formatCatalog(catalog, raw), 'utf-8');
+    result.filesModified = 1;
+
+    return result;
+  },
+};
@@ -0,0 +1,589 @@
+/**
+ * XLIFF Parser
+ *
+ * Parses XLIFF 1.2 (`<trans-unit>`) and XLIFF 2.0 (`<unit>`/`<segment>`) files, as produced
+ * by Angular's `ng extract-i18n` and by translation vendors.
+ * Expected structure: src/locale/messages.xlf (source) and src/locale/messages.<lang>.xlf
+ *
+ * Keys are the unit ids. Units with several segments get one key per segment: "<id>#1", "<id>#2".
+ * Files that declare a target language (`target-language` / `trgLang`) export their targets;
+ * files without one are source files and export their sources. Without a source file
+ * (bilingual vendor files), the source language is read from the sources of a target file.
+ * Targets in state "new", "needs-translation" or "initial" count as untranslated.
+ *
+ * `<note>` elements and 1.2 context-groups are exported as metadata: notes become the
+ * description, meanings the message context, source locations references, and 1.2
+ * `maxwidth` in characters the maximum length. Imports replace (or insert) only the
+ * affected `<target>` elements and mark them translated; the rest of the file is unchanged.
+ * Values containing inline elements (`<x/>`, `<ph/>`, `<pc>`, ...) are kept as raw XML.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { Glob } from 'bun';
+import type {
+  LanguageLocation,
+  Parser,
+  ParserImportResult,
+  TranslationMetadata,
+  TranslationReference,
+} from '../types';
+import { decodeEntities, indentAt } from './xml-utils';
+
+/** File extensions recognized as XLIFF */
+const XLIFF_EXTENSIONS = ['.xlf', '.xliff'];
+
+/** Target states that mean "not translated yet" */
+const UNTRANSLATED_STATES = ['new', 'needs-translation', 'initial'];
+
+/** Inline elements of XLIFF 1.2 and 2.0 that may appear inside source/target */
+const INLINE_MARKUP = /<\/?(x|g|bx|ex|bpt|ept|ph|it|mrk|sub|pc|sc|ec|cp|sm|em)\b[^>]*>/;
+
+/**
+ * A translatable segment with the offsets needed for in-place edits
+ */
+export interface XliffEntry {
+  key: string;
+  source: string;
+  target?: string;
+
+  /** Target state (1.2: target `state`, 2.0: segment `state`) */
+  state?: string;
+
+  /** Notes and non-location context information */
+  notes: string[];
+
+  /** Meaning that tells identical sources apart (Angular `i18n="meaning|description"`) */
+  meaning?: string;
+
+  /** Maximum target length in characters (1.2 `maxwidth` with size-unit="char") */
+  maxLength?: number;
+
+  /** Source locations of the unit */
+  references: TranslationReference[];
+
+  /** Offsets of the whole `<target>` element, if present */
+  targetRange?: [number, number];
+
+  /** Original attributes of the `<target>` element */
+  targetAttributes: string;
+
+  /** Offset right after `</source>` */
+  sourceEnd: number;
+
+  /** Indentation of the `<source>` line */
+  sourceIndent: string;
+
+  /** Offsets and attributes of the 2.0 `<segment>` opening tag */
+  segmentTag?: { start: number; end: number; attributes: string };
+}
+
+/**
+ * Parsed XLIFF document
+ */
+export interface XliffDocument {
+  version: '1.2' | '2.0';
+
+  /** Whether the file declares a target language */
+  hasTargetLanguage: boolean;
+
+  entries: XliffEntry[];
+}
+
+/**
+ * Parse the attributes of an XML start tag
+ */
+function parseAttributes(attributes: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of attributes.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    result[match[1]!] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return result;
+}
+
+/**
+ * Set (or add) an attribute in the attribute string of a start tag
+ */
+function setAttribute(attributes: string, name: string, value: string): string {
+  const pattern = new RegExp(`(\\s${name}\\s*=\\s*)("[^"]*"|'[^']*')`);
+  if (pattern.test(attributes)) {
+    return attributes.replace(pattern, `$1"${value}"`);
+  }
+  return `${attributes.replace(/\s*\/?$/, '')} ${name}="${value}"`;
+}
+
+/**
+ * Convert the content of a source/target element to a translation value
+ * Content with inline elements is kept as raw XML so placeholders survive translation.
+ */
+function decodeContent(raw: string): string {
+  if (INLINE_MARKUP.test(raw)) {
+    return raw;
+  }
+  return raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) => (part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)))
+    .join('');
+}
+
+/**
+ * Convert a translation value to element content
+ */
+function encodeContent(value: string): string {
+  if (INLINE_MARKUP.test(value)) {
+    return value;
+  }
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Blank out regions of a string while keeping offsets (used to ignore `<alt-trans>`)
+ */
+function maskElements(body: string, element: string): string {
+  const pattern = new RegExp(`<${element}\\b[\\s\\S]*?<\\/${element}>`, 'g');
+  return body.replace(pattern, (match) => ' '.repeat(match.length));
+}
+
+/**
+ * Parse a location like "src/app/app.component.html:12" or "...:12,14"
+ */
+function parseLocation(location: string): TranslationReference | null {
+  const match = location.trim().match(/^(.+?):(\d+)(?:,\d+)?$/);
+  return match ? { filePath: match[1]!, lineNumber: Number.parseInt(match[2]!, 10) } : null;
+}
+
+/**
+ * Find the source and target elements inside a unit/segment body
+ * @param content - Whole document (for indentation lookup)
+ * @param body - Element body, with nested regions to ignore already masked
+ * @param offset - Offset of the body within the document
+ */
+function parseSourceTarget(content: string, body: string, offset: number) {
+  const source = body.match(/<source(?=[\s>/])[^>]*?(?:\/>|>([\s\S]*?)<\/source>)/);
+  if (!source || source.index === undefined) {
+    return null;
+  }
+
+  const target = body.match(/<target(?=[\s>/])([^>]*?)(?:\/>|>([\s\S]*?)<\/target>)/);
+  const sourceStart = offset + source.index;
+
+  return {
+    source: decodeContent(source[1] ?? ''),
+    sourceEnd: sourceStart + source[0].length,
+    sourceIndent: indentAt(content, sourceStart),
+    target: target ? decodeContent(target[2] ?? '') : undefined,
+    targetAttributes: target?.[1] ?? '',
+    targetRange:
+      target && target.index !== undefined
+        ? ([offset + target.index, offset + target.index + target[0].length] as [number, number])
+        : undefined,
+  };
+}
+
+/**
+ * Parse an XLIFF 1.2 document
+ */
+function parseXliff12(content: string): XliffEntry[] {
+  const entries: XliffEntry[] = [];
+
+  for (const unit of content.matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+    const attributes = parseAttributes(unit[1]!);
+    const bodyOffset = unit.index + unit[0].indexOf('>') + 1;
+    const body = maskElements(unit[2]!, 'alt-trans');
+    const parsed = parseSourceTarget(content, body, bodyOffset);
+    if (!attributes.id || !parsed) continue;
+
+    const notes: string[] = [];
+    const references: TranslationReference[] = [];
+    let meaning: string | undefined;
+
+    for (const note of body.matchAll(/<note\b([^>]*)>([\s\S]*?)<\/note>/g)) {
+      const from = parseAttributes(note[1]!).from;
+      const text = decodeContent(note[2]!).trim();
+      if (from === 'meaning') {
+        meaning = text;
+      } else {
+        notes.push(text);
+      }
+    }
+
+    for (const group of body.matchAll(/<context-group\b([^>]*)>([\s\S]*?)<\/context-group>/g)) {
+      const contexts = new Map<string, string>();
+      for (const context of group[2]!.matchAll(/<context\b([^>]*)>([\s\S]*?)<\/context>/g)) {
+        const type = parseAttributes(context[1]!)['context-type'] ?? 'context';
+        contexts.set(type, decodeContent(context[2]!).trim());
+      }
+
+      const sourceFile = contexts.get('sourcefile');
+      const lineNumber = Number.parseInt(contexts.get('linenumber') ?? '', 10);
+      if (sourceFile && !Number.isNaN(lineNumber)) {
+        references.push({ filePath: sourceFile, lineNumber });
+        continue;
+      }
+      for (const [type, value] of contexts) {
+        notes.push(`${type}: ${value}`);
+      }
+    }
+
+    // maxwidth counts pixels unless size-unit says otherwise
+    const maxWidth = Number.parseInt(attributes.maxwidth ?? '', 10);
+    const maxLength = attributes['size-unit'] === 'char' && maxWidth > 0 ? maxWidth : undefined;
+
+    const state = parseAttributes(parsed.targetAttributes).state;
+    entries.push({ key: attributes.id, ...parsed, state, notes, meaning, maxLength, references });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse an XLIFF 2.0 document
+ */
+function parseXliff20(content: string): XliffEntry[] {
+  const entries: XliffEntry[] = [];
+
+  for (const unit of content.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+    const id = parseAttributes(unit[1]!).id;
+    if (!id) continue;
+
+    const unitOffset = unit.index + unit[0].indexOf('>') + 1;
+    const body = unit[2]!;
+    const notes: string[] = [];
+    const references: TranslationReference[] = [];
+    let meaning: string | undefined;
+
+    for (const note of body.matchAll(/<note\b([^>]*)>([\s\S]*?)<\/note>/g)) {
+      const category = parseAttributes(note[1]!).category;
+      const text = decodeContent(note[2]!).trim();
+      const reference = category === 'location' ? parseLocation(text) : null;
+      if (reference) {
+        references.push(reference);
+      } else if (category === 'meaning') {
+        meaning = text;
+      } else {
+        notes.push(text);
+      }
+    }
+
+    const segments = [...body.matchAll(/<segment\b([^>]*)>([\s\S]*?)<\/segment>/g)];
+    segments.forEach((segment, index) => {
+      const tagStart = unitOffset + segment.index;
+      const tagEnd = tagStart + segment[0].indexOf('>') + 1;
+      const parsed = parseSourceTarget(content, segment[2]!, tagEnd);
+      if (!parsed) return;
+
+      entries.push({
+        key: segments.length === 1 ? id : `${id}#${index + 1}`,
+        ...parsed,
+        state: parseAttributes(segment[1]!).state,
+        notes,
+        meaning,
+        references,
+        segmentTag: { start: tagStart, end: tagEnd, attributes: segment[1]! },
+      });
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 document
+ */
+export function parseXliff(content: string): XliffDocument {
+  const version = /<xliff\b[^>]*\bversion\s*=\s*["']2/.test(content) ? '2.0' : '1.2';
+
+  return version === '2.0'
+    ? {
+        version,
+        hasTargetLanguage: /<xliff\b[^>]*\btrgLang\s*=/.test(content),
+        entries: parseXliff20(content),
+      }
+    : {
+        version,
+        hasTargetLanguage: /<file\b[^>]*\btarget-language\s*=/.test(content),
+        entries: parseXliff12(content),
+      };
+}
+
+/**
+ * Get the translation values of a document
+ * Source files yield their sources, target files their translated targets.
+ * @param sources - Read the sources instead [default: when the document has no target language]
+ */
+export function xliffToMap(
+  document: XliffDocument,
+  sources = !document.hasTargetLanguage,
+): Map<string, string> {
+  const result = new Map<string, string>();
+
+  for (const entry of document.entries) {
+    if (sources) {
+      result.set(entry.key, entry.source);
+    } else if (entry.target && !UNTRANSLATED_STATES.includes(entry.state ?? '')) {
+      result.set(entry.key, entry.target);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Write translations into an XLIFF document, editing only the affected targets
+ * @returns Updated content, number of keys written and keys with no matching unit
+ */
+export function updateXliff(
+  content: string,
+  translations: Map<string, string>,
+): { content: string; written: number; missing: string[] } {
+  const document = parseXliff(content);
+  const edits: { start: number; end: number; text: string }[] = [];
+  const found = new Set<string>();
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+
+  for (const entry of document.entries) {
+    const value = translations.get(entry.key);
+    if (value === undefined) continue;
+    found.add(entry.key);
+
+    let attributes = entry.targetAttributes.replace(/\s*\/$/, '');
+    if (document.version === '1.2') {
+      attributes = setAttribute(attributes, 'state', 'translated');
+    }
+    const target = `<target${attributes}>${encodeContent(value)}</target>`;
+
+    if (entry.targetRange) {
+      edits.push({ start: entry.targetRange[0], end: entry.targetRange[1], text: target });
+    } else {
+      edits.push({
+        start: entry.sourceEnd,
+        end: entry.sourceEnd,
+        text: `${eol}${entry.sourceIndent}${target}`,
+      });
+    }
+
+    if (entry.segmentTag) {
+      const segmentAttributes = setAttribute(entry.segmentTag.attributes, 'state', 'translated');
+      edits.push({
+        start: entry.segmentTag.start,
+        end: entry.segmentTag.end,
+        text: `<segment${segmentAttributes}>`,
+      });
+    }
+  }
+
+  // Apply bottom-up so earlier offsets stay valid
+  edits.sort((a, b) => b.start - a.start);
+  let result = content;
+  for (const edit of edits) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  const missing = Array.from(translations.keys()).filter((key) => !found.has(key));
+  return { content: result, written: found.size, missing };
+}
+
+/**
+ * Declare the target language of a document created from a source file
+ */
+function setTargetLanguage(content: string, language: string): string {
+  if (parseXliff(content).version === '2.0') {
+    return content.replace(/<xliff\b([^>]*)>/, (_, attributes: string) => {
+      return `<xliff${setAttribute(attributes, 'trgLang', language)}>`;
+    });
+  }
+  return content.replace(/<file\b([^>]*)>/g, (_, attributes: string) => {
+    return `<file${setAttribute(attributes, 'target-language', language)}>`;
+  });
+}
+
+/**
+ * Split a file name into base name, language suffix and extension
+ * @example splitFileName('messages.de.xlf') => { base: 'messages', language: 'de', extension: '.xlf' }
+ */
+function splitFileName(filePath: string): { base: string; language?: string; extension: string } {
+  const extension = extname(filePath);
+  const parts = basename(filePath, extension).split('.');
+  const language = parts.length > 1 ? parts.pop() : undefined;
+  return { base: parts.join('.'), language, extension };
+}
+
+/**
+ * List XLIFF files directly inside a directory (sorted)
+ */
+function listXliffFiles(directory: string): string[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+  const glob = new Glob('*.{xlf,xliff}');
+  return Array.from(glob.scanSync({ cwd: directory, absolute: false }))
+    .sort()
+    .map((file) => join(directory, file));
+}
+
+/**
+ * Read the declared languages of an XLIFF file without parsing its units
+ */
+function readLanguages(filePath: string): { source?: string; target?: string } {
+  return declaredLanguages(readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Get the source and target language declared by XLIFF content
+ */
+function declaredLanguages(content: string): { source?: string; target?: string } {
+  const root = content.match(/<xliff\b([^>]*)>/)?.[1] ?? '';
+  const file = content.match(/<file\b([^>]*)>/)?.[1] ?? '';
+  const attributes = { ...parseAttributes(root), ...parseAttributes(file) };
+  return {
+    source: attributes.srcLang ?? attributes['source-language'],
+    target: attributes.trgLang ?? attributes['target-language'],
+  };
+}
+
+/**
+ * Find the source file a missing target file should be created from
+ * @example messages.de.xlf => messages.xlf
+ */
+function findSourceFile(filePath: string): string | undefined {
+  const { base, extension } = splitFileName(filePath);
+  const sibling = join(dirname(filePath), `${base}${extension}`);
+  if (existsSync(sibling)) {
+    return sibling;
+  }
+  return listXliffFiles(dirname(filePath)).find((file) => !readLanguages(file).target);
+}
+
+/**
+ * XLIFF Parser implementation
+ */
+export const xliffParser: Parser = {
+  name: 'xliff',
+
+  fileKeyPrefix: false,
+
+  capabilities: {
+    descriptions: true,
+    references: true,
+    maxLength: true,
+    context: true,
+    keySeparator: null,
+  },
+
+  resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+    const files = listXliffFiles(translationsDir);
+
+    // messages.de.xlf / de.xlf
+    const named = files.find((file) => {
+      const { base, language: suffix } = splitFileName(file);
+      return suffix === language || (!suffix && base === language);
+    });
+    if (named) {
+      return { path: named, kind: 'file' };
+    }
+
+    // Source file without target language (e.g., messages.xlf with source-language="en")
+    const sourceFiles = files.filter((file) => !readLanguages(file).target);
+    const source = sourceFiles.find((file) => readLanguages(file).source === language);
+    if (source) {
+      return { path: source, kind: 'file' };
+    }
+
+    // Bilingual vendor files only: the source language is read from a target file's sources
+    const bilingual = files.find((file) => readLanguages(file).source === language);
+    if (bilingual) {
+      return { path: bilingual, kind: 'file' };
+    }
+
+    const template = sourceFiles[0];
+    if (template) {
+      const { base, extension } = splitFileName(template);
+      return { path: join(translationsDir, `${base}.${language}${extension}`), kind: 'file' };
+    }
+
+    return { path: join(translationsDir, `messages.${language}.xlf`), kind: 'file' };
+  },
+
+  async export(langPath: string, language?: string): Promise<Map<string, string>> {
+    if (!existsSync(langPath)) {
+      throw new Error(`Language file not found: ${langPath}`);
+    }
+
+    const content = await readFile(langPath, 'utf-8');
+    const document = parseXliff(content);
+    const { source, target } = declaredLanguages(content);
+    const readsSource = language !== undefined && language === source && language !== target;
+    return xliffToMap(document, !document.hasTargetLanguage || readsSource);
+  },
+
+  async exportMetadata(langPath: string): Promise<Map<string, TranslationMetadata>> {
+    const result = new Map<string, TranslationMetadata>();
+    const document = parseXliff(await readFile(langPath, 'utf-8'));
+
+    for (const entry of document.entries) {
+      const metadata: TranslationMetadata = {};
+      if (entry.notes.length > 0) {
+        metadata.description = entry.notes.join('\n');
+      }
+      if (entry.references.length > 0) {
+        metadata.references = entry.references;
+      }
+      if (entry.meaning) {
+        metadata.context = entry.meaning;
+      }
+      if (entry.maxLength) {
+        metadata.maxLength = entry.maxLength;
+      }
+      if (Object.keys(metadata).length > 0) {
+        result.set(entry.key, metadata);
+      }
+    }
+
+    return result;
+  },
+
+  async import(langPath: string, translations: Map<string, string>): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    if (!XLIFF_EXTENSIONS.includes(extname(langPath))) {
+      throw new Error(`XLIFF parser expects a .xlf or .xliff file, got: ${langPath}`);
+    }
+
+    let content: string;
+    const isNewFile = !existsSync(langPath);
+    if (isNewFile) {
+      // Units cannot exist without their source text, so start from the source file
+      const sourceFile = findSourceFile(langPath);
+      if (!sourceFile) {
+        throw new Error(`Cannot create ${langPath}: no XLIFF source file found next to it`);
+      }
+      const language = splitFileName(langPath).language ?? basename(langPath, extname(langPath));
+      content = setTargetLanguage(await readFile(sourceFile, 'utf-8'), language);
+    } else {
+      content = await readFile(langPath, 'utf-8');
+    }
+
+    const update = updateXliff(content, translations);
+    for (const key of update.missing) {
+      console.warn(`Warning: Unit '${key}' not found in ${langPath}, skipping`);
+    }
+
+    if (update.written > 0 || isNewFile) {
+      await writeFile(langPath, update.content, 'utf-8');
+      result.filesCreated = isNewFile ? 1 : 0;
+      result.filesModified = isNewFile ? 0 : 1;
+    }
+    result.keysWritten = update.written;
+
+    return result;
+  },
+};
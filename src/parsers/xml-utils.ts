@@ -0,0 +1,41 @@
+/**
+ * XML Utilities
+ *
+ * Shared helpers for parsers that read and edit XML resource files in place
+ * (Android resources, XLIFF).
+ */
+
+/**
+ * Decode the predefined XML entities and character references
+ * @example decodeEntities('Tom &amp; Jerry &#169;') => 'Tom & Jerry ©'
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (entity, name: string) => {
+    switch (name) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return name.startsWith('#x')
+          ? String.fromCodePoint(Number.parseInt(name.slice(2), 16))
+          : name.startsWith('#')
+            ? String.fromCodePoint(Number.parseInt(name.slice(1), 10))
+            : entity;
+    }
+  });
+}
+
+/**
+ * Get the indentation of the line containing an offset
+ */
+export function indentAt(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return content.slice(lineStart, offset).match(/^[ \t]*/)?.[0] ?? '';
+}
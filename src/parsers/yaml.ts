@@ -0,0 +1,480 @@
+/**
+ * YAML Parser
+ *
+ * Parses Rails / Symfony style YAML locale files.
+ * Expected structure: config/locales/<lang>.yml (or .yaml) with the language as root key:
+ *
+ *   en:
+ *     users:
+ *       title: Users
+ *
+ * A config/locales/<lang>/ directory is also supported; its files are merged (file names
+ * are not part of the keys, matching how Rails loads them).
+ *
+ * The language root key is stripped on export and injected again on import; it is the
+ * language passed by the caller, else derived from the path (custom layouts such as
+ * locales/{lang}/app.yml need the former); other top-level keys next to it, such as
+ * anchor blocks, are ignored. Anchors,
+ * merge keys (<<: *defaults) and block scalars are resolved on read. Imports edit the
+ * original text in place: existing values are replaced and new keys are inserted at the
+ * end of their parent mapping, so untouched sections keep their formatting and comments.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { Glob } from 'bun';
+import {
+  type Document,
+  Scalar,
+  type YAMLMap,
+  isAlias,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  stringify,
+} from 'yaml';
+import type { LanguageLocation, Parser, ParserImportResult } from '../types';
+import { detectIndent } from './json';
+import { flattenObject, isArrayIndex, isPlainObject, setNestedValue } from './object-utils';
+
+/** File extensions recognized as YAML */
+const YAML_EXTENSIONS = ['.yml', '.yaml'];
+
+/**
+ * A text edit against the original document (replacement or insertion)
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+
+  /** Nesting depth, orders insertions at the same offset (deeper first in the output) */
+  depth: number;
+}
+
+/**
+ * Keys missing from an existing mapping, inserted together at its end
+ */
+interface PendingInsert {
+  map: YAMLMap;
+  depth: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Derive the language code from a locale file or directory path
+ * @example languageFromPath('config/locales/devise.pt-BR.yml') => 'pt-BR'
+ */
+export function languageFromPath(path: string): string {
+  const extension = extname(path);
+  const name = YAML_EXTENSIONS.includes(extension) ? basename(path, extension) : basename(path);
+  return name.split('.').pop() ?? name;
+}
+
+/**
+ * Parse YAML content into a document, failing on syntax errors
+ */
+function parseYaml(content: string, filePath: string): Document {
+  const doc = parseDocument(content, { merge: true });
+  const [error] = doc.errors;
+  if (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error.message}`);
+  }
+  return doc;
+}
+
+/**
+ * Get the language root key of a document, if one of its top-level keys is the language
+ * mapping (siblings such as anchor blocks for `<<: *defaults` are allowed)
+ */
+function findRootKey(doc: Document, language: string): string | null {
+  if (!isMap(doc.contents)) {
+    return null;
+  }
+  const pair = doc.contents.items.find(
+    (item) => isScalar(item.key) && String(item.key.value) === language,
+  );
+  return pair && isMap(pair.value) ? language : null;
+}
+
+/**
+ * Read the translations of a YAML document, without its language root
+ */
+export function yamlToMap(
+  content: string,
+  language: string,
+  filePath?: string,
+): Map<string, string> {
+  const doc = parseYaml(content, filePath ?? 'YAML');
+  const data: unknown = doc.toJS();
+  if (!isPlainObject(data)) {
+    return new Map();
+  }
+
+  const rootKey = findRootKey(doc, language);
+  const translations = rootKey === null ? data : data[rootKey];
+  return isPlainObject(translations) ? flattenObject(translations, '', filePath) : new Map();
+}
+
+/**
+ * Get the column of an offset within the source text
+ */
+function columnOf(content: string, offset: number): number {
+  return offset - (content.lastIndexOf('\n', offset - 1) + 1);
+}
+
+/**
+ * Find the value pair for a key in a mapping
+ */
+function findPair(map: YAMLMap, key: string) {
+  return map.items.find((pair) => isScalar(pair.key) && String(pair.key.value) === key);
+}
+
+/**
+ * Format a replacement for an existing scalar, keeping its quoting / block style
+ */
+function formatScalar(value: string, original: Scalar, originalText: string, pad: string): string {
+  let type = original.type;
+  if (type === Scalar.PLAIN && value.includes('\n')) {
+    type = Scalar.QUOTE_DOUBLE;
+  }
+
+  const scalar = new Scalar(value);
+  scalar.type = type;
+  const text = stringify(scalar, { lineWidth: 0 });
+
+  if (type === Scalar.BLOCK_LITERAL || type === Scalar.BLOCK_FOLDED) {
+    const indented = text.replace(/\n(?=[^\n])/g, `\n${pad}`);
+    return originalText.endsWith('\n') ? indented : indented.replace(/\n$/, '');
+  }
+
+  return text.replace(/\n$/, '');
+}
+
+/**
+ * Format new keys as a block mapping starting at the given column
+ */
+function formatBlock(values: Record<string, unknown>, column: number, indent: string): string {
+  const text = stringify(values, { indent: indent.length, lineWidth: 0 });
+  const pad = ' '.repeat(column);
+  return text.replace(/^(?=[^\n])/gm, pad);
+}
+
+/**
+ * Write translations into YAML content by editing the original text
+ *
+ * Existing scalar values are replaced in place and new keys are inserted at the end of
+ * their deepest existing parent mapping. Documents that cannot be edited in place
+ * (flow mappings, aliases or scalars in the key path) are re-serialized instead.
+ *
+ * @param content - Original file content (may be empty)
+ * @param translations - Map of dot-notation keys (without language root) to values
+ * @param language - Language code, injected as root key for new or root-keyed documents
+ * @returns Updated content
+ */
+export function updateYaml(
+  content: string,
+  translations: Map<string, string>,
+  language: string,
+): string {
+  const doc = parseYaml(content, 'YAML');
+  const indent = detectIndent(content).replace(/\t/g, '  ');
+
+  if (!isMap(doc.contents) || doc.contents.items.length === 0) {
+    const values: Record<string, unknown> = {};
+    for (const [key, value] of translations) {
+      setNestedValue(values, key, value);
+    }
+    return stringify({ [language]: values }, { indent: indent.length, lineWidth: 0 });
+  }
+
+  const rootKey = findRootKey(doc, language);
+  const rootPath = rootKey === null ? [] : [rootKey];
+  const edits: TextEdit[] = [];
+  const inserts = new Map<YAMLMap, PendingInsert>();
+  let inPlace = true;
+
+  for (const [key, value] of translations) {
+    const segments = [...rootPath, ...key.split('.')];
+    let node: unknown = doc.contents;
+
+    for (let depth = 0; depth < segments.length; depth++) {
+      const segment = segments[depth]!;
+
+      // Existing items of block sequences; new items are appended by the rewrite
+      if (isSeq(node) && !node.flow && isArrayIndex(segment)) {
+        const item = node.items[Number(segment)];
+        if (depth === segments.length - 1 && isScalar(item) && item.range) {
+          const [start, end] = item.range;
+          const pad = ' '.repeat(columnOf(content, start));
+          const text = formatScalar(value, item, content.slice(start, end), pad);
+          edits.push({ start, end, text, depth });
+          break;
+        }
+        if (!item || isScalar(item) || isAlias(item)) {
+          inPlace = false;
+          break;
+        }
+        node = item;
+        continue;
+      }
+
+      if (!isMap(node) || node.flow) {
+        inPlace = false;
+        break;
+      }
+
+      const pair = findPair(node, segment);
+      if (!pair) {
+        let insert = inserts.get(node);
+        if (!insert) {
+          insert = { map: node, depth, values: {} };
+          inserts.set(node, insert);
+        }
+        setNestedValue(insert.values, segments.slice(depth).join('.'), value);
+        break;
+      }
+
+      if (depth === segments.length - 1) {
+        const target = pair.value;
+        if (!isScalar(target) || !target.range || !isScalar(pair.key) || !pair.key.range) {
+          inPlace = false;
+          break;
+        }
+        const [start, end] = target.range;
+        const pad = ' '.repeat(columnOf(content, pair.key.range[0]) + indent.length);
+        const text = formatScalar(value, target, content.slice(start, end), pad);
+        edits.push({ start, end, text, depth });
+        break;
+      }
+
+      node = pair.value;
+      if (isAlias(node)) {
+        inPlace = false;
+        break;
+      }
+    }
+
+    if (!inPlace) break;
+  }
+
+  if (!inPlace) {
+    return rewriteYaml(doc, rootPath, translations, indent);
+  }
+
+  for (const { map, depth, values } of inserts.values()) {
+    const [firstPair] = map.items;
+    if (!isScalar(firstPair?.key) || !firstPair.key.range || !map.range) {
+      return rewriteYaml(doc, rootPath, translations, indent);
+    }
+    const offset = map.range[1];
+    const column = columnOf(content, firstPair.key.range[0]);
+    const lineBreak = offset > 0 && content[offset - 1] !== '\n' ? '\n' : '';
+    edits.push({
+      start: offset,
+      end: offset,
+      text: `${lineBreak}${formatBlock(values, column, indent)}`,
+      depth,
+    });
+  }
+
+  // Apply bottom-up; at equal offsets apply shallower insertions first so deeper ones end up before them
+  edits.sort((a, b) => b.start - a.start || a.depth - b.depth);
+  let result = content;
+  for (const edit of edits) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Fallback: set values through the document model and re-serialize it
+ */
+function rewriteYaml(
+  doc: Document,
+  rootPath: string[],
+  translations: Map<string, string>,
+  indent: string,
+): string {
+  for (const [key, value] of translations) {
+    try {
+      doc.setIn([...rootPath, ...key.split('.')], value);
+    } catch {
+      console.warn(
+        `Warning: Cannot write key '${key}' (conflicts with an existing value), skipping`,
+      );
+    }
+  }
+  return doc.toString({ indent: indent.length, lineWidth: 0 });
+}
+
+/**
+ * List YAML files in a language directory (recursively, sorted)
+ */
+async function findYamlFiles(langDir: string): Promise<string[]> {
+  const glob = new Glob('**/*.{yml,yaml}');
+  const files: string[] = [];
+  for await (const file of glob.scan({ cwd: langDir, absolute: false })) {
+    files.push(join(langDir, file));
+  }
+  return files.sort();
+}
+
+/**
+ * Find the file whose keys share the longest prefix with a key
+ */
+function findOwnerFile(key: string, filePrefixes: Map<string, Set<string>>): string | undefined {
+  const parts = key.split('.');
+  for (let length = parts.length; length > 0; length--) {
+    const prefix = parts.slice(0, length).join('.');
+    for (const [filePath, prefixes] of filePrefixes) {
+      if (prefixes.has(prefix)) {
+        return filePath;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect every key and ancestor path defined in a translation map
+ */
+function collectPrefixes(keys: Map<string, string>): Set<string> {
+  const prefixes = new Set<string>();
+  for (const key of keys.keys()) {
+    const parts = key.split('.');
+    for (let length = 1; length <= parts.length; length++) {
+      prefixes.add(parts.slice(0, length).join('.'));
+    }
+  }
+  return prefixes;
+}
+
+/**
+ * Merge translations into a single YAML file
+ * @returns Whether the file was newly created
+ */
+async function writeYamlFile(
+  filePath: string,
+  keys: Map<string, string>,
+  language: string,
+): Promise<boolean> {
+  const isNewFile = !existsSync(filePath);
+  const content = isNewFile ? '' : await Bun.file(filePath).text();
+
+  const updated = updateYaml(content, keys, language);
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, updated, 'utf-8');
+
+  return isNewFile;
+}
+
+/**
+ * YAML Parser implementation
+ */
+export const yamlParser: Parser = {
+  name: 'yaml',
+
+  fileKeyPrefix: false,
+
+  resolveLanguage(translationsDir: string, language: string): LanguageLocation {
+    const directory = join(translationsDir, language);
+    if (existsSync(directory) && statSync(directory).isDirectory()) {
+      return { path: directory, kind: 'directory' };
+    }
+
+    const yamlFile = `${directory}.yaml`;
+    if (existsSync(yamlFile)) {
+      return { path: yamlFile, kind: 'file' };
+    }
+
+    return { path: `${directory}.yml`, kind: 'file' };
+  },
+
+  async export(
+    langPath: string,
+    language = languageFromPath(langPath),
+  ): Promise<Map<string, string>> {
+    if (!existsSync(langPath)) {
+      throw new Error(`Language file not found: ${langPath}`);
+    }
+
+    if (statSync(langPath).isFile()) {
+      return yamlToMap(await Bun.file(langPath).text(), language, langPath);
+    }
+
+    const result = new Map<string, string>();
+    for (const filePath of await findYamlFiles(langPath)) {
+      try {
+        const keys = yamlToMap(await Bun.file(filePath).text(), language, filePath);
+        for (const [key, value] of keys) {
+          result.set(key, value);
+        }
+      } catch (error) {
+        console.error(`Warning: Failed to parse ${filePath}:`, error);
+      }
+    }
+
+    return result;
+  },
+
+  async import(
+    langPath: string,
+    translations: Map<string, string>,
+    language = languageFromPath(langPath),
+  ): Promise<ParserImportResult> {
+    const result: ParserImportResult = {
+      filesCreated: 0,
+      filesModified: 0,
+      keysWritten: 0,
+    };
+
+    if (translations.size === 0) {
+      return result;
+    }
+
+    // Single file per language: write all keys into it
+    if (YAML_EXTENSIONS.includes(extname(langPath))) {
+      const created = await writeYamlFile(langPath, translations, language);
+      result.keysWritten = translations.size;
+      result.filesCreated = created ? 1 : 0;
+      result.filesModified = created ? 0 : 1;
+      return result;
+    }
+
+    // Language directory: route each key to the file that already defines its closest parent
+    const files = existsSync(langPath) ? await findYamlFiles(langPath) : [];
+    const filePrefixes = new Map<string, Set<string>>();
+    for (const filePath of files) {
+      const keys = yamlToMap(await Bun.file(filePath).text(), language, filePath);
+      filePrefixes.set(filePath, collectPrefixes(keys));
+    }
+
+    const defaultFile = files[0] ?? join(langPath, `${language}.yml`);
+    const fileGroups = new Map<string, Map<string, string>>();
+    for (const [key, value] of translations) {
+      const filePath = findOwnerFile(key, filePrefixes) ?? defaultFile;
+      let group = fileGroups.get(filePath);
+      if (!group) {
+        group = new Map();
+        fileGroups.set(filePath, group);
+      }
+      group.set(key, value);
+    }
+
+    for (const [filePath, keys] of fileGroups) {
+      const created = await writeYamlFile(filePath, keys, language);
+      result.keysWritten += keys.size;
+
+      if (created) {
+        result.filesCreated++;
+      } else {
+        result.filesModified++;
+      }
+    }
+
+    return result;
+  },
+};
@@ -1,27 +1,48 @@
 /**
  * Translation Analyzer Service
  *
- * Compares source and target language translation files to find missing keys.
+ * Compares source and target language translation files to find missing keys, target
+ * values that were never really translated (see untranslated.ts), and translations whose
+ * source value changed since they were made (see source-lock.ts).
  */
 
 import { join } from 'node:path';
+import { DEFAULT_UNTRANSLATED_RULES } from '../config/parser-config';
 import { getParser } from '../parsers';
+import { expandPluralEntries, exportEntries, splitEntries } from '../parsers/capabilities';
+import { resolveLanguageLocation } from '../parsers/language-path';
 import { analysisStore, configStore } from '../stores';
-import type { MissingTranslation } from '../types';
+import type { MissingTranslation, Parser } from '../types';
+import {
+  baselineSourceHashes,
+  findStaleKeys,
+  readSourceLock,
+  writeSourceLock,
+} from './source-lock';
 import { findTranslationContextForKey } from './translation-context';
+import { findUntranslatedKeys } from './untranslated';
 
 /**
  * Result of translation analysis
  */
 export interface AnalysisResult {
+  /** Target language code */
+  targetLanguage: string;
+
   /** Number of keys in source language */
   sourceKeyCount: number;
 
-  /** Number of keys in target language */
+  /** Number of keys in the target language */
   targetKeyCount: number;
 
-  /** List of missing translations */
+  /** List of missing, untranslated and stale translations */
   missing: MissingTranslation[];
+
+  /** Number of stale translations among them */
+  staleCount: number;
+
+  /** Number of untranslated target values among them (empty, copied, marked) */
+  untranslatedCount: number;
 }
 
 /**
@@ -29,25 +50,43 @@ export interface AnalysisResult {
  * @param source - Source language translations
  * @param target - Target language translations
  * @param includeTranslationContext - Whether to find translation context examples
+ * @param staleKeys - Translated keys whose source value changed, exported as "stale"
+ * @param untranslatedKeys - Target keys without a real translation, exported as "untranslated"
  * @returns Array of missing translations
  */
 export function compareTranslationSets(
   source: Map<string, string>,
   target: Map<string, string>,
   includeTranslationContext = true,
+  staleKeys: Set<string> = new Set(),
+  untranslatedKeys: Set<string> = new Set(),
 ): MissingTranslation[] {
   const config = configStore.getState();
   const missing: MissingTranslation[] = [];
 
+  // Untranslated values make poor terminology examples
+  const translated =
+    untranslatedKeys.size > 0
+      ? new Map([...target].filter(([key]) => !untranslatedKeys.has(key)))
+      : target;
+
   for (const [key, value] of source) {
-    if (!target.has(key)) {
+    const reason = !target.has(key)
+      ? 'missing'
+      : untranslatedKeys.has(key)
+        ? 'untranslated'
+        : staleKeys.has(key)
+          ? 'stale'
+          : undefined;
+    if (reason) {
       // Find translation context examples for nouns in source value
       const translationContexts = includeTranslationContext
-        ? findTranslationContextForKey(value, source, target)
+        ? findTranslationContextForKey(value, source, translated)
         : [];
 
       missing.push({
         key,
+        reason,
         sourceLanguage: config.sourceLanguage,
         targetLanguage: config.targetLanguage,
         sourceValue: value,
@@ -63,44 +102,127 @@ export function compareTranslationSets(
 /**
  * Find missing translations between source and target languages
  * Uses configuration from config store
+ * @param loadedParser - Parser loaded by the command, else the registered parser from the config
  * @returns Analysis result with missing translations
  */
-export async function findMissingTranslations(): Promise<AnalysisResult> {
+export async function findMissingTranslations(loadedParser?: Parser): Promise<AnalysisResult> {
+  const config = configStore.getState();
+  const [result] = await findMissingTranslationsForTargets([config.targetLanguage], loadedParser);
+  return result!;
+}
+
+/**
+ * Find missing translations of several target languages
+ *
+ * The source language is parsed once and compared with each target in turn. Uses the
+ * configuration from the config store except for the target language.
+ *
+ * @param targetLanguages - Target language codes (e.g., ["de", "fr"])
+ * @param loadedParser - Parser loaded by the command, else the registered parser from the config
+ * @returns Analysis result per target language, in the given order
+ */
+export async function findMissingTranslationsForTargets(
+  targetLanguages: string[],
+  loadedParser?: Parser,
+): Promise<AnalysisResult[]> {
   const config = configStore.getState();
   const analysis = analysisStore.getState();
 
   // Get parser
-  const parser = getParser(config.parser);
+  const parser = loadedParser ?? getParser(config.parser, config.parserOptions);
   if (!parser) {
     throw new Error(`Unknown parser: ${config.parser}`);
   }
 
+  const translationsDir = join(config.repoPath, config.translationsDir);
+
   // Task 1: Parse source language
   analysis.startTask('find_source_keys');
   analysis.setStatus('parsing_source');
-  const sourcePath = join(config.repoPath, config.translationsDir, config.sourceLanguage);
-  const sourceKeys = await parser.export(sourcePath);
+  const source = resolveLanguageLocation(
+    parser,
+    translationsDir,
+    config.sourceLanguage,
+    config.layout,
+  );
+  const sourceEntries = await exportEntries(parser, source.path, config.sourceLanguage);
   analysis.completeTask('find_source_keys');
 
-  // Task 2: Parse target language
+  // Task 2: Parse target languages
   analysis.startTask('find_target_keys');
   analysis.setStatus('parsing_target');
-  const targetPath = join(config.repoPath, config.translationsDir, config.targetLanguage);
-  const targetKeys = await parser.export(targetPath);
+  const targets = new Map<string, { path: string; keys: Map<string, string> }>();
+  for (const targetLanguage of targetLanguages) {
+    const target = resolveLanguageLocation(parser, translationsDir, targetLanguage, config.layout);
+    targets.set(targetLanguage, {
+      path: target.path,
+      keys: await parser.export(target.path, targetLanguage),
+    });
+  }
   analysis.completeTask('find_target_keys');
 
-  // Task 3: Compare and find missing
+  // Task 3: Compare and find missing, untranslated or stale
   analysis.startTask('find_missing');
   analysis.setStatus('comparing');
-  const missing = compareTranslationSets(sourceKeys, targetKeys);
+  const lock = await readSourceLock(translationsDir);
+  const results: AnalysisResult[] = [];
+
+  for (const [targetLanguage, { path: targetPath, keys: targetKeys }] of targets) {
+    // The target may need more plural forms than the source has (Polish "few", "many")
+    const { values: sourceKeys, metadata: sourceMetadata } = splitEntries(
+      await expandPluralEntries(parser, sourceEntries, targetPath, targetLanguage),
+    );
+    if (config.initLock) {
+      baselineSourceHashes(lock, config.sourceLanguage, targetLanguage, sourceKeys, targetKeys);
+    }
+    const staleKeys = findStaleKeys(
+      lock,
+      config.sourceLanguage,
+      targetLanguage,
+      sourceKeys,
+      targetKeys,
+    );
+    const untranslatedKeys = findUntranslatedKeys(
+      sourceKeys,
+      targetKeys,
+      config.untranslated ?? DEFAULT_UNTRANSLATED_RULES,
+    );
+    const missing = compareTranslationSets(
+      sourceKeys,
+      targetKeys,
+      true,
+      staleKeys,
+      untranslatedKeys,
+    ).map((m) => {
+      const metadata = sourceMetadata.get(m.key);
+      return metadata ? { ...m, targetLanguage, metadata } : { ...m, targetLanguage };
+    });
+
+    results.push({
+      targetLanguage,
+      sourceKeyCount: sourceKeys.size,
+      targetKeyCount: targetKeys.size,
+      missing,
+      staleCount: missing.filter((m) => m.reason === 'stale').length,
+      untranslatedCount: untranslatedKeys.size,
+    });
+  }
+
+  if (config.initLock) {
+    await writeSourceLock(translationsDir, lock);
+  }
   analysis.completeTask('find_missing');
 
-  // Update counts
-  analysis.setCounts(sourceKeys.size, targetKeys.size, missing.length);
+  // Update counts (summed over the target languages)
+  const sum = (count: (result: AnalysisResult) => number) =>
+    results.reduce((total, result) => total + count(result), 0);
+  analysis.setCounts(
+    sourceEntries.size,
+    sum((result) => result.targetKeyCount),
+    sum((result) => result.missing.length),
+    sum((result) => result.staleCount),
+    sum((result) => result.untranslatedCount),
+  );
 
-  return {
-    sourceKeyCount: sourceKeys.size,
-    targetKeyCount: targetKeys.size,
-    missing,
-  };
+  return results;
 }
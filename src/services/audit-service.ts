@@ -0,0 +1,161 @@
+/**
+ * Audit Service
+ *
+ * Reports dead and broken translation keys: target keys without a source counterpart,
+ * source keys the code never mentions, and keys passed to translation functions
+ * (`t('…')`) that the source language does not define.
+ */
+
+import { relative } from 'node:path';
+import { expandPluralEntries, exportEntries, splitEntries } from '../parsers/capabilities';
+import { resolveLanguageLocation } from '../parsers/language-path';
+import type { AuditResult, KeyReference, Parser } from '../types';
+import { findKeyInContent, readCodeFiles } from './context-finder';
+
+/** Translation functions checked by default (covers i18n.t, this.$t, ...) */
+export const DEFAULT_TRANSLATION_FUNCTIONS = ['t', '$t', 'tc', '$tc'];
+
+/** Plural form suffix of i18next keys (e.g., "files_one") */
+const I18NEXT_PLURAL_SUFFIX = /_(?:zero|one|two|few|many|other)$/;
+
+/**
+ * Find the string literal keys passed to translation functions
+ * Template literals with `${…}` are dynamic and skipped.
+ * @param content - File content
+ * @param functions - Function names (e.g., "t", "$t", "i18n.t")
+ * @returns Keys with their line numbers (1-indexed)
+ */
+export function findTranslationCalls(
+  content: string,
+  functions: string[],
+): Array<{ key: string; lineNumber: number }> {
+  if (functions.length === 0) {
+    return [];
+  }
+
+  const names = functions.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  const pattern = new RegExp(
+    `(?<![\\w$])(?:${names})\\(\\s*(['"\`])((?:\\\\.|(?!\\1)[^\\\\\\n])*)\\1\\s*[,)]`,
+    'g',
+  );
+
+  const calls: Array<{ key: string; lineNumber: number }> = [];
+  for (const match of content.matchAll(pattern)) {
+    const raw = match[2] ?? '';
+    if (!raw || (match[1] === '`' && raw.includes('${'))) continue;
+
+    calls.push({
+      key: raw.replace(/\\(.)/g, '$1'),
+      lineNumber: content.slice(0, match.index).split('\n').length,
+    });
+  }
+  return calls;
+}
+
+/**
+ * Collect the names code may use for the source keys: the keys, their parent objects,
+ * and plural keys without their form suffix ("files[one]" and i18next "files_one" => "files")
+ */
+export function definedKeyNames(sourceKeys: Iterable<string>): Set<string> {
+  const names = new Set<string>();
+
+  for (const key of sourceKeys) {
+    names.add(key);
+    names.add(key.replace(/\[[^\]]*\]$/, ''));
+    names.add(key.replace(I18NEXT_PLURAL_SUFFIX, ''));
+    let dot = key.indexOf('.');
+    while (dot !== -1) {
+      names.add(key.slice(0, dot));
+      dot = key.indexOf('.', dot + 1);
+    }
+  }
+  return names;
+}
+
+/**
+ * Check whether a key used in code is defined; i18next "namespace:key" is read as "namespace.key"
+ */
+function isDefined(key: string, names: Set<string>): boolean {
+  return names.has(key) || (key.includes(':') && names.has(key.replace(':', '.')));
+}
+
+/**
+ * Run audit: compare target keys with the source, and source keys with the code
+ *
+ * @param repoPath - Repository root searched for key usages
+ * @param translationsDir - Base translations directory (skipped by the code search)
+ * @param sourceLanguage - Language that defines the keys (e.g., "en")
+ * @param targetLanguages - Languages checked for orphaned keys (may be empty)
+ * @param parser - Parser to use for reading keys
+ * @param options.layout - Optional language path template (e.g., "{lang}.json")
+ * @param options.extensions - File extensions to search
+ * @param options.functions - Translation functions whose keys are checked
+ * @returns Audit report
+ */
+export async function runAudit(
+  repoPath: string,
+  translationsDir: string,
+  sourceLanguage: string,
+  targetLanguages: string[],
+  parser: Parser,
+  options: { layout?: string; extensions: string[]; functions: string[] },
+): Promise<AuditResult> {
+  const source = resolveLanguageLocation(parser, translationsDir, sourceLanguage, options.layout);
+  const sourceEntries = await exportEntries(parser, source.path, sourceLanguage);
+  const { values: sourceKeys } = splitEntries(sourceEntries);
+
+  const orphanedKeys: Record<string, string[]> = {};
+  for (const targetLanguage of targetLanguages) {
+    const target = resolveLanguageLocation(parser, translationsDir, targetLanguage, options.layout);
+    const targetKeys = await parser.export(target.path, targetLanguage);
+    // Plural forms the target needs beyond the source's are not orphaned
+    const expected = await expandPluralEntries(parser, sourceEntries, target.path, targetLanguage);
+    orphanedKeys[targetLanguage] = [...targetKeys.keys()]
+      .filter((key) => !expected.has(key))
+      .sort();
+  }
+
+  // Plural forms are used through their base key
+  const unused = new Map<string, string>();
+  for (const key of sourceKeys.keys()) {
+    unused.set(key, key.replace(/\[[^\]]*\]$/, '').replace(I18NEXT_PLURAL_SUFFIX, ''));
+  }
+
+  const names = definedKeyNames(sourceKeys.keys());
+  const undefinedKeys: KeyReference[] = [];
+
+  for await (const { filePath, content } of readCodeFiles(repoPath, options.extensions, [
+    translationsDir,
+  ])) {
+    for (const [key, usageKey] of unused) {
+      if (content.includes(usageKey) && findKeyInContent(content, usageKey).length > 0) {
+        unused.delete(key);
+      }
+    }
+
+    for (const call of findTranslationCalls(content, options.functions)) {
+      if (!isDefined(call.key, names)) {
+        undefinedKeys.push({
+          key: call.key,
+          filePath: relative(repoPath, filePath),
+          lineNumber: call.lineNumber,
+        });
+      }
+    }
+  }
+
+  undefinedKeys.sort(
+    (a, b) =>
+      a.filePath.localeCompare(b.filePath) ||
+      a.lineNumber - b.lineNumber ||
+      a.key.localeCompare(b.key),
+  );
+
+  return {
+    sourceLanguage,
+    targetLanguages,
+    orphanedKeys,
+    unusedKeys: [...unused.keys()].sort(),
+    undefinedKeys,
+  };
+}
@@ -4,10 +4,10 @@
  * Searches for translation key usages in code and extracts surrounding context.
  */
 
-import { join } from 'node:path';
+import { isAbsolute, join } from 'node:path';
 import { Glob } from 'bun';
 import { analysisStore, configStore } from '../stores';
-import type { UsageContext } from '../types';
+import type { TranslationReference, UsageContext } from '../types';
 
 /** Maximum number of context snippets per key */
 const MAX_CONTEXTS_PER_KEY = 10;
@@ -50,7 +50,7 @@ export function extractContext(lines: string[], matchLine: number, filePath: str
  * @param key - Translation key to search for
  * @returns Array of line numbers (0-indexed) where key is found
  */
-function findKeyInContent(content: string, key: string): number[] {
+export function findKeyInContent(content: string, key: string): number[] {
   const lines = content.split('\n');
   const matches: number[] = [];
 
@@ -79,28 +79,23 @@ function findKeyInContent(content: string, key: string): number[] {
 }
 
 /**
- * Find all usages of a translation key in a directory
- * @param key - Translation key to search for
+ * Read the text files of a directory with the given extensions
+ * Skips node_modules, build output, binary files and the excluded directories.
  * @param searchDir - Directory to search in
- * @returns Array of usage contexts (max 10)
+ * @param extensions - File extensions to read (all files when empty)
+ * @param excludeDirs - Absolute directories to skip (e.g., the translations directory)
  */
-export async function findKeyUsages(key: string, searchDir: string): Promise<UsageContext[]> {
-  const config = configStore.getState();
-  const contexts: UsageContext[] = [];
-
-  // Build glob pattern from extensions
-  const extensions = config.extensions.length > 0
-    ? config.extensions.map((ext) => `**/*${ext}`)
-    : ['**/*'];
-
-  for (const pattern of extensions) {
-    if (contexts.length >= MAX_CONTEXTS_PER_KEY) break;
+export async function* readCodeFiles(
+  searchDir: string,
+  extensions: string[],
+  excludeDirs: string[] = [],
+): AsyncGenerator<{ filePath: string; content: string }> {
+  const patterns = extensions.length > 0 ? extensions.map((ext) => `**/*${ext}`) : ['**/*'];
 
+  for (const pattern of patterns) {
     const glob = new Glob(pattern);
 
     for await (const relativePath of glob.scan({ cwd: searchDir, absolute: false })) {
-      if (contexts.length >= MAX_CONTEXTS_PER_KEY) break;
-
       // Skip node_modules and other common non-source directories
       if (
         relativePath.includes('node_modules') ||
@@ -112,25 +107,72 @@ export async function findKeyUsages(key: string, searchDir: string): Promise<Usa
       }
 
       const filePath = join(searchDir, relativePath);
+      if (excludeDirs.some((dir) => filePath.startsWith(`${dir}/`) || filePath === dir)) {
+        continue;
+      }
 
       try {
-        const file = Bun.file(filePath);
-        const content = await file.text();
+        const content = await Bun.file(filePath).text();
 
         // Skip binary files
         if (isBinaryFile(content)) continue;
 
-        const lines = content.split('\n');
-        const matchLines = findKeyInContent(content, key);
+        yield { filePath, content };
+      } catch {}
+    }
+  }
+}
 
-        for (const matchLine of matchLines) {
-          if (contexts.length >= MAX_CONTEXTS_PER_KEY) break;
+/**
+ * Find all usages of a translation key in a directory
+ * @param key - Translation key to search for
+ * @param searchDir - Directory to search in
+ * @returns Array of usage contexts (max 10)
+ */
+export async function findKeyUsages(key: string, searchDir: string): Promise<UsageContext[]> {
+  const config = configStore.getState();
+  const contexts: UsageContext[] = [];
 
-          const context = extractContext(lines, matchLine, filePath);
-          contexts.push(context);
-        }
-      } catch {}
+  for await (const { filePath, content } of readCodeFiles(searchDir, config.extensions)) {
+    const lines = content.split('\n');
+    for (const matchLine of findKeyInContent(content, key)) {
+      if (contexts.length >= MAX_CONTEXTS_PER_KEY) break;
+      contexts.push(extractContext(lines, matchLine, filePath));
     }
+    if (contexts.length >= MAX_CONTEXTS_PER_KEY) break;
+  }
+
+  return contexts;
+}
+
+/**
+ * Build usage contexts from source references recorded in translation files
+ * @param references - File/line references (relative to searchDir unless absolute)
+ * @param searchDir - Repository root the references are relative to
+ * @returns Array of usage contexts (max 10); unreadable references are skipped
+ */
+export async function findReferenceContexts(
+  references: TranslationReference[],
+  searchDir: string,
+): Promise<UsageContext[]> {
+  const contexts: UsageContext[] = [];
+
+  for (const reference of references) {
+    if (contexts.length >= MAX_CONTEXTS_PER_KEY) break;
+
+    const filePath = isAbsolute(reference.filePath)
+      ? reference.filePath
+      : join(searchDir, reference.filePath);
+
+    try {
+      const content = await Bun.file(filePath).text();
+      if (isBinaryFile(content)) continue;
+
+      const lines = content.split('\n');
+      if (reference.lineNumber < 1 || reference.lineNumber > lines.length) continue;
+
+      contexts.push(extractContext(lines, reference.lineNumber - 1, filePath));
+    } catch {}
   }
 
   return contexts;
@@ -138,12 +180,14 @@ export async function findKeyUsages(key: string, searchDir: string): Promise<Usa
 
 /**
  * Find context for multiple missing keys
- * @param missingKeys - Array of missing keys with source values
+ * Keys with source references (e.g., from gettext catalogs) use those locations
+ * directly; the code search is only used when no reference resolves.
+ * @param missingKeys - Array of missing keys with source values and optional references
  * @param searchDir - Directory to search in
  * @returns Array with contexts added to each key
  */
 export async function findContextForKeys(
-  missingKeys: Array<{ key: string; sourceValue: string }>,
+  missingKeys: Array<{ key: string; sourceValue: string; references?: TranslationReference[] }>,
   searchDir: string,
 ): Promise<Array<{ key: string; sourceValue: string; contexts: UsageContext[] }>> {
   const analysis = analysisStore.getState();
@@ -157,7 +201,12 @@ export async function findContextForKeys(
     analysis.setProgress(i + 1, missingKeys.length);
     analysis.setTaskProgress('find_code_context', i + 1, missingKeys.length);
 
-    const contexts = await findKeyUsages(item.key, searchDir);
+    let contexts = item.references?.length
+      ? await findReferenceContexts(item.references, searchDir)
+      : [];
+    if (contexts.length === 0) {
+      contexts = await findKeyUsages(item.key, searchDir);
+    }
 
     results.push({
       key: item.key,
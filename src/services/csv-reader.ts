@@ -29,6 +29,11 @@ interface RawCsvRow {
   target_language: string;
   code_context: string;
   translation_context: string;
+  description?: string;
+  plural_category?: string;
+  max_length?: string;
+  message_context?: string;
+  reason?: string;
   translated_value?: string;
 }
 
@@ -75,6 +80,11 @@ export async function parseCsvContent(content: string): Promise<TranslationRow[]
           targetLanguage: row.target_language || '',
           codeContext: row.code_context || '[]',
           translationContext: row.translation_context || '[]',
+          description: row.description || '',
+          pluralCategory: row.plural_category || '',
+          maxLength: row.max_length || '',
+          messageContext: row.message_context || '',
+          reason: row.reason || '',
           translatedValue: row.translated_value || '',
           status: 'pending',
         };
@@ -15,6 +15,11 @@ const CSV_HEADERS = [
   'target_language',
   'code_context',
   'translation_context',
+  'description',
+  'plural_category',
+  'max_length',
+  'message_context',
+  'reason',
 ] as const;
 
 /**
@@ -27,6 +32,11 @@ interface CsvRow {
   target_language: string;
   code_context: string;
   translation_context: string;
+  description: string;
+  plural_category: string;
+  max_length: string;
+  message_context: string;
+  reason: string;
 }
 
 /**
@@ -42,6 +52,11 @@ export function toCsvRow(missing: MissingTranslation): CsvRow {
     target_language: missing.targetLanguage,
     code_context: JSON.stringify(missing.contexts),
     translation_context: JSON.stringify(missing.translationContexts || []),
+    description: missing.metadata?.description ?? '',
+    plural_category: missing.metadata?.pluralCategory ?? '',
+    max_length: missing.metadata?.maxLength?.toString() ?? '',
+    message_context: missing.metadata?.context ?? '',
+    reason: missing.reason ?? 'missing',
   };
 }
 
@@ -0,0 +1,532 @@
+/**
+ * Detection Service
+ *
+ * Scans a repository for known translation layouts and proposes the parser, translations
+ * directory and languages, so commands can run without `-d` and `-p`.
+ *
+ * Recognized layouts:
+ * - Language directories: locales/<lang>/*.json, translations/<lang>/*.js, locale/<lang>/LC_MESSAGES/*.po, ...
+ * - Language files: locales/<lang>.json, config/locales/<lang>.yml (with the language as root key), <lang>.po
+ * - Flutter ARB files: lib/l10n/app_<lang>.arb
+ * - Android resources: res/values/strings.xml, res/values-<qualifier>/strings.xml
+ * - Java resource bundles: src/main/resources/messages.properties, messages_<lang>.properties
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile, readdir } from 'node:fs/promises';
+import { basename, extname, join, relative } from 'node:path';
+import { loadParserConfig } from '../config/parser-config';
+import { qualifierToLanguage } from '../parsers/android';
+import { parseBundleFileName } from '../parsers/properties';
+
+/**
+ * A translation layout found in the repository
+ */
+export interface DetectionCandidate {
+  /** Parser that reads the layout (e.g., "json") */
+  parser: string;
+
+  /** Translations directory relative to the repository ("." for the root) */
+  translationsDir: string;
+
+  /** Layout template for one file per language (e.g., "{lang}.json"), empty for the default */
+  layout: string;
+
+  /** Languages found, sorted */
+  languages: string[];
+
+  /** How likely this is the project's translations, from 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * Options a command needs to read translations; empty strings are unknown
+ */
+export interface DetectionTarget {
+  translationsDir: string;
+  parser: string;
+  layout: string;
+}
+
+/** Directories never scanned */
+const IGNORED_DIRS = new Set([
+  'node_modules',
+  'vendor',
+  'dist',
+  'build',
+  'coverage',
+  'out',
+  'target',
+  'tmp',
+  'Pods',
+]);
+
+/** Maximum directory depth below the repository root */
+const MAX_DEPTH = 6;
+
+/** Maximum number of directories scanned */
+const MAX_DIRECTORIES = 5000;
+
+/** Directory names that usually hold translations */
+const TRANSLATION_DIR_NAMES = new Set([
+  'locale',
+  'locales',
+  'translations',
+  'i18n',
+  'l10n',
+  'lang',
+  'langs',
+  'languages',
+  'messages',
+]);
+
+/** Minimum confidence of a candidate commands pick without asking */
+const MIN_CONFIDENCE = 0.5;
+
+/** Confidence lead the best candidate needs over the next one */
+const MIN_LEAD = 0.2;
+
+/** ISO 639-1 language codes, plus common three-letter codes */
+const LANGUAGE_CODES = new Set(
+  (
+    'aa ab af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy ' +
+    'da de dv dz ee el en eo es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht ' +
+    'hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ky ' +
+    'la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny ' +
+    'oc oj om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss ' +
+    'st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo ' +
+    'za zh zu ast ckb fil haw yue'
+  ).split(' '),
+);
+
+/**
+ * Whether a name is a language code (e.g., "de", "pt-BR", "zh_Hans", "es-419")
+ */
+export function isLanguageCode(name: string): boolean {
+  const match = name.match(/^([a-z]{2,3})(?:[-_][A-Z][a-z]{3})?(?:[-_](?:[A-Za-z]{2}|\d{3}))?$/);
+  return match ? LANGUAGE_CODES.has(match[1]!) : false;
+}
+
+interface DirectoryListing {
+  dirs: string[];
+  files: string[];
+}
+
+async function listDirectory(dir: string): Promise<DirectoryListing> {
+  const listing: DirectoryListing = { dirs: [], files: [] };
+  try {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        listing.dirs.push(entry.name);
+      } else if (entry.isFile()) {
+        listing.files.push(entry.name);
+      }
+    }
+  } catch {
+    // Unreadable directories are skipped
+  }
+  listing.dirs.sort();
+  listing.files.sort();
+  return listing;
+}
+
+/**
+ * List the files of a language directory, relative to it
+ */
+async function listFilesDeep(dir: string, depth = 2): Promise<string[]> {
+  const { dirs, files } = await listDirectory(dir);
+  const result = [...files];
+  if (depth > 0) {
+    for (const child of dirs) {
+      for (const file of await listFilesDeep(join(dir, child), depth - 1)) {
+        result.push(join(child, file));
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Pick the parser for JavaScript modules by their export syntax
+ */
+async function moduleParser(filePath: string): Promise<string> {
+  const content = await readFile(filePath, 'utf-8').catch(() => '');
+  return /\bmodule\.exports\b|\bexports\.\w+\s*=/.test(content) ? 'node-module' : 'es-module';
+}
+
+/**
+ * Find the parser for a set of files of one language
+ */
+async function parserForFiles(dir: string, files: string[]): Promise<string | undefined> {
+  const extensions = files.map((file) => extname(file));
+  if (extensions.some((ext) => ext === '.po' || ext === '.pot')) {
+    return 'gettext';
+  }
+  if (extensions.includes('.php')) {
+    return 'laravel';
+  }
+  if (extensions.includes('.json')) {
+    return 'json';
+  }
+  if (extensions.some((ext) => ext === '.yml' || ext === '.yaml')) {
+    return 'yaml';
+  }
+  const module = files.find((file) => ['.js', '.cjs'].includes(extname(file)));
+  if (module) {
+    return moduleParser(join(dir, module));
+  }
+  if (
+    files.some((file) => ['.ts', '.mts', '.mjs'].includes(extname(file)) && !file.endsWith('.d.ts'))
+  ) {
+    return 'es-module';
+  }
+  return undefined;
+}
+
+/**
+ * Base confidence of each parser's layout; formats with distinctive files score higher
+ */
+const BASE_CONFIDENCE: Record<string, number> = {
+  android: 0.85,
+  arb: 0.85,
+  gettext: 0.8,
+  laravel: 0.8,
+  properties: 0.8,
+  yaml: 0.6,
+  json: 0.6,
+  'node-module': 0.6,
+  'es-module': 0.5,
+};
+
+function score(parser: string, dir: string, languages: string[], bonus = 0): number {
+  let confidence = (BASE_CONFIDENCE[parser] ?? 0.5) + bonus;
+  confidence += languages.length > 1 ? Math.min(0.1, (languages.length - 1) * 0.05) : -0.2;
+  if (TRANSLATION_DIR_NAMES.has(basename(dir))) {
+    confidence += 0.1;
+  }
+  return Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100;
+}
+
+/**
+ * Detect language directories: <dir>/<lang>/...
+ */
+async function detectLanguageDirs(
+  dir: string,
+  listing: DirectoryListing,
+): Promise<Omit<DetectionCandidate, 'translationsDir'> | undefined> {
+  const byParser = new Map<string, string[]>();
+  for (const child of listing.dirs.filter(isLanguageCode)) {
+    const files = await listFilesDeep(join(dir, child));
+    const parser = await parserForFiles(join(dir, child), files);
+    if (parser) {
+      byParser.set(parser, [...(byParser.get(parser) ?? []), child]);
+    }
+  }
+
+  const [parser, languages] = [...byParser].sort((a, b) => b[1].length - a[1].length)[0] ?? [];
+  if (!parser || !languages) {
+    return undefined;
+  }
+  return { parser, layout: '', languages, confidence: score(parser, dir, languages) };
+}
+
+/**
+ * Detect one file per language: <dir>/<lang>.<ext>
+ */
+async function detectLanguageFiles(
+  dir: string,
+  listing: DirectoryListing,
+): Promise<Omit<DetectionCandidate, 'translationsDir'> | undefined> {
+  const byExtension = new Map<string, string[]>();
+  for (const file of listing.files) {
+    const extension = extname(file);
+    const name = basename(file, extension);
+    if (isLanguageCode(name)) {
+      byExtension.set(extension, [...(byExtension.get(extension) ?? []), name]);
+    }
+  }
+
+  const candidates: Omit<DetectionCandidate, 'translationsDir'>[] = [];
+  for (const [extension, languages] of byExtension) {
+    if (extension === '.po') {
+      candidates.push({
+        parser: 'gettext',
+        layout: '',
+        languages,
+        confidence: score('gettext', dir, languages),
+      });
+    } else if (extension === '.yml' || extension === '.yaml') {
+      // Rails style files start with the language as root key
+      const content = await readFile(join(dir, `${languages[0]}${extension}`), 'utf-8').catch(
+        () => '',
+      );
+      const rooted = new RegExp(`^['"]?${languages[0]}['"]?:\\s*$`, 'm').test(content);
+      candidates.push({
+        parser: 'yaml',
+        layout: '',
+        languages,
+        confidence: score('yaml', dir, languages, rooted ? 0.2 : -0.2),
+      });
+    } else if (extension === '.json') {
+      candidates.push({
+        parser: 'json',
+        layout: '{lang}.json',
+        languages,
+        confidence: score('json', dir, languages),
+      });
+    } else if (extension === '.js' || extension === '.cjs') {
+      const parser = await moduleParser(join(dir, `${languages[0]}${extension}`));
+      candidates.push({
+        parser,
+        layout: `{lang}${extension}`,
+        languages,
+        confidence: score(parser, dir, languages),
+      });
+    } else if (extension === '.ts') {
+      candidates.push({
+        parser: 'es-module',
+        layout: '',
+        languages,
+        confidence: score('es-module', dir, languages),
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence)[0];
+}
+
+/**
+ * Detect Flutter ARB files: <dir>/<prefix>_<lang>.arb
+ */
+function detectArb(
+  dir: string,
+  listing: DirectoryListing,
+): Omit<DetectionCandidate, 'translationsDir'> | undefined {
+  const languages = listing.files
+    .filter((file) => file.endsWith('.arb'))
+    .map((file) => basename(file, '.arb').match(/_([a-z]{2,3}(?:_[A-Za-z0-9]+)*)$/)?.[1])
+    .filter((locale): locale is string => !!locale && isLanguageCode(locale))
+    .map((locale) => locale.replace(/_/g, '-'));
+  if (languages.length === 0) {
+    return undefined;
+  }
+  return { parser: 'arb', layout: '', languages, confidence: score('arb', dir, languages) };
+}
+
+/**
+ * Detect Java resource bundles: <dir>/<basename>_<lang>.properties, plus <basename>.properties
+ * holding the default language
+ */
+function detectProperties(
+  dir: string,
+  listing: DirectoryListing,
+): Omit<DetectionCandidate, 'translationsDir'> | undefined {
+  const files = listing.files.filter((file) => file.endsWith('.properties'));
+  const languages: string[] = [];
+  const bundles = new Set<string>();
+  for (const file of files) {
+    const { basename: bundle, locale } = parseBundleFileName(file);
+    if (locale && isLanguageCode(locale)) {
+      languages.push(locale.replace(/_/g, '-'));
+      bundles.add(bundle);
+    }
+  }
+  if (languages.length === 0) {
+    return undefined;
+  }
+
+  // The default file (e.g., messages.properties) is English unless told otherwise
+  if (
+    files.some((file) => bundles.has(basename(file, '.properties'))) &&
+    !languages.includes('en')
+  ) {
+    languages.push('en');
+  }
+  return {
+    parser: 'properties',
+    layout: '',
+    languages,
+    confidence: score('properties', dir, languages),
+  };
+}
+
+/**
+ * Detect Android resources: <dir>/values/*.xml and <dir>/values-<qualifier>/*.xml
+ */
+async function detectAndroid(
+  dir: string,
+  listing: DirectoryListing,
+): Promise<Omit<DetectionCandidate, 'translationsDir'> | undefined> {
+  if (!listing.dirs.includes('values') || !existsSync(join(dir, 'values', 'strings.xml'))) {
+    return undefined;
+  }
+
+  const strings = await readFile(join(dir, 'values', 'strings.xml'), 'utf-8').catch(() => '');
+  const languages = [strings.match(/tools:locale="([^"]+)"/)?.[1] ?? 'en'];
+  for (const child of listing.dirs) {
+    const language = child.startsWith('values-') ? qualifierToLanguage(child) : null;
+    if (language && isLanguageCode(language) && existsSync(join(dir, child, 'strings.xml'))) {
+      languages.push(language);
+    }
+  }
+  return {
+    parser: 'android',
+    layout: '',
+    languages,
+    confidence: score('android', dir, languages, 0.1),
+  };
+}
+
+/**
+ * Scan a repository for translation layouts
+ * @param repoPath - Absolute path to the repository root
+ * @returns Candidates, most likely first
+ */
+export async function detectTranslations(repoPath: string): Promise<DetectionCandidate[]> {
+  const candidates: DetectionCandidate[] = [];
+  const queue: { dir: string; depth: number }[] = [{ dir: repoPath, depth: 0 }];
+  let scanned = 0;
+
+  while (queue.length > 0 && scanned < MAX_DIRECTORIES) {
+    const { dir, depth } = queue.shift()!;
+    scanned++;
+    const listing = await listDirectory(dir);
+    const translationsDir = relative(repoPath, dir) || '.';
+
+    const languageDirs = await detectLanguageDirs(dir, listing);
+    const found = [
+      await detectAndroid(dir, listing),
+      detectArb(dir, listing),
+      detectProperties(dir, listing),
+      languageDirs,
+      // Laravel reads lang/<lang>.json next to its PHP directories
+      languageDirs?.parser === 'laravel' ? undefined : await detectLanguageFiles(dir, listing),
+    ];
+    for (const candidate of found) {
+      if (candidate) {
+        candidates.push({
+          ...candidate,
+          translationsDir,
+          languages: [...new Set(candidate.languages)].sort(),
+        });
+      }
+    }
+
+    if (depth < MAX_DEPTH) {
+      for (const child of listing.dirs) {
+        if (!child.startsWith('.') && !IGNORED_DIRS.has(child)) {
+          queue.push({ dir: join(dir, child), depth: depth + 1 });
+        }
+      }
+    }
+  }
+
+  return candidates.sort(
+    (a, b) =>
+      b.confidence - a.confidence ||
+      a.translationsDir.split('/').length - b.translationsDir.split('/').length ||
+      a.translationsDir.localeCompare(b.translationsDir),
+  );
+}
+
+/**
+ * Pick the candidate commands can use without asking
+ * @returns The candidate, or undefined when none or several are likely
+ */
+export function pickCandidate(candidates: DetectionCandidate[]): DetectionCandidate | undefined {
+  const [best, next] = candidates;
+  if (!best || best.confidence < MIN_CONFIDENCE) {
+    return undefined;
+  }
+  if (next && best.confidence - next.confidence < MIN_LEAD) {
+    return undefined;
+  }
+  return best;
+}
+
+/**
+ * Format candidates for the terminal, one per line
+ */
+export function formatCandidates(candidates: DetectionCandidate[]): string {
+  return candidates
+    .map((candidate) => {
+      const layout = candidate.layout ? ` --layout "${candidate.layout}"` : '';
+      return `  -d ${candidate.translationsDir} -p ${candidate.parser}${layout}  (${candidate.languages.join(', ')}; confidence ${candidate.confidence.toFixed(2)})`;
+    })
+    .join('\n');
+}
+
+/**
+ * Fill in the translations directory and parser the command line left out
+ *
+ * A parser from the project config counts as given. Candidates are narrowed to the
+ * given directory or parser first; a missing parser stays empty when nothing matches,
+ * so the default parser applies.
+ *
+ * @param repoPath - Absolute path to the repository root
+ * @param target - Options from the command line
+ * @returns Completed options, with the candidate they were taken from
+ * @throws When the translations directory is missing and detection is not unambiguous
+ */
+export async function applyDetection(
+  repoPath: string,
+  target: DetectionTarget,
+): Promise<DetectionTarget & { candidate?: DetectionCandidate }> {
+  const parser = target.parser || loadParserConfig(repoPath).parser || '';
+  if (target.translationsDir && parser) {
+    return target;
+  }
+
+  const candidates = (await detectTranslations(repoPath)).filter(
+    (candidate) =>
+      (!parser || candidate.parser === parser) &&
+      (!target.translationsDir ||
+        candidate.translationsDir === normalizeDir(target.translationsDir)),
+  );
+  const picked = pickCandidate(candidates);
+
+  if (!picked) {
+    if (target.translationsDir) {
+      return target;
+    }
+    if (candidates.length === 0) {
+      throw new Error('No translation files detected; pass the translations directory with -d');
+    }
+    throw new Error(
+      `Several translation layouts detected; pass -d and -p to pick one:\n${formatCandidates(candidates.slice(0, 5))}`,
+    );
+  }
+
+  return {
+    translationsDir: target.translationsDir || picked.translationsDir,
+    parser: parser || picked.parser,
+    layout: target.layout || picked.layout,
+    candidate: picked,
+  };
+}
+
+/**
+ * Find the languages of a translations directory the command line named
+ *
+ * @param repoPath - Absolute path to the repository root
+ * @param target - Translations directory and, if known, parser
+ * @returns Languages of the detected layout, sorted
+ * @throws When detection does not recognize the directory
+ */
+export async function detectLanguages(
+  repoPath: string,
+  target: DetectionTarget,
+): Promise<string[]> {
+  const translationsDir = normalizeDir(target.translationsDir);
+  const candidate = (await detectTranslations(repoPath)).find(
+    (c) => c.translationsDir === translationsDir && (!target.parser || c.parser === target.parser),
+  );
+  if (!candidate) {
+    throw new Error(`No languages detected in ${translationsDir}; pass them with --target`);
+  }
+  return candidate.languages;
+}
+
+function normalizeDir(dir: string): string {
+  return dir.replace(/^\.\//, '').replace(/\/+$/, '') || '.';
+}
@@ -2,12 +2,15 @@
  * Import Service
  *
  * Orchestrates importing translated CSV data back to translation files.
- * Handles CSV parsing, filtering, and delegating file writing to parsers.
+ * Handles CSV parsing, filtering, and delegating file writing to parsers; a CSV may hold
+ * several target languages (multi-target extract). The source value
+ * of each imported key is recorded in the lockfile, so later extracts find stale translations.
  */
 
-import { join } from 'node:path';
+import { resolveLanguageLocation } from '../parsers/language-path';
 import type { ImportError, ImportResult, Parser, TranslationRow } from '../types';
 import { readCsv } from './csv-reader';
+import { readSourceLock, recordSourceHashes, writeSourceLock } from './source-lock';
 
 /**
  * Run import operation: read CSV and write translations to files
@@ -15,12 +18,14 @@ import { readCsv } from './csv-reader';
  * @param csvPath - Path to translated CSV file
  * @param translationsDir - Base translations directory
  * @param parser - Parser to use for writing files
+ * @param layout - Optional language path template (e.g., "{lang}.json")
  * @returns Import result summary
  */
 export async function runImport(
   csvPath: string,
   translationsDir: string,
   parser: Parser,
+  layout?: string,
 ): Promise<ImportResult> {
   // Read and parse CSV
   const rows = await readCsv(csvPath);
@@ -45,57 +50,110 @@ export async function runImport(
     throw new Error('No valid translations found in CSV (all rows have empty translated_value)');
   }
 
-  // Extract target language from first valid row (all rows have same target)
-  const firstRow = validRows[0]!;
-  const targetLanguage = firstRow.targetLanguage;
-
-  if (!targetLanguage) {
-    throw new Error('No target language found in CSV');
+  // Group rows by target language (multi-target extracts write several into one CSV)
+  const rowsByLanguage = new Map<string, TranslationRow[]>();
+  for (const row of validRows) {
+    if (!row.targetLanguage) {
+      throw new Error('No target language found in CSV');
+    }
+    rowsByLanguage.set(row.targetLanguage, [
+      ...(rowsByLanguage.get(row.targetLanguage) ?? []),
+      row,
+    ]);
   }
 
-  // Build translation map (key -> value)
-  const translations = new Map<string, string>();
+  // Build translation maps (key -> value) per target language
+  const imports: Array<{
+    targetLanguage: string;
+    sourceLanguage: string;
+    location: ReturnType<typeof resolveLanguageLocation>;
+    translations: Map<string, string>;
+    sourceValues: Map<string, string>;
+  }> = [];
   const errors: ImportError[] = [];
 
-  for (const row of validRows) {
-    const key = row.translationKey;
-    const value = row.translatedValue;
-
-    if (!key || key.trim() === '') {
-      errors.push({
-        translationKey: key || '(empty)',
-        reason: 'Empty translation key',
-      });
-      continue;
+  for (const [targetLanguage, languageRows] of rowsByLanguage) {
+    // Resolve where the target language lives (directory or single file)
+    const location = resolveLanguageLocation(parser, translationsDir, targetLanguage, layout);
+    const translations = new Map<string, string>();
+    const sourceValues = new Map<string, string>();
+
+    for (const row of languageRows) {
+      const key = row.translationKey;
+      const value = row.translatedValue;
+
+      if (!key || key.trim() === '') {
+        errors.push({
+          translationKey: key || '(empty)',
+          reason: 'Empty translation key',
+        });
+        continue;
+      }
+
+      // Directory layouts use the first key segment as the file name
+      if (location.kind === 'directory' && parser.fileKeyPrefix !== false && !key.includes('.')) {
+        errors.push({
+          translationKey: key,
+          reason: 'Key must contain file prefix (e.g., "generic.welcome")',
+        });
+        continue;
+      }
+
+      translations.set(key, value);
+      sourceValues.set(key, row.sourceValue);
     }
 
-    if (!key.includes('.')) {
-      errors.push({
-        translationKey: key,
-        reason: 'Key must contain file prefix (e.g., "generic.welcome")',
+    if (translations.size > 0) {
+      imports.push({
+        targetLanguage,
+        sourceLanguage: languageRows[0]?.sourceLanguage ?? '',
+        location,
+        translations,
+        sourceValues,
       });
-      continue;
     }
-
-    translations.set(key, value);
   }
 
-  if (translations.size === 0) {
+  if (imports.length === 0) {
     throw new Error('No valid translation keys found in CSV');
   }
 
-  // Build target language directory path
-  const langDir = join(translationsDir, targetLanguage);
-
   // Import translations using parser
-  const parserResult = await parser.import(langDir, translations);
-
-  return {
-    targetLanguage,
-    filesCreated: parserResult.filesCreated,
-    filesModified: parserResult.filesModified,
-    keysImported: parserResult.keysWritten,
+  const result: ImportResult = {
+    targetLanguage: imports.map((entry) => entry.targetLanguage).join(', '),
+    filesCreated: 0,
+    filesModified: 0,
+    keysImported: 0,
     rowsSkipped,
     errors,
   };
+  for (const entry of imports) {
+    const parserResult = await parser.import(
+      entry.location.path,
+      entry.translations,
+      entry.targetLanguage,
+      entry.sourceValues,
+    );
+    result.filesCreated += parserResult.filesCreated;
+    result.filesModified += parserResult.filesModified;
+    result.keysImported += parserResult.keysWritten;
+
+    // Keys the parser could not write were not translated from their source value
+    for (const error of parserResult.errors ?? []) {
+      errors.push(error);
+      entry.sourceValues.delete(error.translationKey);
+    }
+  }
+
+  // Remember what the translations were made from
+  const tracked = imports.filter((entry) => entry.sourceLanguage);
+  if (tracked.length > 0) {
+    const lock = await readSourceLock(translationsDir);
+    for (const entry of tracked) {
+      recordSourceHashes(lock, entry.sourceLanguage, entry.targetLanguage, entry.sourceValues);
+    }
+    await writeSourceLock(translationsDir, lock);
+  }
+
+  return result;
 }
@@ -0,0 +1,469 @@
+/**
+ * Lint Service
+ *
+ * Checks that a translation keeps what the code relies on from its source text:
+ * placeholders, HTML/XML tags, ICU MessageFormat syntax, surrounding whitespace and
+ * line breaks. Used by the `lint` command and after each translation in `translate`.
+ */
+
+import { exportEntries } from '../parsers/capabilities';
+import { resolveLanguageLocation } from '../parsers/language-path';
+import type { LintIssue, LintResult, Parser, TranslationLintIssue } from '../types';
+
+/**
+ * Placeholders: Rails "%{name}", Ruby "%<name>s", i18next/Angular "{{name}}",
+ * ICU/vue-i18n "{name}" and printf "%s", "%1$s", "%.2f", "%@"; "%%" is an escaped percent sign
+ */
+const PLACEHOLDER_PATTERN =
+  /%%|%\{[\w.-]+\}|%<[\w.-]+>[a-zA-Z]?|\{\{\s*[\w.-]+(?:\s*,[^{}]*)?\s*\}\}|\{\s*[\w.-]+\s*\}|%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?(?:hh|h|ll|l|L|q|z|j|t)?[sdiufFeEgGxXc@]/g;
+
+/** HTML/XML tags, e.g. "<b>", "</b>", "<br/>", '<a href="...">', "<xliff:g id="1">" */
+const TAG_PATTERN = /<(\/?)([A-Za-z][\w.:-]*)(?:\s[^<>]*?)?(\/?)>/g;
+
+/** HTML elements without a closing tag */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/** An ICU argument with a type, e.g. "{count, plural, ...}" or "{total, number}" */
+const ICU_ARGUMENT_PATTERN =
+  /\{\s*[\w-]+\s*,\s*(?:plural|select|selectordinal|number|date|time)\s*[,}]/;
+
+/** ICU argument names and plural/select selectors */
+const ICU_IDENTIFIER = /[\p{L}\p{N}_-]+/uy;
+
+/**
+ * Options for linting a single translation
+ */
+export interface LintOptions {
+  /**
+   * Plural category of the form, if any; forms other than "other" may leave out
+   * placeholders ("One file" for "{{count}} files")
+   */
+  pluralCategory?: string;
+}
+
+/**
+ * Normalize a placeholder for comparison ("{{ count, number }}" => "{{count}}")
+ */
+function normalizePlaceholder(token: string): string {
+  if (token.startsWith('{{')) {
+    return `{{${token.slice(2, -2).split(',')[0]?.trim()}}}`;
+  }
+  if (token.startsWith('{')) {
+    return `{${token.slice(1, -1).trim()}}`;
+  }
+  return token;
+}
+
+/**
+ * Find the placeholders of a text, in order of appearance
+ * @example extractPlaceholders('Hello {name}, you have %d messages') => ['{name}', '%d']
+ */
+export function extractPlaceholders(text: string): string[] {
+  const placeholders: string[] = [];
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (match[0] !== '%%') {
+      placeholders.push(normalizePlaceholder(match[0]));
+    }
+  }
+  return placeholders;
+}
+
+/**
+ * Whether a placeholder is filled by position, so the number of occurrences matters
+ */
+function isPositional(placeholder: string): boolean {
+  return placeholder.startsWith('%') && !/^%(?:\{|<|\d+\$)/.test(placeholder);
+}
+
+function countOccurrences(items: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Compare placeholders; named ones must be present, positional ones as often as in the source
+ */
+function comparePlaceholders(
+  source: string[],
+  target: string[],
+  allowMissing: boolean,
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const sourceCounts = countOccurrences(source);
+  const targetCounts = countOccurrences(target);
+
+  for (const [placeholder, count] of sourceCounts) {
+    const targetCount = targetCounts.get(placeholder) ?? 0;
+    if (targetCount === 0) {
+      if (!allowMissing) {
+        issues.push({ rule: 'placeholders', message: `Missing placeholder ${placeholder}` });
+      }
+    } else if (isPositional(placeholder) && targetCount !== count) {
+      issues.push({
+        rule: 'placeholders',
+        message: `Placeholder ${placeholder} appears ${targetCount} times, expected ${count}`,
+      });
+    }
+  }
+
+  for (const placeholder of targetCounts.keys()) {
+    if (!sourceCounts.has(placeholder)) {
+      issues.push({ rule: 'placeholders', message: `Unexpected placeholder ${placeholder}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Find the tags of a text ("<a href='x'>" => "<a>", "<br>" => "<br/>")
+ */
+function extractTags(text: string): Array<{ name: string; kind: 'open' | 'close' | 'empty' }> {
+  return [...text.matchAll(TAG_PATTERN)].map((match) => {
+    const name = match[2] ?? '';
+    const kind =
+      match[1] === '/'
+        ? 'close'
+        : match[3] === '/' || VOID_ELEMENTS.has(name.toLowerCase())
+          ? 'empty'
+          : 'open';
+    return { name, kind };
+  });
+}
+
+function formatTag(tag: { name: string; kind: 'open' | 'close' | 'empty' }): string {
+  return tag.kind === 'close'
+    ? `</${tag.name}>`
+    : tag.kind === 'empty'
+      ? `<${tag.name}/>`
+      : `<${tag.name}>`;
+}
+
+/**
+ * Check that every tag is closed in order
+ * @returns Description of the first problem, or null when the tags are balanced
+ */
+function findUnbalancedTag(tags: ReturnType<typeof extractTags>): string | null {
+  const open: string[] = [];
+  for (const tag of tags) {
+    if (tag.kind === 'open') {
+      open.push(tag.name);
+    } else if (tag.kind === 'close') {
+      if (open.pop() !== tag.name) {
+        return `Closing tag </${tag.name}> does not match the open tags`;
+      }
+    }
+  }
+  const unclosed = open.pop();
+  return unclosed ? `Tag <${unclosed}> is not closed` : null;
+}
+
+/**
+ * Compare tags; a target with the same tags must still nest them correctly when the source does
+ */
+function compareTags(sourceText: string, targetText: string): LintIssue[] {
+  const source = extractTags(sourceText);
+  const target = extractTags(targetText);
+  const sourceCounts = countOccurrences(source.map(formatTag));
+  const targetCounts = countOccurrences(target.map(formatTag));
+
+  const issues: LintIssue[] = [];
+  for (const [tag, count] of sourceCounts) {
+    const targetCount = targetCounts.get(tag) ?? 0;
+    if (targetCount < count) {
+      issues.push({ rule: 'markup', message: `Missing tag ${tag}` });
+    }
+  }
+  for (const [tag, count] of targetCounts) {
+    if (count > (sourceCounts.get(tag) ?? 0)) {
+      issues.push({ rule: 'markup', message: `Unexpected tag ${tag}` });
+    }
+  }
+
+  if (issues.length === 0 && findUnbalancedTag(source) === null) {
+    const unbalanced = findUnbalancedTag(target);
+    if (unbalanced) {
+      issues.push({ rule: 'markup', message: unbalanced });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check whether a text uses ICU MessageFormat arguments with a type (plural, select, ...)
+ */
+export function isIcuMessage(text: string): boolean {
+  return ICU_ARGUMENT_PATTERN.test(text);
+}
+
+/**
+ * Parse an ICU MessageFormat message
+ *
+ * Checks brace balance, argument syntax and that plural and select arguments have an
+ * "other" case. Apostrophes quote literal braces as in ICU ("'{'", "''").
+ *
+ * @returns Names of the arguments used in the message
+ * @throws Error describing the first syntax error
+ */
+export function parseIcuArguments(message: string): Set<string> {
+  const names = new Set<string>();
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < message.length && /\s/.test(message[pos] ?? '')) pos++;
+  };
+
+  const readIdentifier = (): string => {
+    ICU_IDENTIFIER.lastIndex = pos;
+    const match = ICU_IDENTIFIER.exec(message);
+    if (!match) return '';
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const expect = (char: string, context: string) => {
+    if (message[pos] !== char) {
+      throw new Error(`Expected "${char}" ${context}`);
+    }
+    pos++;
+  };
+
+  const parseCases = (type: string, inPlural: boolean) => {
+    expect(',', `after ${type}`);
+    skipSpace();
+    if (type !== 'select' && message.startsWith('offset:', pos)) {
+      pos += 'offset:'.length;
+      skipSpace();
+      if (!readIdentifier()) throw new Error('Expected a number after offset:');
+    }
+
+    const selectors = new Set<string>();
+    skipSpace();
+    while (pos < message.length && message[pos] !== '}') {
+      const exact = message[pos] === '=';
+      if (exact) pos++;
+      const selector = readIdentifier();
+      if (!selector) throw new Error(`Expected a ${type} case`);
+      skipSpace();
+      expect('{', `after ${type} case ${exact ? '=' : ''}${selector}`);
+      parseMessage(1, inPlural);
+      expect('}', `to close ${type} case ${exact ? '=' : ''}${selector}`);
+      selectors.add(exact ? `=${selector}` : selector);
+      skipSpace();
+    }
+
+    if (!selectors.has('other')) {
+      throw new Error(`Missing "other" case in ${type}`);
+    }
+  };
+
+  const parseArgument = (inPlural: boolean) => {
+    skipSpace();
+    const name = readIdentifier();
+    if (!name) throw new Error('Expected an argument name after "{"');
+    names.add(name);
+    skipSpace();
+
+    if (message[pos] === ',') {
+      pos++;
+      skipSpace();
+      const type = readIdentifier();
+      if (!type) throw new Error(`Expected an argument type after "${name},"`);
+      skipSpace();
+
+      if (type === 'plural' || type === 'selectordinal') {
+        parseCases(type, true);
+      } else if (type === 'select') {
+        parseCases(type, inPlural);
+      } else if (message[pos] === ',') {
+        // Style or skeleton, e.g. "{price, number, ::currency/EUR}"
+        const end = message.indexOf('}', pos);
+        if (end === -1) throw new Error(`Missing "}" after argument ${name}`);
+        pos = end;
+      }
+    }
+
+    expect('}', `to close argument ${name}`);
+  };
+
+  const parseMessage = (depth: number, inPlural: boolean) => {
+    while (pos < message.length) {
+      const char = message[pos];
+      if (char === "'") {
+        const next = message[pos + 1];
+        if (next === "'") {
+          pos += 2;
+        } else if (next === '{' || next === '}' || (next === '#' && inPlural)) {
+          const end = message.indexOf("'", pos + 1);
+          pos = end === -1 ? message.length : end + 1;
+        } else {
+          pos++;
+        }
+      } else if (char === '{') {
+        pos++;
+        parseArgument(inPlural);
+      } else if (char === '}') {
+        if (depth === 0) throw new Error('Unexpected "}"');
+        return;
+      } else {
+        pos++;
+      }
+    }
+    if (depth > 0) throw new Error('Missing "}"');
+  };
+
+  parseMessage(0, false);
+  return names;
+}
+
+/**
+ * Compare leading and trailing whitespace and the line breaks in between
+ */
+function compareWhitespace(source: string, target: string): LintIssue[] {
+  if (source.trim() === '' || target.trim() === '') {
+    return [];
+  }
+
+  const issues: LintIssue[] = [];
+  const leading = (text: string) => text.match(/^\s*/)?.[0] ?? '';
+  const trailing = (text: string) => text.match(/\s*$/)?.[0] ?? '';
+
+  if (leading(source) !== leading(target)) {
+    issues.push({
+      rule: 'whitespace',
+      message: `Leading whitespace ${JSON.stringify(leading(target))}, expected ${JSON.stringify(leading(source))}`,
+    });
+  }
+  if (trailing(source) !== trailing(target)) {
+    issues.push({
+      rule: 'whitespace',
+      message: `Trailing whitespace ${JSON.stringify(trailing(target))}, expected ${JSON.stringify(trailing(source))}`,
+    });
+  }
+
+  const lineBreaks = (text: string) => text.trim().split('\n').length - 1;
+  if (lineBreaks(source) !== lineBreaks(target)) {
+    issues.push({
+      rule: 'newlines',
+      message: `${lineBreaks(target)} line breaks, expected ${lineBreaks(source)}`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Check a translation against its source text
+ *
+ * @param source - Source language text
+ * @param target - Translated text (empty translations are not checked)
+ * @param options - Plural category of the form, if any
+ * @returns Issues found, empty when the translation is consistent with the source
+ */
+export function lintTranslation(
+  source: string,
+  target: string,
+  options: LintOptions = {},
+): LintIssue[] {
+  if (target === '') {
+    return [];
+  }
+
+  const allowMissing = !!options.pluralCategory && options.pluralCategory !== 'other';
+  const issues: LintIssue[] = [];
+
+  let sourceIcu: Set<string> | null = null;
+  if (isIcuMessage(source)) {
+    try {
+      sourceIcu = parseIcuArguments(source);
+    } catch {
+      // A broken source is not the translation's fault; compare plain placeholders instead
+    }
+  }
+
+  if (sourceIcu) {
+    try {
+      const targetIcu = parseIcuArguments(target);
+      issues.push(
+        ...comparePlaceholders(
+          [...sourceIcu].map((name) => `{${name}}`),
+          [...targetIcu].map((name) => `{${name}}`),
+          allowMissing,
+        ),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      issues.push({ rule: 'icu', message: `Invalid ICU message: ${message}` });
+    }
+  } else {
+    issues.push(
+      ...comparePlaceholders(
+        extractPlaceholders(source),
+        extractPlaceholders(target),
+        allowMissing,
+      ),
+    );
+  }
+
+  issues.push(...compareTags(source, target), ...compareWhitespace(source, target));
+  return issues;
+}
+
+/**
+ * Lint the translations of target languages against the source language
+ *
+ * @param translationsDir - Base translations directory
+ * @param sourceLanguage - Language the translations were made from (e.g., "en")
+ * @param targetLanguages - Languages to check
+ * @param parser - Parser to use for reading translations
+ * @param options.layout - Optional language path template (e.g., "{lang}.json")
+ * @returns Issues by language and key
+ */
+export async function runLint(
+  translationsDir: string,
+  sourceLanguage: string,
+  targetLanguages: string[],
+  parser: Parser,
+  options: { layout?: string } = {},
+): Promise<LintResult> {
+  const source = resolveLanguageLocation(parser, translationsDir, sourceLanguage, options.layout);
+  const sourceEntries = await exportEntries(parser, source.path, sourceLanguage);
+
+  const issues: TranslationLintIssue[] = [];
+  let keysChecked = 0;
+
+  for (const targetLanguage of targetLanguages) {
+    const target = resolveLanguageLocation(parser, translationsDir, targetLanguage, options.layout);
+    const targetKeys = await parser.export(target.path, targetLanguage);
+
+    for (const [key, value] of [...targetKeys].sort(([a], [b]) => a.localeCompare(b))) {
+      const sourceEntry = sourceEntries.get(key);
+      if (!sourceEntry || value === '') continue;
+
+      keysChecked++;
+      for (const issue of lintTranslation(sourceEntry.value, value, {
+        pluralCategory: sourceEntry.pluralCategory,
+      })) {
+        issues.push({ language: targetLanguage, key, ...issue });
+      }
+    }
+  }
+
+  return { sourceLanguage, targetLanguages, keysChecked, issues };
+}
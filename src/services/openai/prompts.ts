@@ -56,6 +56,45 @@ function buildTranslationContext(request: TranslationRequest): string {
     .join('\n');
 }
 
+/**
+ * Build translator notes XML section (empty when the key has no notes)
+ */
+function buildTranslatorNotes(request: TranslationRequest): string {
+  if (!request.description) {
+    return '';
+  }
+
+  return `
+  <translator_notes>${escapeXml(request.description)}</translator_notes>
+  `;
+}
+
+/**
+ * Build message details XML section (plural form, length limit, message context)
+ * Empty when the translation file stores none of them.
+ */
+function buildMessageDetails(request: TranslationRequest): string {
+  const details: string[] = [];
+  if (request.messageContext) {
+    details.push(`    <message_context>${escapeXml(request.messageContext)}</message_context>`);
+  }
+  if (request.pluralCategory) {
+    details.push(`    <plural_category>${escapeXml(request.pluralCategory)}</plural_category>`);
+  }
+  if (request.maxLength) {
+    details.push(`    <max_length>${request.maxLength}</max_length>`);
+  }
+  if (details.length === 0) {
+    return '';
+  }
+
+  return `
+  <message_details>
+${details.join('\n')}
+  </message_details>
+  `;
+}
+
 /**
  * Build complete XML translation prompt
  * @param request - Translation request with all context
@@ -64,6 +103,8 @@ function buildTranslationContext(request: TranslationRequest): string {
 export function buildTranslationPrompt(request: TranslationRequest): string {
   const codeContext = buildCodeContext(request);
   const translationContext = buildTranslationContext(request);
+  const translatorNotes = buildTranslatorNotes(request);
+  const messageDetails = buildMessageDetails(request);
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <translation_request>
@@ -71,7 +112,7 @@ export function buildTranslationPrompt(request: TranslationRequest): string {
   <target_language>${escapeXml(request.targetLanguage)}</target_language>
   
   <text_to_translate>${escapeXml(request.sourceValue)}</text_to_translate>
-  
+  ${translatorNotes}${messageDetails}
   <code_context>
 ${codeContext}
   </code_context>
@@ -89,6 +130,10 @@ ${translationContext}
     3. Preserve any placeholders like {name}, {{count}}, %s, etc. exactly as they appear
     4. Match the formality and style of the existing translations if examples are provided
     5. For UI elements (buttons, labels), prefer concise translations
+    6. Follow the translator_notes if provided (meaning, placement, length limits)
+    7. If message_details are provided: use message_context to pick the right meaning, translate
+       only the plural form named by plural_category (e.g., "one", "few"), and keep the translation
+       at or below max_length characters
     
     Return ONLY the translated text in the translated_value field.
   </instructions>
@@ -0,0 +1,312 @@
+/**
+ * Parser Conformance Service
+ *
+ * Checks that a parser reads back what it writes. Runs against a copy of a fixture
+ * translations directory, so the fixture itself is never changed:
+ *
+ * - export returns the fixture's keys as strings
+ * - importing the exported values leaves existing files unchanged
+ * - importing into a missing language creates its files and exports the same values
+ * - importing twice changes nothing (idempotency)
+ * - unicode values, deeply nested keys and keys with special characters round-trip
+ */
+
+import { existsSync } from 'node:fs';
+import { cp, mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { getCapabilities } from '../parsers/capabilities';
+import { resolveLanguageLocation } from '../parsers/language-path';
+import type { Parser, ParserCapabilities } from '../types';
+
+/**
+ * Outcome of one conformance check
+ */
+export interface ConformanceCheck {
+  /** What was checked (e.g., "unicode values round-trip") */
+  name: string;
+
+  /** Whether the parser passed */
+  passed: boolean;
+
+  /** Problems found, empty when passed */
+  details: string[];
+}
+
+/**
+ * Outcome of all conformance checks for a parser
+ */
+export interface ConformanceReport {
+  parser: string;
+  capabilities: Required<ParserCapabilities>;
+  sourceLanguage: string;
+  targetLanguage: string;
+  checks: ConformanceCheck[];
+}
+
+/**
+ * Options for a conformance run
+ */
+export interface ConformanceOptions {
+  /** Language present in the fixture (e.g., "en") */
+  sourceLanguage: string;
+
+  /** Language missing from the fixture, used for new-file checks [default: first free of de, fr, es, it, nl] */
+  targetLanguage?: string;
+
+  /** Language path template (e.g., "{lang}.json") */
+  layout?: string;
+}
+
+/** Languages tried for new-file checks, in order */
+const TARGET_LANGUAGES = ['de', 'fr', 'es', 'it', 'nl'];
+
+/** Differences listed per check before they are summarized */
+const MAX_DETAILS = 5;
+
+/** Values exercising escaping and multi-byte characters */
+const UNICODE_VALUES = [
+  'Grüße aus Köln',
+  '日本語のテキスト',
+  'Emoji 👋🏽 and ZWJ 👩‍💻',
+  'Right-to-left: مرحبا',
+  'Quotes "double" and \'single\'',
+  'Backslash \\ and slash /',
+  'Line one\nLine two',
+  'Tab\tseparated',
+  'Ampersand & <angle> brackets',
+];
+
+/** Key segments with characters other than letters */
+const SPECIAL_KEY_SEGMENTS = ['kebab-case', 'snake_case', 'camelCase', 'digits123', '$dollar'];
+
+/** Nesting depth of the deep key check */
+const DEEP_NESTING_LEVELS = 6;
+
+/**
+ * Read every file below a directory (or a single file) keyed by relative path
+ */
+async function snapshotFiles(root: string): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+
+  async function walk(dir: string): Promise<void> {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(path);
+      } else if (entry.isFile()) {
+        result.set(relative(root, path), await readFile(path, 'utf-8'));
+      }
+    }
+  }
+
+  await walk(root);
+  return result;
+}
+
+/**
+ * List how two snapshots differ
+ */
+function diffSnapshots(before: Map<string, string>, after: Map<string, string>): string[] {
+  const details: string[] = [];
+  for (const [path, content] of after) {
+    if (!before.has(path)) {
+      details.push(`created ${path}`);
+    } else if (before.get(path) !== content) {
+      details.push(`modified ${path}`);
+    }
+  }
+  for (const path of before.keys()) {
+    if (!after.has(path)) {
+      details.push(`deleted ${path}`);
+    }
+  }
+  return details;
+}
+
+/**
+ * List the expected keys that are missing or have another value
+ */
+function diffValues(expected: Map<string, string>, actual: Map<string, string>): string[] {
+  const details: string[] = [];
+  for (const [key, value] of expected) {
+    const actualValue = actual.get(key);
+    if (actualValue === undefined) {
+      details.push(`missing key '${key}'`);
+    } else if (actualValue !== value) {
+      details.push(
+        `'${key}': expected ${JSON.stringify(value)}, got ${JSON.stringify(actualValue)}`,
+      );
+    }
+  }
+  return details;
+}
+
+function summarize(details: string[]): string[] {
+  if (details.length <= MAX_DETAILS) {
+    return details;
+  }
+  return [...details.slice(0, MAX_DETAILS), `... and ${details.length - MAX_DETAILS} more`];
+}
+
+async function runCheck(name: string, check: () => Promise<string[]>): Promise<ConformanceCheck> {
+  try {
+    const details = await check();
+    return { name, passed: details.length === 0, details: summarize(details) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { name, passed: false, details: [`threw: ${message}`] };
+  }
+}
+
+/**
+ * Build generated keys under the namespace of an existing key, so directory layouts
+ * write them into a file that exists
+ */
+function keyPrefix(sourceKeys: Map<string, string>): string {
+  const first = sourceKeys.keys().next().value;
+  const dot = first?.indexOf('.') ?? -1;
+  return first && dot > 0 ? `${first.slice(0, dot)}.` : '';
+}
+
+/**
+ * Run the conformance checks of a parser against a fixture translations directory
+ *
+ * @param parser - Parser under test
+ * @param fixtureDir - Translations directory with at least the source language
+ * @param options - Languages and layout
+ * @returns Report with one entry per check
+ */
+export async function runConformance(
+  parser: Parser,
+  fixtureDir: string,
+  options: ConformanceOptions,
+): Promise<ConformanceReport> {
+  const workDir = await mkdtemp(join(tmpdir(), 'curlydots-conformance-'));
+
+  try {
+    await cp(fixtureDir, workDir, { recursive: true });
+
+    const { sourceLanguage, layout } = options;
+    const locate = (language: string) =>
+      resolveLanguageLocation(parser, workDir, language, layout).path;
+    const targetLanguage =
+      options.targetLanguage ??
+      TARGET_LANGUAGES.find(
+        (language) => language !== sourceLanguage && !existsSync(locate(language)),
+      ) ??
+      'zz';
+
+    const report: ConformanceReport = {
+      parser: parser.name,
+      capabilities: getCapabilities(parser),
+      sourceLanguage,
+      targetLanguage,
+      checks: [],
+    };
+
+    const sourcePath = locate(sourceLanguage);
+    const targetPath = locate(targetLanguage);
+    let sourceKeys = new Map<string, string>();
+
+    const exportCheck = await runCheck('export reads the fixture', async () => {
+      if (!existsSync(sourcePath)) {
+        return [`source language not found: ${relative(workDir, sourcePath) || sourcePath}`];
+      }
+      sourceKeys = await parser.export(sourcePath, sourceLanguage);
+      if (sourceKeys.size === 0) {
+        return ['no keys exported'];
+      }
+      return [...sourceKeys]
+        .filter(([, value]) => typeof value !== 'string')
+        .map(([key, value]) => `'${key}' is a ${typeof value}, not a string`);
+    });
+    report.checks.push(exportCheck);
+
+    // Everything else builds on the exported keys
+    if (!exportCheck.passed) {
+      return report;
+    }
+
+    report.checks.push(
+      await runCheck('importing exported values leaves files unchanged', async () => {
+        const before = await snapshotFiles(workDir);
+        await parser.import(sourcePath, sourceKeys, sourceLanguage);
+        const after = await snapshotFiles(workDir);
+        return [
+          ...diffSnapshots(before, after),
+          ...diffValues(sourceKeys, await parser.export(sourcePath, sourceLanguage)),
+        ];
+      }),
+    );
+
+    report.checks.push(
+      await runCheck('import creates a new language that exports the same values', async () => {
+        const result = await parser.import(targetPath, sourceKeys, targetLanguage);
+        const details: string[] = [];
+        if (!existsSync(targetPath)) {
+          details.push(`nothing written to ${relative(workDir, targetPath)}`);
+          return details;
+        }
+        if (result.filesCreated === 0) {
+          details.push('import reported no created files');
+        }
+        return [
+          ...details,
+          ...diffValues(sourceKeys, await parser.export(targetPath, targetLanguage)),
+        ];
+      }),
+    );
+
+    report.checks.push(
+      await runCheck('importing the same values twice changes nothing', async () => {
+        await parser.import(targetPath, sourceKeys, targetLanguage);
+        const before = await snapshotFiles(workDir);
+        await parser.import(targetPath, sourceKeys, targetLanguage);
+        return diffSnapshots(before, await snapshotFiles(workDir));
+      }),
+    );
+
+    const prefix = keyPrefix(sourceKeys);
+    const generated: [string, Map<string, string>][] = [
+      [
+        'unicode values round-trip',
+        new Map(
+          UNICODE_VALUES.map((value, index) => [`${prefix}conformanceUnicode${index}`, value]),
+        ),
+      ],
+      [
+        'deeply nested keys round-trip',
+        new Map([
+          [
+            `${prefix}${Array.from({ length: DEEP_NESTING_LEVELS }, (_, i) => `level${i + 1}`).join('.')}`,
+            'Deep value',
+          ],
+        ]),
+      ],
+      [
+        'keys with special characters round-trip',
+        new Map(
+          SPECIAL_KEY_SEGMENTS.map((segment) => [
+            `${prefix}conformance.${segment}`,
+            `Value of ${segment}`,
+          ]),
+        ),
+      ],
+    ];
+
+    for (const [name, values] of generated) {
+      report.checks.push(
+        await runCheck(name, async () => {
+          await parser.import(targetPath, values, targetLanguage);
+          const exported = await parser.export(targetPath, targetLanguage);
+          return [...diffValues(values, exported), ...diffValues(sourceKeys, exported)];
+        }),
+      );
+    }
+
+    return report;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
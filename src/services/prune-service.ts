@@ -0,0 +1,69 @@
+/**
+ * Prune Service
+ *
+ * Finds orphaned target-language keys (keys that no longer exist in the source language),
+ * removes them through the parser and drops their source hashes from the lockfile.
+ */
+
+import { expandPluralEntries, exportEntries } from '../parsers/capabilities';
+import { resolveLanguageLocation } from '../parsers/language-path';
+import type { Parser, PruneResult } from '../types';
+import { dropSourceHashes, readSourceLock, writeSourceLock } from './source-lock';
+
+/**
+ * Run prune operation: compare languages and remove orphaned target keys
+ *
+ * @param translationsDir - Base translations directory
+ * @param sourceLanguage - Language whose keys are kept (e.g., "en")
+ * @param targetLanguage - Language to prune (e.g., "de")
+ * @param parser - Parser to use for reading and removing keys
+ * @param options.layout - Optional language path template (e.g., "{lang}.json")
+ * @param options.dryRun - Only list the orphaned keys, without changing files
+ * @returns Prune result summary
+ */
+export async function runPrune(
+  translationsDir: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  parser: Parser,
+  options: { layout?: string; dryRun?: boolean } = {},
+): Promise<PruneResult> {
+  if (!options.dryRun && !parser.remove) {
+    throw new Error(`Parser ${parser.name} does not support removing keys`);
+  }
+
+  const source = resolveLanguageLocation(parser, translationsDir, sourceLanguage, options.layout);
+  const target = resolveLanguageLocation(parser, translationsDir, targetLanguage, options.layout);
+  // Plural forms the target needs beyond the source's are not orphaned
+  const sourceKeys = await expandPluralEntries(
+    parser,
+    await exportEntries(parser, source.path, sourceLanguage),
+    target.path,
+    targetLanguage,
+  );
+  const targetKeys = await parser.export(target.path, targetLanguage);
+
+  const orphanedKeys = [...targetKeys.keys()].filter((key) => !sourceKeys.has(key)).sort();
+
+  const result: PruneResult = {
+    targetLanguage,
+    orphanedKeys,
+    dryRun: options.dryRun ?? false,
+    filesModified: 0,
+    filesDeleted: 0,
+    keysRemoved: 0,
+  };
+
+  if (options.dryRun || orphanedKeys.length === 0 || !parser.remove) {
+    return result;
+  }
+
+  const removal = await parser.remove(target.path, orphanedKeys, targetLanguage);
+
+  const lock = await readSourceLock(translationsDir);
+  if (dropSourceHashes(lock, targetLanguage, orphanedKeys)) {
+    await writeSourceLock(translationsDir, lock);
+  }
+
+  return { ...result, ...removal };
+}
@@ -0,0 +1,216 @@
+/**
+ * Source Lock Service
+ *
+ * Keeps a lockfile in the translations directory with a hash of the source value each
+ * target translation was made from, so `extract` can report translations whose source
+ * text changed since. The file is meant to be committed with the translations; a
+ * single-file catalog (e.g. Localizable.xcstrings) gets it in the catalog's directory.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, statSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+
+/** Lockfile name, stored in the translations directory */
+export const SOURCE_LOCK_FILE = 'curlydots.lock.json';
+
+/** Format version written to new lockfiles */
+const SOURCE_LOCK_VERSION = 1;
+
+const languageLockSchema = z.object({
+  sourceLanguage: z.string(),
+  keys: z.record(z.string(), z.string()),
+});
+
+const sourceLockSchema = z.object({
+  version: z.literal(SOURCE_LOCK_VERSION),
+  languages: z.record(z.string(), languageLockSchema),
+});
+
+/**
+ * Source hashes of one target language
+ */
+export type LanguageLock = z.infer<typeof languageLockSchema>;
+
+/**
+ * Lockfile content: target language => source language and key => source value hash
+ */
+export type SourceLock = z.infer<typeof sourceLockSchema>;
+
+/**
+ * Hash a source value (first 16 hex characters of its SHA-256)
+ */
+export function hashSourceValue(value: string): string {
+  return createHash('sha256').update(value).digest('hex').substring(0, 16);
+}
+
+/**
+ * Create an empty lockfile
+ */
+export function createSourceLock(): SourceLock {
+  return { version: SOURCE_LOCK_VERSION, languages: {} };
+}
+
+/**
+ * Path of the lockfile of a translations directory, or next to a single-file catalog
+ */
+function sourceLockPath(translationsDir: string): string {
+  const isFile = existsSync(translationsDir) && statSync(translationsDir).isFile();
+  return join(isFile ? dirname(translationsDir) : translationsDir, SOURCE_LOCK_FILE);
+}
+
+/**
+ * Read the lockfile of a translations directory
+ * @returns Lockfile content, empty when the directory has no lockfile
+ */
+export async function readSourceLock(translationsDir: string): Promise<SourceLock> {
+  const lockPath = sourceLockPath(translationsDir);
+  if (!existsSync(lockPath)) {
+    return createSourceLock();
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(lockPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read ${lockPath}: ${message}`);
+  }
+
+  const parsed = sourceLockSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Invalid ${lockPath}: ${issue?.path.join('.') || 'lockfile'}: ${issue?.message}`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Write the lockfile of a translations directory (keys sorted, so diffs stay small)
+ */
+export async function writeSourceLock(translationsDir: string, lock: SourceLock): Promise<void> {
+  const languages: Record<string, LanguageLock> = {};
+  for (const language of Object.keys(lock.languages).sort()) {
+    const entry = lock.languages[language]!;
+    const keys: Record<string, string> = {};
+    for (const key of Object.keys(entry.keys).sort()) {
+      keys[key] = entry.keys[key]!;
+    }
+    languages[language] = { sourceLanguage: entry.sourceLanguage, keys };
+  }
+
+  const content = JSON.stringify({ version: lock.version, languages }, null, 2);
+  const lockPath = sourceLockPath(translationsDir);
+  await mkdir(dirname(lockPath), { recursive: true });
+  await writeFile(lockPath, `${content}\n`, 'utf-8');
+}
+
+/**
+ * Record the source values target translations were made from
+ *
+ * Hashes recorded against another source language are dropped, since they cannot be
+ * compared with the new source.
+ *
+ * @param sourceValues - Translated keys and the source value they were translated from
+ */
+export function recordSourceHashes(
+  lock: SourceLock,
+  sourceLanguage: string,
+  targetLanguage: string,
+  sourceValues: Map<string, string>,
+): void {
+  const existing = lock.languages[targetLanguage];
+  const entry =
+    existing && existing.sourceLanguage === sourceLanguage
+      ? existing
+      : { sourceLanguage, keys: {} };
+
+  for (const [key, value] of sourceValues) {
+    entry.keys[key] = hashSourceValue(value);
+  }
+  lock.languages[targetLanguage] = entry;
+}
+
+/**
+ * Find translated keys whose source value changed since they were translated
+ *
+ * Keys without a recorded hash (translated before the lockfile existed, or by hand)
+ * are treated as up to date.
+ *
+ * @param source - Current source language values
+ * @param target - Current target language values
+ * @returns Keys present in both whose recorded source hash no longer matches
+ */
+export function findStaleKeys(
+  lock: SourceLock,
+  sourceLanguage: string,
+  targetLanguage: string,
+  source: Map<string, string>,
+  target: Map<string, string>,
+): Set<string> {
+  const stale = new Set<string>();
+  const entry = lock.languages[targetLanguage];
+  if (!entry || entry.sourceLanguage !== sourceLanguage) {
+    return stale;
+  }
+
+  for (const [key, value] of source) {
+    const recorded = entry.keys[key];
+    if (recorded && target.has(key) && recorded !== hashSourceValue(value)) {
+      stale.add(key);
+    }
+  }
+  return stale;
+}
+
+/**
+ * Record the current source value of translated keys the lockfile has no hash for
+ * @returns Number of keys recorded
+ */
+export function baselineSourceHashes(
+  lock: SourceLock,
+  sourceLanguage: string,
+  targetLanguage: string,
+  source: Map<string, string>,
+  target: Map<string, string>,
+): number {
+  const entry = lock.languages[targetLanguage];
+  const recorded = entry?.sourceLanguage === sourceLanguage ? entry.keys : {};
+
+  const untracked = new Map<string, string>();
+  for (const [key, value] of source) {
+    if (target.has(key) && !recorded[key]) {
+      untracked.set(key, value);
+    }
+  }
+  recordSourceHashes(lock, sourceLanguage, targetLanguage, untracked);
+  return untracked.size;
+}
+
+/**
+ * Drop the hashes of keys removed from a target language
+ * @returns Whether any hash was dropped
+ */
+export function dropSourceHashes(
+  lock: SourceLock,
+  targetLanguage: string,
+  keys: string[],
+): boolean {
+  const entry = lock.languages[targetLanguage];
+  if (!entry) {
+    return false;
+  }
+
+  let dropped = false;
+  for (const key of keys) {
+    if (key in entry.keys) {
+      delete entry.keys[key];
+      dropped = true;
+    }
+  }
+  return dropped;
+}
@@ -0,0 +1,87 @@
+/**
+ * Untranslated Values
+ *
+ * Finds target keys that exist but were never really translated: empty values, copies
+ * of the source value and values still carrying a marker such as "TODO". Extract
+ * exports them with reason "untranslated", like missing keys.
+ */
+
+import type { UntranslatedRules } from '../types';
+
+/** Letters outside of tags and placeholders ("{count}", "%s"), i.e. text to translate */
+function hasText(value: string): boolean {
+  return /\p{L}/u.test(value.replace(/<[^>]*>|\{[^{}]*\}|%\S/g, ''));
+}
+
+/** Characters that continue a word around a marker ("TODO-Liste" and "FIXMEs" hold no marker) */
+const WORD_CHARACTER = '[\\p{L}\\p{N}_-]';
+
+/**
+ * Check whether a value contains a marker as a whole word
+ * Boundaries only apply to marker ends that are word characters, so "[de]" matches "[de]Save".
+ */
+function containsMarker(value: string, marker: string): boolean {
+  const escaped = marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const before = /^[\p{L}\p{N}_]/u.test(marker) ? `(?<!${WORD_CHARACTER})` : '';
+  const after = /[\p{L}\p{N}_]$/u.test(marker) ? `(?!${WORD_CHARACTER})` : '';
+  return new RegExp(`${before}${escaped}${after}`, 'u').test(value);
+}
+
+/**
+ * Check whether a target value still needs a translation
+ *
+ * @param key - Translation key, matched against the ignore list
+ * @param sourceValue - Source language value
+ * @param targetValue - Target language value
+ * @param rules - Which values count as untranslated
+ */
+export function isUntranslated(
+  key: string,
+  sourceValue: string,
+  targetValue: string,
+  rules: UntranslatedRules,
+): boolean {
+  if (sourceValue.trim() === '') {
+    return false;
+  }
+
+  if (targetValue.trim() === '') {
+    return rules.empty;
+  }
+
+  // Markers that are part of the source text ("TODO list") are translated text, not markers
+  const markers = rules.markers.filter((marker) => !containsMarker(sourceValue, marker));
+  if (markers.some((marker) => containsMarker(targetValue, marker))) {
+    return true;
+  }
+
+  return (
+    rules.identical &&
+    targetValue === sourceValue &&
+    hasText(sourceValue) &&
+    !rules.ignore.includes(key) &&
+    !rules.ignore.includes(sourceValue)
+  );
+}
+
+/**
+ * Find the target keys whose value still needs a translation
+ * @param source - Source language translations
+ * @param target - Target language translations
+ * @param rules - Which values count as untranslated
+ * @returns Keys present in both languages
+ */
+export function findUntranslatedKeys(
+  source: Map<string, string>,
+  target: Map<string, string>,
+  rules: UntranslatedRules,
+): Set<string> {
+  const untranslated = new Set<string>();
+  for (const [key, value] of source) {
+    const targetValue = target.get(key);
+    if (targetValue !== undefined && isUntranslated(key, value, targetValue, rules)) {
+      untranslated.add(key);
+    }
+  }
+  return untranslated;
+}
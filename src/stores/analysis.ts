@@ -47,9 +47,15 @@ export interface AnalysisState {
   /** Number of keys found in target language */
   targetKeyCount: number;
 
-  /** Number of missing translations found */
+  /** Number of missing translations found (including untranslated and stale ones) */
   missingCount: number;
 
+  /** Number of translations whose source value changed since they were made */
+  staleCount: number;
+
+  /** Number of target values that are empty, copied from the source or marked TODO */
+  untranslatedCount: number;
+
   /** Current key being processed (for progress display) */
   currentKey: string;
 
@@ -65,7 +71,13 @@ export interface AnalysisState {
   completeTask: (taskId: TaskId) => void;
   setTaskProgress: (taskId: TaskId, processed: number, total: number) => void;
   setProgress: (current: number, total: number) => void;
-  setCounts: (source: number, target: number, missing: number) => void;
+  setCounts: (
+    source: number,
+    target: number,
+    missing: number,
+    stale?: number,
+    untranslated?: number,
+  ) => void;
   setCurrentKey: (key: string) => void;
   setError: (message: string) => void;
   reset: () => void;
@@ -88,6 +100,8 @@ const defaultState = {
   sourceKeyCount: 0,
   targetKeyCount: 0,
   missingCount: 0,
+  staleCount: 0,
+  untranslatedCount: 0,
   currentKey: '',
   progress: 0,
   error: null,
@@ -146,8 +160,13 @@ export const analysisStore = createStore<AnalysisState>((set, get) => ({
     set({ progress });
   },
 
-  setCounts: (sourceKeyCount, targetKeyCount, missingCount) =>
-    set({ sourceKeyCount, targetKeyCount, missingCount }),
+  setCounts: (
+    sourceKeyCount,
+    targetKeyCount,
+    missingCount,
+    staleCount = 0,
+    untranslatedCount = 0,
+  ) => set({ sourceKeyCount, targetKeyCount, missingCount, staleCount, untranslatedCount }),
 
   setCurrentKey: (currentKey) => set({ currentKey }),
 
@@ -25,11 +25,40 @@ export interface Config {
   /** Parser name to use (e.g., "node-module") */
   parser: string;
 
+  /** Language path template relative to translationsDir (e.g., "{lang}.json") */
+  layout?: string;
+
   /** File extensions to search for context */
   extensions: string[];
 
   /** Output CSV file path */
   outputPath: string;
+
+  /** Options passed to the parser (see ParserOptions) */
+  parserOptions?: ParserOptions;
+
+  /** Record the source hash of translated keys missing from the lockfile */
+  initLock?: boolean;
+
+  /** Which target values count as untranslated (default: DEFAULT_UNTRANSLATED_RULES) */
+  untranslated?: UntranslatedRules;
+}
+
+/**
+ * Rules for target values that exist but still need a translation
+ */
+export interface UntranslatedRules {
+  /** Empty (or whitespace-only) values */
+  empty: boolean;
+
+  /** Values identical to the source value; values without letters are never flagged */
+  identical: boolean;
+
+  /** Values containing one of these markers (e.g., "TODO") */
+  markers: string[];
+
+  /** Keys or source values that may legitimately stay identical (e.g., brand names) */
+  ignore: string[];
 }
 
 // ============================================================================
@@ -156,12 +185,67 @@ export interface TranslationContextExample {
 }
 
 /**
- * A translation key that exists in source but not target language
+ * A location in source code recorded by the translation file itself
+ * (e.g., gettext `#: app/views.py:42` references)
+ */
+export interface TranslationReference {
+  /** File path, relative to the repository root unless absolute */
+  filePath: string;
+
+  /** Line number (1-indexed) */
+  lineNumber: number;
+}
+
+/**
+ * CLDR plural category of a plural form
+ */
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/**
+ * Additional information a translation format stores next to a key
+ */
+export interface TranslationMetadata {
+  /** Note for translators (e.g., gettext `#.` extracted comments) */
+  description?: string;
+
+  /** Source code locations where the key is used */
+  references?: TranslationReference[];
+
+  /** Plural category when the key is one form of a plural message (e.g., "<key>[one]") */
+  pluralCategory?: PluralCategory;
+
+  /** Maximum length of the translation in characters (e.g., XLIFF `maxwidth`) */
+  maxLength?: number;
+
+  /** Context that tells identical source texts apart (e.g., gettext msgctxt, ARB `context`) */
+  context?: string;
+}
+
+/**
+ * A translation value with the metadata stored next to it
+ */
+export interface TranslationEntry extends TranslationMetadata {
+  /** Translation value */
+  value: string;
+}
+
+/**
+ * Why a key is exported: not translated yet, present but empty, copied or marked (see
+ * UntranslatedRules), or translated from an older source value
+ */
+export type MissingReason = 'missing' | 'untranslated' | 'stale';
+
+/**
+ * A translation key that exists in source but not target language, or whose target
+ * value is a placeholder for a translation (empty, copied, TODO) or outdated
  */
 export interface MissingTranslation {
   /** The translation key path */
   key: string;
 
+  /** Why the key needs a translation (default: missing) */
+  reason?: MissingReason;
+
   /** Source language code */
   sourceLanguage: string;
 
@@ -176,6 +260,9 @@ export interface MissingTranslation {
 
   /** Translation context examples for nouns (max 10) */
   translationContexts: TranslationContextExample[];
+
+  /** Metadata stored with the key in the source language file */
+  metadata?: TranslationMetadata;
 }
 
 /**
@@ -229,6 +316,21 @@ export interface TranslationRow {
   /** JSON string of TranslationContextExample[] - prior translation examples */
   translationContext: string;
 
+  /** Notes for translators from the source translation file (may be empty) */
+  description?: string;
+
+  /** Plural category of the form to translate (may be empty) */
+  pluralCategory?: string;
+
+  /** Maximum translation length in characters (may be empty) */
+  maxLength?: string;
+
+  /** Context that tells identical source texts apart (may be empty) */
+  messageContext?: string;
+
+  /** Why the key was exported: "missing", "untranslated" or "stale" (may be empty) */
+  reason?: string;
+
   /** AI-generated translation (empty until translated) */
   translatedValue: string;
 
@@ -276,6 +378,18 @@ export interface TranslationRequest {
 
   /** Parsed translation examples for XML formatting */
   translationExamples: TranslationExample[];
+
+  /** Notes for translators (meaning, placement, constraints) */
+  description?: string;
+
+  /** Plural category of the form to translate (e.g., "one") */
+  pluralCategory?: string;
+
+  /** Maximum translation length in characters */
+  maxLength?: number;
+
+  /** Context that tells identical source texts apart */
+  messageContext?: string;
 }
 
 /**
@@ -453,7 +567,7 @@ export interface ImportError {
  * Result summary from import operation
  */
 export interface ImportResult {
-  /** Target language code extracted from CSV */
+  /** Target language code extracted from CSV (comma-separated when it holds several) */
   targetLanguage: string;
 
   /** Number of new files created */
@@ -482,8 +596,14 @@ export interface ImportConfig {
   /** Path to translations directory */
   translationsDir: string;
 
-  /** Parser to use (default: node-module) */
+  /** Parser name, file path or npm package (default: node-module) */
   parser: string;
+
+  /** Language path template relative to translationsDir (e.g., "{lang}.json") */
+  layout?: string;
+
+  /** Options passed to the parser (see ParserOptions) */
+  parserOptions?: ParserOptions;
 }
 
 /**
@@ -500,6 +620,236 @@ export interface ImportCommandResult {
   error?: string;
 }
 
+/**
+ * Result summary from prune operation
+ */
+export interface PruneResult {
+  /** Target language code */
+  targetLanguage: string;
+
+  /** Orphaned target keys: keys that do not exist in the source language (sorted) */
+  orphanedKeys: string[];
+
+  /** Whether files were left unchanged */
+  dryRun: boolean;
+
+  /** Number of existing files modified */
+  filesModified: number;
+
+  /** Number of files deleted because no translations were left */
+  filesDeleted: number;
+
+  /** Number of keys removed */
+  keysRemoved: number;
+}
+
+/**
+ * Configuration for prune command
+ */
+export interface PruneConfig {
+  /** Path to translations directory */
+  translationsDir: string;
+
+  /** Source language code (keys to keep) */
+  sourceLanguage: string;
+
+  /** Target language code (keys to remove) */
+  targetLanguage: string;
+
+  /** Parser name, file path or npm package (default: node-module) */
+  parser: string;
+
+  /** Language path template relative to translationsDir (e.g., "{lang}.json") */
+  layout?: string;
+
+  /** Only list orphaned keys without changing files */
+  dryRun?: boolean;
+
+  /** Options passed to the parser (see ParserOptions) */
+  parserOptions?: ParserOptions;
+}
+
+/**
+ * Result from prune command execution
+ */
+export interface PruneCommandResult {
+  /** Whether prune succeeded */
+  success: boolean;
+
+  /** Prune summary (if successful) */
+  summary?: PruneResult;
+
+  /** Error message (if failed) */
+  error?: string;
+}
+
+// ============================================================================
+// Audit Types
+// ============================================================================
+
+/**
+ * A translation key passed to a translation function in code
+ */
+export interface KeyReference extends TranslationReference {
+  /** Key as written in the call (e.g., "auth.login") */
+  key: string;
+}
+
+/**
+ * Result of an audit of translation keys against each other and the code
+ */
+export interface AuditResult {
+  /** Source language code */
+  sourceLanguage: string;
+
+  /** Target language codes whose keys were compared */
+  targetLanguages: string[];
+
+  /** Target keys that do not exist in the source language, by target language (sorted) */
+  orphanedKeys: Record<string, string[]>;
+
+  /** Source keys not found anywhere in the code (sorted) */
+  unusedKeys: string[];
+
+  /** Keys used in translation calls that the source language does not define */
+  undefinedKeys: KeyReference[];
+}
+
+/**
+ * Configuration for audit command
+ */
+export interface AuditConfig {
+  /** Absolute path to the repository root */
+  repoPath: string;
+
+  /** Path to translations directory relative to repoPath */
+  translationsDir: string;
+
+  /** Source language code */
+  sourceLanguage: string;
+
+  /** Target language codes to check for orphaned keys (may be empty) */
+  targetLanguages: string[];
+
+  /** Parser name, file path or npm package (default: node-module) */
+  parser: string;
+
+  /** Language path template relative to translationsDir (e.g., "{lang}.json") */
+  layout?: string;
+
+  /** File extensions to search for key usages */
+  extensions: string[];
+
+  /** Names of the translation functions whose keys are checked (e.g., "t", "$t") */
+  functions: string[];
+
+  /** Options passed to the parser (see ParserOptions) */
+  parserOptions?: ParserOptions;
+}
+
+/**
+ * Result from audit command execution
+ */
+export interface AuditCommandResult {
+  /** Whether audit succeeded */
+  success: boolean;
+
+  /** Audit report (if successful) */
+  summary?: AuditResult;
+
+  /** Error message (if failed) */
+  error?: string;
+}
+
+// ============================================================================
+// Lint Types
+// ============================================================================
+
+/**
+ * Check a translation failed: placeholders, HTML/XML tags, ICU syntax, surrounding
+ * whitespace or line breaks
+ */
+export type LintRule = 'placeholders' | 'markup' | 'icu' | 'whitespace' | 'newlines';
+
+/**
+ * An inconsistency between a translation and its source text
+ */
+export interface LintIssue {
+  /** Check that failed */
+  rule: LintRule;
+
+  /** What is wrong (e.g., "Missing placeholder {name}") */
+  message: string;
+}
+
+/**
+ * A lint issue of a key in a target language
+ */
+export interface TranslationLintIssue extends LintIssue {
+  /** Target language code */
+  language: string;
+
+  /** Translation key path */
+  key: string;
+}
+
+/**
+ * Result of linting target languages against the source language
+ */
+export interface LintResult {
+  /** Source language code */
+  sourceLanguage: string;
+
+  /** Target language codes that were checked */
+  targetLanguages: string[];
+
+  /** Number of translations checked */
+  keysChecked: number;
+
+  /** Issues, by language and key */
+  issues: TranslationLintIssue[];
+}
+
+/**
+ * Configuration for lint command
+ */
+export interface LintConfig {
+  /** Absolute path to the repository root */
+  repoPath: string;
+
+  /** Path to translations directory relative to repoPath */
+  translationsDir: string;
+
+  /** Source language code */
+  sourceLanguage: string;
+
+  /** Target language codes to check */
+  targetLanguages: string[];
+
+  /** Parser name, file path or npm package (default: node-module) */
+  parser: string;
+
+  /** Language path template relative to translationsDir (e.g., "{lang}.json") */
+  layout?: string;
+
+  /** Options passed to the parser (see ParserOptions) */
+  parserOptions?: ParserOptions;
+}
+
+/**
+ * Result from lint command execution
+ */
+export interface LintCommandResult {
+  /** Whether lint ran (issues found still count as success) */
+  success: boolean;
+
+  /** Lint report (if successful) */
+  summary?: LintResult;
+
+  /** Error message (if failed) */
+  error?: string;
+}
+
 // ============================================================================
 // Parser Types
 // ============================================================================
@@ -516,6 +866,71 @@ export interface ParserImportResult {
 
   /** Total keys written */
   keysWritten: number;
+
+  /** Keys that could not be written, reported as import errors */
+  errors?: ImportError[];
+}
+
+/**
+ * Result of parser remove operation
+ */
+export interface ParserRemoveResult {
+  /** Number of existing files modified */
+  filesModified: number;
+
+  /** Number of files deleted because no translations were left */
+  filesDeleted: number;
+
+  /** Total keys removed */
+  keysRemoved: number;
+}
+
+/**
+ * Location of a language's translations on disk
+ */
+export interface LanguageLocation {
+  /** Absolute path to the language directory or file */
+  path: string;
+
+  /** "directory" for one file per namespace, "file" for a single file per language */
+  kind: 'directory' | 'file';
+}
+
+/**
+ * Options that parsers may use, from the command line and the project config
+ */
+export interface ParserOptions {
+  /** Execute translation modules instead of reading them statically (trusted code only) */
+  allowEval?: boolean;
+
+  /** Read index files of language directories, which are skipped as re-exports by default */
+  includeIndex?: boolean;
+
+  /** Parser-specific options (e.g., `--parser-option indent=4`), ignored by other parsers */
+  [option: string]: unknown;
+}
+
+/**
+ * What a translation format can express, so commands know which metadata to expect
+ */
+export interface ParserCapabilities {
+  /** Plural forms are exported as one key per form (e.g., "<key>[one]") */
+  plurals?: boolean;
+
+  /** Notes for translators are exported as metadata */
+  descriptions?: boolean;
+
+  /** Source code references are exported as metadata */
+  references?: boolean;
+
+  /** Maximum lengths are exported as metadata */
+  maxLength?: boolean;
+
+  /** Message contexts are exported as metadata */
+  context?: boolean;
+
+  /** Separator between nested key segments, or null for flat keys [default: "."] */
+  keySeparator?: string | null;
 }
 
 /**
@@ -524,6 +939,7 @@ export interface ParserImportResult {
  * Parsers are responsible for:
  * - Reading translation files and returning key-value pairs (export)
  * - Writing key-value pairs to translation files (import)
+ * - Deleting keys from translation files (remove, optional)
  *
  * Parsers are NOT responsible for:
  * - CSV parsing (handled by csv-reader service)
@@ -533,13 +949,46 @@ export interface Parser {
   /** Unique parser identifier (e.g., "node-module") */
   name: string;
 
+  /** What the format can express (optional, see ParserCapabilities for defaults) */
+  capabilities?: ParserCapabilities;
+
+  /**
+   * Resolve where a language is stored (optional)
+   *
+   * Parsers whose format does not follow the default `<translationsDir>/<language>`
+   * directory layout implement this to point at a different directory or a single file.
+   * A layout template passed on the command line takes precedence.
+   *
+   * @param translationsDir - Absolute path to the translations directory
+   * @param language - Language code (e.g., "de")
+   * @returns Location of the language directory or file
+   */
+  resolveLanguage?(translationsDir: string, language: string): LanguageLocation;
+
+  /**
+   * Whether keys in a directory layout start with the file name (default: true)
+   *
+   * Formats keyed by message text rather than by file (e.g., gettext) set this to false
+   * so keys without a file prefix are accepted on import.
+   */
+  fileKeyPrefix?: boolean;
+
+  /**
+   * Create a parser that uses the given command line options (optional)
+   *
+   * @param options - Options from the command line and the project config
+   * @returns Configured parser with the same name
+   */
+  configure?(options: ParserOptions): Parser;
+
   /**
    * Export translations from files (read operation)
    *
-   * Reads all translation files in the given language directory
-   * and returns a flattened map of key paths to values.
+   * Reads all translation files in the given language directory (or the single
+   * language file) and returns a flattened map of key paths to values.
    *
-   * @param langDir - Absolute path to language directory (e.g., "/project/translations/en")
+   * @param langDir - Absolute path to language directory or file (e.g., "/project/translations/en")
+   * @param language - Language code, for formats that keep several languages in one file
    * @returns Map of dot-notation key paths to translation values
    *
    * @example
@@ -547,17 +996,54 @@ export interface Parser {
    * const map = await parser.export("/project/translations/en");
    * map.get("generic.welcome") // => "Hello"
    */
-  export(langDir: string): Promise<Map<string, string>>;
+  export(langDir: string, language?: string): Promise<Map<string, string>>;
+
+  /**
+   * Export metadata stored next to translations (optional read operation)
+   *
+   * Formats that carry translator notes, source references, plural categories, length
+   * limits or message contexts return them here, keyed like the map returned by export().
+   * Keys without metadata may be omitted. Parsers declaring `capabilities.plurals` get
+   * the plural category of "<key>[<category>]" keys filled in (see exportEntries).
+   *
+   * @param langDir - Absolute path to language directory or file
+   * @param language - Language code, for formats that keep several languages in one file
+   * @returns Map of dot-notation key paths to metadata
+   */
+  exportMetadata?(langDir: string, language?: string): Promise<Map<string, TranslationMetadata>>;
+
+  /**
+   * Add the plural forms a target language needs to source entries (optional)
+   *
+   * Target languages may need more plural forms than the source (Polish "few" and
+   * "many" for an English source). Parsers declaring `capabilities.plurals` get the
+   * CLDR categories of the target added to "<key>[<category>]" keys; formats that key
+   * their forms differently (gettext "<key>[<index>]") implement this instead.
+   *
+   * @param entries - Source language entries with metadata (see exportEntries)
+   * @param langDir - Absolute path to the target language directory or file
+   * @param language - Target language code
+   * @returns Entries to compare the target language with
+   */
+  expandPluralForms?(
+    entries: Map<string, TranslationEntry>,
+    langDir: string,
+    language: string,
+  ): Promise<Map<string, TranslationEntry>>;
 
   /**
    * Import translations to files (write operation)
    *
-   * Writes translations to the appropriate files in the language directory.
+   * Writes translations to the appropriate files in the language directory
+   * (or to the single language file).
    * Merges with existing content (new keys added, existing keys updated).
    * Creates files and directories as needed.
    *
-   * @param langDir - Absolute path to language directory (e.g., "/project/translations/de")
+   * @param langDir - Absolute path to language directory or file (e.g., "/project/translations/de")
    * @param translations - Map of dot-notation key paths to translation values
+   * @param language - Language code, for formats that keep several languages in one file
+   * @param sourceValues - Source language values of the translated keys, for formats that
+   *   store the source text with new entries (gettext's msgid_plural)
    * @returns Summary of files created and modified
    *
    * @example
@@ -565,5 +1051,28 @@ export interface Parser {
    * const translations = new Map([["generic.welcome", "Hallo"]]);
    * await parser.import("/project/translations/de", translations);
    */
-  import(langDir: string, translations: Map<string, string>): Promise<ParserImportResult>;
+  import(
+    langDir: string,
+    translations: Map<string, string>,
+    language?: string,
+    sourceValues?: Map<string, string>,
+  ): Promise<ParserImportResult>;
+
+  /**
+   * Remove translations from files (optional delete operation)
+   *
+   * Deletes the given keys from the language directory (or the single language file).
+   * Objects left empty are removed as well, and files without translations are deleted.
+   * Keys that do not exist are ignored.
+   *
+   * @param langDir - Absolute path to language directory or file (e.g., "/project/translations/de")
+   * @param keys - Dot-notation key paths to remove
+   * @param language - Language code, for formats that keep several languages in one file
+   * @returns Summary of files modified and deleted
+   *
+   * @example
+   * // Remove generic.obsolete from translations/de/generic.js
+   * await parser.remove("/project/translations/de", ["generic.obsolete"]);
+   */
+  remove?(langDir: string, keys: string[], language?: string): Promise<ParserRemoveResult>;
 }
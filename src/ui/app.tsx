@@ -22,6 +22,8 @@ function CompletionSummary({ outputPath }: { outputPath: string }): React.ReactE
   const sourceKeyCount = useAnalysisStore((s) => s.sourceKeyCount);
   const targetKeyCount = useAnalysisStore((s) => s.targetKeyCount);
   const missingCount = useAnalysisStore((s) => s.missingCount);
+  const staleCount = useAnalysisStore((s) => s.staleCount);
+  const untranslatedCount = useAnalysisStore((s) => s.untranslatedCount);
 
   return (
     <Box flexDirection="column" marginTop={1} borderStyle="single" paddingX={1}>
@@ -39,8 +41,20 @@ function CompletionSummary({ outputPath }: { outputPath: string }): React.ReactE
         </Text>
         <Text>
           <Text color="gray">Missing: </Text>
-          <Text color="yellow">{missingCount}</Text>
+          <Text color="yellow">{missingCount - staleCount - untranslatedCount}</Text>
         </Text>
+        {untranslatedCount > 0 && (
+          <Text>
+            <Text color="gray">Untranslated: </Text>
+            <Text color="yellow">{untranslatedCount}</Text>
+          </Text>
+        )}
+        {staleCount > 0 && (
+          <Text>
+            <Text color="gray">Stale: </Text>
+            <Text color="yellow">{staleCount}</Text>
+          </Text>
+        )}
         <Text>
           <Text color="gray">Output: </Text>
           <Text color="cyan">{outputPath}</Text>
@@ -54,6 +54,8 @@ export function ProgressView(): React.ReactElement {
   const sourceKeyCount = useAnalysisStore((s) => s.sourceKeyCount);
   const targetKeyCount = useAnalysisStore((s) => s.targetKeyCount);
   const missingCount = useAnalysisStore((s) => s.missingCount);
+  const staleCount = useAnalysisStore((s) => s.staleCount);
+  const untranslatedCount = useAnalysisStore((s) => s.untranslatedCount);
   const error = useAnalysisStore((s) => s.error);
 
   const statusConfig = STATUS_DISPLAY[status];
@@ -104,9 +106,25 @@ export function ProgressView(): React.ReactElement {
           <Text>
             <Text color="yellow">Missing: </Text>
             <Text bold color="yellow">
-              {missingCount}
+              {missingCount - staleCount - untranslatedCount}
             </Text>
           </Text>
+          {untranslatedCount > 0 && (
+            <Text>
+              <Text color="yellow">Untranslated: </Text>
+              <Text bold color="yellow">
+                {untranslatedCount}
+              </Text>
+            </Text>
+          )}
+          {staleCount > 0 && (
+            <Text>
+              <Text color="yellow">Stale: </Text>
+              <Text bold color="yellow">
+                {staleCount}
+              </Text>
+            </Text>
+          )}
         </Box>
       )}
 
@@ -120,7 +138,11 @@ export function ProgressView(): React.ReactElement {
       {/* Complete summary */}
       {status === 'complete' && (
         <Box marginTop={1}>
-          <Text color="green">{missingCount} missing translations exported</Text>
+          <Text color="green">
+            {staleCount > 0 || untranslatedCount > 0
+              ? `${missingCount} missing, untranslated and stale translations exported`
+              : `${missingCount} missing translations exported`}
+          </Text>
         </Box>
       )}
     </Box>
@@ -0,0 +1,106 @@
+/**
+ * Audit Command Integration Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { formatAuditReport, runAudit } from '../../src/commands/audit';
+import { clearParsers, registerParser } from '../../src/parsers';
+import { jsonParser } from '../../src/parsers/json';
+import { nodeModuleParser } from '../../src/parsers/node-module';
+
+const TEST_FIXTURES_DIR = join(import.meta.dir, '../fixtures/temp-audit-integration');
+const TRANSLATIONS_DIR = join(TEST_FIXTURES_DIR, 'translations');
+
+describe('audit-command integration', () => {
+  beforeEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+    await mkdir(join(TRANSLATIONS_DIR, 'en'), { recursive: true });
+    await mkdir(join(TRANSLATIONS_DIR, 'de'), { recursive: true });
+    await mkdir(join(TEST_FIXTURES_DIR, 'src'), { recursive: true });
+    clearParsers();
+    registerParser(nodeModuleParser);
+    registerParser(jsonParser);
+
+    await writeFile(
+      join(TRANSLATIONS_DIR, 'en', 'generic.js'),
+      "module.exports = {\n  welcome: 'Welcome',\n  legacy: 'Old',\n};\n",
+    );
+    await writeFile(
+      join(TRANSLATIONS_DIR, 'de', 'generic.js'),
+      "module.exports = {\n  welcome: 'Willkommen',\n  removed: 'Entfernt',\n};\n",
+    );
+    await writeFile(
+      join(TEST_FIXTURES_DIR, 'src', 'app.js'),
+      "const title = t('generic.welcome');\nconst help = t('generic.help');\n",
+    );
+  });
+
+  afterEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+  });
+
+  it('should report orphaned, unused and undefined keys', async () => {
+    const result = await runAudit({
+      repoPath: TEST_FIXTURES_DIR,
+      translationsDir: 'translations',
+      sourceLanguage: 'en',
+      targetLanguages: ['de'],
+      parser: 'node-module',
+      extensions: ['.js'],
+      functions: ['t'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.summary).toEqual({
+      sourceLanguage: 'en',
+      targetLanguages: ['de'],
+      orphanedKeys: { de: ['generic.removed'] },
+      unusedKeys: ['generic.legacy'],
+      undefinedKeys: [{ key: 'generic.help', filePath: join('src', 'app.js'), lineNumber: 2 }],
+    });
+    expect(formatAuditReport(result.summary!)).toBe(
+      [
+        'Audit of en (targets: de)',
+        '',
+        'Orphaned target keys (1):',
+        '  de: generic.removed',
+        '',
+        'Unused source keys (1):',
+        '  generic.legacy',
+        '',
+        'Undefined keys used in code (1):',
+        `  ${join('src', 'app.js')}:2  generic.help`,
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should report a clean audit', () => {
+    expect(
+      formatAuditReport({
+        sourceLanguage: 'en',
+        targetLanguages: [],
+        orphanedKeys: {},
+        unusedKeys: [],
+        undefinedKeys: [],
+      }),
+    ).toBe('Audit of en (targets: none)\n\n✅ No orphaned, unused or undefined keys\n');
+  });
+
+  it('should fail when the source language cannot be read', async () => {
+    const result = await runAudit({
+      repoPath: TEST_FIXTURES_DIR,
+      translationsDir: 'translations',
+      sourceLanguage: 'fr',
+      targetLanguages: [],
+      parser: 'node-module',
+      extensions: ['.js'],
+      functions: ['t'],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Extract Command Integration Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  parseExtractArgs,
+  selectAllTargets,
+  validateExtractArgs,
+  writeMissingTranslations,
+} from '../../src/commands/extract';
+import { readCsv } from '../../src/services/csv-reader';
+import type { MissingTranslation } from '../../src/types';
+
+const TEST_FIXTURES_DIR = join(import.meta.dir, '../fixtures/temp-extract-integration');
+
+function missingKey(key: string, targetLanguage: string): MissingTranslation {
+  return {
+    key,
+    sourceLanguage: 'en',
+    targetLanguage,
+    sourceValue: key,
+    contexts: [],
+    translationContexts: [],
+  };
+}
+
+describe('extract-command integration', () => {
+  beforeEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+    await mkdir(TEST_FIXTURES_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+  });
+
+  describe('parseExtractArgs', () => {
+    it('should read comma-separated targets with spaces and duplicates once', () => {
+      const args = parseExtractArgs(['./app', '-s', 'en', '-t', 'de, fr,,de', '--target', 'fr,it']);
+
+      expect(args.targets).toEqual(['de', 'fr', 'it']);
+      expect(args.allTargets).toBe(false);
+    });
+
+    it('should read --all-targets', () => {
+      const args = parseExtractArgs(['./app', '-s', 'en', '--all-targets']);
+
+      expect(args.targets).toEqual([]);
+      expect(args.allTargets).toBe(true);
+    });
+  });
+
+  describe('validateExtractArgs', () => {
+    const validate = (...args: string[]) =>
+      validateExtractArgs(parseExtractArgs([TEST_FIXTURES_DIR, '-s', 'en', ...args]));
+
+    it('should accept a target list or --all-targets', () => {
+      expect(validate('-t', 'de,fr')).toEqual([]);
+      expect(validate('--all-targets')).toEqual([]);
+    });
+
+    it('should require a target', () => {
+      expect(validate()).toEqual(['Missing required option: --target (or --all-targets)']);
+    });
+
+    it('should reject --target together with --all-targets', () => {
+      expect(validate('-t', 'de', '--all-targets')).toEqual([
+        'Use either --target or --all-targets, not both',
+      ]);
+    });
+
+    it('should reject the source language as a target', () => {
+      expect(validate('-t', 'de, en')).toEqual([
+        'Target languages must not include the source language',
+      ]);
+    });
+  });
+
+  describe('selectAllTargets', () => {
+    it('should exclude the source language', () => {
+      expect(selectAllTargets(['de', 'en', 'fr'], 'en')).toEqual(['de', 'fr']);
+    });
+
+    it('should fail when only the source language was found', () => {
+      expect(() => selectAllTargets(['en'], 'en')).toThrow('No target languages found besides en');
+    });
+  });
+
+  describe('writeMissingTranslations', () => {
+    const missing = [
+      missingKey('title', 'de'),
+      missingKey('title', 'fr'),
+      missingKey('save', 'de'),
+    ];
+
+    it('should write one CSV per language when the output path contains {lang}', async () => {
+      const output = join(TEST_FIXTURES_DIR, 'missing-{lang}.csv');
+
+      const written = await writeMissingTranslations(missing, ['de', 'fr', 'it'], output);
+
+      expect(written).toEqual([
+        join(TEST_FIXTURES_DIR, 'missing-de.csv'),
+        join(TEST_FIXTURES_DIR, 'missing-fr.csv'),
+      ]);
+      expect(existsSync(join(TEST_FIXTURES_DIR, 'missing-it.csv'))).toBe(false);
+      const german = await readCsv(join(TEST_FIXTURES_DIR, 'missing-de.csv'));
+      expect(german.map((row) => [row.translationKey, row.targetLanguage])).toEqual([
+        ['title', 'de'],
+        ['save', 'de'],
+      ]);
+    });
+
+    it('should write all languages into one CSV otherwise', async () => {
+      const output = join(TEST_FIXTURES_DIR, 'missing.csv');
+
+      const written = await writeMissingTranslations(missing, ['de', 'fr'], output);
+
+      expect(written).toEqual([output]);
+      const rows = await readCsv(output);
+      expect(rows.map((row) => row.targetLanguage)).toEqual(['de', 'fr', 'de']);
+    });
+  });
+});
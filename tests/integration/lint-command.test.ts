@@ -0,0 +1,89 @@
+/**
+ * Lint Command Integration Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { formatLintReport, runLint } from '../../src/commands/lint';
+import { clearParsers, registerParser } from '../../src/parsers';
+import { jsonParser } from '../../src/parsers/json';
+import { nodeModuleParser } from '../../src/parsers/node-module';
+
+const TEST_FIXTURES_DIR = join(import.meta.dir, '../fixtures/temp-lint-integration');
+const TRANSLATIONS_DIR = join(TEST_FIXTURES_DIR, 'translations');
+
+describe('lint-command integration', () => {
+  beforeEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+    await mkdir(join(TRANSLATIONS_DIR, 'en'), { recursive: true });
+    await mkdir(join(TRANSLATIONS_DIR, 'de'), { recursive: true });
+    clearParsers();
+    registerParser(nodeModuleParser);
+    registerParser(jsonParser);
+
+    await writeFile(
+      join(TRANSLATIONS_DIR, 'en', 'generic.js'),
+      "module.exports = {\n  welcome: 'Welcome, %{name}!',\n  save: 'Save',\n};\n",
+    );
+    await writeFile(
+      join(TRANSLATIONS_DIR, 'de', 'generic.js'),
+      "module.exports = {\n  welcome: 'Willkommen, %{nome}!',\n  save: 'Speichern ',\n};\n",
+    );
+  });
+
+  afterEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+  });
+
+  it('should report issues by language and key', async () => {
+    const result = await runLint({
+      repoPath: TEST_FIXTURES_DIR,
+      translationsDir: 'translations',
+      sourceLanguage: 'en',
+      targetLanguages: ['de'],
+      parser: 'node-module',
+    });
+
+    expect(result.success).toBe(true);
+    expect(formatLintReport(result.summary!)).toBe(
+      [
+        'Lint against en (targets: de; 2 translations checked)',
+        '',
+        'de: generic.save',
+        '  whitespace    Trailing whitespace " ", expected ""',
+        '',
+        'de: generic.welcome',
+        '  placeholders  Missing placeholder %{name}',
+        '  placeholders  Unexpected placeholder %{nome}',
+        '',
+        'Found 3 issues',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should report a clean lint', () => {
+    expect(
+      formatLintReport({
+        sourceLanguage: 'en',
+        targetLanguages: ['de'],
+        keysChecked: 4,
+        issues: [],
+      }),
+    ).toBe('Lint against en (targets: de; 4 translations checked)\n\n✅ No issues found\n');
+  });
+
+  it('should fail when the source language cannot be read', async () => {
+    const result = await runLint({
+      repoPath: TEST_FIXTURES_DIR,
+      translationsDir: 'translations',
+      sourceLanguage: 'fr',
+      targetLanguages: [],
+      parser: 'node-module',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+});
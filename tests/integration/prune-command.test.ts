@@ -0,0 +1,128 @@
+/**
+ * Prune Command Integration Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { runPrune } from '../../src/commands/prune';
+import { clearParsers, registerParser } from '../../src/parsers';
+import { jsonParser } from '../../src/parsers/json';
+import { nodeModuleParser } from '../../src/parsers/node-module';
+import {
+  createSourceLock,
+  hashSourceValue,
+  readSourceLock,
+  recordSourceHashes,
+  writeSourceLock,
+} from '../../src/services/source-lock';
+
+const TEST_FIXTURES_DIR = join(import.meta.dir, '../fixtures/temp-prune-integration');
+const TRANSLATIONS_DIR = join(TEST_FIXTURES_DIR, 'translations');
+
+describe('prune-command integration', () => {
+  beforeEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+    await mkdir(join(TRANSLATIONS_DIR, 'en'), { recursive: true });
+    await mkdir(join(TRANSLATIONS_DIR, 'de'), { recursive: true });
+    clearParsers();
+    registerParser(nodeModuleParser);
+    registerParser(jsonParser);
+
+    await writeFile(
+      join(TRANSLATIONS_DIR, 'en', 'generic.js'),
+      "module.exports = {\n  welcome: 'Welcome',\n};\n",
+    );
+    await writeFile(
+      join(TRANSLATIONS_DIR, 'de', 'generic.js'),
+      "module.exports = {\n  welcome: 'Willkommen',\n  removed: 'Entfernt',\n};\n",
+    );
+    await writeFile(join(TRANSLATIONS_DIR, 'de', 'legacy.js'), "module.exports = { a: 'A' };\n");
+  });
+
+  afterEach(async () => {
+    await rm(TEST_FIXTURES_DIR, { recursive: true, force: true });
+  });
+
+  it('should list orphaned keys without changing files in dry-run mode', async () => {
+    const result = await runPrune({
+      translationsDir: TRANSLATIONS_DIR,
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      parser: 'node-module',
+      dryRun: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.summary?.orphanedKeys).toEqual(['generic.removed', 'legacy.a']);
+    expect(result.summary?.keysRemoved).toBe(0);
+    expect(existsSync(join(TRANSLATIONS_DIR, 'de', 'legacy.js'))).toBe(true);
+  });
+
+  it('should remove orphaned keys and empty files', async () => {
+    const result = await runPrune({
+      translationsDir: TRANSLATIONS_DIR,
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      parser: 'node-module',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.summary).toMatchObject({ filesModified: 1, filesDeleted: 1, keysRemoved: 2 });
+    expect(existsSync(join(TRANSLATIONS_DIR, 'de', 'legacy.js'))).toBe(false);
+    expect(await readFile(join(TRANSLATIONS_DIR, 'de', 'generic.js'), 'utf-8')).toBe(
+      "module.exports = {\n  welcome: 'Willkommen',\n};\n",
+    );
+  });
+
+  it('should drop the source hashes of removed keys from the lockfile', async () => {
+    const lock = createSourceLock();
+    recordSourceHashes(
+      lock,
+      'en',
+      'de',
+      new Map([
+        ['generic.welcome', 'Welcome'],
+        ['generic.removed', 'Removed'],
+        ['legacy.a', 'A'],
+      ]),
+    );
+    await writeSourceLock(TRANSLATIONS_DIR, lock);
+
+    const result = await runPrune({
+      translationsDir: TRANSLATIONS_DIR,
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      parser: 'node-module',
+    });
+
+    expect(result.success).toBe(true);
+    expect((await readSourceLock(TRANSLATIONS_DIR)).languages.de?.keys).toEqual({
+      'generic.welcome': hashSourceValue('Welcome'),
+    });
+  });
+
+  it('should not create a lockfile when there is none', async () => {
+    await runPrune({
+      translationsDir: TRANSLATIONS_DIR,
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      parser: 'node-module',
+    });
+
+    expect(existsSync(join(TRANSLATIONS_DIR, 'curlydots.lock.json'))).toBe(false);
+  });
+
+  it('should fail for parsers that cannot remove keys', async () => {
+    const result = await runPrune({
+      translationsDir: TRANSLATIONS_DIR,
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      parser: 'json',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Parser json does not support removing keys');
+  });
+});
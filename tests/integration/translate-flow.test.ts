@@ -211,4 +211,32 @@ key1,Value,en,de,"[]","[]"`;
     // No API calls for empty file
     expect(mockCreate).toHaveBeenCalledTimes(0);
   });
+
+  it('should mark translations that drop placeholders as errors', async () => {
+    const inputContent = `translation_key,source_value,source_language,target_language,code_context,translation_context
+greeting,"Hello {name}",en,de,"[]","[]"
+title,Users,en,de,"[]","[]"`;
+
+    await Bun.write(TEST_INPUT_CSV, inputContent);
+
+    const { runTranslate } = await import('../../src/commands/translate');
+    const { translationStore } = await import('../../src/stores/translation-store');
+
+    await runTranslate({
+      inputPath: TEST_INPUT_CSV,
+      outputPath: TEST_OUTPUT_CSV,
+      concurrency: 1,
+      force: false,
+      yes: true,
+      traces: false,
+    });
+
+    const rows = translationStore.getState().rows;
+    expect(rows.find((row) => row.translationKey === 'greeting')).toMatchObject({
+      status: 'error',
+      translatedValue: 'ERROR',
+      errorMessage: 'Lint failed: Missing placeholder {name}',
+    });
+    expect(rows.find((row) => row.translationKey === 'title')?.status).toBe('complete');
+  });
 });
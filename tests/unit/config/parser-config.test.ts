@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DEFAULT_UNTRANSLATED_RULES,
+  PARSER_CONFIG_FILE,
+  loadParserConfig,
+  resolveParserSelection,
+  resolveUntranslatedRules,
+} from '../../../src/config/parser-config';
+
+describe('parser-config', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-parser-config-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  async function writeConfig(config: unknown): Promise<void> {
+    await writeFile(join(tempDir, PARSER_CONFIG_FILE), JSON.stringify(config), 'utf8');
+  }
+
+  describe('loadParserConfig', () => {
+    it('returns an empty config without a config file', () => {
+      expect(loadParserConfig(tempDir)).toEqual({});
+    });
+
+    it('rejects parser files, packages and allowEval, which would run repository code', async () => {
+      await writeConfig({ parser: './parsers/custom.ts' });
+      expect(() => loadParserConfig(tempDir)).toThrow('only built-in parsers');
+
+      await writeConfig({ parser: '@acme/curlydots-parser-foo' });
+      expect(() => loadParserConfig(tempDir)).toThrow(
+        'load parser files and packages with --parser',
+      );
+
+      await writeConfig({ parserOptions: { allowEval: true } });
+      expect(() => loadParserConfig(tempDir)).toThrow('can only be enabled with --allow-eval');
+      expect(() => resolveParserSelection('node-module', { allowEval: true }, tempDir)).toThrow(
+        'parserOptions.allowEval',
+      );
+    });
+
+    it('keeps built-in parser names and their options', async () => {
+      await writeConfig({ parser: 'json', parserOptions: { indent: 4 } });
+      expect(loadParserConfig(tempDir)).toEqual({
+        parser: 'json',
+        parserOptions: { indent: 4 },
+      });
+    });
+
+    it('throws for invalid config files', async () => {
+      await writeConfig({ parser: 42 });
+      expect(() => loadParserConfig(tempDir)).toThrow(
+        `Invalid ${join(tempDir, PARSER_CONFIG_FILE)}`,
+      );
+
+      await writeFile(join(tempDir, PARSER_CONFIG_FILE), '{ parser', 'utf8');
+      expect(() => loadParserConfig(tempDir)).toThrow('Failed to read');
+    });
+  });
+
+  describe('resolveParserSelection', () => {
+    it('defaults to node-module', () => {
+      expect(resolveParserSelection('', {}, tempDir)).toEqual({
+        parser: 'node-module',
+        parserOptions: {},
+      });
+    });
+
+    it('prefers the command line over the config', async () => {
+      await writeConfig({ parser: 'yaml', parserOptions: { indent: 4, sortKeys: true } });
+
+      expect(resolveParserSelection('', { indent: 2 }, tempDir)).toEqual({
+        parser: 'yaml',
+        parserOptions: { indent: 2, sortKeys: true },
+      });
+      expect(resolveParserSelection('json', {}, tempDir).parser).toBe('json');
+    });
+  });
+
+  describe('resolveUntranslatedRules', () => {
+    it('defaults to empty, identical and TODO/FIXME values', () => {
+      expect(resolveUntranslatedRules(tempDir)).toEqual(DEFAULT_UNTRANSLATED_RULES);
+    });
+
+    it('overrides the defaults the config sets', async () => {
+      await writeConfig({ untranslated: { identical: false, ignore: ['Curlydots'] } });
+
+      expect(resolveUntranslatedRules(tempDir)).toEqual({
+        empty: true,
+        identical: false,
+        markers: ['TODO', 'FIXME'],
+        ignore: ['Curlydots'],
+      });
+    });
+
+    it('throws for invalid rules', async () => {
+      await writeConfig({ untranslated: { markers: 'TODO' } });
+
+      expect(() => resolveUntranslatedRules(tempDir)).toThrow('untranslated.markers');
+    });
+  });
+});
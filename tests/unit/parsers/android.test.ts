@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  androidParser,
+  encodeValue,
+  languageToQualifier,
+  qualifierToLanguage,
+} from '../../../src/parsers/android';
+
+const STRINGS = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <!-- <string name="commented">Hidden</string> -->
+    <string name="app_name" translatable="false">MyApp</string>
+    <string name="welcome">Don\\'t panic, \\"friend\\"\\nReally</string>
+    <string name="spaced">"  Keep   spaces "</string>
+    <string name="styled">Hello <b>%1$s</b>!</string>
+    <plurals name="files">
+        <item quantity="one">%d file</item>
+        <item quantity="other">%d files</item>
+    </plurals>
+    <string-array name="days">
+        <item>Mon</item>
+        <item>Tue &amp; Wed</item>
+    </string-array>
+</resources>
+`;
+
+describe('androidParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-android-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "android"', () => {
+    expect(androidParser.name).toBe('android');
+  });
+
+  describe('export', () => {
+    it('should export strings, plurals and string-arrays', async () => {
+      const valuesDir = join(tempDir, 'values');
+      await mkdir(valuesDir);
+      await writeFile(join(valuesDir, 'strings.xml'), STRINGS);
+
+      const keys = await androidParser.export(valuesDir);
+
+      expect(keys.get('welcome')).toBe('Don\'t panic, "friend"\nReally');
+      expect(keys.get('spaced')).toBe('  Keep   spaces ');
+      expect(keys.get('styled')).toBe('Hello <b>%1$s</b>!');
+      expect(keys.get('files[one]')).toBe('%d file');
+      expect(keys.get('files[other]')).toBe('%d files');
+      expect(keys.get('days[0]')).toBe('Mon');
+      expect(keys.get('days[1]')).toBe('Tue & Wed');
+    });
+
+    it('should skip untranslatable and commented out resources', async () => {
+      const valuesDir = join(tempDir, 'values');
+      await mkdir(valuesDir);
+      await writeFile(join(valuesDir, 'strings.xml'), STRINGS);
+
+      const keys = await androidParser.export(valuesDir);
+
+      expect(keys.has('app_name')).toBe(false);
+      expect(keys.has('commented')).toBe(false);
+      expect(keys.size).toBe(7);
+    });
+
+    it('should read every resource file of the folder', async () => {
+      const valuesDir = join(tempDir, 'values');
+      await mkdir(valuesDir);
+      await writeFile(join(valuesDir, 'strings.xml'), STRINGS);
+      await writeFile(
+        join(valuesDir, 'arrays.xml'),
+        '<resources>\n    <string-array name="sizes"><item>Small</item></string-array>\n</resources>\n',
+      );
+      await writeFile(
+        join(valuesDir, 'colors.xml'),
+        '<resources><color name="red">#f00</color></resources>',
+      );
+
+      const keys = await androidParser.export(valuesDir);
+
+      expect(keys.get('sizes[0]')).toBe('Small');
+      expect(keys.has('red')).toBe(false);
+    });
+  });
+
+  describe('resolveLanguage', () => {
+    it('should map languages to values folders', async () => {
+      await mkdir(join(tempDir, 'values'));
+      await writeFile(join(tempDir, 'values', 'strings.xml'), STRINGS);
+
+      expect(androidParser.resolveLanguage?.(tempDir, 'en')?.path).toBe(join(tempDir, 'values'));
+      expect(androidParser.resolveLanguage?.(tempDir, 'de')?.path).toBe(join(tempDir, 'values-de'));
+      expect(androidParser.resolveLanguage?.(tempDir, 'pt-BR')?.path).toBe(
+        join(tempDir, 'values-pt-rBR'),
+      );
+    });
+
+    it('should use tools:locale to identify the default language', async () => {
+      await mkdir(join(tempDir, 'values'));
+      await writeFile(
+        join(tempDir, 'values', 'strings.xml'),
+        '<resources xmlns:tools="http://schemas.android.com/tools" tools:locale="de"></resources>',
+      );
+
+      expect(androidParser.resolveLanguage?.(tempDir, 'de')?.path).toBe(join(tempDir, 'values'));
+      expect(androidParser.resolveLanguage?.(tempDir, 'en')?.path).toBe(join(tempDir, 'values-en'));
+    });
+  });
+
+  describe('import', () => {
+    it('should update values in place and keep the rest of the file', async () => {
+      const valuesDir = join(tempDir, 'values-de');
+      await mkdir(valuesDir);
+      await writeFile(join(valuesDir, 'strings.xml'), STRINGS);
+
+      const result = await androidParser.import(
+        valuesDir,
+        new Map([
+          ['welcome', 'Keine Panik, it\'s "fine"'],
+          ['files[one]', '%d Datei'],
+          ['days[1]', 'Di & Mi'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 1, keysWritten: 3 });
+      const content = await readFile(join(valuesDir, 'strings.xml'), 'utf-8');
+      expect(content).toBe(
+        STRINGS.replace('Don\\\'t panic, \\"friend\\"\\nReally', 'Keine Panik, it\\\'s \\"fine\\"')
+          .replace('%d file<', '%d Datei<')
+          .replace('Tue &amp; Wed', 'Di &amp; Mi'),
+      );
+    });
+
+    it('should add missing plural quantities, array items and new strings', async () => {
+      const valuesDir = join(tempDir, 'values-de');
+      await mkdir(valuesDir);
+      await writeFile(join(valuesDir, 'strings.xml'), STRINGS);
+
+      await androidParser.import(
+        valuesDir,
+        new Map([
+          ['files[few]', '%d Dateien'],
+          ['days[2]', 'Do'],
+          ['goodbye', 'Tschüss'],
+        ]),
+      );
+
+      const content = await readFile(join(valuesDir, 'strings.xml'), 'utf-8');
+      expect(content).toContain(
+        '        <item quantity="other">%d files</item>\n        <item quantity="few">%d Dateien</item>\n    </plurals>',
+      );
+      expect(content).toContain('        <item>Do</item>\n    </string-array>');
+      expect(content).toEndWith('    <string name="goodbye">Tschüss</string>\n</resources>\n');
+    });
+
+    it('should create strings.xml for a new language', async () => {
+      const valuesDir = join(tempDir, 'values-pt-rBR');
+
+      const result = await androidParser.import(
+        valuesDir,
+        new Map([
+          ['welcome', '@home'],
+          ['files[one]', '%d arquivo'],
+          ['files[other]', '%d arquivos'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 3 });
+      const content = await readFile(join(valuesDir, 'strings.xml'), 'utf-8');
+      expect(content).toBe(`<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <string name="welcome">\\@home</string>
+    <plurals name="files">
+        <item quantity="one">%d arquivo</item>
+        <item quantity="other">%d arquivos</item>
+    </plurals>
+</resources>
+`);
+      expect((await androidParser.export(valuesDir)).get('welcome')).toBe('@home');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should convert between languages and qualifiers', () => {
+      expect(languageToQualifier('de')).toBe('de');
+      expect(languageToQualifier('pt-BR')).toBe('pt-rBR');
+      expect(languageToQualifier('es-419')).toBe('es-r419');
+      expect(languageToQualifier('zh-Hans')).toBe('b+zh+Hans');
+      expect(qualifierToLanguage('values')).toBeNull();
+      expect(qualifierToLanguage('values-de')).toBe('de');
+      expect(qualifierToLanguage('values-pt-rBR')).toBe('pt-BR');
+      expect(qualifierToLanguage('values-b+zh+Hans')).toBe('zh-Hans');
+      expect(qualifierToLanguage('values-night')).toBeNull();
+    });
+
+    it('should escape apostrophes, quotes and leading references', () => {
+      expect(encodeValue('It\'s "here"')).toBe('It\\\'s \\"here\\"');
+      expect(encodeValue('@string/name')).toBe('\\@string/name');
+      expect(encodeValue('?attr')).toBe('\\?attr');
+      expect(encodeValue('a < b & c')).toBe('a &lt; b &amp; c');
+      expect(encodeValue("<b>Bob's</b>")).toBe("<b>Bob\\'s</b>");
+    });
+
+    it('should round-trip apostrophes and quotes in markup values', async () => {
+      const valuesDir = join(tempDir, 'values');
+      await mkdir(valuesDir, { recursive: true });
+      await writeFile(
+        join(valuesDir, 'strings.xml'),
+        `<resources>\n    <string name="stop">Don\\'t <b>stop</b> \\"now\\"</string>\n</resources>\n`,
+      );
+
+      const exported = await androidParser.export(valuesDir);
+      expect(exported.get('stop')).toBe('Don\'t <b>stop</b> "now"');
+
+      await androidParser.import(valuesDir, exported);
+      const content = await readFile(join(valuesDir, 'strings.xml'), 'utf-8');
+      expect(content).toContain('<string name="stop">Don\\\'t <b>stop</b> \\"now\\"</string>');
+    });
+
+    it('should quote values with leading or trailing whitespace', async () => {
+      expect(encodeValue('  spaced  ')).toBe('"  spaced  "');
+      expect(encodeValue('a  b')).toBe('"a  b"');
+      expect(encodeValue('plain text')).toBe('plain text');
+
+      const valuesDir = join(tempDir, 'values-de');
+      await androidParser.import(valuesDir, new Map([['spaced', '  spaced  ']]));
+
+      expect((await androidParser.export(valuesDir)).get('spaced')).toBe('  spaced  ');
+    });
+
+    it('should escape ampersands in the text of markup values', async () => {
+      expect(encodeValue('<b>Terms &amp; Conditions</b> & more &#169;')).toBe(
+        '<b>Terms &amp; Conditions</b> &amp; more &#169;',
+      );
+
+      const valuesDir = join(tempDir, 'values-de');
+      await androidParser.import(valuesDir, new Map([['terms', '<b>AGB</b> & Datenschutz']]));
+
+      const content = await readFile(join(valuesDir, 'strings.xml'), 'utf-8');
+      expect(content).toContain('<string name="terms"><b>AGB</b> &amp; Datenschutz</string>');
+      expect((await androidParser.export(valuesDir)).get('terms')).toBe(
+        '<b>AGB</b> &amp; Datenschutz',
+      );
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  appleStringsParser,
+  decodeStrings,
+  encodeStrings,
+  parseStrings,
+  updateStrings,
+} from '../../../src/parsers/apple-strings';
+
+const STRINGS = `/* Title of the welcome screen */
+"welcome.title" = "Welcome";
+
+/* No comment provided by engineer. */
+"Cancel" = "Cancel";
+
+// Shown with the user name
+greeting = "Hello \\"%@\\"\\nHow are you?";
+`;
+
+const STRINGSDICT = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>%d files</key>
+    <dict>
+        <key>NSStringLocalizedFormatKey</key>
+        <string>%#@count@</string>
+        <key>count</key>
+        <dict>
+            <key>NSStringFormatSpecTypeKey</key>
+            <string>NSStringPluralRuleType</string>
+            <key>NSStringFormatValueTypeKey</key>
+            <string>d</string>
+            <key>one</key>
+            <string>%d file</string>
+            <key>other</key>
+            <string>%d files</string>
+        </dict>
+    </dict>
+</dict>
+</plist>
+`;
+
+describe('appleStringsParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-apple-strings-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "apple-strings"', () => {
+    expect(appleStringsParser.name).toBe('apple-strings');
+  });
+
+  it('should resolve languages to .lproj folders', () => {
+    expect(appleStringsParser.resolveLanguage?.(tempDir, 'pt-BR')).toEqual({
+      path: join(tempDir, 'pt-BR.lproj'),
+      kind: 'directory',
+    });
+  });
+
+  describe('encoding', () => {
+    it('should round-trip UTF-16 files with their byte order mark', () => {
+      for (const encoding of ['utf-8', 'utf-16le', 'utf-16be'] as const) {
+        const decoded = decodeStrings(encodeStrings('"key" = "Grüße";\n', encoding));
+        expect(decoded).toEqual({ text: '"key" = "Grüße";\n', encoding });
+      }
+    });
+  });
+
+  describe('parseStrings', () => {
+    it('should parse quoted and bare keys with escapes and comments', () => {
+      const entries = parseStrings(STRINGS);
+
+      expect(entries.map((entry) => [entry.key, entry.value, entry.comment])).toEqual([
+        ['welcome.title', 'Welcome', 'Title of the welcome screen'],
+        ['Cancel', 'Cancel', 'No comment provided by engineer.'],
+        ['greeting', 'Hello "%@"\nHow are you?', 'Shown with the user name'],
+      ]);
+    });
+  });
+
+  describe('updateStrings', () => {
+    it('should replace values in place and append new keys', () => {
+      const { content, missing } = updateStrings(
+        STRINGS,
+        new Map([
+          ['welcome.title', 'Willkommen'],
+          ['new "key"', 'Neu'],
+        ]),
+        true,
+      );
+
+      expect(missing.size).toBe(0);
+      expect(content).toContain(
+        '/* Title of the welcome screen */\n"welcome.title" = "Willkommen";',
+      );
+      expect(content.endsWith('"new \\"key\\"" = "Neu";\n')).toBe(true);
+    });
+  });
+
+  describe('export', () => {
+    it('should export .strings and .stringsdict entries', async () => {
+      const lprojDir = join(tempDir, 'en.lproj');
+      await mkdir(lprojDir);
+      await writeFile(join(lprojDir, 'Localizable.strings'), encodeStrings(STRINGS, 'utf-16le'));
+      await writeFile(join(lprojDir, 'Localizable.stringsdict'), STRINGSDICT);
+
+      const keys = await appleStringsParser.export(lprojDir);
+
+      expect(keys.get('welcome.title')).toBe('Welcome');
+      expect(keys.get('greeting')).toBe('Hello "%@"\nHow are you?');
+      expect(keys.get('%d files[one]')).toBe('%d file');
+      expect(keys.get('%d files[other]')).toBe('%d files');
+      expect(keys.size).toBe(5);
+    });
+
+    it('should export comments as metadata, skipping Xcode placeholders', async () => {
+      const lprojDir = join(tempDir, 'en.lproj');
+      await mkdir(lprojDir);
+      await writeFile(join(lprojDir, 'Localizable.strings'), STRINGS);
+
+      const metadata = await appleStringsParser.exportMetadata?.(lprojDir);
+
+      expect(metadata?.get('welcome.title')).toEqual({
+        description: 'Title of the welcome screen',
+      });
+      expect(metadata?.has('Cancel')).toBe(false);
+    });
+
+    it('should throw when the folder does not exist', async () => {
+      await expect(appleStringsParser.export(join(tempDir, 'fr.lproj'))).rejects.toThrow(
+        'Language directory not found',
+      );
+    });
+  });
+
+  describe('import', () => {
+    it('should update files in place and keep their encoding', async () => {
+      const lprojDir = join(tempDir, 'de.lproj');
+      await mkdir(lprojDir);
+      await writeFile(join(lprojDir, 'Localizable.strings'), encodeStrings(STRINGS, 'utf-16le'));
+      await writeFile(join(lprojDir, 'Localizable.stringsdict'), STRINGSDICT);
+
+      const result = await appleStringsParser.import(
+        lprojDir,
+        new Map([
+          ['Cancel', 'Abbrechen'],
+          ['%d files[one]', '%d Datei'],
+          ['%d files[few]', '%d Dateien'],
+          ['settings', 'Einstellungen'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 2, keysWritten: 4 });
+
+      const strings = decodeStrings(await readFile(join(lprojDir, 'Localizable.strings')));
+      expect(strings.encoding).toBe('utf-16le');
+      expect(strings.text).toContain('"Cancel" = "Abbrechen";');
+      expect(strings.text.endsWith('"settings" = "Einstellungen";\n')).toBe(true);
+
+      const stringsdict = await readFile(join(lprojDir, 'Localizable.stringsdict'), 'utf-8');
+      expect(stringsdict).toContain('<key>one</key>\n            <string>%d Datei</string>');
+      expect(stringsdict).toContain(
+        '<key>few</key>\n            <string>%d Dateien</string>\n        </dict>',
+      );
+    });
+
+    it('should create Localizable.strings for a new language', async () => {
+      const lprojDir = join(tempDir, 'fr.lproj');
+
+      const result = await appleStringsParser.import(
+        lprojDir,
+        new Map([['welcome.title', 'Bienvenue']]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 1 });
+      expect(await readFile(join(lprojDir, 'Localizable.strings'), 'utf-8')).toBe(
+        '"welcome.title" = "Bienvenue";\n',
+      );
+    });
+
+    it('should skip plural keys without a stringsdict rule', async () => {
+      const lprojDir = join(tempDir, 'fr.lproj');
+
+      const result = await appleStringsParser.import(lprojDir, new Map([['%d files[one]', 'x']]));
+
+      expect(result.keysWritten).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { arbParser, describePlaceholders, toArbLocale } from '../../../src/parsers/arb';
+
+const TEMPLATE = `{
+    "@@locale": "en",
+    "helloWorld": "Hello World!",
+    "@helloWorld": {
+        "description": "The conventional newborn programmer greeting"
+    },
+    "greeting": "Hello {userName}",
+    "@greeting": {
+        "description": "Greets the signed in user",
+        "placeholders": {
+            "userName": {
+                "type": "String",
+                "example": "Bob"
+            }
+        }
+    },
+    "nWombats": "{count, plural, =0{no wombats} =1{1 wombat} other{{count} wombats}}",
+    "@nWombats": {
+        "placeholders": {
+            "count": {
+                "type": "num",
+                "format": "compact"
+            }
+        }
+    }
+}`;
+
+describe('arbParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-arb-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "arb"', () => {
+    expect(arbParser.name).toBe('arb');
+  });
+
+  it('should convert language codes to ARB locales', () => {
+    expect(toArbLocale('pt-BR')).toBe('pt_BR');
+    expect(toArbLocale('de')).toBe('de');
+  });
+
+  describe('resolveLanguage', () => {
+    it('should find files by @@locale or file name', async () => {
+      await writeFile(join(tempDir, 'intl_en.arb'), TEMPLATE);
+      await writeFile(join(tempDir, 'intl_pt_BR.arb'), '{}');
+
+      expect(arbParser.resolveLanguage?.(tempDir, 'en')).toEqual({
+        path: join(tempDir, 'intl_en.arb'),
+        kind: 'file',
+      });
+      expect(arbParser.resolveLanguage?.(tempDir, 'pt-BR')?.path).toBe(
+        join(tempDir, 'intl_pt_BR.arb'),
+      );
+    });
+
+    it('should name new files after the existing ones', async () => {
+      await writeFile(join(tempDir, 'intl_en.arb'), TEMPLATE);
+
+      expect(arbParser.resolveLanguage?.(tempDir, 'zh-Hant')?.path).toBe(
+        join(tempDir, 'intl_zh_Hant.arb'),
+      );
+    });
+
+    it('should default to app_<locale>.arb', () => {
+      expect(arbParser.resolveLanguage?.(tempDir, 'de')?.path).toBe(join(tempDir, 'app_de.arb'));
+    });
+  });
+
+  describe('export', () => {
+    it('should export messages without metadata entries', async () => {
+      const arbPath = join(tempDir, 'app_en.arb');
+      await writeFile(arbPath, TEMPLATE);
+
+      const keys = await arbParser.export(arbPath);
+
+      expect(Array.from(keys.keys())).toEqual(['helloWorld', 'greeting', 'nWombats']);
+      expect(keys.get('nWombats')).toBe(
+        '{count, plural, =0{no wombats} =1{1 wombat} other{{count} wombats}}',
+      );
+    });
+
+    it('should export descriptions and placeholders as metadata', async () => {
+      const arbPath = join(tempDir, 'app_en.arb');
+      await writeFile(arbPath, TEMPLATE);
+
+      const metadata = await arbParser.exportMetadata?.(arbPath);
+
+      expect(metadata?.get('helloWorld')).toEqual({
+        description: 'The conventional newborn programmer greeting',
+      });
+      expect(metadata?.get('greeting')).toEqual({
+        description: 'Greets the signed in user\nPlaceholders: {userName} (String, example: Bob)',
+      });
+      expect(metadata?.get('nWombats')).toEqual({
+        description: 'Placeholders: {count} (num, format: compact)',
+      });
+    });
+
+    it('should export the message context as metadata', async () => {
+      const arbPath = join(tempDir, 'app_en.arb');
+      await writeFile(
+        arbPath,
+        JSON.stringify({ open: 'Open', '@open': { context: 'verb, menu item' } }),
+      );
+
+      const metadata = await arbParser.exportMetadata?.(arbPath);
+
+      expect(metadata?.get('open')).toEqual({ context: 'verb, menu item' });
+    });
+
+    it('should throw when the file does not exist', async () => {
+      await expect(arbParser.export(join(tempDir, 'app_fr.arb'))).rejects.toThrow(
+        'Language file not found',
+      );
+    });
+  });
+
+  describe('describePlaceholders', () => {
+    it('should list placeholders without definitions by name', () => {
+      expect(describePlaceholders({ name: {}, count: { type: 'int' } })).toBe(
+        'Placeholders: {name}, {count} (int)',
+      );
+      expect(describePlaceholders({})).toBeUndefined();
+    });
+  });
+
+  describe('import', () => {
+    it('should create target files with @@locale and the template formatting', async () => {
+      await writeFile(join(tempDir, 'app_en.arb'), TEMPLATE);
+      const arbPath = join(tempDir, 'app_pt_BR.arb');
+
+      const result = await arbParser.import(
+        arbPath,
+        new Map([
+          ['helloWorld', 'Olá Mundo!'],
+          ['greeting', 'Olá {userName}'],
+        ]),
+        'pt-BR',
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 2 });
+      expect(await readFile(arbPath, 'utf-8')).toBe(
+        '{\n    "@@locale": "pt_BR",\n    "helloWorld": "Olá Mundo!",\n    "greeting": "Olá {userName}"\n}',
+      );
+    });
+
+    it('should update existing files and keep their locale', async () => {
+      const arbPath = join(tempDir, 'app_de.arb');
+      await writeFile(arbPath, '{\n  "helloWorld": "Hallo",\n  "greeting": "Hallo {userName}"\n}');
+
+      const result = await arbParser.import(
+        arbPath,
+        new Map([
+          ['helloWorld', 'Hallo Welt!'],
+          ['nWombats', '{count, plural, other{{count} Wombats}}'],
+        ]),
+        'de',
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 1, keysWritten: 2 });
+      const content = JSON.parse(await readFile(arbPath, 'utf-8'));
+      expect(Object.keys(content)).toEqual(['@@locale', 'helloWorld', 'greeting', 'nWombats']);
+      expect(content['@@locale']).toBe('de');
+      expect(content.helloWorld).toBe('Hallo Welt!');
+    });
+  });
+});
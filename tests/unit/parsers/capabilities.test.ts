@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  DEFAULT_CAPABILITIES,
+  describeCapabilities,
+  expandPluralCategories,
+  expandPluralEntries,
+  exportEntries,
+  getCapabilities,
+  integerPluralCategoriesOf,
+  pluralCategoriesOf,
+  pluralCategoryOf,
+  splitEntries,
+} from '../../../src/parsers/capabilities';
+import type { Parser } from '../../../src/types';
+
+function createParser(overrides: Partial<Parser> = {}): Parser {
+  return {
+    name: 'test',
+    async export() {
+      return new Map([
+        ['inbox.title', 'Inbox'],
+        ['inbox.messages[one]', '%d message'],
+        ['inbox.messages[other]', '%d messages'],
+        ['colors[0]', 'Red'],
+      ]);
+    },
+    async import() {
+      return { filesCreated: 0, filesModified: 0, keysWritten: 0 };
+    },
+    ...overrides,
+  };
+}
+
+describe('capabilities', () => {
+  describe('getCapabilities', () => {
+    it('fills in defaults for undeclared capabilities', () => {
+      expect(getCapabilities(createParser())).toEqual(DEFAULT_CAPABILITIES);
+      expect(
+        getCapabilities(createParser({ capabilities: { plurals: true, keySeparator: null } })),
+      ).toEqual({ ...DEFAULT_CAPABILITIES, plurals: true, keySeparator: null });
+    });
+  });
+
+  describe('pluralCategoryOf', () => {
+    it('reads the category from plural form keys', () => {
+      expect(pluralCategoryOf('inbox.messages[few]')).toBe('few');
+      expect(pluralCategoryOf('files[count.other]')).toBe('other');
+      expect(pluralCategoryOf('colors[0]')).toBeUndefined();
+      expect(pluralCategoryOf('inbox.one')).toBeUndefined();
+    });
+  });
+
+  describe('pluralCategoriesOf', () => {
+    it('returns the CLDR categories of a language', () => {
+      expect(pluralCategoriesOf('en')).toEqual(['one', 'other']);
+      expect(pluralCategoriesOf('pl')).toEqual(['one', 'few', 'many', 'other']);
+      expect(pluralCategoriesOf('pt_BR')).toEqual(['one', 'many', 'other']);
+      expect(pluralCategoriesOf('ja')).toEqual(['other']);
+    });
+
+    it('returns the categories whole numbers use', () => {
+      expect(integerPluralCategoriesOf('ru')).toEqual(['one', 'few', 'many']);
+      expect(integerPluralCategoriesOf('fr')).toEqual(['one', 'other']);
+      expect(integerPluralCategoriesOf('ar')).toEqual([
+        'zero',
+        'one',
+        'two',
+        'few',
+        'many',
+        'other',
+      ]);
+    });
+  });
+
+  describe('expandPluralCategories', () => {
+    it('adds the categories of the target after the existing forms', () => {
+      const entries = new Map([
+        ['inbox.messages[one]', { value: '%d message', pluralCategory: 'one' as const }],
+        [
+          'inbox.messages[other]',
+          { value: '%d messages', pluralCategory: 'other' as const, description: 'Count' },
+        ],
+        ['inbox.title', { value: 'Inbox' }],
+        ['%d in %d[files.one]', { value: '%d file' }],
+        ['%d in %d[files.other]', { value: '%d files' }],
+      ]);
+
+      const expanded = expandPluralCategories(entries, pluralCategoriesOf('pl'));
+
+      expect([...expanded.keys()]).toEqual([
+        'inbox.messages[one]',
+        'inbox.messages[other]',
+        'inbox.messages[few]',
+        'inbox.messages[many]',
+        'inbox.title',
+        '%d in %d[files.one]',
+        '%d in %d[files.other]',
+        '%d in %d[files.few]',
+        '%d in %d[files.many]',
+      ]);
+      expect(expanded.get('inbox.messages[few]')).toEqual({
+        value: '%d messages',
+        pluralCategory: 'few',
+        description: 'Count',
+      });
+    });
+
+    it('drops the forms the target does not have', () => {
+      const entries = new Map([
+        ['inbox.messages[one]', { value: '%d message', pluralCategory: 'one' as const }],
+        ['inbox.messages[other]', { value: '%d messages', pluralCategory: 'other' as const }],
+        ['inbox.title', { value: 'Inbox' }],
+      ]);
+
+      const expanded = expandPluralCategories(entries, pluralCategoriesOf('ja'));
+
+      expect([...expanded.keys()]).toEqual(['inbox.messages[other]', 'inbox.title']);
+    });
+  });
+
+  describe('expandPluralEntries', () => {
+    it('expands only for parsers with plurals', async () => {
+      const entries = await exportEntries(
+        createParser({ capabilities: { plurals: true } }),
+        '/translations/en',
+        'en',
+      );
+
+      expect(
+        (await expandPluralEntries(createParser(), entries, '/translations/ru', 'ru')).size,
+      ).toBe(4);
+      expect(
+        (
+          await expandPluralEntries(
+            createParser({ capabilities: { plurals: true } }),
+            entries,
+            '/translations/ru',
+            'ru',
+          )
+        ).get('inbox.messages[many]')?.pluralCategory,
+      ).toBe('many');
+    });
+  });
+
+  describe('describeCapabilities', () => {
+    it('lists the supported metadata and the key style', () => {
+      expect(describeCapabilities(DEFAULT_CAPABILITIES)).toBe('no metadata; keys separated by "."');
+      expect(
+        describeCapabilities({
+          ...DEFAULT_CAPABILITIES,
+          descriptions: true,
+          maxLength: true,
+          keySeparator: null,
+        }),
+      ).toBe('descriptions, max length; flat keys');
+    });
+  });
+
+  describe('exportEntries', () => {
+    it('combines values and metadata', async () => {
+      const parser = createParser({
+        async exportMetadata() {
+          return new Map([['inbox.title', { description: 'Page title', maxLength: 20 }]]);
+        },
+      });
+
+      const entries = await exportEntries(parser, '/translations/en', 'en');
+
+      expect(entries.get('inbox.title')).toEqual({
+        value: 'Inbox',
+        description: 'Page title',
+        maxLength: 20,
+      });
+      expect(entries.get('inbox.messages[one]')).toEqual({ value: '%d message' });
+    });
+
+    it('fills in plural categories for parsers with plurals', async () => {
+      const parser = createParser({ capabilities: { plurals: true } });
+
+      const entries = await exportEntries(parser, '/translations/en', 'en');
+
+      expect(entries.get('inbox.messages[one]')?.pluralCategory).toBe('one');
+      expect(entries.get('inbox.messages[other]')?.pluralCategory).toBe('other');
+      expect(entries.get('colors[0]')?.pluralCategory).toBeUndefined();
+    });
+  });
+
+  describe('splitEntries', () => {
+    it('separates values from metadata', () => {
+      const { values, metadata } = splitEntries(
+        new Map([
+          ['a', { value: 'A', context: 'verb' }],
+          ['b', { value: 'B' }],
+        ]),
+      );
+
+      expect(values).toEqual(
+        new Map([
+          ['a', 'A'],
+          ['b', 'B'],
+        ]),
+      );
+      expect(metadata).toEqual(new Map([['a', { context: 'verb' }]]));
+    });
+  });
+});
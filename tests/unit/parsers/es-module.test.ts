@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { esModuleParser } from '../../../src/parsers/es-module';
+
+describe('esModuleParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-es-module-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "es-module"', () => {
+    expect(esModuleParser.name).toBe('es-module');
+  });
+
+  describe('resolveLanguage', () => {
+    it('should use the language directory by default', () => {
+      expect(esModuleParser.resolveLanguage?.(tempDir, 'de')).toEqual({
+        path: join(tempDir, 'de'),
+        kind: 'directory',
+      });
+    });
+
+    it('should find single module files', async () => {
+      await writeFile(join(tempDir, 'en.mjs'), "export default { a: 'A' };\n");
+
+      expect(esModuleParser.resolveLanguage?.(tempDir, 'en')).toEqual({
+        path: join(tempDir, 'en.mjs'),
+        kind: 'file',
+      });
+    });
+  });
+
+  describe('export', () => {
+    it('should export modules of a language directory with file prefixes', async () => {
+      const langDir = join(tempDir, 'en');
+      await mkdir(langDir);
+      await writeFile(
+        join(langDir, 'common.ts'),
+        "export default {\n  nav: { home: 'Home' },\n} as const;\n",
+      );
+      await writeFile(
+        join(langDir, 'errors.mjs'),
+        "export const http = { notFound: 'Not found' };\n",
+      );
+      await writeFile(join(langDir, 'index.ts'), "export { default as common } from './common';\n");
+      await writeFile(join(langDir, 'types.d.ts'), 'export type Messages = {};\n');
+
+      const keys = await esModuleParser.export(langDir);
+
+      expect(keys).toEqual(
+        new Map([
+          ['common.nav.home', 'Home'],
+          ['errors.http.notFound', 'Not found'],
+        ]),
+      );
+    });
+
+    it('should export single module files without prefix', async () => {
+      const filePath = join(tempDir, 'en.ts');
+      await writeFile(filePath, "const en = { title: 'Title' };\n\nexport default en;\n");
+
+      expect(await esModuleParser.export(filePath)).toEqual(new Map([['title', 'Title']]));
+    });
+
+    it('should throw for missing languages', async () => {
+      await expect(esModuleParser.export(join(tempDir, 'fr'))).rejects.toThrow(
+        'Language directory not found',
+      );
+    });
+  });
+
+  describe('import', () => {
+    it('should edit existing modules in place', async () => {
+      const langDir = join(tempDir, 'de');
+      await mkdir(langDir);
+      const filePath = join(langDir, 'common.ts');
+      await writeFile(filePath, "// Common\nexport default {\n  back: 'Zurück',\n} as const;\n");
+
+      const result = await esModuleParser.import(langDir, new Map([['common.save', 'Speichern']]));
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 1, keysWritten: 1 });
+      expect(await readFile(filePath, 'utf-8')).toBe(
+        "// Common\nexport default {\n  back: 'Zurück',\n  save: 'Speichern',\n} as const;\n",
+      );
+    });
+
+    it('should create new modules in the style of the source language', async () => {
+      await mkdir(join(tempDir, 'en'));
+      await writeFile(
+        join(tempDir, 'en', 'common.mjs'),
+        'export const nav = {\n    home: "Home"\n} as const\n',
+      );
+
+      const result = await esModuleParser.import(
+        join(tempDir, 'fr'),
+        new Map([['common.nav.home', 'Accueil']]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 1 });
+      expect(await readFile(join(tempDir, 'fr', 'common.mjs'), 'utf-8')).toBe(
+        'export const nav = {\n    home: "Accueil"\n} as const\n',
+      );
+    });
+
+    it('should write single module files', async () => {
+      await writeFile(join(tempDir, 'en.ts'), "export default {\n  title: 'Title',\n};\n");
+      const filePath = join(tempDir, 'de.ts');
+
+      const result = await esModuleParser.import(filePath, new Map([['title', 'Titel']]));
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 1 });
+      expect(await readFile(filePath, 'utf-8')).toBe("export default {\n  title: 'Titel',\n};\n");
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { exportEntries } from '../../../src/parsers/capabilities';
+import {
+  CONTEXT_SEPARATOR,
+  gettextParser,
+  parsePo,
+  pluralFormCount,
+} from '../../../src/parsers/gettext';
+
+const TEMPLATE = `# Translations template
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+
+#. Shown on the dashboard
+#: app/views.py:12 app/templates/home.html:4
+msgid "Welcome"
+msgstr ""
+
+#: app/views.py:20
+msgctxt "verb"
+msgid "Open"
+msgstr ""
+
+#: app/views.py:30
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+`;
+
+const GERMAN = `# German translations
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Language: de\\n"
+
+#. Shown on the dashboard
+#: app/views.py:12 app/templates/home.html:4
+msgid "Welcome"
+msgstr "Willkommen"
+
+#: app/views.py:20
+#, fuzzy, python-format
+msgctxt "verb"
+msgid "Open"
+msgstr "Offen"
+
+#: app/views.py:30
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`;
+
+describe('gettextParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-gettext-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "gettext"', () => {
+    expect(gettextParser.name).toBe('gettext');
+  });
+
+  describe('parsePo', () => {
+    it('should parse entries with comments, context, plurals and multi-line strings', () => {
+      const catalog = parsePo(
+        `${TEMPLATE}\nmsgid ""\n"Line one\\n"\n"Line two"\nmsgstr ""\n"Zeile eins\\n"\n"Zeile zwei"\n`,
+      );
+
+      const [header, welcome, open, files, multiline] = catalog.entries;
+      expect(header?.msgid).toBe('');
+      expect(welcome?.extractedComments).toEqual(['Shown on the dashboard']);
+      expect(welcome?.references).toEqual(['app/views.py:12', 'app/templates/home.html:4']);
+      expect(open?.msgctxt).toBe('verb');
+      expect(files?.msgidPlural).toBe('%d files');
+      expect(files?.msgstr).toEqual(['', '']);
+      expect(multiline?.msgid).toBe('Line one\nLine two');
+      expect(multiline?.msgstr[0]).toBe('Zeile eins\nZeile zwei');
+    });
+  });
+
+  describe('export', () => {
+    it('should export msgids from a template', async () => {
+      const filePath = join(tempDir, 'messages.pot');
+      await writeFile(filePath, TEMPLATE);
+
+      const keys = await gettextParser.export(filePath);
+
+      expect(keys.get('Welcome')).toBe('Welcome');
+      expect(keys.get(`verb${CONTEXT_SEPARATOR}Open`)).toBe('Open');
+      expect(keys.get('One file[0]')).toBe('One file');
+      expect(keys.get('One file[1]')).toBe('%d files');
+      expect(keys.size).toBe(4);
+    });
+
+    it('should export translated entries and skip empty, fuzzy and obsolete ones', async () => {
+      const langDir = join(tempDir, 'de', 'LC_MESSAGES');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(join(langDir, 'django.po'), GERMAN);
+
+      const keys = await gettextParser.export(join(tempDir, 'de'));
+
+      expect(keys.get('Welcome')).toBe('Willkommen');
+      expect(keys.size).toBe(1);
+    });
+
+    it('should export extracted comments and references as metadata', async () => {
+      const filePath = join(tempDir, 'messages.pot');
+      await writeFile(filePath, TEMPLATE);
+
+      const metadata = await gettextParser.exportMetadata?.(filePath);
+
+      expect(metadata?.get('Welcome')).toEqual({
+        description: 'Shown on the dashboard',
+        references: [
+          { filePath: 'app/views.py', lineNumber: 12 },
+          { filePath: 'app/templates/home.html', lineNumber: 4 },
+        ],
+      });
+      expect(metadata?.get('One file[1]')?.references).toEqual([
+        { filePath: 'app/views.py', lineNumber: 30 },
+      ]);
+    });
+
+    it('should export message contexts and plural categories as metadata', async () => {
+      const filePath = join(tempDir, 'messages.pot');
+      await writeFile(filePath, TEMPLATE);
+
+      const metadata = await gettextParser.exportMetadata?.(filePath);
+
+      expect(metadata?.get(`verb${CONTEXT_SEPARATOR}Open`)?.context).toBe('verb');
+      expect(metadata?.get('One file[0]')?.pluralCategory).toBe('one');
+      expect(metadata?.get('One file[1]')?.pluralCategory).toBe('other');
+      expect(metadata?.get('Welcome')?.pluralCategory).toBeUndefined();
+    });
+  });
+
+  describe('expandPluralForms', () => {
+    const POLISH = `msgid ""
+msgstr ""
+"Language: pl\\n"
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"
+
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] "Jeden plik"
+msgstr[1] ""
+msgstr[2] ""
+`;
+
+    it('should read the number of forms from the Plural-Forms header', () => {
+      expect(pluralFormCount(parsePo(POLISH))).toBe(3);
+      expect(pluralFormCount(parsePo(TEMPLATE))).toBeUndefined();
+    });
+
+    it('should give a Polish target one form per Plural-Forms entry', async () => {
+      const templatePath = join(tempDir, 'messages.pot');
+      const polishPath = join(tempDir, 'pl.po');
+      await writeFile(templatePath, TEMPLATE);
+      await writeFile(polishPath, POLISH);
+      const source = await exportEntries(gettextParser, templatePath, 'en');
+
+      const expanded = await gettextParser.expandPluralForms?.(source, polishPath, 'pl');
+
+      expect([...(expanded?.keys() ?? [])].filter((key) => key.startsWith('One file'))).toEqual([
+        'One file[0]',
+        'One file[1]',
+        'One file[2]',
+      ]);
+      expect(expanded?.get('One file[1]')).toMatchObject({
+        value: '%d files',
+        pluralCategory: 'few',
+      });
+      expect(expanded?.get('One file[2]')).toMatchObject({
+        value: '%d files',
+        pluralCategory: 'many',
+        references: [{ filePath: 'app/views.py', lineNumber: 30 }],
+      });
+      expect(expanded?.get('Welcome')).toEqual(source.get('Welcome'));
+    });
+
+    it('should fall back to CLDR and drop forms the target does not have', async () => {
+      const templatePath = join(tempDir, 'messages.pot');
+      await writeFile(templatePath, TEMPLATE);
+      const source = await exportEntries(gettextParser, templatePath, 'en');
+
+      const russian = await gettextParser.expandPluralForms?.(source, join(tempDir, 'ru'), 'ru');
+      const japanese = await gettextParser.expandPluralForms?.(source, join(tempDir, 'ja'), 'ja');
+
+      expect(russian?.get('One file[2]')?.pluralCategory).toBe('many');
+      expect(japanese?.has('One file[0]')).toBe(true);
+      expect(japanese?.has('One file[1]')).toBe(false);
+    });
+
+    it('should export the plural categories of a Polish catalog', async () => {
+      const polishPath = join(tempDir, 'pl.po');
+      await writeFile(polishPath, POLISH);
+
+      const metadata = await gettextParser.exportMetadata?.(polishPath, 'pl');
+
+      expect(metadata?.get('One file[2]')?.pluralCategory).toBe('many');
+    });
+  });
+
+  describe('resolveLanguage', () => {
+    it('should resolve a language directory or a single catalog file', async () => {
+      await mkdir(join(tempDir, 'de'));
+      await writeFile(join(tempDir, 'fr.po'), '');
+      await writeFile(join(tempDir, 'en.pot'), '');
+
+      expect(gettextParser.resolveLanguage?.(tempDir, 'de')).toEqual({
+        path: join(tempDir, 'de'),
+        kind: 'directory',
+      });
+      expect(gettextParser.resolveLanguage?.(tempDir, 'fr')?.path).toBe(join(tempDir, 'fr.po'));
+      expect(gettextParser.resolveLanguage?.(tempDir, 'en')?.path).toBe(join(tempDir, 'en.pot'));
+    });
+  });
+
+  describe('import', () => {
+    it('should only rewrite msgstr lines and keep the rest byte-identical', async () => {
+      const filePath = join(tempDir, 'de.po');
+      await writeFile(filePath, GERMAN);
+
+      const result = await gettextParser.import(
+        filePath,
+        new Map([
+          ['One file[0]', 'Eine Datei'],
+          ['One file[1]', '%d Dateien'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 1, keysWritten: 2 });
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toBe(
+        GERMAN.replace(
+          'msgstr[0] ""\nmsgstr[1] ""',
+          'msgstr[0] "Eine Datei"\nmsgstr[1] "%d Dateien"',
+        ),
+      );
+    });
+
+    it('should clear the fuzzy flag of updated entries', async () => {
+      const filePath = join(tempDir, 'de.po');
+      await writeFile(filePath, GERMAN);
+
+      await gettextParser.import(filePath, new Map([[`verb${CONTEXT_SEPARATOR}Open`, 'Öffnen']]));
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toContain('#, python-format\nmsgctxt "verb"\nmsgid "Open"\nmsgstr "Öffnen"');
+      expect(content).not.toContain('fuzzy');
+      expect((await gettextParser.export(filePath)).get(`verb${CONTEXT_SEPARATOR}Open`)).toBe(
+        'Öffnen',
+      );
+    });
+
+    it('should escape quotes and split multi-line values', async () => {
+      const filePath = join(tempDir, 'de.po');
+      await writeFile(filePath, GERMAN);
+
+      await gettextParser.import(filePath, new Map([['Welcome', 'Hallo "Welt"\nzweite Zeile']]));
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toContain('msgstr ""\n"Hallo \\"Welt\\"\\n"\n"zweite Zeile"');
+      expect((await gettextParser.export(filePath)).get('Welcome')).toBe(
+        'Hallo "Welt"\nzweite Zeile',
+      );
+    });
+
+    it('should append entries missing from the catalog', async () => {
+      const filePath = join(tempDir, 'de.po');
+      await writeFile(filePath, GERMAN);
+
+      const result = await gettextParser.import(filePath, new Map([['Goodbye', 'Tschüss']]));
+
+      expect(result.keysWritten).toBe(1);
+      const content = await readFile(filePath, 'utf-8');
+      expect(content.startsWith(GERMAN.trimEnd())).toBe(true);
+      expect(content.endsWith('\n\nmsgid "Goodbye"\nmsgstr "Tschüss"\n')).toBe(true);
+    });
+
+    it('should append plural entries with the msgid_plural from the source values', async () => {
+      const filePath = join(tempDir, 'de.po');
+      await writeFile(filePath, GERMAN);
+
+      const result = await gettextParser.import(
+        filePath,
+        new Map([
+          ['One folder[0]', 'Ein Ordner'],
+          ['One folder[1]', '%d Ordner'],
+        ]),
+        'de',
+        new Map([
+          ['One folder[0]', 'One folder'],
+          ['One folder[1]', '%d folders'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 1, keysWritten: 2 });
+      const content = await readFile(filePath, 'utf-8');
+      expect(
+        content.endsWith(
+          '\n\nmsgid "One folder"\nmsgid_plural "%d folders"\nmsgstr[0] "Ein Ordner"\nmsgstr[1] "%d Ordner"\n',
+        ),
+      ).toBe(true);
+      expect((await gettextParser.export(filePath)).get('One folder[1]')).toBe('%d Ordner');
+    });
+
+    it('should report plural entries it cannot append without source values', async () => {
+      const filePath = join(tempDir, 'de.po');
+      await writeFile(filePath, GERMAN);
+
+      const result = await gettextParser.import(
+        filePath,
+        new Map([
+          ['One folder[0]', 'Ein Ordner'],
+          ['One folder[1]', '%d Ordner'],
+          ['Goodbye', 'Tschüss'],
+        ]),
+      );
+
+      expect(result.keysWritten).toBe(1);
+      expect(result.errors?.map((error) => error.translationKey)).toEqual([
+        'One folder[0]',
+        'One folder[1]',
+      ]);
+      expect(await readFile(filePath, 'utf-8')).not.toContain('One folder');
+    });
+
+    it('should create a catalog in an empty language directory', async () => {
+      const langDir = join(tempDir, 'fr');
+
+      const result = await gettextParser.import(langDir, new Map([['Welcome', 'Bienvenue']]));
+
+      expect(result.filesCreated).toBe(1);
+      const keys = await gettextParser.export(langDir);
+      expect(keys.get('Welcome')).toBe('Bienvenue');
+    });
+  });
+});
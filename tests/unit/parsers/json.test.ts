@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { detectIndent, isFlatObject, jsonParser } from '../../../src/parsers/json';
+
+describe('jsonParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-json-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "json"', () => {
+    expect(jsonParser.name).toBe('json');
+  });
+
+  describe('export', () => {
+    it('should flatten nested namespace files with the file name as prefix', async () => {
+      const langDir = join(tempDir, 'en');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(
+        join(langDir, 'common.json'),
+        JSON.stringify({ save: 'Save', nav: { home: 'Home' } }),
+      );
+      await writeFile(join(langDir, 'errors.json'), JSON.stringify({ notFound: 'Not found' }));
+
+      const keys = await jsonParser.export(langDir);
+
+      expect(keys.get('common.save')).toBe('Save');
+      expect(keys.get('common.nav.home')).toBe('Home');
+      expect(keys.get('errors.notFound')).toBe('Not found');
+      expect(keys.size).toBe(3);
+    });
+
+    it('should name the file of values that are not strings', async () => {
+      const langDir = join(tempDir, 'en');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(join(langDir, 'common.json'), JSON.stringify({ save: 'Save', max: 3 }));
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        await jsonParser.export(langDir);
+
+        expect(warn.mock.calls.map(([message]) => message)).toEqual([
+          `Warning: Skipping 1 value that is not a string in ${join(langDir, 'common.json')} ('common.max'), only strings are translated`,
+        ]);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should read flat dotted keys', async () => {
+      const langDir = join(tempDir, 'en');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(
+        join(langDir, 'common.json'),
+        JSON.stringify({ 'nav.home': 'Home', 'nav.about': 'About' }),
+      );
+
+      const keys = await jsonParser.export(langDir);
+
+      expect(keys.get('common.nav.home')).toBe('Home');
+      expect(keys.get('common.nav.about')).toBe('About');
+    });
+
+    it('should read a single file per language without file prefix', async () => {
+      const filePath = join(tempDir, 'en.json');
+      await writeFile(filePath, JSON.stringify({ nav: { home: 'Home' } }));
+
+      const keys = await jsonParser.export(filePath);
+
+      expect(keys.get('nav.home')).toBe('Home');
+      expect(keys.size).toBe(1);
+    });
+
+    it('should throw error for non-existent directory', async () => {
+      await expect(jsonParser.export(join(tempDir, 'missing'))).rejects.toThrow();
+    });
+  });
+
+  describe('import', () => {
+    it('should create new files with sorted keys and two-space indentation', async () => {
+      const langDir = join(tempDir, 'de');
+      const result = await jsonParser.import(
+        langDir,
+        new Map([
+          ['common.save', 'Speichern'],
+          ['common.nav.home', 'Startseite'],
+          ['common.cancel', 'Abbrechen'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 3 });
+
+      const content = await readFile(join(langDir, 'common.json'), 'utf-8');
+      expect(content).toBe(
+        '{\n  "cancel": "Abbrechen",\n  "nav": {\n    "home": "Startseite"\n  },\n  "save": "Speichern"\n}\n',
+      );
+    });
+
+    it('should keep the original indentation and key order of existing files', async () => {
+      const langDir = join(tempDir, 'de');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(
+        join(langDir, 'common.json'),
+        '{\n\t"zebra": "Zebra",\n\t"apple": "Apfel"\n}',
+      );
+
+      const result = await jsonParser.import(langDir, new Map([['common.mango', 'Mango']]));
+
+      expect(result.filesModified).toBe(1);
+      const content = await readFile(join(langDir, 'common.json'), 'utf-8');
+      expect(content).toBe('{\n\t"zebra": "Zebra",\n\t"apple": "Apfel",\n\t"mango": "Mango"\n}');
+    });
+
+    it('should keep compact one-line files compact', async () => {
+      const filePath = join(tempDir, 'de.json');
+      const compact = '{"nav":{"home":"Start"},"title":"Titel"}\n';
+      await writeFile(filePath, compact);
+
+      await jsonParser.import(filePath, new Map([['title', 'Titel']]));
+      expect(await readFile(filePath, 'utf-8')).toBe(compact);
+
+      await jsonParser.import(filePath, new Map([['nav.back', 'Zurück']]));
+      expect(await readFile(filePath, 'utf-8')).toBe(
+        '{"nav":{"back":"Zurück","home":"Start"},"title":"Titel"}\n',
+      );
+    });
+
+    it('should insert new keys alphabetically into sorted objects', async () => {
+      const langDir = join(tempDir, 'de');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(
+        join(langDir, 'common.json'),
+        `${JSON.stringify({ nav: { about: 'Über', home: 'Start' } }, null, 4)}\n`,
+      );
+
+      await jsonParser.import(langDir, new Map([['common.nav.contact', 'Kontakt']]));
+
+      const content = await readFile(join(langDir, 'common.json'), 'utf-8');
+      expect(content).toBe(
+        `${JSON.stringify({ nav: { about: 'Über', contact: 'Kontakt', home: 'Start' } }, null, 4)}\n`,
+      );
+    });
+
+    it('should write flat keys into flat files', async () => {
+      const langDir = join(tempDir, 'de');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(join(langDir, 'common.json'), '{\n  "nav.home": "Start"\n}\n');
+
+      await jsonParser.import(langDir, new Map([['common.nav.settings', 'Einstellungen']]));
+
+      const parsed = JSON.parse(await readFile(join(langDir, 'common.json'), 'utf-8'));
+      expect(parsed).toEqual({ 'nav.home': 'Start', 'nav.settings': 'Einstellungen' });
+    });
+
+    it('should round-trip through export', async () => {
+      const langDir = join(tempDir, 'de');
+      await jsonParser.import(
+        langDir,
+        new Map([
+          ['auth.login.button', 'Anmelden'],
+          ['auth.quote', 'It\'s "quoted"'],
+        ]),
+      );
+
+      const exported = await jsonParser.export(langDir);
+      expect(exported.get('auth.login.button')).toBe('Anmelden');
+      expect(exported.get('auth.quote')).toBe('It\'s "quoted"');
+    });
+
+    it('should restore arrays from indexed keys', async () => {
+      const filePath = join(tempDir, 'de.json');
+      await writeFile(filePath, '{\n  "steps": ["Eins"],\n  "title": "Titel"\n}\n');
+
+      await jsonParser.import(
+        filePath,
+        new Map([
+          ['steps.1', 'Zwei'],
+          ['tips.0', 'Tipp'],
+        ]),
+      );
+
+      const parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+      expect(parsed).toEqual({ steps: ['Eins', 'Zwei'], title: 'Titel', tips: ['Tipp'] });
+      expect((await jsonParser.export(filePath)).get('steps.1')).toBe('Zwei');
+    });
+
+    it('should write all keys into a single language file', async () => {
+      const filePath = join(tempDir, 'locales', 'de.json');
+      const result = await jsonParser.import(
+        filePath,
+        new Map([
+          ['title', 'Titel'],
+          ['nav.home', 'Start'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 2 });
+      const parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+      expect(parsed).toEqual({ nav: { home: 'Start' }, title: 'Titel' });
+    });
+
+    it('should skip keys without file prefix', async () => {
+      const langDir = join(tempDir, 'de');
+      const result = await jsonParser.import(
+        langDir,
+        new Map([
+          ['common.save', 'Speichern'],
+          ['invalidkey', 'Invalid'],
+        ]),
+      );
+
+      expect(result.keysWritten).toBe(1);
+    });
+
+    it('should refuse to overwrite files that are not valid JSON', async () => {
+      const langDir = join(tempDir, 'de');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(join(langDir, 'common.json'), '{ broken');
+
+      await expect(
+        jsonParser.import(langDir, new Map([['common.save', 'Speichern']])),
+      ).rejects.toThrow('Failed to parse');
+      expect(await readFile(join(langDir, 'common.json'), 'utf-8')).toBe('{ broken');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should detect indentation', () => {
+      expect(detectIndent('{\n    "a": 1\n}')).toBe('    ');
+      expect(detectIndent('{\n\t"a": 1\n}')).toBe('\t');
+      expect(detectIndent('{}')).toBe('  ');
+    });
+
+    it('should detect flat objects', () => {
+      expect(isFlatObject({ 'a.b': 'c' })).toBe(true);
+      expect(isFlatObject({ a: { b: 'c' } })).toBe(false);
+      expect(isFlatObject({ a: 'b' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  resolveLanguageLocation,
+  resolveLayout,
+  validateLayout,
+} from '../../../src/parsers/language-path';
+import type { Parser } from '../../../src/types';
+
+const plainParser: Parser = {
+  name: 'plain',
+  export: async () => new Map(),
+  import: async () => ({ filesCreated: 0, filesModified: 0, keysWritten: 0 }),
+};
+
+describe('language-path', () => {
+  describe('validateLayout', () => {
+    it('should accept layouts containing the {lang} placeholder', () => {
+      expect(validateLayout('{lang}.json')).toBeNull();
+      expect(validateLayout('{lang}/messages')).toBeNull();
+    });
+
+    it('should reject layouts without the placeholder', () => {
+      expect(validateLayout('en.json')).toContain('{lang}');
+    });
+  });
+
+  describe('resolveLayout', () => {
+    it('should resolve file templates to a single file', () => {
+      expect(resolveLayout('/repo/locales', '{lang}.json', 'de')).toEqual({
+        path: '/repo/locales/de.json',
+        kind: 'file',
+      });
+    });
+
+    it('should resolve templates without extension to a directory', () => {
+      expect(resolveLayout('/repo/locales', '{lang}/app', 'de')).toEqual({
+        path: '/repo/locales/de/app',
+        kind: 'directory',
+      });
+    });
+
+    it('should treat templates ending with a slash as directories', () => {
+      expect(resolveLayout('/repo/res', 'values-{lang}.d/', 'de').kind).toBe('directory');
+    });
+  });
+
+  describe('resolveLanguageLocation', () => {
+    it('should default to a directory per language', () => {
+      expect(resolveLanguageLocation(plainParser, '/repo/translations', 'en')).toEqual({
+        path: '/repo/translations/en',
+        kind: 'directory',
+      });
+    });
+
+    it('should use the parser resolution when available', () => {
+      const parser: Parser = {
+        ...plainParser,
+        resolveLanguage: (dir, language) => ({ path: `${dir}/${language}.yml`, kind: 'file' }),
+      };
+
+      expect(resolveLanguageLocation(parser, '/repo/config/locales', 'de')).toEqual({
+        path: '/repo/config/locales/de.yml',
+        kind: 'file',
+      });
+    });
+
+    it('should prefer an explicit layout over the parser resolution', () => {
+      const parser: Parser = {
+        ...plainParser,
+        resolveLanguage: (dir, language) => ({ path: `${dir}/${language}.yml`, kind: 'file' }),
+      };
+
+      expect(resolveLanguageLocation(parser, '/repo/locales', 'de', '{lang}.json').path).toBe(
+        '/repo/locales/de.json',
+      );
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLaravelParser, laravelParser } from '../../../src/parsers/laravel';
+
+const AUTH_PHP = `<?php
+
+return [
+    'failed' => 'These credentials do not match our records.',
+    'throttle' => 'Too many login attempts. Please try again in :seconds seconds.',
+];
+`;
+
+const EN_JSON = `{
+    "Welcome, :name!": "Welcome, :name!",
+    "Log in. Now": "Log in. Now"
+}
+`;
+
+describe('laravelParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-laravel-parser-'));
+    await mkdir(join(tempDir, 'en'));
+    await writeFile(join(tempDir, 'en', 'auth.php'), AUTH_PHP);
+    await writeFile(join(tempDir, 'en.json'), EN_JSON);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "laravel"', () => {
+    expect(laravelParser.name).toBe('laravel');
+  });
+
+  describe('export', () => {
+    it('should read PHP files by file name and the JSON file as its own namespace', async () => {
+      const keys = await laravelParser.export(join(tempDir, 'en'));
+
+      expect(keys).toEqual(
+        new Map([
+          ['auth.failed', 'These credentials do not match our records.'],
+          ['auth.throttle', 'Too many login attempts. Please try again in :seconds seconds.'],
+          ['_json.Welcome, :name!', 'Welcome, :name!'],
+          ['_json.Log in. Now', 'Log in. Now'],
+        ]),
+      );
+    });
+
+    it('should name the PHP file of values that are not strings', async () => {
+      const filePath = join(tempDir, 'en', 'validation.php');
+      await writeFile(
+        filePath,
+        "<?php\n\nreturn [\n    'max' => 255,\n    'min' => 'Too short',\n];\n",
+      );
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        await laravelParser.export(join(tempDir, 'en'));
+
+        expect(warn.mock.calls.map(([message]) => message)).toEqual([
+          `Warning: Skipping 1 value that is not a string in ${filePath} ('validation.max'), only strings are translated`,
+        ]);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should read languages that only have a JSON file', async () => {
+      await writeFile(join(tempDir, 'de.json'), '{"Log in. Now": "Jetzt anmelden"}');
+
+      const keys = await laravelParser.export(join(tempDir, 'de'));
+
+      expect(keys).toEqual(new Map([['_json.Log in. Now', 'Jetzt anmelden']]));
+    });
+
+    it('should use the jsonNamespace option', async () => {
+      const parser = createLaravelParser({ jsonNamespace: 'strings' });
+
+      const keys = await parser.export(join(tempDir, 'en'));
+
+      expect(keys.get('strings.Log in. Now')).toBe('Log in. Now');
+    });
+
+    it('should throw error for non-existent language', async () => {
+      await expect(laravelParser.export(join(tempDir, 'fr'))).rejects.toThrow(
+        'Language directory not found',
+      );
+    });
+  });
+
+  describe('import', () => {
+    it('should create PHP and JSON files for a new language', async () => {
+      const result = await laravelParser.import(
+        join(tempDir, 'de'),
+        new Map([
+          ['auth.failed', 'Diese Zugangsdaten sind ungültig.'],
+          ['auth.password.reset', 'Ihr Passwort wurde zurückgesetzt.'],
+          ['_json.Welcome, :name!', 'Willkommen, :name!'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 2, filesModified: 0, keysWritten: 3 });
+      expect(await readFile(join(tempDir, 'de', 'auth.php'), 'utf-8')).toBe(
+        "<?php\n\nreturn [\n    'failed' => 'Diese Zugangsdaten sind ungültig.',\n    'password' => [\n        'reset' => 'Ihr Passwort wurde zurückgesetzt.',\n    ],\n];\n",
+      );
+      expect(await readFile(join(tempDir, 'de.json'), 'utf-8')).toBe(
+        '{\n    "Welcome, :name!": "Willkommen, :name!"\n}\n',
+      );
+    });
+
+    it('should update existing files in place', async () => {
+      const result = await laravelParser.import(
+        join(tempDir, 'en'),
+        new Map([
+          ['auth.throttle', 'Slow down, wait :seconds seconds.'],
+          ['auth.password', 'The provided password is incorrect.'],
+          ['_json.Log out', 'Log out'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 2, keysWritten: 3 });
+      expect(await readFile(join(tempDir, 'en', 'auth.php'), 'utf-8')).toBe(
+        AUTH_PHP.replace(
+          "    'throttle' => 'Too many login attempts. Please try again in :seconds seconds.',\n",
+          "    'throttle' => 'Slow down, wait :seconds seconds.',\n    'password' => 'The provided password is incorrect.',\n",
+        ),
+      );
+      expect(await readFile(join(tempDir, 'en.json'), 'utf-8')).toBe(
+        EN_JSON.replace('"Log in. Now"\n', '"Log in. Now",\n    "Log out": "Log out"\n'),
+      );
+    });
+
+    it('should round-trip through export', async () => {
+      const translations = await laravelParser.export(join(tempDir, 'en'));
+
+      await laravelParser.import(join(tempDir, 'fr'), translations);
+
+      expect(await laravelParser.export(join(tempDir, 'fr'))).toEqual(translations);
+    });
+
+    it('should skip keys without file prefix', async () => {
+      const result = await laravelParser.import(join(tempDir, 'de'), new Map([['orphan', 'x']]));
+
+      expect(result.keysWritten).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  moduleToObject,
+  parseModuleSource,
+  removeFromModuleSource,
+  renderModule,
+  updateModuleSource,
+} from '../../../src/parsers/module-source';
+
+const TS_MODULE = `import type { Messages } from '../types';
+
+// Shared labels
+const actions = { save: 'Save' };
+
+export default {
+  title: 'Hello', // shown in the header
+  nested: {
+    long: 'Part one, ' + "part two",
+    template: \`Plain template\`,
+  },
+  actions,
+  'dotted.key': 'Dotted',
+} satisfies Messages;
+`;
+
+describe('parseModuleSource', () => {
+  it('should read default exports with TypeScript clauses and references', () => {
+    const source = parseModuleSource(TS_MODULE, 'en/common.ts');
+
+    expect(source.style).toBe('esm');
+    expect(moduleToObject(source)).toEqual({
+      title: 'Hello',
+      nested: { long: 'Part one, part two', template: 'Plain template' },
+      actions: { save: 'Save' },
+      'dotted.key': 'Dotted',
+    });
+  });
+
+  it('should read named exports declared as const', () => {
+    const source = parseModuleSource(
+      "export const common = { back: 'Back' } as const;\nexport const errors = { notFound: 'Not found' } as const;\n",
+      'en.ts',
+    );
+
+    expect(source.root).toBeUndefined();
+    expect(source.asConst).toBe(true);
+    expect(moduleToObject(source)).toEqual({
+      common: { back: 'Back' },
+      errors: { notFound: 'Not found' },
+    });
+  });
+
+  it('should read CommonJS modules', () => {
+    const source = parseModuleSource(
+      '\'use strict\';\n\nmodule.exports = {\n  "back": "Zur\\u00fcck",\n};\n',
+      'de/generic.js',
+    );
+
+    expect(source.style).toBe('commonjs');
+    expect(source.format.quote).toBe('"');
+    expect(moduleToObject(source)).toEqual({ back: 'Zurück' });
+  });
+
+  it('should reject dynamic values with file and line', () => {
+    expect(() =>
+      parseModuleSource("export default {\n  title: t('title'),\n};\n", 'en/common.js'),
+    ).toThrow("Failed to parse en/common.js:2: dynamic value is not supported: `t('title'),`");
+    expect(() => parseModuleSource('export default {\n  ...shared,\n};\n', 'en/common.js')).toThrow(
+      'en/common.js:2: spread is not supported',
+    );
+    expect(() =>
+      parseModuleSource('export default {\n  a: `Hi ${name}`,\n};\n', 'en/common.js'),
+    ).toThrow('en/common.js:2: dynamic value is not supported');
+  });
+
+  it('should ignore dynamic code that is not exported', () => {
+    const source = parseModuleSource(
+      "export const locale = detectLocale();\nexport default { a: 'A' };\n",
+      'en.js',
+    );
+
+    expect(moduleToObject(source)).toEqual({ a: 'A' });
+  });
+});
+
+describe('updateModuleSource', () => {
+  it('should replace values and insert keys without touching other lines', () => {
+    const result = updateModuleSource(
+      TS_MODULE,
+      new Map([
+        ['title', "It's here"],
+        ['nested.added', 'Added'],
+        ['actions.cancel', 'Cancel'],
+        ['dotted.key', 'Punkt'],
+        ['fresh.deep', 'Deep'],
+      ]),
+      'de/common.ts',
+      'esm',
+    );
+
+    expect(result).toBe(`import type { Messages } from '../types';
+
+// Shared labels
+const actions = { save: 'Save', cancel: 'Cancel' };
+
+export default {
+  title: 'It\\'s here', // shown in the header
+  nested: {
+    long: 'Part one, ' + "part two",
+    template: \`Plain template\`,
+    added: 'Added',
+  },
+  actions,
+  'dotted.key': 'Punkt',
+  fresh: {
+    deep: 'Deep',
+  },
+} satisfies Messages;
+`);
+  });
+
+  it('should follow the file style when it has no trailing commas or semicolons', () => {
+    const result = updateModuleSource(
+      'module.exports = {\n    "a": "A"\n}\n',
+      new Map([['b', 'B']]),
+      'de.js',
+      'commonjs',
+    );
+
+    expect(result).toBe('module.exports = {\n    "a": "A",\n    "b": "B"\n}\n');
+  });
+
+  it('should add missing named exports', () => {
+    const result = updateModuleSource(
+      "export const common = { back: 'Back' } as const;\n",
+      new Map([['errors.notFound', 'Not found']]),
+      'en.ts',
+      'esm',
+    );
+
+    expect(result).toBe(
+      "export const common = { back: 'Back' } as const;\n\nexport const errors = {\n  notFound: 'Not found',\n} as const;\n",
+    );
+  });
+
+  it('should fill empty files and objects', () => {
+    expect(updateModuleSource('', new Map([['a.b', 'B']]), 'de.js', 'commonjs')).toBe(
+      "module.exports = {\n  a: {\n    b: 'B',\n  },\n};\n",
+    );
+    expect(updateModuleSource('export default {};\n', new Map([['a', 'A']]), 'de.ts', 'esm')).toBe(
+      "export default {\n  a: 'A',\n};\n",
+    );
+  });
+
+  it('should replace and append array items', () => {
+    const result = updateModuleSource(
+      "module.exports = {\n  steps: [\n    'One',\n    { title: 'Two' },\n  ],\n  tags: ['a'],\n};\n",
+      new Map([
+        ['steps.0', 'Eins'],
+        ['steps.1.title', 'Zwei'],
+        ['steps.2', 'Drei'],
+        ['tags.1', 'b'],
+        ['tags.3', 'd'],
+      ]),
+      'de.js',
+      'commonjs',
+    );
+
+    expect(result).toBe(
+      "module.exports = {\n  steps: [\n    'Eins',\n    { title: 'Zwei' },\n    'Drei',\n  ],\n  tags: ['a', 'b'],\n};\n",
+    );
+  });
+});
+
+describe('removeFromModuleSource', () => {
+  it('should remove lines and objects left empty', () => {
+    const result = removeFromModuleSource(
+      [
+        'module.exports = {',
+        "  title: 'Title', // header",
+        '  old: {',
+        "    gone: 'Gone',",
+        '  },',
+        "  inline: { a: 'A', b: 'B', c: 'C' },",
+        "  steps: ['One', 'Two'],",
+        "  last: 'Last',",
+        '};',
+        '',
+      ].join('\n'),
+      ['old.gone', 'inline.b', 'inline.c', 'steps.1', 'last', 'missing.key'],
+      'de.js',
+    );
+
+    expect(result.removed).toEqual(['old.gone', 'inline.b', 'inline.c', 'steps.1', 'last']);
+    expect(result.empty).toBe(false);
+    expect(result.content).toBe(
+      [
+        'module.exports = {',
+        "  title: 'Title', // header",
+        "  inline: { a: 'A' },",
+        "  steps: ['One'],",
+        '};',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should keep files without trailing commas valid', () => {
+    const result = removeFromModuleSource(
+      'module.exports = {\n    "a": "A",\n    "b": "B"\n}\n',
+      ['b'],
+      'de.js',
+    );
+
+    expect(result.content).toBe('module.exports = {\n    "a": "A"\n}\n');
+  });
+
+  it('should report modules left without translations', () => {
+    const result = removeFromModuleSource(
+      "export const common = {\n  back: 'Back',\n};\n",
+      ['common.back'],
+      'de.ts',
+    );
+
+    expect(result.empty).toBe(true);
+    expect(result.content).toBe('export const common = {};\n');
+  });
+});
+
+describe('renderModule', () => {
+  it('should render default and named exports', () => {
+    expect(renderModule({ a: 'A' }, 'esm', undefined, { asConst: true })).toBe(
+      "export default {\n  a: 'A',\n} as const;\n",
+    );
+    expect(renderModule({ common: { a: 'A' } }, 'esm', undefined, { named: true })).toBe(
+      "export const common = {\n  a: 'A',\n};\n",
+    );
+  });
+
+  it('should render arrays', () => {
+    expect(renderModule({ steps: ['One', { title: 'Two' }] }, 'commonjs')).toBe(
+      "module.exports = {\n  steps: [\n    'One',\n    {\n      title: 'Two',\n    },\n  ],\n};\n",
+    );
+  });
+});
@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it } from 'bun:test';
 import { join } from 'node:path';
 import { clearParsers, getParser, registerParser } from '../../../src/parsers';
-import { nodeModuleParser } from '../../../src/parsers/node-module';
+import { createNodeModuleParser, nodeModuleParser } from '../../../src/parsers/node-module';
 
 const FIXTURES_PATH = join(import.meta.dir, '../../fixtures/sample-repo/translations');
 
@@ -72,6 +72,48 @@ describe('nodeModuleParser', () => {
 
       await expect(nodeModuleParser.export(langDir)).rejects.toThrow();
     });
+
+    it('should export nested directories as dotted namespaces', async () => {
+      const { mkdir, mkdtemp, writeFile } = await import('node:fs/promises');
+      const { tmpdir } = await import('node:os');
+      const langDir = await mkdtemp(join(tmpdir(), 'node-module-'));
+      await mkdir(join(langDir, 'admin'));
+      await writeFile(join(langDir, 'admin', 'users.js'), "module.exports = { title: 'Users' };\n");
+      await writeFile(join(langDir, 'admin', 'index.js'), "module.exports = { skipped: 'yes' };\n");
+      await writeFile(join(langDir, 'index.js'), "module.exports = { skipped: 'yes' };\n");
+
+      const keys = await nodeModuleParser.export(langDir);
+      expect([...keys]).toEqual([['admin.users.title', 'Users']]);
+
+      const withIndex = await createNodeModuleParser({ includeIndex: true }).export(langDir);
+      expect(withIndex.get('admin.index.skipped')).toBe('yes');
+      expect(withIndex.get('index.skipped')).toBe('yes');
+    });
+
+    it('should read modules without executing them', async () => {
+      const { mkdtemp, writeFile } = await import('node:fs/promises');
+      const { tmpdir } = await import('node:os');
+      const modulePath = join(await mkdtemp(join(tmpdir(), 'node-module-')), 'de.js');
+      await writeFile(
+        modulePath,
+        "globalThis.executed = true;\nmodule.exports = {\n  hello: 'Hallo',\n  bye: ['Tschüss'].join(''),\n};\n",
+      );
+
+      await expect(nodeModuleParser.export(modulePath)).rejects.toThrow(
+        `Failed to parse ${modulePath}:4: dynamic value is not supported`,
+      );
+      expect((globalThis as Record<string, unknown>).executed).toBeUndefined();
+    });
+
+    it('should execute modules with allowEval', async () => {
+      const { mkdtemp, writeFile } = await import('node:fs/promises');
+      const { tmpdir } = await import('node:os');
+      const modulePath = join(await mkdtemp(join(tmpdir(), 'node-module-')), 'de.js');
+      await writeFile(modulePath, "module.exports = { bye: ['Tschü', 'ss'].join('') };\n");
+
+      const keys = await nodeModuleParser.configure!({ allowEval: true }).export(modulePath);
+      expect(keys.get('bye')).toBe('Tschüss');
+    });
   });
 
   describe('import', () => {
@@ -192,6 +234,22 @@ describe('nodeModuleParser', () => {
       expect(exported.get('generic.hello')).toBe('Bonjour');
     });
 
+    it('should read and write a single module per language', async () => {
+      const filePath = join(TEMP_PATH, 'de.js');
+      const translations = new Map([
+        ['title', 'Titel'],
+        ['nav.home', 'Start'],
+      ]);
+
+      const result = await nodeModuleParser.import(filePath, translations);
+
+      expect(result.filesCreated).toBe(1);
+      expect(result.keysWritten).toBe(2);
+      const exported = await nodeModuleParser.export(filePath);
+      expect(exported.get('title')).toBe('Titel');
+      expect(exported.get('nav.home')).toBe('Start');
+    });
+
     it('should handle empty translations map', async () => {
       const langDir = join(TEMP_PATH, 'de');
       const translations = new Map<string, string>();
@@ -236,6 +294,119 @@ describe('nodeModuleParser', () => {
       expect(exported.get('settings.account.security.password')).toBe('Passwort');
     });
 
+    it('should only add the new lines to existing modules', async () => {
+      const { mkdir, readFile, writeFile } = await import('node:fs/promises');
+      const langDir = join(TEMP_PATH, 'de');
+      await mkdir(langDir, { recursive: true });
+      const original = [
+        '// Generic labels',
+        'module.exports = {',
+        "  back: 'Zurück', // navigation",
+        '  settings: {',
+        "    title: 'Einstellungen',",
+        '  },',
+        '};',
+        '',
+      ].join('\n');
+      await writeFile(join(langDir, 'generic.js'), original);
+
+      const result = await nodeModuleParser.import(
+        langDir,
+        new Map([
+          ['generic.save', 'Speichern'],
+          ['generic.settings.privacy', 'Datenschutz'],
+        ]),
+      );
+
+      expect(result.filesModified).toBe(1);
+      expect(await readFile(join(langDir, 'generic.js'), 'utf-8')).toBe(
+        [
+          '// Generic labels',
+          'module.exports = {',
+          "  back: 'Zurück', // navigation",
+          '  settings: {',
+          "    title: 'Einstellungen',",
+          "    privacy: 'Datenschutz',",
+          '  },',
+          "  save: 'Speichern',",
+          '};',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should format new modules like the same module in another language', async () => {
+      const { mkdir, readFile, writeFile } = await import('node:fs/promises');
+      await mkdir(join(TEMP_PATH, 'en'), { recursive: true });
+      await writeFile(
+        join(TEMP_PATH, 'en', 'generic.js'),
+        "module.exports = {\n    back: 'Back'\n}\n",
+      );
+
+      await nodeModuleParser.import(join(TEMP_PATH, 'de'), new Map([['generic.back', 'Zurück']]));
+
+      expect(await readFile(join(TEMP_PATH, 'de', 'generic.js'), 'utf-8')).toBe(
+        "module.exports = {\n    back: 'Zurück'\n}\n",
+      );
+    });
+
+    it('should map nested namespaces back to nested modules', async () => {
+      const { mkdir, readFile, writeFile } = await import('node:fs/promises');
+      await mkdir(join(TEMP_PATH, 'en', 'admin'), { recursive: true });
+      await writeFile(
+        join(TEMP_PATH, 'en', 'admin', 'users.js'),
+        "module.exports = {\n    title: 'Users'\n}\n",
+      );
+      await writeFile(join(TEMP_PATH, 'en', 'admin.js'), "module.exports = { menu: 'Admin' };\n");
+
+      const result = await nodeModuleParser.import(
+        join(TEMP_PATH, 'de'),
+        new Map([
+          ['admin.users.title', 'Benutzer'],
+          ['admin.menu', 'Verwaltung'],
+        ]),
+      );
+
+      expect(result.filesCreated).toBe(2);
+      expect(await readFile(join(TEMP_PATH, 'de', 'admin', 'users.js'), 'utf-8')).toBe(
+        "module.exports = {\n    title: 'Benutzer'\n}\n",
+      );
+      const exported = await nodeModuleParser.export(join(TEMP_PATH, 'de'));
+      expect(exported.get('admin.users.title')).toBe('Benutzer');
+      expect(exported.get('admin.menu')).toBe('Verwaltung');
+    });
+
+    it('should refuse to rewrite dynamic modules without allowEval', async () => {
+      const { mkdir, writeFile } = await import('node:fs/promises');
+      const langDir = join(TEMP_PATH, 'de');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(
+        join(langDir, 'generic.js'),
+        "module.exports = { hello: ['Hallo', 'Welt'].join(' ') };\n",
+      );
+
+      await expect(
+        nodeModuleParser.import(langDir, new Map([['generic.bye', 'Tschüss']])),
+      ).rejects.toThrow('--allow-eval');
+    });
+
+    it('should rewrite modules that cannot be edited in place with allowEval', async () => {
+      const { mkdir, writeFile } = await import('node:fs/promises');
+      const langDir = join(TEMP_PATH, 'de');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(
+        join(langDir, 'generic.js'),
+        "module.exports = { hello: ['Hallo', 'Welt'].join(' ') };\n",
+      );
+
+      const parser = createNodeModuleParser({ allowEval: true });
+      await parser.import(langDir, new Map([['generic.bye', 'Tschüss']]));
+
+      const exported = await parser.export(langDir);
+      expect(exported.get('generic.hello')).toBe('Hallo Welt');
+      expect(exported.get('generic.bye')).toBe('Tschüss');
+    });
+
     it('should handle special characters in values', async () => {
       const langDir = join(TEMP_PATH, 'de');
       const translations = new Map([
@@ -252,4 +423,32 @@ describe('nodeModuleParser', () => {
       expect(exported.get('generic.unicode')).toBe('日本語テスト');
     });
   });
+
+  describe('remove', () => {
+    it('should remove keys and delete modules and directories left empty', async () => {
+      const { mkdir, mkdtemp, readFile, writeFile } = await import('node:fs/promises');
+      const { existsSync } = await import('node:fs');
+      const { tmpdir } = await import('node:os');
+      const langDir = await mkdtemp(join(tmpdir(), 'node-module-'));
+      await mkdir(join(langDir, 'admin'));
+      await writeFile(join(langDir, 'admin', 'users.js'), "module.exports = { title: 'Users' };\n");
+      await writeFile(
+        join(langDir, 'generic.js'),
+        "module.exports = {\n  back: 'Back',\n  old: 'Old',\n};\n",
+      );
+
+      const result = await nodeModuleParser.remove!(langDir, [
+        'admin.users.title',
+        'generic.old',
+        'generic.missing',
+        'unknown.key',
+      ]);
+
+      expect(result).toEqual({ filesModified: 1, filesDeleted: 1, keysRemoved: 2 });
+      expect(existsSync(join(langDir, 'admin'))).toBe(false);
+      expect(await readFile(join(langDir, 'generic.js'), 'utf-8')).toBe(
+        "module.exports = {\n  back: 'Back',\n};\n",
+      );
+    });
+  });
 });
@@ -0,0 +1,95 @@
+import { afterAll, afterEach, describe, expect, it, spyOn } from 'bun:test';
+import {
+  deepMerge,
+  flattenObject,
+  isArrayIndex,
+  setNestedValue,
+} from '../../../src/parsers/object-utils';
+
+describe('object-utils', () => {
+  const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+  afterEach(() => {
+    warn.mockClear();
+  });
+
+  afterAll(() => {
+    warn.mockRestore();
+  });
+
+  describe('flattenObject', () => {
+    it('should flatten array items to indexed keys', () => {
+      const keys = flattenObject({
+        onboarding: { steps: ['Sign up', { title: 'Invite' }] },
+      });
+
+      expect([...keys]).toEqual([
+        ['onboarding.steps.0', 'Sign up'],
+        ['onboarding.steps.1.title', 'Invite'],
+      ]);
+    });
+
+    it('should report values that are not strings', () => {
+      const keys = flattenObject({ title: 'Title', limit: 3, rtl: false, empty: null }, 'app');
+
+      expect([...keys]).toEqual([['app.title', 'Title']]);
+      expect(warn.mock.calls.map(([message]) => message)).toEqual([
+        "Warning: Skipping 3 values that are not strings ('app.limit', 'app.rtl', 'app.empty'), only strings are translated",
+      ]);
+    });
+
+    it('should name the file the values were read from', () => {
+      flattenObject({ title: 'Title', limit: 3 }, 'app', 'locales/en/app.json');
+
+      expect(warn.mock.calls.map(([message]) => message)).toEqual([
+        "Warning: Skipping 1 value that is not a string in locales/en/app.json ('app.limit'), only strings are translated",
+      ]);
+    });
+
+    it('should summarize many values that are not strings in one warning', () => {
+      flattenObject({ a: 1, b: 2, c: { d: true, e: null }, f: 'F' });
+      flattenObject({ title: 'Title' });
+
+      expect(warn.mock.calls.map(([message]) => message)).toEqual([
+        "Warning: Skipping 4 values that are not strings ('a', 'b', 'c.d', 1 more), only strings are translated",
+      ]);
+    });
+  });
+
+  describe('setNestedValue', () => {
+    it('should restore arrays from indexed keys', () => {
+      const obj: Record<string, unknown> = {};
+      setNestedValue(obj, 'steps.0', 'One');
+      setNestedValue(obj, 'steps.1.title', 'Two');
+      setNestedValue(obj, 'errors.404', 'Not found');
+
+      expect(obj).toEqual({ steps: ['One', { title: 'Two' }], errors: { 404: 'Not found' } });
+    });
+
+    it('should turn arrays into objects for named keys', () => {
+      const obj: Record<string, unknown> = { steps: ['One'] };
+      setNestedValue(obj, 'steps.title', 'Steps');
+
+      expect(obj).toEqual({ steps: { 0: 'One', title: 'Steps' } });
+    });
+  });
+
+  describe('deepMerge', () => {
+    it('should merge indexed items into existing arrays', () => {
+      const merged = deepMerge(
+        { steps: ['One', 'Two'], title: 'Title' },
+        { steps: { 1: 'Zwei', 2: 'Drei' } },
+      );
+
+      expect(merged).toEqual({ steps: ['One', 'Zwei', 'Drei'], title: 'Title' });
+    });
+  });
+
+  it('should recognize array indexes', () => {
+    expect(isArrayIndex('0')).toBe(true);
+    expect(isArrayIndex('12')).toBe(true);
+    expect(isArrayIndex('01')).toBe(false);
+    expect(isArrayIndex('-1')).toBe(false);
+    expect(isArrayIndex('a')).toBe(false);
+  });
+});
@@ -67,6 +67,35 @@ export const parser = {
     expect(exported.get('custom.key')).toBe('Value from JS');
   });
 
+  it('passes options to parsers with configure', async () => {
+    const parserFilePath = join(tempDir, 'configurable-parser.ts');
+    await writeFile(
+      parserFilePath,
+      `
+function createParser(indent: number) {
+  return {
+    name: 'configurable-parser',
+    configure: (options: { indent?: number }) => createParser(options.indent ?? 2),
+    async export() {
+      return new Map([['indent', String(indent)]]);
+    },
+    async import() {
+      return { filesCreated: 0, filesModified: 0, keysWritten: 0 };
+    },
+  };
+}
+
+export const parser = createParser(2);
+`,
+      'utf8',
+    );
+
+    const parser = await loadParserFromFile(parserFilePath, { indent: 4 });
+
+    const exported = await parser.export('/unused');
+    expect(exported.get('indent')).toBe('4');
+  });
+
   it('throws when parser file does not implement required parser shape', async () => {
     const parserFilePath = join(tempDir, 'invalid-parser.ts');
     await writeFile(parserFilePath, `export default { name: 'invalid' };`, 'utf8');
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { registerParser } from '../../../src/parsers';
+import { jsonParser } from '../../../src/parsers/json';
+import { nodeModuleParser } from '../../../src/parsers/node-module';
+import { isParserFilePath, loadParser, setParserOption } from '../../../src/parsers/parser-loader';
+import type { ParserOptions } from '../../../src/types';
+
+const FACTORY_SOURCE = `
+export default function createParser(options) {
+  return {
+    name: 'options-parser',
+    async export() {
+      return new Map([['options', JSON.stringify(options)]]);
+    },
+    async import() {
+      return { filesCreated: 0, filesModified: 0, keysWritten: 0 };
+    },
+  };
+}
+`;
+
+describe('parser-loader', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-parser-loader-'));
+    // Other test files clear the registry
+    registerParser(nodeModuleParser);
+    registerParser(jsonParser);
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('loadParser', () => {
+    it('returns registered parsers by name', async () => {
+      expect(await loadParser('json')).toBe(jsonParser);
+    });
+
+    it('configures registered parsers with the options', async () => {
+      const parser = await loadParser('node-module', { allowEval: true });
+      expect(parser.name).toBe('node-module');
+      expect(parser).not.toBe(nodeModuleParser);
+    });
+
+    it('loads parser factories from files with the options', async () => {
+      const parserFilePath = join(tempDir, 'factory-parser.js');
+      await writeFile(parserFilePath, FACTORY_SOURCE, 'utf8');
+
+      const parser = await loadParser(parserFilePath, { indent: 4 });
+      expect(parser.name).toBe('options-parser');
+      expect((await parser.export('/unused')).get('options')).toBe('{"indent":4}');
+    });
+
+    it('loads parsers from packages installed in the base directory', async () => {
+      const packageDir = join(tempDir, 'node_modules', '@acme', 'curlydots-parser-foo');
+      await mkdir(packageDir, { recursive: true });
+      await writeFile(
+        join(packageDir, 'package.json'),
+        JSON.stringify({ name: '@acme/curlydots-parser-foo', type: 'module', main: 'index.js' }),
+        'utf8',
+      );
+      await writeFile(join(packageDir, 'index.js'), FACTORY_SOURCE, 'utf8');
+
+      const parser = await loadParser('@acme/curlydots-parser-foo', { keySeparator: ':' }, tempDir);
+      expect(parser.name).toBe('options-parser');
+      expect((await parser.export('/unused')).get('options')).toBe('{"keySeparator":":"}');
+    });
+
+    it('throws for names that are neither registered nor installed', async () => {
+      await expect(loadParser('curlydots-parser-missing', {}, tempDir)).rejects.toThrow(
+        'Unknown parser: curlydots-parser-missing',
+      );
+    });
+
+    it('throws when a package does not export a parser', async () => {
+      const packageDir = join(tempDir, 'node_modules', 'not-a-parser');
+      await mkdir(packageDir, { recursive: true });
+      await writeFile(
+        join(packageDir, 'package.json'),
+        JSON.stringify({ name: 'not-a-parser', type: 'module', main: 'index.js' }),
+        'utf8',
+      );
+      await writeFile(join(packageDir, 'index.js'), 'export default { name: "x" };', 'utf8');
+
+      await expect(loadParser('not-a-parser', {}, tempDir)).rejects.toThrow(
+        'Parser package not-a-parser must export a parser with name/export/import functions',
+      );
+    });
+  });
+
+  describe('isParserFilePath', () => {
+    it('treats relative, absolute and script paths as files', () => {
+      expect(isParserFilePath('./parser')).toBe(true);
+      expect(isParserFilePath('/opt/parser')).toBe(true);
+      expect(isParserFilePath('parsers/custom.ts')).toBe(true);
+    });
+
+    it('treats package names as packages', () => {
+      expect(isParserFilePath('@acme/curlydots-parser-foo')).toBe(false);
+      expect(isParserFilePath('curlydots-parser-foo')).toBe(false);
+    });
+  });
+
+  describe('setParserOption', () => {
+    it('converts booleans and numbers', () => {
+      const options: ParserOptions = {};
+      setParserOption(options, 'indent=4');
+      setParserOption(options, 'sortKeys=false');
+      setParserOption(options, 'keySeparator=:');
+      setParserOption(options, 'trailingNewline');
+
+      expect(options).toEqual({
+        indent: 4,
+        sortKeys: false,
+        keySeparator: ':',
+        trailingNewline: true,
+      });
+    });
+
+    it('keeps empty values as strings', () => {
+      const options: ParserOptions = {};
+      setParserOption(options, 'prefix=');
+      expect(options).toEqual({ prefix: '' });
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'bun:test';
+import { lineAt, normalizeLocale } from '../../../src/parsers/parser-utils';
+
+describe('parser-utils', () => {
+  describe('lineAt', () => {
+    it('returns the 1-indexed line of an offset', () => {
+      const content = 'first\nsecond\nthird';
+
+      expect(lineAt(content, 0)).toBe(1);
+      expect(lineAt(content, content.indexOf('second'))).toBe(2);
+      expect(lineAt(content, content.length)).toBe(3);
+    });
+  });
+
+  describe('normalizeLocale', () => {
+    it('compares language codes and file name locales alike', () => {
+      expect(normalizeLocale('pt-BR')).toBe('pt_br');
+      expect(normalizeLocale('pt_BR')).toBe('pt_br');
+      expect(normalizeLocale('de')).toBe('de');
+    });
+  });
+});
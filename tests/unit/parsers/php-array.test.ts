@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  parsePhpArraySource,
+  phpArrayToObject,
+  quotePhpString,
+  renderPhpArrayFile,
+  updatePhpArraySource,
+} from '../../../src/parsers/php-array';
+
+const AUTH_PHP = `<?php
+
+declare(strict_types=1);
+
+return [
+    /*
+    | Authentication Language Lines
+    */
+    'failed' => 'These credentials do not match our records.', // shown on login
+    'throttle' => "Too many attempts.\\nTry again in :seconds seconds.",
+    'nested' => array(
+        'quote' => 'It\\'s ' . 'here',
+        'list' => ['a', 'b'],
+    ),
+    'count' => 3,
+    # Laravel keeps this empty
+    'empty' => [],
+];
+`;
+
+function update(content: string, translations: Record<string, string>): string {
+  return updatePhpArraySource(
+    parsePhpArraySource(content, 'en/auth.php'),
+    new Map(Object.entries(translations)),
+    'en/auth.php',
+  ).content;
+}
+
+describe('parsePhpArraySource', () => {
+  it('should read returned arrays with comments, both quotes and concatenation', () => {
+    const source = parsePhpArraySource(AUTH_PHP, 'en/auth.php');
+
+    expect(phpArrayToObject(source.root)).toEqual({
+      failed: 'These credentials do not match our records.',
+      throttle: 'Too many attempts.\nTry again in :seconds seconds.',
+      nested: { quote: "It's here", list: ['a', 'b'] },
+      count: 3,
+      empty: [],
+    });
+  });
+
+  it('should read integer keys and negative numbers', () => {
+    const source = parsePhpArraySource("<?php\nreturn [1 => 'One', 'min' => -1, 'x'];\n", 'a.php');
+
+    expect(phpArrayToObject(source.root)).toEqual({ 1: 'One', min: -1, 2: 'x' });
+  });
+
+  it('should reject values that need PHP to evaluate', () => {
+    expect(() =>
+      parsePhpArraySource("<?php\nreturn [\n    'app' => config('app.name'),\n];\n", 'en/app.php'),
+    ).toThrow("Failed to parse en/app.php:3: unsupported value 'config'");
+    expect(() =>
+      parsePhpArraySource('<?php\nreturn ["hi" => "Hi $name"];\n', 'en/app.php'),
+    ).toThrow('string interpolation is not supported');
+    expect(() => parsePhpArraySource('<?php\n$lines = [];\n', 'en/app.php')).toThrow(
+      'file does not return an array',
+    );
+  });
+});
+
+describe('updatePhpArraySource', () => {
+  it('should replace values in place, keeping quotes and comments', () => {
+    const content = update(AUTH_PHP, {
+      failed: "Ces identifiants sont incorrects, n'est-ce pas ?",
+      throttle: 'Trop de tentatives, réessayez dans :seconds secondes ($)',
+    });
+
+    expect(content).toContain(
+      "    'failed' => 'Ces identifiants sont incorrects, n\\'est-ce pas ?', // shown on login\n",
+    );
+    expect(content).toContain(
+      '    \'throttle\' => "Trop de tentatives, réessayez dans :seconds secondes (\\$)",\n',
+    );
+    expect(content).toContain('    | Authentication Language Lines\n');
+  });
+
+  it('should leave unchanged values alone', () => {
+    expect(update(AUTH_PHP, { 'nested.quote': "It's here" })).toBe(AUTH_PHP);
+  });
+
+  it('should add new keys at the end of the deepest existing array', () => {
+    const content = update(AUTH_PHP, {
+      'nested.other': 'Other',
+      'nested.list.2': 'c',
+      'empty.first': 'First',
+      'password.reset': 'Reset',
+    });
+
+    expect(content).toContain(
+      "        'list' => ['a', 'b', 'c'],\n        'other' => 'Other',\n    ),\n",
+    );
+    expect(content).toContain("    'empty' => [\n        'first' => 'First',\n    ],\n");
+    expect(content).toContain("    'password' => [\n        'reset' => 'Reset',\n    ],\n];\n");
+    expect(phpArrayToObject(parsePhpArraySource(content, 'en/auth.php').root)).toMatchObject({
+      nested: { other: 'Other', list: ['a', 'b', 'c'] },
+      empty: { first: 'First' },
+      password: { reset: 'Reset' },
+    });
+  });
+
+  it('should add a comma after a last entry without one', () => {
+    const content = update("<?php\nreturn [\n    'a' => 'A'\n];\n", { b: 'B' });
+
+    expect(content).toBe("<?php\nreturn [\n    'a' => 'A',\n    'b' => 'B',\n];\n");
+  });
+
+  it('should skip keys that conflict with existing values', () => {
+    const result = updatePhpArraySource(
+      parsePhpArraySource(AUTH_PHP, 'en/auth.php'),
+      new Map([['failed.reason', 'Reason']]),
+      'en/auth.php',
+    );
+
+    expect(result).toEqual({ content: AUTH_PHP, written: 0 });
+  });
+});
+
+describe('renderPhpArrayFile', () => {
+  it('should render nested arrays with four-space indentation', () => {
+    expect(renderPhpArrayFile({ title: 'Title', actions: { save: "Don't save" } })).toBe(
+      "<?php\n\nreturn [\n    'title' => 'Title',\n    'actions' => [\n        'save' => 'Don\\'t save',\n    ],\n];\n",
+    );
+  });
+
+  it('should quote backslashes', () => {
+    expect(quotePhpString('C:\\path')).toBe("'C:\\\\path'");
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createPropertiesParser,
+  decodeProperties,
+  escapeProperties,
+  parseBundleFileName,
+  parseProperties,
+  propertiesParser,
+  updateProperties,
+} from '../../../src/parsers/properties';
+
+const MESSAGES = `# Login page
+login.title = Sign in
+login.welcome = Welcome back, {0}!
+! Shown below the form
+login.help = Don''t have an account? \\
+    Sign up
+login.path:C:\\\\Users
+login.unicode=Caf\\u00e9
+empty
+`;
+
+describe('parseProperties', () => {
+  it('should read separators, continuations, escapes and comments', () => {
+    const entries = parseProperties(MESSAGES, 'messages.properties');
+
+    expect(entries.map((entry) => [entry.key, entry.value, entry.comment])).toEqual([
+      ['login.title', 'Sign in', 'Login page'],
+      ['login.welcome', 'Welcome back, {0}!', undefined],
+      ['login.help', "Don''t have an account? Sign up", 'Shown below the form'],
+      ['login.path', 'C:\\Users', undefined],
+      ['login.unicode', 'Café', undefined],
+      ['empty', '', undefined],
+    ]);
+  });
+
+  it('should read escaped separators in keys and whitespace separators', () => {
+    const entries = parseProperties('key\\ with\\=sign value\\n2\n', 'a.properties');
+
+    expect(entries.map((entry) => [entry.key, entry.value])).toEqual([
+      ['key with=sign', 'value\n2'],
+    ]);
+  });
+
+  it('should reject malformed unicode escapes', () => {
+    expect(() => parseProperties('a=1\nb=\\u00zz\n', 'messages.properties')).toThrow(
+      'Failed to parse messages.properties:2: malformed \\uXXXX escape',
+    );
+  });
+});
+
+describe('escapeProperties', () => {
+  it('should escape non-ASCII characters depending on the encoding', () => {
+    expect(escapeProperties('Café ☕', 'ascii')).toBe('Caf\\u00E9 \\u2615');
+    expect(escapeProperties('Café ☕', 'iso-8859-1')).toBe('Café \\u2615');
+    expect(escapeProperties('Café ☕', 'utf-8')).toBe('Café ☕');
+  });
+
+  it('should escape separators in keys and leading spaces in values', () => {
+    expect(escapeProperties('a key=b', 'ascii', true)).toBe('a\\ key\\=b');
+    expect(escapeProperties(' a=b\n', 'ascii')).toBe('\\ a=b\\n');
+  });
+});
+
+describe('decodeProperties', () => {
+  it('should detect ASCII, UTF-8 and ISO-8859-1 files', () => {
+    expect(decodeProperties(Buffer.from('a=Caf\\u00e9')).encoding).toBe('ascii');
+    expect(decodeProperties(Buffer.from('a=Café', 'utf-8'))).toEqual({
+      text: 'a=Café',
+      encoding: 'utf-8',
+    });
+    expect(decodeProperties(Buffer.from('a=Café', 'latin1'))).toEqual({
+      text: 'a=Café',
+      encoding: 'iso-8859-1',
+    });
+  });
+});
+
+describe('parseBundleFileName', () => {
+  it('should split the bundle name and locale', () => {
+    expect(parseBundleFileName('messages_pt_BR.properties')).toEqual({
+      basename: 'messages',
+      locale: 'pt_BR',
+    });
+    expect(parseBundleFileName('error_messages_de.properties')).toEqual({
+      basename: 'error_messages',
+      locale: 'de',
+    });
+    expect(parseBundleFileName('messages.properties')).toEqual({ basename: 'messages' });
+  });
+});
+
+describe('updateProperties', () => {
+  it('should replace values in place and append new keys with the same separator', () => {
+    const content = updateProperties(
+      MESSAGES,
+      new Map([
+        ['login.title', 'Anmelden'],
+        ['login.help', "Noch kein Konto? Registrieren Sie sich, ''jetzt''"],
+        ['login.logout', 'Abmelden'],
+      ]),
+      'ascii',
+      'messages.properties',
+    );
+
+    expect(content).toBe(
+      MESSAGES.replace('= Sign in', '= Anmelden')
+        .replace(
+          "Don''t have an account? \\\n    Sign up",
+          "Noch kein Konto? Registrieren Sie sich, ''jetzt''",
+        )
+        .concat('login.logout = Abmelden\n'),
+    );
+  });
+
+  it('should leave unchanged values alone', () => {
+    const translations = new Map([['login.help', "Don''t have an account? Sign up"]]);
+
+    expect(updateProperties(MESSAGES, translations, 'ascii', 'messages.properties')).toBe(MESSAGES);
+  });
+});
+
+describe('propertiesParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-properties-parser-'));
+    await writeFile(join(tempDir, 'messages.properties'), MESSAGES);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "properties"', () => {
+    expect(propertiesParser.name).toBe('properties');
+  });
+
+  describe('resolveLanguage', () => {
+    it('should use the file without suffix for the default language', () => {
+      expect(propertiesParser.resolveLanguage?.(tempDir, 'en')).toEqual({
+        path: join(tempDir, 'messages.properties'),
+        kind: 'file',
+      });
+      expect(propertiesParser.resolveLanguage?.(tempDir, 'pt-BR')).toEqual({
+        path: join(tempDir, 'messages_pt_BR.properties'),
+        kind: 'file',
+      });
+    });
+
+    it('should prefer an existing language file and honor the options', async () => {
+      await writeFile(join(tempDir, 'messages_en.properties'), '');
+      await writeFile(join(tempDir, 'validation_fr.properties'), '');
+
+      expect(propertiesParser.resolveLanguage?.(tempDir, 'en')?.path).toBe(
+        join(tempDir, 'messages_en.properties'),
+      );
+      const parser = createPropertiesParser({ basename: 'validation', defaultLanguage: 'de' });
+      expect(parser.resolveLanguage?.(tempDir, 'fr')?.path).toBe(
+        join(tempDir, 'validation_fr.properties'),
+      );
+    });
+  });
+
+  describe('export', () => {
+    it('should export values and comments with MessageFormat notes', async () => {
+      const filePath = join(tempDir, 'messages.properties');
+
+      const keys = await propertiesParser.export(filePath);
+      const metadata = await propertiesParser.exportMetadata?.(filePath);
+
+      expect(keys.get('login.unicode')).toBe('Café');
+      expect(metadata?.get('login.title')).toEqual({ description: 'Login page' });
+      expect(metadata?.get('login.welcome')?.description).toStartWith('MessageFormat pattern');
+      expect(metadata?.has('login.path')).toBe(false);
+    });
+
+    it('should throw error for non-existent language', async () => {
+      await expect(
+        propertiesParser.export(join(tempDir, 'messages_fr.properties')),
+      ).rejects.toThrow('Language file not found');
+    });
+  });
+
+  describe('import', () => {
+    it('should create files in the encoding of the bundle', async () => {
+      const filePath = join(tempDir, 'messages_ja.properties');
+
+      const result = await propertiesParser.import(
+        filePath,
+        new Map([['login.title', 'サインイン']]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 1 });
+      expect(await readFile(filePath, 'utf-8')).toBe(
+        'login.title=\\u30B5\\u30A4\\u30F3\\u30A4\\u30F3\n',
+      );
+    });
+
+    it('should keep ISO-8859-1 and UTF-8 files in their encoding', async () => {
+      const latin1 = join(tempDir, 'messages_de.properties');
+      const utf8 = join(tempDir, 'messages_fr.properties');
+      await writeFile(latin1, Buffer.from('# Grüße\nlogin.title=Anmelden\n', 'latin1'));
+      await writeFile(utf8, 'login.title=Se connecter\nlogin.hint=Déjà inscrit ?\n');
+
+      await propertiesParser.import(latin1, new Map([['login.title', 'Schließen ✓']]));
+      await propertiesParser.import(utf8, new Map([['login.title', 'Connexion ✓']]));
+
+      expect((await readFile(latin1)).toString('latin1')).toBe(
+        '# Grüße\nlogin.title=Schließen \\u2713\n',
+      );
+      expect(await readFile(utf8, 'utf-8')).toBe(
+        'login.title=Connexion ✓\nlogin.hint=Déjà inscrit ?\n',
+      );
+    });
+
+    it('should round-trip through export', async () => {
+      const translations = await propertiesParser.export(join(tempDir, 'messages.properties'));
+      const filePath = join(tempDir, 'messages_fr.properties');
+
+      await propertiesParser.import(filePath, translations);
+
+      expect(await propertiesParser.export(filePath)).toEqual(translations);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { type StringCatalog, catalogToMap, xcstringsParser } from '../../../src/parsers/xcstrings';
+
+const CATALOG: StringCatalog = {
+  sourceLanguage: 'en',
+  strings: {
+    Cancel: {
+      comment: 'Button that dismisses the dialog',
+      localizations: {
+        de: { stringUnit: { state: 'translated', value: 'Abbrechen' } },
+        fr: { stringUnit: { state: 'new', value: '' } },
+      },
+    },
+    Hello: {},
+    '%lld items': {
+      localizations: {
+        en: {
+          variations: {
+            plural: {
+              one: { stringUnit: { state: 'translated', value: '%lld item' } },
+              other: { stringUnit: { state: 'translated', value: '%lld items' } },
+            },
+          },
+        },
+      },
+    },
+    'com.example.id': { shouldTranslate: false },
+  },
+  version: '1.0',
+};
+
+/** Serialize like Xcode does */
+function xcodeJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2).replace(/^(\s*"[^"]*"): /gm, '$1 : ')}\n`;
+}
+
+describe('xcstringsParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-xcstrings-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "xcstrings"', () => {
+    expect(xcstringsParser.name).toBe('xcstrings');
+  });
+
+  describe('catalogToMap', () => {
+    it('should fall back to the key for the source language', () => {
+      const keys = catalogToMap(CATALOG, 'en');
+
+      expect(keys.get('Hello')).toBe('Hello');
+      expect(keys.get('Cancel')).toBe('Cancel');
+      expect(keys.get('%lld items[one]')).toBe('%lld item');
+      expect(keys.get('%lld items[other]')).toBe('%lld items');
+      expect(keys.has('%lld items')).toBe(false);
+      expect(keys.has('com.example.id')).toBe(false);
+    });
+
+    it('should skip untranslated units of target languages', () => {
+      expect(catalogToMap(CATALOG, 'de')).toEqual(new Map([['Cancel', 'Abbrechen']]));
+      expect(catalogToMap(CATALOG, 'fr').size).toBe(0);
+    });
+  });
+
+  describe('resolveLanguage', () => {
+    it('should use Localizable.xcstrings by default', () => {
+      expect(xcstringsParser.resolveLanguage?.(tempDir, 'de')).toEqual({
+        path: join(tempDir, 'Localizable.xcstrings'),
+        kind: 'file',
+      });
+    });
+
+    it('should find another catalog in the directory', async () => {
+      await mkdir(join(tempDir, 'App'));
+      await writeFile(join(tempDir, 'App', 'Main.xcstrings'), xcodeJson(CATALOG));
+
+      expect(xcstringsParser.resolveLanguage?.(tempDir, 'de')?.path).toBe(
+        join(tempDir, 'App', 'Main.xcstrings'),
+      );
+    });
+
+    it('should accept a catalog path', () => {
+      const catalogPath = join(tempDir, 'Main.xcstrings');
+      expect(xcstringsParser.resolveLanguage?.(catalogPath, 'de')?.path).toBe(catalogPath);
+    });
+  });
+
+  describe('export', () => {
+    it('should require a language', async () => {
+      const catalogPath = join(tempDir, 'Localizable.xcstrings');
+      await writeFile(catalogPath, xcodeJson(CATALOG));
+
+      await expect(xcstringsParser.export(catalogPath)).rejects.toThrow('language');
+    });
+
+    it('should export comments as metadata', async () => {
+      const catalogPath = join(tempDir, 'Localizable.xcstrings');
+      await writeFile(catalogPath, xcodeJson(CATALOG));
+
+      const metadata = await xcstringsParser.exportMetadata?.(catalogPath, 'en');
+
+      expect(metadata?.get('Cancel')).toEqual({ description: 'Button that dismisses the dialog' });
+      expect(metadata?.has('Hello')).toBe(false);
+    });
+  });
+
+  describe('import', () => {
+    it('should write translated units and keep the Xcode formatting', async () => {
+      const catalogPath = join(tempDir, 'Localizable.xcstrings');
+      await writeFile(catalogPath, xcodeJson(CATALOG));
+
+      const result = await xcstringsParser.import(
+        catalogPath,
+        new Map([
+          ['Cancel', 'Annuler'],
+          ['%lld items[one]', '%lld élément'],
+          ['%lld items[other]', '%lld éléments'],
+        ]),
+        'fr',
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 1, keysWritten: 3 });
+
+      const content = await readFile(catalogPath, 'utf-8');
+      expect(content).toContain('"sourceLanguage" : "en"');
+      expect(content.endsWith('}\n')).toBe(true);
+
+      const catalog = JSON.parse(content) as StringCatalog;
+      expect(catalog.strings.Cancel?.localizations?.fr).toEqual({
+        stringUnit: { state: 'translated', value: 'Annuler' },
+      });
+      expect(catalogToMap(catalog, 'fr')).toEqual(
+        new Map([
+          ['Cancel', 'Annuler'],
+          ['%lld items[one]', '%lld élément'],
+          ['%lld items[other]', '%lld éléments'],
+        ]),
+      );
+    });
+
+    it('should keep existing languages in order when adding one', async () => {
+      const catalogPath = join(tempDir, 'Localizable.xcstrings');
+      await writeFile(catalogPath, xcodeJson(CATALOG));
+
+      await xcstringsParser.import(catalogPath, new Map([['Cancel', 'Annulla']]), 'it');
+
+      const catalog = JSON.parse(await readFile(catalogPath, 'utf-8')) as StringCatalog;
+      expect(Object.keys(catalog.strings.Cancel?.localizations ?? {})).toEqual(['de', 'fr', 'it']);
+    });
+
+    it('should throw when the catalog does not exist', async () => {
+      await expect(
+        xcstringsParser.import(
+          join(tempDir, 'Localizable.xcstrings'),
+          new Map([['Cancel', 'Annuler']]),
+          'fr',
+        ),
+      ).rejects.toThrow('String catalog not found');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseXliff, xliffParser } from '../../../src/parsers/xliff';
+
+const SOURCE_12 = `<?xml version="1.0" encoding="UTF-8" ?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" datatype="plaintext" original="ng2.template">
+    <body>
+      <trans-unit id="introductionHeader" datatype="html">
+        <source>Hello &amp; welcome!</source>
+        <context-group purpose="location">
+          <context context-type="sourcefile">src/app/app.component.html</context>
+          <context context-type="linenumber">4</context>
+        </context-group>
+        <note priority="1" from="description">An introduction header</note>
+        <note priority="1" from="meaning">User welcome</note>
+      </trans-unit>
+      <trans-unit id="minutes" datatype="html">
+        <source>Updated <x id="PH" equiv-text="minutes"/> minutes ago</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+const GERMAN_12 = `<?xml version="1.0" encoding="UTF-8" ?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" target-language="de" datatype="plaintext">
+    <body>
+      <trans-unit id="introductionHeader" datatype="html">
+        <source>Hello &amp; welcome!</source>
+        <target state="translated">Hallo &amp; willkommen!</target>
+      </trans-unit>
+      <trans-unit id="minutes" datatype="html">
+        <source>Updated <x id="PH" equiv-text="minutes"/> minutes ago</source>
+        <target state="new">Updated <x id="PH" equiv-text="minutes"/> minutes ago</target>
+      </trans-unit>
+      <trans-unit id="logout" datatype="html">
+        <source>Log out</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+const GERMAN_20 = `<?xml version="1.0" encoding="UTF-8" ?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="de">
+  <file id="ngi18n" original="ng.template">
+    <unit id="introductionHeader">
+      <notes>
+        <note category="description">An introduction header</note>
+        <note category="location">src/app/app.component.html:4,6</note>
+      </notes>
+      <segment>
+        <source>Hello!</source>
+      </segment>
+    </unit>
+    <unit id="logout">
+      <segment state="translated">
+        <source>Log out</source>
+        <target>Abmelden</target>
+      </segment>
+    </unit>
+  </file>
+</xliff>
+`;
+
+describe('xliffParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-xliff-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "xliff"', () => {
+    expect(xliffParser.name).toBe('xliff');
+  });
+
+  describe('parseXliff', () => {
+    it('should detect the version and declared target language', () => {
+      expect(parseXliff(SOURCE_12)).toMatchObject({ version: '1.2', hasTargetLanguage: false });
+      expect(parseXliff(GERMAN_12)).toMatchObject({ version: '1.2', hasTargetLanguage: true });
+      expect(parseXliff(GERMAN_20)).toMatchObject({ version: '2.0', hasTargetLanguage: true });
+    });
+
+    it('should ignore targets inside alt-trans', () => {
+      const document = parseXliff(`<xliff version="1.2"><file target-language="de"><body>
+<trans-unit id="a"><source>A</source>
+<alt-trans><source>A</source><target>Vorschlag</target></alt-trans>
+</trans-unit></body></file></xliff>`);
+
+      expect(document.entries[0]?.target).toBeUndefined();
+    });
+  });
+
+  describe('export', () => {
+    it('should export sources of a file without target language', async () => {
+      const filePath = join(tempDir, 'messages.xlf');
+      await writeFile(filePath, SOURCE_12);
+
+      const keys = await xliffParser.export(filePath);
+
+      expect(keys.get('introductionHeader')).toBe('Hello & welcome!');
+      expect(keys.get('minutes')).toBe('Updated <x id="PH" equiv-text="minutes"/> minutes ago');
+    });
+
+    it('should export only translated targets of a target file', async () => {
+      const filePath = join(tempDir, 'messages.de.xlf');
+      await writeFile(filePath, GERMAN_12);
+
+      const keys = await xliffParser.export(filePath);
+
+      expect(keys.get('introductionHeader')).toBe('Hallo & willkommen!');
+      expect(keys.size).toBe(1);
+    });
+
+    it('should export XLIFF 2.0 segments', async () => {
+      const filePath = join(tempDir, 'messages.de.xlf');
+      await writeFile(filePath, GERMAN_20);
+
+      const keys = await xliffParser.export(filePath);
+
+      expect(keys.get('logout')).toBe('Abmelden');
+      expect(keys.size).toBe(1);
+    });
+
+    it('should export notes and locations as metadata', async () => {
+      const source12 = join(tempDir, 'messages.xlf');
+      const german20 = join(tempDir, 'messages.de.xlf');
+      await writeFile(source12, SOURCE_12);
+      await writeFile(german20, GERMAN_20);
+
+      const expected = {
+        references: [{ filePath: 'src/app/app.component.html', lineNumber: 4 }],
+      };
+      expect((await xliffParser.exportMetadata?.(source12))?.get('introductionHeader')).toEqual({
+        description: 'An introduction header',
+        context: 'User welcome',
+        ...expected,
+      });
+      expect((await xliffParser.exportMetadata?.(german20))?.get('introductionHeader')).toEqual({
+        description: 'An introduction header',
+        ...expected,
+      });
+    });
+
+    it('should export character limits as metadata', async () => {
+      const filePath = join(tempDir, 'messages.xlf');
+      await writeFile(
+        filePath,
+        SOURCE_12.replace(
+          '<trans-unit id="minutes" datatype="html">',
+          '<trans-unit id="minutes" datatype="html" maxwidth="30" size-unit="char">',
+        ).replace(
+          '<trans-unit id="introductionHeader" datatype="html">',
+          '<trans-unit id="introductionHeader" datatype="html" maxwidth="200">',
+        ),
+      );
+
+      const metadata = await xliffParser.exportMetadata?.(filePath);
+
+      expect(metadata?.get('minutes')).toEqual({ maxLength: 30 });
+      // maxwidth counts pixels by default
+      expect(metadata?.get('introductionHeader')?.maxLength).toBeUndefined();
+    });
+  });
+
+  describe('resolveLanguage', () => {
+    it('should resolve source, existing and new target files', async () => {
+      await writeFile(join(tempDir, 'messages.xlf'), SOURCE_12);
+      await writeFile(join(tempDir, 'messages.de.xlf'), GERMAN_12);
+
+      expect(xliffParser.resolveLanguage?.(tempDir, 'en')?.path).toBe(
+        join(tempDir, 'messages.xlf'),
+      );
+      expect(xliffParser.resolveLanguage?.(tempDir, 'de')?.path).toBe(
+        join(tempDir, 'messages.de.xlf'),
+      );
+      expect(xliffParser.resolveLanguage?.(tempDir, 'fr')).toEqual({
+        path: join(tempDir, 'messages.fr.xlf'),
+        kind: 'file',
+      });
+    });
+  });
+
+  describe('bilingual files', () => {
+    it('should read the source language from the sources of a target file', async () => {
+      await writeFile(join(tempDir, 'messages.de.xlf'), GERMAN_12);
+
+      const location = xliffParser.resolveLanguage?.(tempDir, 'en');
+      expect(location?.path).toBe(join(tempDir, 'messages.de.xlf'));
+
+      const source = await xliffParser.export(join(tempDir, 'messages.de.xlf'), 'en');
+      expect([...source.keys()]).toEqual(['introductionHeader', 'minutes', 'logout']);
+      expect(source.get('logout')).toBe('Log out');
+
+      const german = await xliffParser.export(join(tempDir, 'messages.de.xlf'), 'de');
+      expect(german.get('introductionHeader')).toBe('Hallo & willkommen!');
+      expect(german.size).toBe(1);
+    });
+  });
+
+  describe('import', () => {
+    it('should replace and insert targets marked as translated, leaving the rest unchanged', async () => {
+      const filePath = join(tempDir, 'messages.de.xlf');
+      await writeFile(filePath, GERMAN_12);
+
+      const result = await xliffParser.import(
+        filePath,
+        new Map([
+          ['minutes', 'Vor <x id="PH" equiv-text="minutes"/> Minuten aktualisiert'],
+          ['logout', 'Abmelden & tschüss'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 1, keysWritten: 2 });
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toBe(
+        GERMAN_12.replace(
+          '<target state="new">Updated <x id="PH" equiv-text="minutes"/> minutes ago</target>',
+          '<target state="translated">Vor <x id="PH" equiv-text="minutes"/> Minuten aktualisiert</target>',
+        ).replace(
+          '<source>Log out</source>',
+          '<source>Log out</source>\n        <target state="translated">Abmelden &amp; tschüss</target>',
+        ),
+      );
+    });
+
+    it('should mark XLIFF 2.0 segments as translated', async () => {
+      const filePath = join(tempDir, 'messages.de.xlf');
+      await writeFile(filePath, GERMAN_20);
+
+      await xliffParser.import(filePath, new Map([['introductionHeader', 'Hallo!']]));
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toContain(
+        '<segment state="translated">\n        <source>Hello!</source>\n        <target>Hallo!</target>',
+      );
+      expect((await xliffParser.export(filePath)).get('introductionHeader')).toBe('Hallo!');
+    });
+
+    it('should create a missing target file from the source file', async () => {
+      await writeFile(join(tempDir, 'messages.xlf'), SOURCE_12);
+      const filePath = join(tempDir, 'messages.fr.xlf');
+
+      const result = await xliffParser.import(
+        filePath,
+        new Map([['introductionHeader', 'Salut !']]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 1 });
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toContain(
+        '<file source-language="en" datatype="plaintext" original="ng2.template" target-language="fr">',
+      );
+      const keys = await xliffParser.export(filePath);
+      expect(keys.get('introductionHeader')).toBe('Salut !');
+      expect(keys.size).toBe(1);
+    });
+
+    it('should skip keys without a matching unit', async () => {
+      const filePath = join(tempDir, 'messages.de.xlf');
+      await writeFile(filePath, GERMAN_12);
+
+      const result = await xliffParser.import(filePath, new Map([['unknown', 'Unbekannt']]));
+
+      expect(result.keysWritten).toBe(0);
+      expect(await readFile(filePath, 'utf-8')).toBe(GERMAN_12);
+    });
+
+    it('should fail when no source file exists to create a target file from', async () => {
+      await expect(
+        xliffParser.import(join(tempDir, 'messages.fr.xlf'), new Map([['a', 'b']])),
+      ).rejects.toThrow('no XLIFF source file found');
+    });
+  });
+});
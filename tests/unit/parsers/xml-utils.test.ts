@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'bun:test';
+import { decodeEntities, indentAt } from '../../../src/parsers/xml-utils';
+
+describe('xml-utils', () => {
+  describe('decodeEntities', () => {
+    it('decodes predefined entities and character references', () => {
+      expect(decodeEntities('&lt;b&gt; Tom &amp; Jerry&apos;s &quot;&#169;&#x263A;&quot;')).toBe(
+        '<b> Tom & Jerry\'s "©☺"',
+      );
+    });
+
+    it('keeps unknown entities', () => {
+      expect(decodeEntities('&nbsp;&amp;')).toBe('&nbsp;&');
+    });
+  });
+
+  describe('indentAt', () => {
+    it('returns the indentation of the line containing an offset', () => {
+      const content = '<resources>\n    <string name="a">A</string>\n</resources>';
+
+      expect(indentAt(content, content.indexOf('<string'))).toBe('    ');
+      expect(indentAt(content, 0)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { languageFromPath, updateYaml, yamlParser } from '../../../src/parsers/yaml';
+
+const ENGLISH = `# User facing strings
+en:
+  defaults: &defaults
+    save: Save # shared
+    cancel: Cancel
+  users:
+    <<: *defaults
+    title: "Users"
+    intro: |
+      Welcome to the
+      user list.
+  errors:
+    not_found: 'Not found'
+`;
+
+describe('yamlParser', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-yaml-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should have name "yaml"', () => {
+    expect(yamlParser.name).toBe('yaml');
+  });
+
+  describe('export', () => {
+    it('should strip the language root and resolve anchors and block scalars', async () => {
+      const filePath = join(tempDir, 'en.yml');
+      await writeFile(filePath, ENGLISH);
+
+      const keys = await yamlParser.export(filePath);
+
+      expect(keys.get('users.title')).toBe('Users');
+      expect(keys.get('users.save')).toBe('Save');
+      expect(keys.get('users.cancel')).toBe('Cancel');
+      expect(keys.get('users.intro')).toBe('Welcome to the\nuser list.\n');
+      expect(keys.get('errors.not_found')).toBe('Not found');
+      expect(keys.has('en.users.title')).toBe(false);
+    });
+
+    it('should keep keys of files without a language root', async () => {
+      const filePath = join(tempDir, 'messages.de.yaml');
+      await writeFile(filePath, 'users:\n  title: Benutzer\n');
+
+      const keys = await yamlParser.export(filePath);
+
+      expect(keys.get('users.title')).toBe('Benutzer');
+    });
+
+    it('should find the language root next to a sibling anchor block', async () => {
+      const filePath = join(tempDir, 'de.yml');
+      await writeFile(filePath, 'defaults: &d\n  a: A\n  b: B\nde:\n  <<: *d\n  b: Bé\n  c: C\n');
+
+      const keys = await yamlParser.export(filePath);
+
+      expect([...keys]).toEqual([
+        ['a', 'A'],
+        ['b', 'Bé'],
+        ['c', 'C'],
+      ]);
+    });
+
+    it('should merge all files of a language directory', async () => {
+      const langDir = join(tempDir, 'en');
+      await mkdir(join(langDir, 'models'), { recursive: true });
+      await writeFile(join(langDir, 'users.yml'), 'en:\n  users:\n    title: Users\n');
+      await writeFile(join(langDir, 'models', 'post.yml'), 'en:\n  post:\n    title: Post\n');
+
+      const keys = await yamlParser.export(langDir);
+
+      expect(keys.get('users.title')).toBe('Users');
+      expect(keys.get('post.title')).toBe('Post');
+      expect(keys.size).toBe(2);
+    });
+
+    it('should use the given language as root key under custom layouts', async () => {
+      const filePath = join(tempDir, 'de', 'app.yml');
+      await mkdir(join(tempDir, 'de'));
+      await writeFile(filePath, 'de:\n  users:\n    title: Benutzer\n');
+
+      const keys = await yamlParser.export(filePath, 'de');
+
+      expect(keys.get('users.title')).toBe('Benutzer');
+      expect(keys.has('de.users.title')).toBe(false);
+    });
+
+    it('should throw error for invalid YAML', async () => {
+      const filePath = join(tempDir, 'en.yml');
+      await writeFile(filePath, 'en:\n  a: [unclosed\n');
+
+      await expect(yamlParser.export(filePath)).rejects.toThrow('Failed to parse');
+    });
+  });
+
+  describe('resolveLanguage', () => {
+    it('should prefer a language directory, then .yaml, then .yml', async () => {
+      await mkdir(join(tempDir, 'fr'));
+      await writeFile(join(tempDir, 'es.yaml'), '');
+
+      expect(yamlParser.resolveLanguage?.(tempDir, 'fr')).toEqual({
+        path: join(tempDir, 'fr'),
+        kind: 'directory',
+      });
+      expect(yamlParser.resolveLanguage?.(tempDir, 'es')?.path).toBe(join(tempDir, 'es.yaml'));
+      expect(yamlParser.resolveLanguage?.(tempDir, 'de')).toEqual({
+        path: join(tempDir, 'de.yml'),
+        kind: 'file',
+      });
+    });
+  });
+
+  describe('import', () => {
+    it('should inject the given language under custom layouts', async () => {
+      const filePath = join(tempDir, 'fr', 'app.yml');
+
+      await yamlParser.import(filePath, new Map([['users.title', 'Utilisateurs']]), 'fr');
+
+      expect(await readFile(filePath, 'utf-8')).toBe('fr:\n  users:\n    title: Utilisateurs\n');
+    });
+
+    it('should write new keys under the language root next to a sibling anchor block', async () => {
+      const filePath = join(tempDir, 'de.yml');
+      const content = 'defaults: &d\n  a: A\nde:\n  <<: *d\n  b: B\n';
+      await writeFile(filePath, content);
+
+      await yamlParser.import(
+        filePath,
+        new Map([
+          ['b', 'Bé'],
+          ['c', 'C'],
+        ]),
+      );
+
+      expect(await readFile(filePath, 'utf-8')).toBe(
+        'defaults: &d\n  a: A\nde:\n  <<: *d\n  b: Bé\n  c: C\n',
+      );
+    });
+
+    it('should create a new file with the language root injected', async () => {
+      const filePath = join(tempDir, 'de.yml');
+
+      const result = await yamlParser.import(
+        filePath,
+        new Map([
+          ['users.title', 'Benutzer'],
+          ['errors.not_found', 'Nicht gefunden'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 1, filesModified: 0, keysWritten: 2 });
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toBe(
+        'de:\n  users:\n    title: Benutzer\n  errors:\n    not_found: Nicht gefunden\n',
+      );
+    });
+
+    it('should replace existing values without reformatting the rest of the file', async () => {
+      const filePath = join(tempDir, 'en.yml');
+      await writeFile(filePath, ENGLISH);
+
+      const result = await yamlParser.import(
+        filePath,
+        new Map([
+          ['users.title', 'All "users"'],
+          ['defaults.save', 'Store'],
+        ]),
+      );
+
+      expect(result.filesModified).toBe(1);
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toBe(
+        ENGLISH.replace('title: "Users"', 'title: "All \\"users\\""').replace(
+          'save: Save # shared',
+          'save: Store # shared',
+        ),
+      );
+    });
+
+    it('should keep block scalar style when replacing multi-line values', async () => {
+      const filePath = join(tempDir, 'en.yml');
+      await writeFile(filePath, ENGLISH);
+
+      await yamlParser.import(filePath, new Map([['users.intro', 'Hello\nworld']]));
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toContain('    intro: |-\n      Hello\n      world\n  errors:');
+      expect((await yamlParser.export(filePath)).get('users.intro')).toBe('Hello\nworld');
+    });
+
+    it('should insert new keys at the end of their parent mapping', async () => {
+      const filePath = join(tempDir, 'en.yml');
+      await writeFile(filePath, ENGLISH);
+
+      await yamlParser.import(
+        filePath,
+        new Map([
+          ['errors.forbidden', 'Forbidden: no access'],
+          ['users.actions.invite', 'Invite'],
+          ['footer', 'Footer'],
+        ]),
+      );
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toBe(
+        `${ENGLISH.replace(
+          '      user list.\n',
+          '      user list.\n    actions:\n      invite: Invite\n',
+        )}    forbidden: "Forbidden: no access"\n  footer: Footer\n`,
+      );
+    });
+
+    it('should write keys into the directory file that defines their parent', async () => {
+      const langDir = join(tempDir, 'de');
+      await mkdir(langDir, { recursive: true });
+      await writeFile(join(langDir, 'app.yml'), 'de:\n  app:\n    name: App\n');
+      await writeFile(join(langDir, 'users.yml'), 'de:\n  users:\n    title: Benutzer\n');
+
+      const result = await yamlParser.import(
+        langDir,
+        new Map([
+          ['users.new', 'Neu'],
+          ['other.key', 'Andere'],
+        ]),
+      );
+
+      expect(result).toEqual({ filesCreated: 0, filesModified: 2, keysWritten: 2 });
+      expect(await readFile(join(langDir, 'users.yml'), 'utf-8')).toBe(
+        'de:\n  users:\n    title: Benutzer\n    new: Neu\n',
+      );
+      expect(await readFile(join(langDir, 'app.yml'), 'utf-8')).toBe(
+        'de:\n  app:\n    name: App\n  other:\n    key: Andere\n',
+      );
+    });
+
+    it('should replace sequence items in place and append new ones', async () => {
+      const filePath = join(tempDir, 'de.yml');
+      await writeFile(filePath, 'de:\n  steps:\n    - Eins # first\n    - Two\n');
+
+      await yamlParser.import(filePath, new Map([['steps.1', 'Zwei']]));
+      expect(await readFile(filePath, 'utf-8')).toBe(
+        'de:\n  steps:\n    - Eins # first\n    - Zwei\n',
+      );
+
+      await yamlParser.import(filePath, new Map([['steps.2', 'Drei']]));
+      expect([...(await yamlParser.export(filePath))]).toEqual([
+        ['steps.0', 'Eins'],
+        ['steps.1', 'Zwei'],
+        ['steps.2', 'Drei'],
+      ]);
+    });
+
+    it('should re-serialize documents using flow mappings', async () => {
+      const filePath = join(tempDir, 'de.yml');
+      await writeFile(filePath, 'de: { app: { name: App } }\n');
+
+      await yamlParser.import(filePath, new Map([['app.title', 'Titel']]));
+
+      const keys = await yamlParser.export(filePath);
+      expect(keys.get('app.name')).toBe('App');
+      expect(keys.get('app.title')).toBe('Titel');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should derive the language from file and directory names', () => {
+      expect(languageFromPath('/app/config/locales/en.yml')).toBe('en');
+      expect(languageFromPath('/app/config/locales/devise.pt-BR.yml')).toBe('pt-BR');
+      expect(languageFromPath('/app/translations/messages.de.yaml')).toBe('de');
+      expect(languageFromPath('/app/config/locales/fr')).toBe('fr');
+    });
+
+    it('should keep the document untouched when there is nothing to write', () => {
+      expect(updateYaml(ENGLISH, new Map(), 'en')).toBe(ENGLISH);
+    });
+  });
+});
@@ -1,9 +1,21 @@
 import { beforeEach, describe, expect, it } from 'bun:test';
+import { cp, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { clearParsers, registerParser } from '../../../src/parsers';
+import { androidParser } from '../../../src/parsers/android';
 import { nodeModuleParser } from '../../../src/parsers/node-module';
-import { compareTranslationSets, findMissingTranslations } from '../../../src/services/analyzer';
-import { configStore } from '../../../src/stores';
+import {
+  compareTranslationSets,
+  findMissingTranslations,
+  findMissingTranslationsForTargets,
+} from '../../../src/services/analyzer';
+import {
+  createSourceLock,
+  recordSourceHashes,
+  writeSourceLock,
+} from '../../../src/services/source-lock';
+import { analysisStore, configStore } from '../../../src/stores';
 import type { MissingTranslation } from '../../../src/types';
 
 const FIXTURES_PATH = join(import.meta.dir, '../../fixtures/sample-repo');
@@ -60,6 +72,46 @@ describe('analyzer', () => {
 
       expect(missing.length).toBe(2);
     });
+
+    it('should include stale keys with their reason', () => {
+      const source = new Map([
+        ['key1', 'Value 1'],
+        ['key2', 'Value 2'],
+      ]);
+      const target = new Map([['key1', 'Wert 1']]);
+
+      const missing = compareTranslationSets(source, target, false, new Set(['key1']));
+
+      expect(missing.map((m) => [m.key, m.reason])).toEqual([
+        ['key1', 'stale'],
+        ['key2', 'missing'],
+      ]);
+    });
+
+    it('should prefer untranslated over stale and skip untranslated values as examples', () => {
+      const source = new Map([
+        ['save', 'Save'],
+        ['save_file', 'Save file'],
+      ]);
+      const target = new Map([
+        ['save', 'Save'],
+        ['save_file', 'TODO'],
+      ]);
+
+      const missing = compareTranslationSets(
+        source,
+        target,
+        true,
+        new Set(['save_file']),
+        new Set(['save', 'save_file']),
+      );
+
+      expect(missing.map((m) => [m.key, m.reason])).toEqual([
+        ['save', 'untranslated'],
+        ['save_file', 'untranslated'],
+      ]);
+      expect(missing.flatMap((m) => m.translationContexts)).toEqual([]);
+    });
   });
 
   describe('findMissingTranslations', () => {
@@ -124,5 +176,131 @@ describe('analyzer', () => {
       const welcomeMissing = result.missing.find((m) => m.key === 'generic.welcome');
       expect(welcomeMissing?.sourceValue).toBe('Welcome');
     });
+
+    it('should report translations whose source changed since the lockfile was written', async () => {
+      const repoPath = await mkdtemp(join(tmpdir(), 'curlydots-analyzer-'));
+      try {
+        await cp(join(FIXTURES_PATH, 'translations'), join(repoPath, 'translations'), {
+          recursive: true,
+        });
+        const lock = createSourceLock();
+        recordSourceHashes(lock, 'en', 'de', new Map([['generic.save', 'Save changes']]));
+        await writeSourceLock(join(repoPath, 'translations'), lock);
+        configStore.getState().setConfig({
+          repoPath,
+          translationsDir: 'translations',
+          sourceLanguage: 'en',
+          targetLanguage: 'de',
+          parser: 'node-module',
+        });
+
+        const result = await findMissingTranslations();
+
+        expect(result.staleCount).toBe(1);
+        expect(result.missing.find((m) => m.key === 'generic.save')?.reason).toBe('stale');
+        expect(result.missing.find((m) => m.key === 'generic.welcome')?.reason).toBe('missing');
+      } finally {
+        await rm(repoPath, { recursive: true, force: true });
+      }
+    });
+
+    it('should export the plural forms a Polish target needs beyond the source', async () => {
+      const repoPath = await mkdtemp(join(tmpdir(), 'curlydots-analyzer-'));
+      const plurals = (items: string) =>
+        `<?xml version="1.0" encoding="utf-8"?>\n<resources>\n  <plurals name="files">${items}</plurals>\n</resources>\n`;
+      try {
+        await mkdir(join(repoPath, 'res', 'values-en'), { recursive: true });
+        await mkdir(join(repoPath, 'res', 'values-pl'), { recursive: true });
+        await writeFile(
+          join(repoPath, 'res', 'values-en', 'strings.xml'),
+          plurals('<item quantity="one">%d file</item><item quantity="other">%d files</item>'),
+        );
+        await writeFile(
+          join(repoPath, 'res', 'values-pl', 'strings.xml'),
+          plurals('<item quantity="one">%d plik</item><item quantity="other">%d pliku</item>'),
+        );
+        configStore.getState().setConfig({
+          repoPath,
+          translationsDir: 'res',
+          sourceLanguage: 'en',
+          targetLanguage: 'pl',
+          parser: 'android',
+        });
+
+        const result = await findMissingTranslations(androidParser);
+
+        expect(
+          result.missing.map((m) => [m.key, m.sourceValue, m.metadata?.pluralCategory]),
+        ).toEqual([
+          ['files[few]', '%d files', 'few'],
+          ['files[many]', '%d files', 'many'],
+        ]);
+      } finally {
+        await rm(repoPath, { recursive: true, force: true });
+      }
+    });
+
+    it('should compare several target languages with one source', async () => {
+      const repoPath = await mkdtemp(join(tmpdir(), 'curlydots-analyzer-'));
+      try {
+        await cp(join(FIXTURES_PATH, 'translations'), join(repoPath, 'translations'), {
+          recursive: true,
+        });
+        await mkdir(join(repoPath, 'translations', 'fr'));
+        configStore.getState().setConfig({
+          repoPath,
+          translationsDir: 'translations',
+          sourceLanguage: 'en',
+          targetLanguage: 'de, fr',
+          parser: 'node-module',
+        });
+
+        const results = await findMissingTranslationsForTargets(['de', 'fr']);
+
+        expect(results.map((r) => [r.targetLanguage, r.missing.length])).toEqual([
+          ['de', 3],
+          ['fr', results[0]!.sourceKeyCount],
+        ]);
+        expect(new Set(results[1]!.missing.map((m) => m.targetLanguage))).toEqual(new Set(['fr']));
+        expect(analysisStore.getState().missingCount).toBe(3 + results[0]!.sourceKeyCount);
+      } finally {
+        await rm(repoPath, { recursive: true, force: true });
+      }
+    });
+
+    it('should report empty, copied and marked target values as untranslated', async () => {
+      const repoPath = await mkdtemp(join(tmpdir(), 'curlydots-analyzer-'));
+      try {
+        await mkdir(join(repoPath, 'translations', 'en'), { recursive: true });
+        await mkdir(join(repoPath, 'translations', 'de'), { recursive: true });
+        await writeFile(
+          join(repoPath, 'translations', 'en', 'app.js'),
+          "module.exports = { title: 'Dashboard', brand: 'Curlydots', empty: 'Empty', todo: 'Save', size: '42' };\n",
+        );
+        await writeFile(
+          join(repoPath, 'translations', 'de', 'app.js'),
+          "module.exports = { title: 'Dashboard', brand: 'Curlydots', empty: '', todo: 'TODO: Save', size: '42' };\n",
+        );
+        configStore.getState().setConfig({
+          repoPath,
+          translationsDir: 'translations',
+          sourceLanguage: 'en',
+          targetLanguage: 'de',
+          parser: 'node-module',
+          untranslated: { empty: true, identical: true, markers: ['TODO'], ignore: ['Curlydots'] },
+        });
+
+        const result = await findMissingTranslations();
+
+        expect(result.untranslatedCount).toBe(3);
+        expect(result.missing.map((m) => [m.key, m.reason])).toEqual([
+          ['app.title', 'untranslated'],
+          ['app.empty', 'untranslated'],
+          ['app.todo', 'untranslated'],
+        ]);
+      } finally {
+        await rm(repoPath, { recursive: true, force: true });
+      }
+    });
   });
 });
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { androidParser } from '../../../src/parsers/android';
+import { jsonParser } from '../../../src/parsers/json';
+import {
+  DEFAULT_TRANSLATION_FUNCTIONS,
+  definedKeyNames,
+  findTranslationCalls,
+  runAudit,
+} from '../../../src/services/audit-service';
+
+describe('audit-service', () => {
+  describe('findTranslationCalls', () => {
+    it('finds string literal keys of translation function calls', () => {
+      const content = [
+        "const title = t('page.title');",
+        'const hint = i18n.t("auth.hint", { count });',
+        "const label = this.$t(`nav.home`) + format('x');",
+        'const dynamic = t(`errors.${code}`);',
+        "const other = parseInt('10'); set('key');",
+        "const escaped = t('it\\'s');",
+      ].join('\n');
+
+      expect(findTranslationCalls(content, DEFAULT_TRANSLATION_FUNCTIONS)).toEqual([
+        { key: 'page.title', lineNumber: 1 },
+        { key: 'auth.hint', lineNumber: 2 },
+        { key: 'nav.home', lineNumber: 3 },
+        { key: "it's", lineNumber: 6 },
+      ]);
+    });
+
+    it('uses the given function names', () => {
+      expect(findTranslationCalls("_('Hello'); t('x')", ['_'])).toEqual([
+        { key: 'Hello', lineNumber: 1 },
+      ]);
+    });
+  });
+
+  describe('definedKeyNames', () => {
+    it('includes parent objects and plural base keys', () => {
+      const names = definedKeyNames(['auth.login.title', 'files[one]', 'items_other']);
+
+      expect([...names].sort()).toEqual([
+        'auth',
+        'auth.login',
+        'auth.login.title',
+        'files',
+        'files[one]',
+        'items',
+        'items_other',
+      ]);
+    });
+  });
+
+  describe('runAudit', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+      repoPath = await mkdtemp(join(tmpdir(), 'curlydots-audit-'));
+      await mkdir(join(repoPath, 'locales'));
+      await mkdir(join(repoPath, 'src'));
+      await writeFile(
+        join(repoPath, 'locales', 'en.json'),
+        JSON.stringify({
+          auth: { login: 'Log in', logout: 'Log out' },
+          files_one: '{{count}} file',
+          files_other: '{{count}} files',
+          legacy: 'Old',
+        }),
+      );
+      await writeFile(
+        join(repoPath, 'locales', 'de.json'),
+        JSON.stringify({ auth: { login: 'Anmelden' }, removed: 'Entfernt' }),
+      );
+      await writeFile(
+        join(repoPath, 'src', 'app.ts'),
+        [
+          "const login = t('auth.login');",
+          "const files = t('files', { count });",
+          "const logout = i18n.t('auth.logout');",
+          "const signup = t('auth.signup');",
+          "const ns = t('auth:login');",
+        ].join('\n'),
+      );
+    });
+
+    afterEach(async () => {
+      await rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('reports orphaned, unused and undefined keys', async () => {
+      const result = await runAudit(repoPath, join(repoPath, 'locales'), 'en', ['de'], jsonParser, {
+        layout: '{lang}.json',
+        extensions: ['.ts'],
+        functions: DEFAULT_TRANSLATION_FUNCTIONS,
+      });
+
+      expect(result).toEqual({
+        sourceLanguage: 'en',
+        targetLanguages: ['de'],
+        orphanedKeys: { de: ['removed'] },
+        unusedKeys: ['legacy'],
+        undefinedKeys: [{ key: 'auth.signup', filePath: join('src', 'app.ts'), lineNumber: 4 }],
+      });
+    });
+
+    it('does not count the translation files as usages', async () => {
+      await writeFile(join(repoPath, 'locales', 'keys.ts'), "export const keys = ['legacy'];\n");
+
+      const result = await runAudit(repoPath, join(repoPath, 'locales'), 'en', [], jsonParser, {
+        layout: '{lang}.json',
+        extensions: ['.ts'],
+        functions: DEFAULT_TRANSLATION_FUNCTIONS,
+      });
+
+      expect(result.orphanedKeys).toEqual({});
+      expect(result.unusedKeys).toEqual(['legacy']);
+    });
+
+    it('does not report plural forms the target language needs as orphaned', async () => {
+      const plurals = (items: string) =>
+        `<resources>\n  <plurals name="files">${items}</plurals>\n</resources>\n`;
+      await mkdir(join(repoPath, 'res', 'values-en'), { recursive: true });
+      await mkdir(join(repoPath, 'res', 'values-pl'), { recursive: true });
+      await writeFile(
+        join(repoPath, 'res', 'values-en', 'strings.xml'),
+        plurals('<item quantity="one">%d file</item><item quantity="other">%d files</item>'),
+      );
+      await writeFile(
+        join(repoPath, 'res', 'values-pl', 'strings.xml'),
+        plurals(
+          '<item quantity="one">%d plik</item><item quantity="few">%d pliki</item><item quantity="many">%d plików</item><item quantity="two">x</item>',
+        ),
+      );
+
+      const result = await runAudit(repoPath, join(repoPath, 'res'), 'en', ['pl'], androidParser, {
+        extensions: ['.ts'],
+        functions: DEFAULT_TRANSLATION_FUNCTIONS,
+      });
+
+      expect(result.orphanedKeys).toEqual({ pl: ['files[two]'] });
+    });
+  });
+});
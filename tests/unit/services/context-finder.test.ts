@@ -1,6 +1,10 @@
 import { beforeEach, describe, expect, it } from 'bun:test';
 import { join } from 'node:path';
-import { findContextForKeys, findKeyUsages } from '../../../src/services/context-finder';
+import {
+  findContextForKeys,
+  findKeyUsages,
+  findReferenceContexts,
+} from '../../../src/services/context-finder';
 import { configStore } from '../../../src/stores';
 import type { UsageContext } from '../../../src/types';
 
@@ -92,6 +96,37 @@ describe('context-finder', () => {
       expect(results.length).toBe(1);
       expect(results[0]?.contexts.length).toBe(0);
     });
+
+    it('should use source references instead of searching when available', async () => {
+      const results = await findContextForKeys(
+        [
+          {
+            key: 'Something went wrong',
+            sourceValue: 'Something went wrong',
+            references: [{ filePath: 'src/utils/helpers.ts', lineNumber: 15 }],
+          },
+        ],
+        FIXTURES_PATH,
+      );
+
+      expect(results[0]?.contexts.length).toBe(1);
+      expect(results[0]?.contexts[0]?.filePath).toBe(join(FIXTURES_PATH, 'src/utils/helpers.ts'));
+      expect(results[0]?.contexts[0]?.lineNumber).toBe(15);
+    });
+  });
+
+  describe('findReferenceContexts', () => {
+    it('should skip references to missing files and out-of-range lines', async () => {
+      const contexts = await findReferenceContexts(
+        [
+          { filePath: 'src/missing.py', lineNumber: 3 },
+          { filePath: 'src/utils/helpers.ts', lineNumber: 10_000 },
+        ],
+        FIXTURES_PATH,
+      );
+
+      expect(contexts).toEqual([]);
+    });
   });
 
   describe('multi-file search', () => {
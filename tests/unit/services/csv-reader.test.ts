@@ -130,6 +130,28 @@ key1,Value,en,de,"${codeContext.replace(/"/g, '""')}","${translationContext.repl
       expect(rows[0]?.translationContext).toContain('noun');
     });
 
+    it('should read the optional description column', async () => {
+      const content = `translation_key,source_value,source_language,target_language,code_context,translation_context,description
+key1,Open,en,de,[],[],Verb on a button
+key2,Close,en,de,[],[],`;
+
+      const rows = await parseCsvContent(content);
+
+      expect(rows[0]?.description).toBe('Verb on a button');
+      expect(rows[1]?.description).toBe('');
+    });
+
+    it('should read the optional plural, length and context columns', async () => {
+      const content = `translation_key,source_value,source_language,target_language,code_context,translation_context,description,plural_category,max_length,message_context
+files[one],%d file,en,de,[],[],,one,12,
+open,Open,en,de,[],[],,,,verb`;
+
+      const rows = await parseCsvContent(content);
+
+      expect(rows[0]).toMatchObject({ pluralCategory: 'one', maxLength: '12', messageContext: '' });
+      expect(rows[1]).toMatchObject({ pluralCategory: '', maxLength: '', messageContext: 'verb' });
+    });
+
     it('should reject CSV with missing required headers', async () => {
       const content = `translation_key,source_value
 key1,Value 1`;
@@ -67,6 +67,58 @@ describe('csv-writer', () => {
       expect(row.translation_context).toContain('noun');
       expect(row.translation_context).toContain('Anderer Wert');
     });
+
+    it('should include the description from source metadata', () => {
+      const missing: MissingTranslation = {
+        key: 'test.key',
+        sourceLanguage: 'en',
+        targetLanguage: 'de',
+        sourceValue: 'Open',
+        contexts: [],
+        translationContexts: [],
+        metadata: { description: 'Verb on a button' },
+      };
+
+      expect(toCsvRow(missing).description).toBe('Verb on a button');
+      expect(toCsvRow({ ...missing, metadata: undefined }).description).toBe('');
+    });
+
+    it('should include plural category, max length and message context', () => {
+      const missing: MissingTranslation = {
+        key: 'files[one]',
+        sourceLanguage: 'en',
+        targetLanguage: 'de',
+        sourceValue: '%d file',
+        contexts: [],
+        translationContexts: [],
+        metadata: { pluralCategory: 'one', maxLength: 12, context: 'file list' },
+      };
+
+      expect(toCsvRow(missing)).toMatchObject({
+        plural_category: 'one',
+        max_length: '12',
+        message_context: 'file list',
+      });
+      expect(toCsvRow({ ...missing, metadata: undefined })).toMatchObject({
+        plural_category: '',
+        max_length: '',
+        message_context: '',
+      });
+    });
+
+    it('should include why the key was exported', () => {
+      const missing: MissingTranslation = {
+        key: 'auth.login',
+        sourceLanguage: 'en',
+        targetLanguage: 'de',
+        sourceValue: 'Sign in',
+        contexts: [],
+        translationContexts: [],
+      };
+
+      expect(toCsvRow(missing).reason).toBe('missing');
+      expect(toCsvRow({ ...missing, reason: 'stale' }).reason).toBe('stale');
+    });
   });
 
   describe('writeCsv', () => {
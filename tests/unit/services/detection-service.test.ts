@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import {
+  applyDetection,
+  detectLanguages,
+  detectTranslations,
+  isLanguageCode,
+  pickCandidate,
+} from '../../../src/services/detection-service';
+
+describe('detection-service', () => {
+  let repo = '';
+
+  beforeEach(async () => {
+    repo = await mkdtemp(join(tmpdir(), 'curlydots-detect-'));
+  });
+
+  afterEach(async () => {
+    if (repo) {
+      await rm(repo, { recursive: true, force: true });
+    }
+  });
+
+  async function write(path: string, content: string): Promise<void> {
+    await mkdir(dirname(join(repo, path)), { recursive: true });
+    await writeFile(join(repo, path), content, 'utf-8');
+  }
+
+  describe('isLanguageCode', () => {
+    it('accepts language codes with script and region', () => {
+      for (const code of ['de', 'pt-BR', 'pt_br', 'zh-Hans', 'zh_Hant_TW', 'es-419', 'fil']) {
+        expect(isLanguageCode(code)).toBe(true);
+      }
+    });
+
+    it('rejects other names', () => {
+      for (const name of ['src', 'js', 'app', 'es-module', 'index', 'EN']) {
+        expect(isLanguageCode(name)).toBe(false);
+      }
+    });
+  });
+
+  describe('detectTranslations', () => {
+    it('detects CommonJS and ES module directories', async () => {
+      await write('src/translations/en/generic.js', "module.exports = { hi: 'Hi' };\n");
+      await write('src/translations/de/generic.js', "module.exports = { hi: 'Hallo' };\n");
+      await write('app/i18n/en/common.ts', "export default { hi: 'Hi' };\n");
+
+      const candidates = await detectTranslations(repo);
+      expect(candidates[0]).toEqual({
+        parser: 'node-module',
+        translationsDir: 'src/translations',
+        layout: '',
+        languages: ['de', 'en'],
+        confidence: 0.75,
+      });
+      expect(candidates[1]).toMatchObject({ parser: 'es-module', translationsDir: 'app/i18n' });
+    });
+
+    it('detects JSON namespaces and JSON files per language', async () => {
+      await write('public/locales/en/common.json', '{}');
+      await write('public/locales/fr/common.json', '{}');
+      await write('lang/en.json', '{}');
+      await write('lang/de.json', '{}');
+
+      const candidates = await detectTranslations(repo);
+      expect(candidates.map((c) => [c.translationsDir, c.parser, c.layout])).toEqual([
+        ['lang', 'json', '{lang}.json'],
+        ['public/locales', 'json', ''],
+      ]);
+    });
+
+    it('detects YAML files with the language as root key', async () => {
+      await write('config/locales/en.yml', 'en:\n  hello: Hello\n');
+      await write('config/locales/de.yml', 'de:\n  hello: Hallo\n');
+
+      const [candidate] = await detectTranslations(repo);
+      expect(candidate).toMatchObject({
+        parser: 'yaml',
+        translationsDir: 'config/locales',
+        languages: ['de', 'en'],
+        confidence: 0.95,
+      });
+    });
+
+    it('detects Laravel PHP directories with JSON files', async () => {
+      await write('lang/en/auth.php', "<?php\n\nreturn ['failed' => 'Failed'];\n");
+      await write('lang/de/auth.php', "<?php\n\nreturn ['failed' => 'Fehlgeschlagen'];\n");
+      await write('lang/en.json', '{}');
+      await write('lang/de.json', '{}');
+
+      expect(await detectTranslations(repo)).toEqual([
+        {
+          parser: 'laravel',
+          translationsDir: 'lang',
+          layout: '',
+          languages: ['de', 'en'],
+          confidence: 0.95,
+        },
+      ]);
+    });
+
+    it('detects gettext catalogs', async () => {
+      await write('locale/de/LC_MESSAGES/django.po', 'msgid ""\nmsgstr ""\n');
+      await write('locale/fr/LC_MESSAGES/django.po', 'msgid ""\nmsgstr ""\n');
+
+      const [candidate] = await detectTranslations(repo);
+      expect(candidate).toMatchObject({
+        parser: 'gettext',
+        translationsDir: 'locale',
+        languages: ['de', 'fr'],
+      });
+    });
+
+    it('detects ARB files and Android resources', async () => {
+      await write('lib/l10n/app_en.arb', '{}');
+      await write('lib/l10n/app_pt_BR.arb', '{}');
+      await write('android/app/src/main/res/values/strings.xml', '<resources></resources>');
+      await write('android/app/src/main/res/values-de/strings.xml', '<resources></resources>');
+      await write('android/app/src/main/res/values-night/colors.xml', '<resources></resources>');
+
+      const candidates = await detectTranslations(repo);
+      expect(candidates.map((c) => [c.parser, c.translationsDir, c.languages])).toEqual([
+        ['arb', 'lib/l10n', ['en', 'pt-BR']],
+        ['android', 'android/app/src/main/res', ['de', 'en']],
+      ]);
+    });
+
+    it('detects Java resource bundles with a default file', async () => {
+      await write('src/main/resources/messages.properties', 'greeting=Hello\n');
+      await write('src/main/resources/messages_de.properties', 'greeting=Hallo\n');
+      await write('src/main/resources/messages_pt_BR.properties', 'greeting=Olá\n');
+      await write('src/main/resources/application.properties', 'server.port=8080\n');
+
+      expect(await detectTranslations(repo)).toEqual([
+        {
+          parser: 'properties',
+          translationsDir: 'src/main/resources',
+          layout: '',
+          languages: ['de', 'en', 'pt-BR'],
+          confidence: 0.9,
+        },
+      ]);
+    });
+
+    it('skips node_modules and hidden directories', async () => {
+      await write('node_modules/pkg/locales/en.json', '{}');
+      await write('.cache/locales/en.json', '{}');
+
+      expect(await detectTranslations(repo)).toEqual([]);
+    });
+  });
+
+  describe('pickCandidate', () => {
+    const candidate = {
+      parser: 'json',
+      translationsDir: 'locales',
+      layout: '',
+      languages: ['de', 'en'],
+    };
+
+    it('picks a clear favorite', () => {
+      const best = { ...candidate, confidence: 0.8 };
+      expect(pickCandidate([best, { ...candidate, confidence: 0.4 }])).toBe(best);
+    });
+
+    it('refuses close or unlikely candidates', () => {
+      expect(pickCandidate([])).toBeUndefined();
+      expect(pickCandidate([{ ...candidate, confidence: 0.4 }])).toBeUndefined();
+      expect(
+        pickCandidate([
+          { ...candidate, confidence: 0.8 },
+          { ...candidate, confidence: 0.7 },
+        ]),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('applyDetection', () => {
+    it('fills in the translations directory, parser and layout', async () => {
+      await write('locales/en.json', '{}');
+      await write('locales/de.json', '{}');
+
+      expect(
+        await applyDetection(repo, { translationsDir: '', parser: '', layout: '' }),
+      ).toMatchObject({ translationsDir: 'locales', parser: 'json', layout: '{lang}.json' });
+    });
+
+    it('narrows candidates to the given parser', async () => {
+      await write('locales/en.json', '{}');
+      await write('locales/de.json', '{}');
+      await write('translations/en/generic.js', 'module.exports = {};\n');
+      await write('translations/de/generic.js', 'module.exports = {};\n');
+
+      await expect(
+        applyDetection(repo, { translationsDir: '', parser: '', layout: '' }),
+      ).rejects.toThrow('Several translation layouts detected');
+      expect(
+        await applyDetection(repo, { translationsDir: '', parser: 'json', layout: '' }),
+      ).toMatchObject({ translationsDir: 'locales', parser: 'json' });
+      expect(
+        await applyDetection(repo, { translationsDir: 'translations/', parser: '', layout: '' }),
+      ).toMatchObject({ translationsDir: 'translations/', parser: 'node-module', layout: '' });
+    });
+
+    it('keeps the given options when nothing is detected', async () => {
+      expect(
+        await applyDetection(repo, { translationsDir: 'src', parser: '', layout: '' }),
+      ).toEqual({ translationsDir: 'src', parser: '', layout: '' });
+      await expect(
+        applyDetection(repo, { translationsDir: '', parser: '', layout: '' }),
+      ).rejects.toThrow('No translation files detected');
+    });
+  });
+
+  describe('detectLanguages', () => {
+    it('returns the languages of the named translations directory', async () => {
+      await write('locales/en.json', '{}');
+      await write('locales/de.json', '{}');
+      await write('locales/fr.json', '{}');
+
+      expect(
+        await detectLanguages(repo, { translationsDir: './locales/', parser: '', layout: '' }),
+      ).toEqual(['de', 'en', 'fr']);
+      await expect(
+        detectLanguages(repo, { translationsDir: 'locales', parser: 'yaml', layout: '' }),
+      ).rejects.toThrow('No languages detected in locales; pass them with --target');
+    });
+  });
+});
@@ -3,12 +3,16 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
+import { gettextParser } from '../../../src/parsers/gettext';
+import { jsonParser } from '../../../src/parsers/json';
 import { nodeModuleParser } from '../../../src/parsers/node-module';
+import { xcstringsParser } from '../../../src/parsers/xcstrings';
 // Import will be created
 import { runImport } from '../../../src/services/import-service';
+import { hashSourceValue, readSourceLock } from '../../../src/services/source-lock';
 
 const TEMP_PATH = join(import.meta.dir, '../../fixtures/temp-import-service');
 
@@ -155,5 +159,137 @@ auth.login,Login,en,de,[],[],"Anmelden"`;
       expect(result.rowsSkipped).toBe(1);
       expect(result.targetLanguage).toBe('de');
     });
+
+    it('should write into a single file per language when a layout is given', async () => {
+      const csvPath = join(TEMP_PATH, 'translations.csv');
+      const translationsDir = join(TEMP_PATH, 'locales');
+      const csvContent = `translation_key,source_value,source_language,target_language,code_context,translation_context,translated_value
+title,Title,en,de,[],[],"Titel"
+nav.home,Home,en,de,[],[],"Start"`;
+
+      await writeFile(csvPath, csvContent, 'utf-8');
+
+      const result = await runImport(csvPath, translationsDir, jsonParser, '{lang}.json');
+
+      expect(result.filesCreated).toBe(1);
+      expect(result.keysImported).toBe(2);
+      expect(result.errors.length).toBe(0);
+
+      const exported = await jsonParser.export(join(translationsDir, 'de.json'));
+      expect(exported.get('title')).toBe('Titel');
+      expect(exported.get('nav.home')).toBe('Start');
+    });
+
+    it('should record the source values in the lockfile', async () => {
+      const csvPath = join(TEMP_PATH, 'translations.csv');
+      const translationsDir = join(TEMP_PATH, 'translations');
+      const csvContent = `translation_key,source_value,source_language,target_language,code_context,translation_context,translated_value
+generic.welcome,Welcome,en,de,[],[],"Willkommen"
+generic.goodbye,Goodbye,en,de,[],[],""`;
+
+      await writeFile(csvPath, csvContent, 'utf-8');
+
+      await runImport(csvPath, translationsDir, nodeModuleParser);
+
+      const lock = await readSourceLock(translationsDir);
+      expect(lock.languages.de).toEqual({
+        sourceLanguage: 'en',
+        keys: { 'generic.welcome': hashSourceValue('Welcome') },
+      });
+    });
+
+    it('should keep the lockfile next to a single-file catalog', async () => {
+      const csvPath = join(TEMP_PATH, 'translations.csv');
+      const catalogPath = join(TEMP_PATH, 'Localizable.xcstrings');
+      await writeFile(
+        catalogPath,
+        JSON.stringify({ sourceLanguage: 'en', strings: { Cancel: {} }, version: '1.0' }),
+        'utf-8',
+      );
+      await writeFile(
+        csvPath,
+        `translation_key,source_value,source_language,target_language,code_context,translation_context,translated_value
+Cancel,Cancel,en,de,[],[],"Abbrechen"`,
+        'utf-8',
+      );
+
+      const result = await runImport(csvPath, catalogPath, xcstringsParser);
+
+      expect(result.keysImported).toBe(1);
+      expect(JSON.parse(await readFile(catalogPath, 'utf-8')).strings.Cancel).toBeDefined();
+      expect((await readSourceLock(catalogPath)).languages.de).toEqual({
+        sourceLanguage: 'en',
+        keys: { Cancel: hashSourceValue('Cancel') },
+      });
+      expect(JSON.parse(await readFile(join(TEMP_PATH, 'curlydots.lock.json'), 'utf-8'))).toEqual(
+        await readSourceLock(catalogPath),
+      );
+    });
+
+    it('should append new gettext plural entries from the CSV source values', async () => {
+      const csvPath = join(TEMP_PATH, 'translations.csv');
+      const catalogPath = join(TEMP_PATH, 'de.po');
+      await writeFile(catalogPath, 'msgid "Welcome"\nmsgstr "Willkommen"\n', 'utf-8');
+      await writeFile(
+        csvPath,
+        `translation_key,source_value,source_language,target_language,code_context,translation_context,translated_value
+One file[0],One file,en,de,[],[],"Eine Datei"
+One file[1],%d files,en,de,[],[],"%d Dateien"`,
+        'utf-8',
+      );
+
+      const result = await runImport(csvPath, TEMP_PATH, gettextParser, '{lang}.po');
+
+      expect(result).toMatchObject({ keysImported: 2, errors: [] });
+      expect(await readFile(catalogPath, 'utf-8')).toContain(
+        'msgid "One file"\nmsgid_plural "%d files"\nmsgstr[0] "Eine Datei"\nmsgstr[1] "%d Dateien"',
+      );
+    });
+
+    it('should report keys the parser could not write and keep them out of the lockfile', async () => {
+      const csvPath = join(TEMP_PATH, 'translations.csv');
+      const catalogPath = join(TEMP_PATH, 'de.po');
+      await writeFile(catalogPath, 'msgid "Welcome"\nmsgstr "Willkommen"\n', 'utf-8');
+      await writeFile(
+        csvPath,
+        `translation_key,source_value,source_language,target_language,code_context,translation_context,translated_value
+One file[0],One file,en,de,[],[],"Eine Datei"
+Goodbye,Goodbye,en,de,[],[],"Tschüss"`,
+        'utf-8',
+      );
+
+      const result = await runImport(csvPath, TEMP_PATH, gettextParser, '{lang}.po');
+
+      expect(result.keysImported).toBe(1);
+      expect(result.errors.map((error) => error.translationKey)).toEqual(['One file[0]']);
+      expect((await readSourceLock(TEMP_PATH)).languages.de?.keys).toEqual({
+        Goodbye: hashSourceValue('Goodbye'),
+      });
+    });
+
+    it('should import each target language of a multi-language CSV', async () => {
+      const csvPath = join(TEMP_PATH, 'translations.csv');
+      const translationsDir = join(TEMP_PATH, 'locales');
+      const csvContent = `translation_key,source_value,source_language,target_language,code_context,translation_context,translated_value
+title,Title,en,de,[],[],"Titel"
+title,Title,en,fr,[],[],"Titre"
+nav.home,Home,en,fr,[],[],"Accueil"`;
+
+      await writeFile(csvPath, csvContent, 'utf-8');
+
+      const result = await runImport(csvPath, translationsDir, jsonParser, '{lang}.json');
+
+      expect(result).toMatchObject({ targetLanguage: 'de, fr', filesCreated: 2, keysImported: 3 });
+      expect(await jsonParser.export(join(translationsDir, 'de.json'))).toEqual(
+        new Map([['title', 'Titel']]),
+      );
+      expect(await jsonParser.export(join(translationsDir, 'fr.json'))).toEqual(
+        new Map([
+          ['title', 'Titre'],
+          ['nav.home', 'Accueil'],
+        ]),
+      );
+      expect(Object.keys((await readSourceLock(translationsDir)).languages)).toEqual(['de', 'fr']);
+    });
   });
 });
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { jsonParser } from '../../../src/parsers/json';
+import {
+  extractPlaceholders,
+  isIcuMessage,
+  lintTranslation,
+  parseIcuArguments,
+  runLint,
+} from '../../../src/services/lint-service';
+
+describe('lint-service', () => {
+  describe('extractPlaceholders', () => {
+    it('finds placeholders of common formats', () => {
+      expect(
+        extractPlaceholders(
+          'Hi {name}, {{ count }} new, %{user} and %<total>d, %s of %1$s at %.2f%% %@',
+        ),
+      ).toEqual(['{name}', '{{count}}', '%{user}', '%<total>d', '%s', '%1$s', '%.2f', '%@']);
+    });
+
+    it('does not mistake percentages for placeholders', () => {
+      expect(extractPlaceholders('50% off, 100 % sure, 20%%')).toEqual([]);
+    });
+  });
+
+  describe('parseIcuArguments', () => {
+    it('returns the argument names of nested messages', () => {
+      const names = parseIcuArguments(
+        '{gender, select, female {{name} has # {count, plural, one {file} other {files}}} other {{name}}}',
+      );
+
+      expect([...names].sort()).toEqual(['count', 'gender', 'name']);
+    });
+
+    it('accepts quoted braces, exact cases, offsets and styles', () => {
+      expect(() =>
+        parseIcuArguments(
+          "'{'literal'}' {n, plural, offset:1 =0 {none} other {# more}} {p, number, ::currency/EUR}",
+        ),
+      ).not.toThrow();
+    });
+
+    it('rejects invalid messages', () => {
+      expect(() => parseIcuArguments('{count, plural, one {file}}')).toThrow(
+        'Missing "other" case in plural',
+      );
+      expect(() => parseIcuArguments('{count, plural, one {file} other {files}')).toThrow(
+        'Expected "}" to close argument count',
+      );
+      expect(() => parseIcuArguments('{count, plural, one file}')).toThrow(
+        'Expected "{" after plural case one',
+      );
+      expect(() => parseIcuArguments('Done}')).toThrow('Unexpected "}"');
+    });
+  });
+
+  describe('isIcuMessage', () => {
+    it('detects arguments with a type', () => {
+      expect(isIcuMessage('{count, plural, other {# files}}')).toBe(true);
+      expect(isIcuMessage('Hello {name}')).toBe(false);
+    });
+  });
+
+  describe('lintTranslation', () => {
+    it('accepts consistent translations', () => {
+      expect(
+        lintTranslation('Hello {name}, <b>welcome</b>!', 'Hallo {name}, <b>willkommen</b>!'),
+      ).toEqual([]);
+      expect(lintTranslation('Hello', '')).toEqual([]);
+    });
+
+    it('reports missing, unexpected and repeated placeholders', () => {
+      expect(lintTranslation('{{count}} files by %s', '{{anzahl}} Dateien von %s und %s')).toEqual([
+        { rule: 'placeholders', message: 'Missing placeholder {{count}}' },
+        { rule: 'placeholders', message: 'Placeholder %s appears 2 times, expected 1' },
+        { rule: 'placeholders', message: 'Unexpected placeholder {{anzahl}}' },
+      ]);
+    });
+
+    it('lets plural forms other than "other" leave out placeholders', () => {
+      expect(lintTranslation('{{count}} file', 'Eine Datei', { pluralCategory: 'one' })).toEqual(
+        [],
+      );
+      expect(lintTranslation('{{count}} files', 'Dateien', { pluralCategory: 'other' })).toEqual([
+        { rule: 'placeholders', message: 'Missing placeholder {{count}}' },
+      ]);
+    });
+
+    it('reports missing and misnested tags', () => {
+      expect(lintTranslation('<b>Save</b> now<br>', '<b>Jetzt</b> speichern')).toEqual([
+        { rule: 'markup', message: 'Missing tag <br/>' },
+      ]);
+      expect(lintTranslation('<a href="/x"><b>Go</b></a>', '<a href="/y"><b>Los</a></b>')).toEqual([
+        { rule: 'markup', message: 'Closing tag </a> does not match the open tags' },
+      ]);
+    });
+
+    it('reports invalid ICU messages and compares their arguments', () => {
+      const source = '{count, plural, one {# file} other {# files}}';
+
+      expect(
+        lintTranslation(source, '{count, plural, one {# Datei} few {# Dateien} other {# Dateien}}'),
+      ).toEqual([]);
+      expect(lintTranslation(source, '{count, plural, one {# Datei}}')).toEqual([
+        { rule: 'icu', message: 'Invalid ICU message: Missing "other" case in plural' },
+      ]);
+      expect(lintTranslation(source, '{anzahl, plural, other {# Dateien}}')).toEqual([
+        { rule: 'placeholders', message: 'Missing placeholder {count}' },
+        { rule: 'placeholders', message: 'Unexpected placeholder {anzahl}' },
+      ]);
+    });
+
+    it('reports whitespace and line break differences', () => {
+      expect(lintTranslation(' Name: ', 'Name:')).toEqual([
+        { rule: 'whitespace', message: 'Leading whitespace "", expected " "' },
+        { rule: 'whitespace', message: 'Trailing whitespace "", expected " "' },
+      ]);
+      expect(lintTranslation('First\nSecond', 'Erste Zweite')).toEqual([
+        { rule: 'newlines', message: '0 line breaks, expected 1' },
+      ]);
+    });
+  });
+
+  describe('runLint', () => {
+    let translationsDir: string;
+
+    beforeEach(async () => {
+      translationsDir = await mkdtemp(join(tmpdir(), 'curlydots-lint-'));
+      await writeFile(
+        join(translationsDir, 'en.json'),
+        JSON.stringify({ greeting: 'Hello {name}', save: '<b>Save</b>', title: 'Users' }),
+      );
+      await writeFile(
+        join(translationsDir, 'de.json'),
+        JSON.stringify({ greeting: 'Hallo', save: '<b>Speichern', title: 'Benutzer', old: '{x}' }),
+      );
+    });
+
+    afterEach(async () => {
+      await rm(translationsDir, { recursive: true, force: true });
+    });
+
+    it('lints target keys that exist in the source', async () => {
+      const result = await runLint(translationsDir, 'en', ['de'], jsonParser, {
+        layout: '{lang}.json',
+      });
+
+      expect(result).toEqual({
+        sourceLanguage: 'en',
+        targetLanguages: ['de'],
+        keysChecked: 3,
+        issues: [
+          {
+            language: 'de',
+            key: 'greeting',
+            rule: 'placeholders',
+            message: 'Missing placeholder {name}',
+          },
+          { language: 'de', key: 'save', rule: 'markup', message: 'Missing tag </b>' },
+        ],
+      });
+    });
+  });
+});
@@ -166,5 +166,67 @@ describe('prompts', () => {
       expect(prompt).toContain('Benutzer');
       expect(prompt).toContain('Einstellungen');
     });
+
+    it('should include translator notes when provided', () => {
+      const request: TranslationRequest = {
+        sourceValue: 'Open',
+        sourceLanguage: 'en',
+        targetLanguage: 'de',
+        codeUsages: [],
+        translationExamples: [],
+        description: 'Meaning: verb, button that opens a <dialog>',
+      };
+
+      const prompt = buildTranslationPrompt(request);
+
+      expect(prompt).toContain(
+        '<translator_notes>Meaning: verb, button that opens a &lt;dialog&gt;</translator_notes>',
+      );
+    });
+
+    it('should omit translator notes when there are none', () => {
+      const request: TranslationRequest = {
+        sourceValue: 'Open',
+        sourceLanguage: 'en',
+        targetLanguage: 'de',
+        codeUsages: [],
+        translationExamples: [],
+      };
+
+      const prompt = buildTranslationPrompt(request);
+
+      expect(prompt).not.toContain('<translator_notes>');
+    });
+
+    it('should include message details when provided', () => {
+      const request: TranslationRequest = {
+        sourceValue: '%d file',
+        sourceLanguage: 'en',
+        targetLanguage: 'pl',
+        codeUsages: [],
+        translationExamples: [],
+        pluralCategory: 'few',
+        maxLength: 12,
+        messageContext: 'file list & toolbar',
+      };
+
+      const prompt = buildTranslationPrompt(request);
+
+      expect(prompt).toContain('<message_context>file list &amp; toolbar</message_context>');
+      expect(prompt).toContain('<plural_category>few</plural_category>');
+      expect(prompt).toContain('<max_length>12</max_length>');
+    });
+
+    it('should omit message details when there are none', () => {
+      const request: TranslationRequest = {
+        sourceValue: 'Open',
+        sourceLanguage: 'en',
+        targetLanguage: 'de',
+        codeUsages: [],
+        translationExamples: [],
+      };
+
+      expect(buildTranslationPrompt(request)).not.toContain('<message_details>');
+    });
   });
 });
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'bun:test';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { nodeModuleParser } from '../../../src/parsers/node-module';
+import { runConformance } from '../../../src/services/parser-conformance';
+import type { Parser } from '../../../src/types';
+
+const FIXTURE_DIR = join(import.meta.dir, '../../fixtures/sample-repo/translations');
+
+/**
+ * Parser keeping translations in memory, dropping values the predicate rejects
+ */
+function createMemoryParser(keep: (key: string, value: string) => boolean): Parser {
+  const languages = new Map<string, Map<string, string>>();
+  return {
+    name: 'memory',
+    async export(langDir) {
+      if (langDir.endsWith('/en')) {
+        return new Map([['generic.welcome', 'Welcome']]);
+      }
+      return new Map(languages.get(langDir) ?? []);
+    },
+    async import(langDir, translations) {
+      const stored = languages.get(langDir) ?? new Map<string, string>();
+      const created = !languages.has(langDir);
+      for (const [key, value] of translations) {
+        if (keep(key, value)) {
+          stored.set(key, value);
+        }
+      }
+      languages.set(langDir, stored);
+      return {
+        filesCreated: created ? 1 : 0,
+        filesModified: created ? 0 : 1,
+        keysWritten: translations.size,
+      };
+    },
+  };
+}
+
+describe('parser-conformance', () => {
+  it('passes every check for the node-module parser', async () => {
+    const before = await readFile(join(FIXTURE_DIR, 'en', 'generic.js'), 'utf-8');
+
+    const report = await runConformance(nodeModuleParser, FIXTURE_DIR, { sourceLanguage: 'en' });
+
+    expect(report.targetLanguage).toBe('fr');
+    expect(report.checks.filter((check) => !check.passed)).toEqual([]);
+    expect(report.checks).toHaveLength(7);
+    // The fixture itself is left alone
+    expect(await readFile(join(FIXTURE_DIR, 'en', 'generic.js'), 'utf-8')).toBe(before);
+  });
+
+  it('stops after a failing export', async () => {
+    const report = await runConformance(nodeModuleParser, FIXTURE_DIR, { sourceLanguage: 'xx' });
+
+    expect(report.checks).toEqual([
+      {
+        name: 'export reads the fixture',
+        passed: false,
+        details: ['source language not found: xx'],
+      },
+    ]);
+  });
+
+  it('reports values that do not round-trip', async () => {
+    const parser = createMemoryParser((_key, value) => /^[\x20-\x7e]*$/.test(value));
+
+    const report = await runConformance(parser, FIXTURE_DIR, { sourceLanguage: 'en' });
+    const failed = report.checks.filter((check) => !check.passed);
+
+    expect(failed.map((check) => check.name)).toEqual([
+      'import creates a new language that exports the same values',
+      'unicode values round-trip',
+    ]);
+    // Nothing is written to disk
+    expect(failed[0]?.details).toEqual(['nothing written to fr']);
+    expect(failed[1]?.details).toContain("missing key 'generic.conformanceUnicode0'");
+    expect(failed[1]?.details.at(-1)).toMatch(/^\.\.\. and \d+ more$/);
+  });
+
+  it('reports parsers that throw', async () => {
+    const parser = createMemoryParser(() => true);
+    parser.import = async () => {
+      throw new Error('read-only');
+    };
+
+    const report = await runConformance(parser, FIXTURE_DIR, { sourceLanguage: 'en' });
+
+    expect(report.checks[1]).toEqual({
+      name: 'importing exported values leaves files unchanged',
+      passed: false,
+      details: ['threw: read-only'],
+    });
+  });
+});
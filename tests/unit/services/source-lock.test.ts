@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  SOURCE_LOCK_FILE,
+  baselineSourceHashes,
+  createSourceLock,
+  dropSourceHashes,
+  findStaleKeys,
+  hashSourceValue,
+  readSourceLock,
+  recordSourceHashes,
+  writeSourceLock,
+} from '../../../src/services/source-lock';
+
+describe('source-lock', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'curlydots-source-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readSourceLock / writeSourceLock', () => {
+    it('returns an empty lock when the file does not exist', async () => {
+      expect(await readSourceLock(tempDir)).toEqual(createSourceLock());
+    });
+
+    it('writes languages and keys sorted and reads them back', async () => {
+      const lock = createSourceLock();
+      recordSourceHashes(
+        lock,
+        'en',
+        'fr',
+        new Map([
+          ['b', 'B'],
+          ['a', 'A'],
+        ]),
+      );
+      recordSourceHashes(lock, 'en', 'de', new Map([['a', 'A']]));
+
+      await writeSourceLock(tempDir, lock);
+
+      const content = await readFile(join(tempDir, SOURCE_LOCK_FILE), 'utf-8');
+      expect(content).toBe(
+        `${JSON.stringify(
+          {
+            version: 1,
+            languages: {
+              de: { sourceLanguage: 'en', keys: { a: hashSourceValue('A') } },
+              fr: {
+                sourceLanguage: 'en',
+                keys: { a: hashSourceValue('A'), b: hashSourceValue('B') },
+              },
+            },
+          },
+          null,
+          2,
+        )}\n`,
+      );
+      expect(await readSourceLock(tempDir)).toEqual(lock);
+    });
+
+    it('rejects invalid lockfiles', async () => {
+      await writeFile(join(tempDir, SOURCE_LOCK_FILE), '{"version": 2, "languages": {}}');
+
+      await expect(readSourceLock(tempDir)).rejects.toThrow(`Invalid ${tempDir}`);
+    });
+  });
+
+  describe('recordSourceHashes', () => {
+    it('drops hashes recorded against another source language', () => {
+      const lock = createSourceLock();
+      recordSourceHashes(lock, 'en', 'de', new Map([['a', 'A']]));
+
+      recordSourceHashes(lock, 'fr', 'de', new Map([['b', 'Bé']]));
+
+      expect(lock.languages.de).toEqual({
+        sourceLanguage: 'fr',
+        keys: { b: hashSourceValue('Bé') },
+      });
+    });
+  });
+
+  describe('findStaleKeys', () => {
+    const source = new Map([
+      ['changed', 'Sign in now'],
+      ['same', 'Log out'],
+      ['untracked', 'Help'],
+      ['missing', 'Settings'],
+    ]);
+    const target = new Map([
+      ['changed', 'Anmelden'],
+      ['same', 'Abmelden'],
+      ['untracked', 'Hilfe'],
+    ]);
+
+    it('finds translated keys whose source value changed', () => {
+      const lock = createSourceLock();
+      recordSourceHashes(
+        lock,
+        'en',
+        'de',
+        new Map([
+          ['changed', 'Sign in'],
+          ['same', 'Log out'],
+          ['missing', 'Preferences'],
+        ]),
+      );
+
+      expect(findStaleKeys(lock, 'en', 'de', source, target)).toEqual(new Set(['changed']));
+      expect(findStaleKeys(lock, 'fr', 'de', source, target).size).toBe(0);
+      expect(findStaleKeys(lock, 'en', 'es', source, target).size).toBe(0);
+    });
+  });
+
+  describe('baselineSourceHashes', () => {
+    it('records translated keys without a hash and keeps existing ones', () => {
+      const lock = createSourceLock();
+      recordSourceHashes(lock, 'en', 'de', new Map([['a', 'Old A']]));
+
+      const recorded = baselineSourceHashes(
+        lock,
+        'en',
+        'de',
+        new Map([
+          ['a', 'A'],
+          ['b', 'B'],
+          ['c', 'C'],
+        ]),
+        new Map([
+          ['a', 'A (de)'],
+          ['b', 'B (de)'],
+        ]),
+      );
+
+      expect(recorded).toBe(1);
+      expect(lock.languages.de?.keys).toEqual({
+        a: hashSourceValue('Old A'),
+        b: hashSourceValue('B'),
+      });
+    });
+  });
+
+  describe('dropSourceHashes', () => {
+    it('drops the hashes of the given keys', () => {
+      const lock = createSourceLock();
+      recordSourceHashes(
+        lock,
+        'en',
+        'de',
+        new Map([
+          ['a', 'A'],
+          ['b', 'B'],
+        ]),
+      );
+
+      expect(dropSourceHashes(lock, 'de', ['a', 'unknown'])).toBe(true);
+      expect(lock.languages.de?.keys).toEqual({ b: hashSourceValue('B') });
+      expect(dropSourceHashes(lock, 'de', ['unknown'])).toBe(false);
+      expect(dropSourceHashes(lock, 'fr', ['b'])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'bun:test';
+import { DEFAULT_UNTRANSLATED_RULES } from '../../../src/config/parser-config';
+import { findUntranslatedKeys, isUntranslated } from '../../../src/services/untranslated';
+
+describe('untranslated', () => {
+  const rules = { ...DEFAULT_UNTRANSLATED_RULES, ignore: ['brand.name', 'OK'] };
+
+  describe('isUntranslated', () => {
+    it('flags empty values unless the source is empty too', () => {
+      expect(isUntranslated('a', 'Save', '', rules)).toBe(true);
+      expect(isUntranslated('a', 'Save', '  ', rules)).toBe(true);
+      expect(isUntranslated('a', '', '', rules)).toBe(false);
+      expect(isUntranslated('a', 'Save', '', { ...rules, empty: false })).toBe(false);
+    });
+
+    it('flags values containing a marker', () => {
+      expect(isUntranslated('a', 'Save', 'TODO Speichern', rules)).toBe(true);
+      expect(isUntranslated('a', 'Save', 'FIXME', rules)).toBe(true);
+      expect(isUntranslated('a', 'Save', 'Speichern', rules)).toBe(false);
+      expect(isUntranslated('a', 'Save', '[de] Save', { ...rules, markers: ['[de]'] })).toBe(true);
+    });
+
+    it('matches markers as whole words only', () => {
+      expect(isUntranslated('a', 'Task list', 'TODO-Liste', rules)).toBe(false);
+      expect(isUntranslated('a', 'Bugs', 'FIXMEs', rules)).toBe(false);
+      expect(isUntranslated('a', 'Save', 'Speichern (TODO)', rules)).toBe(true);
+      expect(isUntranslated('a', 'Save', '[de]Save', { ...rules, markers: ['[de]'] })).toBe(true);
+    });
+
+    it('ignores markers that also appear in the source value', () => {
+      expect(isUntranslated('a', 'TODO list', 'TODO-Liste', rules)).toBe(false);
+      expect(isUntranslated('a', 'TODO list', 'TODO Liste', rules)).toBe(false);
+      expect(isUntranslated('a', 'TODO list', 'FIXME', rules)).toBe(true);
+    });
+
+    it('flags copies of the source value with text to translate', () => {
+      expect(isUntranslated('a', 'Settings', 'Settings', rules)).toBe(true);
+      expect(isUntranslated('a', '{count} / {total}', '{count} / {total}', rules)).toBe(false);
+      expect(isUntranslated('a', '100%', '100%', rules)).toBe(false);
+      expect(isUntranslated('a', 'Settings', 'Settings', { ...rules, identical: false })).toBe(
+        false,
+      );
+    });
+
+    it('skips copies whose key or source value is on the ignore list', () => {
+      expect(isUntranslated('brand.name', 'Curlydots', 'Curlydots', rules)).toBe(false);
+      expect(isUntranslated('dialog.confirm', 'OK', 'OK', rules)).toBe(false);
+      expect(isUntranslated('dialog.confirm', 'OK', '', rules)).toBe(true);
+    });
+  });
+
+  describe('findUntranslatedKeys', () => {
+    it('returns untranslated keys present in both languages', () => {
+      const source = new Map([
+        ['title', 'Dashboard'],
+        ['save', 'Save'],
+        ['help', 'Help'],
+        ['missing', 'Missing'],
+      ]);
+      const target = new Map([
+        ['title', 'Dashboard'],
+        ['save', 'Speichern'],
+        ['help', ''],
+      ]);
+
+      expect(findUntranslatedKeys(source, target, rules)).toEqual(new Set(['title', 'help']));
+    });
+  });
+});